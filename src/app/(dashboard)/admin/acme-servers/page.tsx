@@ -0,0 +1,165 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { Server, RefreshCw, ShieldAlert } from 'lucide-react'
+import type { AcmeServer } from '@/lib/types'
+
+function formatDateTime(value: string | null): string {
+    if (!value) return '-'
+    return new Date(value).toLocaleString('id-ID', {
+        year: 'numeric',
+        month: 'short',
+        day: 'numeric',
+        hour: '2-digit',
+        minute: '2-digit'
+    })
+}
+
+export default function AcmeServersPage() {
+    const [servers, setServers] = useState<AcmeServer[]>([])
+    const [loading, setLoading] = useState(true)
+    const [refreshing, setRefreshing] = useState(false)
+    const [accessDenied, setAccessDenied] = useState(false)
+    const [updatingId, setUpdatingId] = useState<string | null>(null)
+
+    const fetchServers = useCallback(async (forceRefresh = false) => {
+        const response = await fetch(`/api/admin/acme-servers${forceRefresh ? '?refresh=1' : ''}`)
+        if (response.status === 401 || response.status === 403) {
+            setAccessDenied(true)
+            setLoading(false)
+            return
+        }
+
+        const result = await response.json()
+        if (!response.ok) {
+            console.error('Error fetching ACME servers:', result.error)
+        }
+        setServers(result.data || [])
+        setLoading(false)
+    }, [])
+
+    useEffect(() => {
+        fetchServers()
+    }, [fetchServers])
+
+    const handleRefresh = async () => {
+        setRefreshing(true)
+        try {
+            await fetchServers(true)
+        } finally {
+            setRefreshing(false)
+        }
+    }
+
+    const handleToggle = async (server: AcmeServer) => {
+        setUpdatingId(server.id)
+        try {
+            const response = await fetch('/api/admin/acme-servers', {
+                method: 'PATCH',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ serverId: server.id, isEnabled: !server.is_enabled })
+            })
+            const result = await response.json()
+            if (!response.ok) {
+                alert(`Failed to update server: ${result.error}`)
+                return
+            }
+            setServers(prev => prev.map(s => s.id === server.id ? result.data : s))
+        } finally {
+            setUpdatingId(null)
+        }
+    }
+
+    if (accessDenied) {
+        return (
+            <div className="rounded-lg bg-white p-12 shadow text-center">
+                <ShieldAlert className="mx-auto h-12 w-12 text-gray-400" />
+                <h3 className="mt-4 text-lg font-medium text-gray-900">Admin access required</h3>
+                <p className="mt-2 text-gray-500">This page is only available to KICA staff.</p>
+            </div>
+        )
+    }
+
+    return (
+        <div className="space-y-6">
+            {/* Header */}
+            <div className="flex items-center justify-between">
+                <div>
+                    <h1 className="text-2xl font-bold text-gray-900">ACME Servers</h1>
+                    <p className="text-gray-500">Servers from Sectigo LISTSERVERS offered for new subscriptions</p>
+                </div>
+                <button
+                    onClick={handleRefresh}
+                    disabled={refreshing}
+                    className="inline-flex items-center rounded-lg border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                >
+                    <RefreshCw className={`mr-2 h-4 w-4 ${refreshing ? 'animate-spin' : ''}`} />
+                    Refresh from Sectigo
+                </button>
+            </div>
+
+            <div className="overflow-hidden rounded-lg bg-white shadow">
+                {loading ? (
+                    <div className="p-12 text-center">
+                        <div className="animate-pulse">Loading...</div>
+                    </div>
+                ) : servers.length === 0 ? (
+                    <div className="p-12 text-center">
+                        <Server className="mx-auto h-12 w-12 text-gray-400" />
+                        <h3 className="mt-4 text-lg font-medium text-gray-900">No servers in catalog</h3>
+                        <p className="mt-2 text-gray-500">Refresh to load servers from Sectigo.</p>
+                    </div>
+                ) : (
+                    <table className="min-w-full divide-y divide-gray-200">
+                        <thead className="bg-gray-50">
+                            <tr>
+                                <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500">Server</th>
+                                <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500">Type</th>
+                                <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500">Sectigo</th>
+                                <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500">Last Seen</th>
+                                <th className="px-6 py-3 text-right text-xs font-medium uppercase tracking-wider text-gray-500">New Subscriptions</th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-200 bg-white">
+                            {servers.map(server => (
+                                <tr key={server.id} className="hover:bg-gray-50">
+                                    <td className="px-6 py-4 text-sm">
+                                        <div className="text-gray-900">{server.description || '-'}</div>
+                                        <div className="font-mono text-gray-500">{server.server_url}</div>
+                                    </td>
+                                    <td className="whitespace-nowrap px-6 py-4">
+                                        <span className={`inline-flex rounded-full px-2.5 py-1 text-xs font-semibold ${server.validation_type === 'OV' ? 'bg-green-100 text-green-800' : 'bg-blue-100 text-blue-800'}`}>
+                                            {server.validation_type}
+                                        </span>
+                                    </td>
+                                    <td className="whitespace-nowrap px-6 py-4 text-sm">
+                                        {server.is_available ? (
+                                            <span className="text-green-700">Listed</span>
+                                        ) : (
+                                            <span className="text-red-600">No longer listed</span>
+                                        )}
+                                    </td>
+                                    <td className="whitespace-nowrap px-6 py-4 text-sm text-gray-500">
+                                        {formatDateTime(server.last_seen_at)}
+                                    </td>
+                                    <td className="whitespace-nowrap px-6 py-4 text-right">
+                                        <button
+                                            onClick={() => handleToggle(server)}
+                                            disabled={updatingId === server.id}
+                                            className={`rounded-lg px-3 py-1 text-xs font-medium disabled:opacity-50 ${server.is_enabled
+                                                ? 'bg-green-100 text-green-800 hover:bg-green-200'
+                                                : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+                                                }`}
+                                        >
+                                            {server.is_enabled ? 'Enabled' : 'Disabled'}
+                                        </button>
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                )}
+            </div>
+        </div>
+    )
+}
@@ -0,0 +1,319 @@
+'use client'
+
+import { Fragment, useEffect, useState } from 'react'
+import { ScrollText, Filter, Search, RefreshCw, ShieldAlert, ChevronLeft, ChevronRight } from 'lucide-react'
+
+interface ApiCallRow {
+    id: string
+    action: string
+    client_name: string
+    params: Record<string, string>
+    acme_account_id: string | null
+    domain_name: string | null
+    success: boolean
+    http_status: number | null
+    latency_ms: number
+    retry_count: number
+    error_code: string | null
+    error_message: string | null
+    order_number: string | null
+    transaction_id: string | null
+    job_id: string | null
+    mock_mode: boolean
+    created_at: string
+}
+
+const ACTIONS = [
+    'ADDDOMAIN',
+    'REMOVEDOMAIN',
+    'LISTDOMAINS',
+    'EXTENDDOMAINS',
+    'GETLASTORDER',
+    'PREREGISTER',
+    'LISTSERVERS',
+    'SUSPENDACCOUNT',
+    'UNSUSPENDACCOUNT',
+    'DEACTIVATEACCOUNT',
+    'LISTTRANSACTIONS',
+]
+
+// Matches the API page size
+const PAGE_SIZE = 100
+
+function formatDateTime(value: string | null): string {
+    if (!value) return '-'
+    return new Date(value).toLocaleString('id-ID', {
+        year: 'numeric',
+        month: 'short',
+        day: 'numeric',
+        hour: '2-digit',
+        minute: '2-digit',
+        second: '2-digit'
+    })
+}
+
+export default function ApiCallsPage() {
+    const [calls, setCalls] = useState<ApiCallRow[]>([])
+    const [total, setTotal] = useState(0)
+    const [page, setPage] = useState(0)
+    const [loading, setLoading] = useState(true)
+    const [accessDenied, setAccessDenied] = useState(false)
+    const [searchInput, setSearchInput] = useState('')
+    const [search, setSearch] = useState('')
+    const [actionFilter, setActionFilter] = useState('all')
+    const [outcomeFilter, setOutcomeFilter] = useState<'all' | 'success' | 'failed'>('all')
+    const [fromDate, setFromDate] = useState('')
+    const [toDate, setToDate] = useState('')
+    const [expandedId, setExpandedId] = useState<string | null>(null)
+    const [refreshKey, setRefreshKey] = useState(0)
+
+    useEffect(() => {
+        async function fetchCalls() {
+            const params = new URLSearchParams({ page: page.toString() })
+            if (search) params.set('q', search)
+            if (actionFilter !== 'all') params.set('action', actionFilter)
+            if (outcomeFilter !== 'all') params.set('outcome', outcomeFilter)
+            if (fromDate) params.set('from', fromDate)
+            if (toDate) params.set('to', toDate)
+
+            const response = await fetch(`/api/admin/sectigo-api-calls?${params.toString()}`)
+            if (response.status === 401 || response.status === 403) {
+                setAccessDenied(true)
+                setLoading(false)
+                return
+            }
+
+            const result = await response.json()
+            if (!response.ok) {
+                console.error('Error fetching API calls:', result.error)
+            }
+            setCalls(result.data || [])
+            setTotal(result.total || 0)
+            setLoading(false)
+        }
+
+        fetchCalls()
+    }, [page, search, actionFilter, outcomeFilter, fromDate, toDate, refreshKey])
+
+    const handleSearch = (e: React.FormEvent) => {
+        e.preventDefault()
+        setPage(0)
+        setSearch(searchInput.trim())
+    }
+
+    if (accessDenied) {
+        return (
+            <div className="rounded-lg bg-white p-12 shadow text-center">
+                <ShieldAlert className="mx-auto h-12 w-12 text-gray-400" />
+                <h3 className="mt-4 text-lg font-medium text-gray-900">Admin access required</h3>
+                <p className="mt-2 text-gray-500">This page is only available to KICA staff.</p>
+            </div>
+        )
+    }
+
+    const lastPage = Math.max(0, Math.ceil(total / PAGE_SIZE) - 1)
+
+    return (
+        <div className="space-y-6">
+            {/* Header */}
+            <div className="flex items-center justify-between">
+                <div>
+                    <h1 className="text-2xl font-bold text-gray-900">Sectigo API Calls</h1>
+                    <p className="text-gray-500">Every request sent to Sectigo and what came back</p>
+                </div>
+                <button
+                    onClick={() => setRefreshKey(key => key + 1)}
+                    className="inline-flex items-center rounded-lg border border-gray-300 bg-white px-3 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50"
+                >
+                    <RefreshCw className="mr-2 h-4 w-4" />
+                    Refresh
+                </button>
+            </div>
+
+            {/* Filters */}
+            <div className="flex flex-wrap items-end gap-4">
+                <form onSubmit={handleSearch} className="flex items-center gap-2">
+                    <div className="relative">
+                        <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-gray-400" />
+                        <input
+                            type="text"
+                            value={searchInput}
+                            onChange={(e) => setSearchInput(e.target.value)}
+                            placeholder="Domain, account ID, order # or transaction/job ID"
+                            className="w-96 rounded-lg border border-gray-300 py-2 pl-9 pr-3 text-sm text-gray-900 focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+                        />
+                    </div>
+                    <button
+                        type="submit"
+                        className="rounded-lg bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700"
+                    >
+                        Search
+                    </button>
+                </form>
+                <div className="flex items-center gap-2">
+                    <Filter className="h-4 w-4 text-gray-400" />
+                    <select
+                        value={actionFilter}
+                        onChange={(e) => { setPage(0); setActionFilter(e.target.value) }}
+                        className="rounded-lg border border-gray-300 bg-white py-2 pl-3 pr-8 text-sm text-gray-900 focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+                    >
+                        <option value="all">All Actions</option>
+                        {ACTIONS.map(action => (
+                            <option key={action} value={action}>{action}</option>
+                        ))}
+                    </select>
+                    <select
+                        value={outcomeFilter}
+                        onChange={(e) => { setPage(0); setOutcomeFilter(e.target.value as 'all' | 'success' | 'failed') }}
+                        className="rounded-lg border border-gray-300 bg-white py-2 pl-3 pr-8 text-sm text-gray-900 focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+                    >
+                        <option value="all">All Outcomes</option>
+                        <option value="success">Success</option>
+                        <option value="failed">Failed</option>
+                    </select>
+                </div>
+                <div>
+                    <label className="block text-xs font-medium text-gray-500">From</label>
+                    <input
+                        type="date"
+                        value={fromDate}
+                        onChange={(e) => { setPage(0); setFromDate(e.target.value) }}
+                        className="rounded-lg border border-gray-300 px-3 py-2 text-sm text-gray-900"
+                    />
+                </div>
+                <div>
+                    <label className="block text-xs font-medium text-gray-500">To</label>
+                    <input
+                        type="date"
+                        value={toDate}
+                        onChange={(e) => { setPage(0); setToDate(e.target.value) }}
+                        className="rounded-lg border border-gray-300 px-3 py-2 text-sm text-gray-900"
+                    />
+                </div>
+                <span className="text-sm text-gray-500">{total} calls</span>
+            </div>
+
+            {/* Calls Table */}
+            <div className="overflow-hidden rounded-lg bg-white shadow">
+                {loading ? (
+                    <div className="p-12 text-center">
+                        <div className="animate-pulse">Loading...</div>
+                    </div>
+                ) : calls.length === 0 ? (
+                    <div className="p-12 text-center">
+                        <ScrollText className="mx-auto h-12 w-12 text-gray-400" />
+                        <h3 className="mt-4 text-lg font-medium text-gray-900">No API calls found</h3>
+                        <p className="mt-2 text-gray-500">Try a different search or filter.</p>
+                    </div>
+                ) : (
+                    <table className="min-w-full divide-y divide-gray-200">
+                        <thead className="bg-gray-50">
+                            <tr>
+                                <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500">Time</th>
+                                <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500">Action</th>
+                                <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500">Account / Domain</th>
+                                <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500">Result</th>
+                                <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500">Order #</th>
+                                <th className="px-6 py-3 text-right text-xs font-medium uppercase tracking-wider text-gray-500">Latency</th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-200 bg-white">
+                            {calls.map(call => (
+                                <Fragment key={call.id}>
+                                    <tr
+                                        onClick={() => setExpandedId(expandedId === call.id ? null : call.id)}
+                                        className="cursor-pointer hover:bg-gray-50 align-top"
+                                    >
+                                        <td className="whitespace-nowrap px-6 py-4 text-sm text-gray-500">
+                                            {formatDateTime(call.created_at)}
+                                        </td>
+                                        <td className="whitespace-nowrap px-6 py-4 text-sm">
+                                            <div className="font-mono text-gray-900">{call.action}</div>
+                                            {call.retry_count > 0 && (
+                                                <div className="text-xs text-gray-500">Retry {call.retry_count}</div>
+                                            )}
+                                            {call.client_name !== 'default' && (
+                                                <div className="text-xs text-gray-500">{call.client_name}</div>
+                                            )}
+                                            {call.mock_mode && (
+                                                <div className="text-xs text-purple-600">Mock</div>
+                                            )}
+                                        </td>
+                                        <td className="px-6 py-4 text-sm">
+                                            <div className="font-mono text-gray-900">{call.acme_account_id || '-'}</div>
+                                            {call.domain_name && <div className="text-gray-500">{call.domain_name}</div>}
+                                        </td>
+                                        <td className="px-6 py-4 text-sm">
+                                            <span className={`inline-flex rounded-full px-2.5 py-1 text-xs font-semibold ${call.success ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'}`}>
+                                                {call.success ? 'Success' : 'Failed'}
+                                                {call.http_status !== null && ` · ${call.http_status}`}
+                                            </span>
+                                            {!call.success && call.error_message && (
+                                                <p className="mt-1 max-w-sm text-xs text-gray-500">{call.error_message}</p>
+                                            )}
+                                        </td>
+                                        <td className="whitespace-nowrap px-6 py-4 font-mono text-sm text-gray-900">
+                                            {call.order_number || '-'}
+                                        </td>
+                                        <td className="whitespace-nowrap px-6 py-4 text-right text-sm text-gray-500">
+                                            {call.latency_ms} ms
+                                        </td>
+                                    </tr>
+                                    {expandedId === call.id && (
+                                        <tr className="bg-gray-50">
+                                            <td colSpan={6} className="px-6 py-4 text-sm">
+                                                <div className="grid grid-cols-2 gap-4">
+                                                    <div>
+                                                        <h4 className="text-xs font-medium uppercase text-gray-500">Request Params</h4>
+                                                        <pre className="mt-1 overflow-x-auto rounded bg-white p-3 text-xs text-gray-800">
+                                                            {JSON.stringify(call.params, null, 2)}
+                                                        </pre>
+                                                    </div>
+                                                    <dl className="space-y-2">
+                                                        <div>
+                                                            <dt className="text-xs font-medium uppercase text-gray-500">Error Code</dt>
+                                                            <dd className="font-mono text-gray-900">{call.error_code || '-'}</dd>
+                                                        </div>
+                                                        <div>
+                                                            <dt className="text-xs font-medium uppercase text-gray-500">Transaction</dt>
+                                                            <dd className="font-mono text-gray-900">{call.transaction_id || '-'}</dd>
+                                                        </div>
+                                                        <div>
+                                                            <dt className="text-xs font-medium uppercase text-gray-500">Job</dt>
+                                                            <dd className="font-mono text-gray-900">{call.job_id || '-'}</dd>
+                                                        </div>
+                                                    </dl>
+                                                </div>
+                                            </td>
+                                        </tr>
+                                    )}
+                                </Fragment>
+                            ))}
+                        </tbody>
+                    </table>
+                )}
+            </div>
+
+            {/* Pagination */}
+            {total > PAGE_SIZE && (
+                <div className="flex items-center justify-end gap-2">
+                    <button
+                        onClick={() => setPage(page - 1)}
+                        disabled={page === 0}
+                        className="inline-flex items-center rounded-lg border border-gray-300 bg-white px-3 py-1.5 text-sm text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                    >
+                        <ChevronLeft className="h-4 w-4" />
+                    </button>
+                    <span className="text-sm text-gray-500">Page {page + 1} of {lastPage + 1}</span>
+                    <button
+                        onClick={() => setPage(page + 1)}
+                        disabled={page >= lastPage}
+                        className="inline-flex items-center rounded-lg border border-gray-300 bg-white px-3 py-1.5 text-sm text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                    >
+                        <ChevronRight className="h-4 w-4" />
+                    </button>
+                </div>
+            )}
+        </div>
+    )
+}
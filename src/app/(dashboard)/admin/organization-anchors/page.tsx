@@ -0,0 +1,209 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { BadgeCheck, ShieldAlert } from 'lucide-react'
+import { ANCHOR_VALIDITY_DAYS, canChangeAnchorStatus, type AnchorStatus } from '@/lib/organization-anchors'
+import type { OrganizationAnchor } from '@/lib/types'
+
+type AnchorRow = OrganizationAnchor & {
+    clients: {
+        name: string
+        company_name: string | null
+        partners: { company_name: string }
+    }
+}
+
+const STATUS_FILTERS: Array<{ value: AnchorStatus | ''; label: string }> = [
+    { value: 'pending', label: 'Pending' },
+    { value: 'validated', label: 'Validated' },
+    { value: 'rejected', label: 'Rejected' },
+    { value: 'revoked', label: 'Revoked' },
+    { value: '', label: 'All' }
+]
+
+const STATUS_STYLES: Record<AnchorStatus, string> = {
+    pending: 'bg-yellow-100 text-yellow-800',
+    validated: 'bg-green-100 text-green-800',
+    rejected: 'bg-red-100 text-red-800',
+    revoked: 'bg-gray-100 text-gray-600'
+}
+
+function formatDate(value: string | null): string {
+    if (!value) return '-'
+    return new Date(value).toLocaleDateString('id-ID', { year: 'numeric', month: 'short', day: 'numeric' })
+}
+
+export default function OrganizationAnchorsPage() {
+    const [anchors, setAnchors] = useState<AnchorRow[]>([])
+    const [statusFilter, setStatusFilter] = useState<AnchorStatus | ''>('pending')
+    const [loading, setLoading] = useState(true)
+    const [accessDenied, setAccessDenied] = useState(false)
+    const [updatingId, setUpdatingId] = useState<string | null>(null)
+    // Expiry per pending anchor, empty = ANCHOR_VALIDITY_DAYS
+    const [expiryInputs, setExpiryInputs] = useState<Record<string, string>>({})
+
+    const fetchAnchors = useCallback(async () => {
+        const response = await fetch(`/api/admin/organization-anchors${statusFilter ? `?status=${statusFilter}` : ''}`)
+        if (response.status === 401 || response.status === 403) {
+            setAccessDenied(true)
+            setLoading(false)
+            return
+        }
+
+        const result = await response.json()
+        if (!response.ok) {
+            console.error('Error fetching OV anchors:', result.error)
+        }
+        setAnchors(result.data || [])
+        setLoading(false)
+    }, [statusFilter])
+
+    useEffect(() => {
+        fetchAnchors()
+    }, [fetchAnchors])
+
+    const handleReview = async (anchor: AnchorRow, status: AnchorStatus) => {
+        let reason: string | null = null
+        if (status !== 'validated') {
+            reason = prompt(`Reason for marking order ${anchor.ov_anchor_order_number} as ${status}:`)
+            if (reason === null) return
+        }
+
+        setUpdatingId(anchor.id)
+        try {
+            const response = await fetch('/api/admin/organization-anchors', {
+                method: 'PATCH',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    anchorId: anchor.id,
+                    status,
+                    reason,
+                    expiresAt: status === 'validated' ? expiryInputs[anchor.id] || null : null
+                })
+            })
+            const result = await response.json()
+            if (!response.ok) {
+                alert(`Failed to update anchor: ${result.error}`)
+                return
+            }
+            await fetchAnchors()
+        } finally {
+            setUpdatingId(null)
+        }
+    }
+
+    if (accessDenied) {
+        return (
+            <div className="rounded-lg bg-white p-12 shadow text-center">
+                <ShieldAlert className="mx-auto h-12 w-12 text-gray-400" />
+                <h3 className="mt-4 text-lg font-medium text-gray-900">Admin access required</h3>
+                <p className="mt-2 text-gray-500">This page is only available to KICA staff.</p>
+            </div>
+        )
+    }
+
+    return (
+        <div className="space-y-6">
+            {/* Header */}
+            <div className="flex items-center justify-between">
+                <div>
+                    <h1 className="text-2xl font-bold text-gray-900">OV Pre-Validation</h1>
+                    <p className="text-gray-500">
+                        Confirm organization anchors registered by partners. Validations default to {ANCHOR_VALIDITY_DAYS} days.
+                    </p>
+                </div>
+                <select
+                    value={statusFilter}
+                    onChange={(e) => {
+                        setLoading(true)
+                        setStatusFilter(e.target.value as AnchorStatus | '')
+                    }}
+                    className="rounded-lg border border-gray-300 bg-white px-3 py-2 text-sm text-gray-700"
+                >
+                    {STATUS_FILTERS.map(filter => (
+                        <option key={filter.label} value={filter.value}>{filter.label}</option>
+                    ))}
+                </select>
+            </div>
+
+            <div className="overflow-hidden rounded-lg bg-white shadow">
+                {loading ? (
+                    <div className="p-12 text-center">
+                        <div className="animate-pulse">Loading...</div>
+                    </div>
+                ) : anchors.length === 0 ? (
+                    <div className="p-12 text-center">
+                        <BadgeCheck className="mx-auto h-12 w-12 text-gray-400" />
+                        <h3 className="mt-4 text-lg font-medium text-gray-900">No anchors</h3>
+                        <p className="mt-2 text-gray-500">Nothing matches this filter.</p>
+                    </div>
+                ) : (
+                    <table className="min-w-full divide-y divide-gray-200">
+                        <thead className="bg-gray-50">
+                            <tr>
+                                <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500">Organization</th>
+                                <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500">Order</th>
+                                <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500">Status</th>
+                                <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500">Expires</th>
+                                <th className="px-6 py-3 text-right text-xs font-medium uppercase tracking-wider text-gray-500">Review</th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-200 bg-white">
+                            {anchors.map(anchor => (
+                                <tr key={anchor.id} className="hover:bg-gray-50">
+                                    <td className="px-6 py-4 text-sm">
+                                        <div className="font-medium text-gray-900">{anchor.clients.company_name || anchor.clients.name}</div>
+                                        <div className="text-gray-500">{anchor.clients.partners.company_name}</div>
+                                        {anchor.notes && <div className="mt-1 text-xs text-gray-500">{anchor.notes}</div>}
+                                    </td>
+                                    <td className="whitespace-nowrap px-6 py-4 font-mono text-sm text-gray-900">
+                                        {anchor.ov_anchor_order_number}
+                                        <div className="font-sans text-xs text-gray-500">Registered {formatDate(anchor.created_at)}</div>
+                                    </td>
+                                    <td className="whitespace-nowrap px-6 py-4">
+                                        <span className={`inline-flex rounded-full px-2.5 py-1 text-xs font-semibold ${STATUS_STYLES[anchor.status]}`}>
+                                            {anchor.status}{anchor.status === 'validated' && !anchor.is_active ? ' (superseded)' : ''}
+                                        </span>
+                                        {anchor.status_reason && (
+                                            <div className="mt-1 text-xs text-gray-500">{anchor.status_reason}</div>
+                                        )}
+                                    </td>
+                                    <td className="whitespace-nowrap px-6 py-4 text-sm text-gray-600">
+                                        {anchor.status === 'pending' ? (
+                                            <input
+                                                type="date"
+                                                value={expiryInputs[anchor.id] || ''}
+                                                onChange={(e) => setExpiryInputs(prev => ({ ...prev, [anchor.id]: e.target.value }))}
+                                                className="rounded-lg border border-gray-300 px-2 py-1 text-sm"
+                                                title={`Leave empty for ${ANCHOR_VALIDITY_DAYS} days`}
+                                            />
+                                        ) : formatDate(anchor.expires_at)}
+                                    </td>
+                                    <td className="whitespace-nowrap px-6 py-4 text-right">
+                                        <div className="flex justify-end gap-2">
+                                            {(['validated', 'rejected', 'revoked'] as AnchorStatus[])
+                                                .filter(status => canChangeAnchorStatus(anchor.status, status))
+                                                .map(status => (
+                                                    <button
+                                                        key={status}
+                                                        onClick={() => handleReview(anchor, status)}
+                                                        disabled={updatingId === anchor.id}
+                                                        className={`rounded-lg px-3 py-1 text-xs font-medium disabled:opacity-50 ${status === 'validated'
+                                                            ? 'bg-green-100 text-green-800 hover:bg-green-200'
+                                                            : 'bg-red-100 text-red-800 hover:bg-red-200'
+                                                            }`}
+                                                    >
+                                                        {status === 'validated' ? 'Validate' : status === 'rejected' ? 'Reject' : 'Revoke'}
+                                                    </button>
+                                                ))}
+                                        </div>
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                )}
+            </div>
+        </div>
+    )
+}
@@ -0,0 +1,387 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { Scale, Filter, RefreshCw, CheckCircle, AlertTriangle, ShieldAlert } from 'lucide-react'
+
+type DiscrepancyKind = 'missing_local' | 'missing_upstream' | 'amount_mismatch' | 'type_mismatch' | 'unsettled_extend'
+
+interface DiscrepancyRow {
+    id: string
+    kind: DiscrepancyKind
+    status: 'open' | 'resolved'
+    sectigo_order_number: string | null
+    transaction_id: string | null
+    local_type: string | null
+    local_amount: number | null
+    upstream_type: string | null
+    upstream_amount: number | null
+    upstream_date: string | null
+    resolution_note: string | null
+    resolved_at: string | null
+    first_detected_at: string
+    last_detected_at: string
+    partners: { company_name: string } | null
+    acme_accounts: { account_name: string | null; acme_account_id: string | null } | null
+}
+
+interface RunRow {
+    id: string
+    from_date: string
+    to_date: string
+    status: 'running' | 'completed' | 'failed'
+    accounts_checked: number
+    discrepancy_count: number
+    errors: Array<{ acme_account_id: string; error: string }>
+    started_at: string
+}
+
+const kindLabels: Record<DiscrepancyKind, string> = {
+    missing_local: 'Missing Locally',
+    missing_upstream: 'Missing at Sectigo',
+    amount_mismatch: 'Amount Mismatch',
+    type_mismatch: 'Type Mismatch',
+    unsettled_extend: 'Unsettled Renewal',
+}
+
+const kindColors: Record<DiscrepancyKind, string> = {
+    missing_local: 'bg-red-100 text-red-800',
+    missing_upstream: 'bg-orange-100 text-orange-800',
+    amount_mismatch: 'bg-yellow-100 text-yellow-800',
+    type_mismatch: 'bg-purple-100 text-purple-800',
+    unsettled_extend: 'bg-blue-100 text-blue-800',
+}
+
+function formatAmount(value: number | null): string {
+    return value === null || value === undefined ? '-' : `$${Number(value).toFixed(2)}`
+}
+
+function formatDateTime(value: string | null): string {
+    if (!value) return '-'
+    return new Date(value).toLocaleString('id-ID', {
+        year: 'numeric',
+        month: 'short',
+        day: 'numeric',
+        hour: '2-digit',
+        minute: '2-digit'
+    })
+}
+
+function daysAgo(days: number): string {
+    return new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString().substring(0, 10)
+}
+
+export default function ReconciliationPage() {
+    const [discrepancies, setDiscrepancies] = useState<DiscrepancyRow[]>([])
+    const [runs, setRuns] = useState<RunRow[]>([])
+    const [loading, setLoading] = useState(true)
+    const [accessDenied, setAccessDenied] = useState(false)
+    const [statusFilter, setStatusFilter] = useState<'open' | 'resolved' | 'all'>('open')
+    const [kindFilter, setKindFilter] = useState<string>('all')
+    const [fromDate, setFromDate] = useState(daysAgo(7))
+    const [toDate, setToDate] = useState(daysAgo(0))
+    const [running, setRunning] = useState(false)
+    const [resolvingId, setResolvingId] = useState<string | null>(null)
+    const [resolutionNote, setResolutionNote] = useState('')
+    const [saving, setSaving] = useState(false)
+
+    const fetchData = useCallback(async () => {
+        const params = new URLSearchParams({ status: statusFilter })
+        if (kindFilter !== 'all') params.set('kind', kindFilter)
+
+        const response = await fetch(`/api/admin/reconciliation?${params.toString()}`)
+        if (response.status === 401 || response.status === 403) {
+            setAccessDenied(true)
+            setLoading(false)
+            return
+        }
+
+        const result = await response.json()
+        if (!response.ok) {
+            console.error('Error fetching discrepancies:', result.error)
+        }
+        setDiscrepancies(result.data || [])
+        setRuns(result.runs || [])
+        setLoading(false)
+    }, [statusFilter, kindFilter])
+
+    useEffect(() => {
+        fetchData()
+    }, [fetchData])
+
+    const handleRunNow = async () => {
+        setRunning(true)
+        try {
+            const response = await fetch('/api/admin/reconciliation', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ fromDate, toDate })
+            })
+            const result = await response.json()
+            if (!response.ok) {
+                alert(`Reconciliation failed: ${result.error}`)
+                return
+            }
+            alert(
+                `Reconciliation complete\n\n` +
+                `Accounts checked: ${result.accountsChecked}\n` +
+                `Discrepancies: ${result.discrepancyCount} (${result.newDiscrepancies} new)\n` +
+                (result.errors.length > 0 ? `Accounts with errors: ${result.errors.length}` : '')
+            )
+            await fetchData()
+        } finally {
+            setRunning(false)
+        }
+    }
+
+    const handleResolve = async (discrepancyId: string, settle?: 'commit' | 'rollback') => {
+        if (!resolutionNote.trim()) return
+        setSaving(true)
+        try {
+            const response = await fetch('/api/admin/reconciliation/resolve', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ discrepancyId, note: resolutionNote, settle })
+            })
+            const result = await response.json()
+            if (!response.ok) {
+                alert(`Failed to resolve: ${result.error}`)
+                return
+            }
+            setResolvingId(null)
+            setResolutionNote('')
+            await fetchData()
+        } finally {
+            setSaving(false)
+        }
+    }
+
+    if (accessDenied) {
+        return (
+            <div className="rounded-lg bg-white p-12 shadow text-center">
+                <ShieldAlert className="mx-auto h-12 w-12 text-gray-400" />
+                <h3 className="mt-4 text-lg font-medium text-gray-900">Admin access required</h3>
+                <p className="mt-2 text-gray-500">This page is only available to KICA finance staff.</p>
+            </div>
+        )
+    }
+
+    const lastRun = runs[0]
+
+    return (
+        <div className="space-y-6">
+            {/* Header */}
+            <div className="flex items-end justify-between">
+                <div>
+                    <h1 className="text-2xl font-bold text-gray-900">Reconciliation</h1>
+                    <p className="text-gray-500">Sectigo charges vs. partner billing, matched by order number</p>
+                </div>
+                <div className="flex items-end gap-2">
+                    <div>
+                        <label className="block text-xs font-medium text-gray-500">From</label>
+                        <input
+                            type="date"
+                            value={fromDate}
+                            onChange={(e) => setFromDate(e.target.value)}
+                            className="rounded-lg border border-gray-300 px-3 py-2 text-sm text-gray-900"
+                        />
+                    </div>
+                    <div>
+                        <label className="block text-xs font-medium text-gray-500">To</label>
+                        <input
+                            type="date"
+                            value={toDate}
+                            onChange={(e) => setToDate(e.target.value)}
+                            className="rounded-lg border border-gray-300 px-3 py-2 text-sm text-gray-900"
+                        />
+                    </div>
+                    <button
+                        onClick={handleRunNow}
+                        disabled={running}
+                        className="inline-flex items-center rounded-lg bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700 disabled:opacity-50"
+                    >
+                        <RefreshCw className={`mr-2 h-4 w-4 ${running ? 'animate-spin' : ''}`} />
+                        {running ? 'Running...' : 'Run Now'}
+                    </button>
+                </div>
+            </div>
+
+            {/* Last run */}
+            {lastRun && (
+                <div className={`rounded-lg p-4 ${lastRun.status === 'failed' || lastRun.errors.length > 0 ? 'bg-yellow-50' : 'bg-blue-50'}`}>
+                    <div className="flex items-center">
+                        {lastRun.status === 'failed' || lastRun.errors.length > 0 ? (
+                            <AlertTriangle className="h-5 w-5 text-yellow-600" />
+                        ) : (
+                            <Scale className="h-5 w-5 text-blue-600" />
+                        )}
+                        <p className="ml-3 text-sm text-gray-700">
+                            Last run {formatDateTime(lastRun.started_at)} ({lastRun.from_date} → {lastRun.to_date}):{' '}
+                            <strong>{lastRun.status}</strong>, {lastRun.accounts_checked} accounts checked,{' '}
+                            {lastRun.discrepancy_count} discrepancies
+                            {lastRun.errors.length > 0 && `, ${lastRun.errors.length} accounts failed`}
+                        </p>
+                    </div>
+                </div>
+            )}
+
+            {/* Filters */}
+            <div className="flex items-center gap-4">
+                <div className="flex items-center gap-2">
+                    <Filter className="h-4 w-4 text-gray-400" />
+                    <select
+                        value={statusFilter}
+                        onChange={(e) => setStatusFilter(e.target.value as 'open' | 'resolved' | 'all')}
+                        className="rounded-lg border border-gray-300 bg-white py-2 pl-3 pr-8 text-sm text-gray-900 focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+                    >
+                        <option value="open">Open</option>
+                        <option value="resolved">Resolved</option>
+                        <option value="all">All</option>
+                    </select>
+                    <select
+                        value={kindFilter}
+                        onChange={(e) => setKindFilter(e.target.value)}
+                        className="rounded-lg border border-gray-300 bg-white py-2 pl-3 pr-8 text-sm text-gray-900 focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+                    >
+                        <option value="all">All Types</option>
+                        {(Object.keys(kindLabels) as DiscrepancyKind[]).map(kind => (
+                            <option key={kind} value={kind}>{kindLabels[kind]}</option>
+                        ))}
+                    </select>
+                </div>
+                <span className="text-sm text-gray-500">{discrepancies.length} discrepancies</span>
+            </div>
+
+            {/* Discrepancies Table */}
+            <div className="overflow-hidden rounded-lg bg-white shadow">
+                {loading ? (
+                    <div className="p-12 text-center">
+                        <div className="animate-pulse">Loading...</div>
+                    </div>
+                ) : discrepancies.length === 0 ? (
+                    <div className="p-12 text-center">
+                        <CheckCircle className="mx-auto h-12 w-12 text-green-400" />
+                        <h3 className="mt-4 text-lg font-medium text-gray-900">No discrepancies</h3>
+                        <p className="mt-2 text-gray-500">Local billing matches Sectigo for the checked periods.</p>
+                    </div>
+                ) : (
+                    <table className="min-w-full divide-y divide-gray-200">
+                        <thead className="bg-gray-50">
+                            <tr>
+                                <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500">Type</th>
+                                <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500">Partner / Account</th>
+                                <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500">Order #</th>
+                                <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500">Local</th>
+                                <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500">Sectigo</th>
+                                <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500">Last Seen</th>
+                                <th className="px-6 py-3 text-right text-xs font-medium uppercase tracking-wider text-gray-500">Status</th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-200 bg-white">
+                            {discrepancies.map(d => (
+                                <tr key={d.id} className="hover:bg-gray-50 align-top">
+                                    <td className="whitespace-nowrap px-6 py-4">
+                                        <span className={`inline-flex rounded-full px-2.5 py-1 text-xs font-semibold ${kindColors[d.kind]}`}>
+                                            {kindLabels[d.kind]}
+                                        </span>
+                                    </td>
+                                    <td className="px-6 py-4 text-sm">
+                                        <div className="text-gray-900">{d.partners?.company_name || '-'}</div>
+                                        <div className="text-gray-500">
+                                            {d.acme_accounts?.account_name || d.acme_accounts?.acme_account_id || '-'}
+                                        </div>
+                                    </td>
+                                    <td className="whitespace-nowrap px-6 py-4 font-mono text-sm text-gray-900">
+                                        {d.sectigo_order_number || <span className="text-gray-400 italic">none</span>}
+                                    </td>
+                                    <td className="whitespace-nowrap px-6 py-4 text-sm text-gray-900">
+                                        {d.local_type ? (
+                                            <>
+                                                <div>{d.local_type}</div>
+                                                <div className="text-gray-500">{formatAmount(d.local_amount)} billed</div>
+                                            </>
+                                        ) : '-'}
+                                    </td>
+                                    <td className="whitespace-nowrap px-6 py-4 text-sm text-gray-900">
+                                        {d.upstream_type ? (
+                                            <>
+                                                <div>{d.upstream_type}</div>
+                                                <div className="text-gray-500">{formatAmount(d.upstream_amount)} charged</div>
+                                            </>
+                                        ) : '-'}
+                                    </td>
+                                    <td className="whitespace-nowrap px-6 py-4 text-sm text-gray-500">
+                                        {formatDateTime(d.last_detected_at)}
+                                    </td>
+                                    <td className="px-6 py-4 text-right text-sm">
+                                        {d.status === 'resolved' ? (
+                                            <div>
+                                                <span className="inline-flex items-center gap-1 text-green-700">
+                                                    <CheckCircle className="h-4 w-4" /> Resolved
+                                                </span>
+                                                {d.resolution_note && (
+                                                    <p className="mt-1 max-w-xs text-xs text-gray-500">{d.resolution_note}</p>
+                                                )}
+                                            </div>
+                                        ) : resolvingId === d.id ? (
+                                            <div className="flex flex-col items-end gap-2">
+                                                <input
+                                                    type="text"
+                                                    value={resolutionNote}
+                                                    onChange={(e) => setResolutionNote(e.target.value)}
+                                                    placeholder="Resolution note"
+                                                    className="w-56 rounded-lg border border-gray-300 px-3 py-1.5 text-sm text-gray-900"
+                                                    autoFocus
+                                                />
+                                                <div className="flex gap-2">
+                                                    <button
+                                                        onClick={() => { setResolvingId(null); setResolutionNote('') }}
+                                                        className="rounded-lg border border-gray-300 px-3 py-1 text-xs text-gray-700 hover:bg-gray-50"
+                                                    >
+                                                        Cancel
+                                                    </button>
+                                                    {d.kind === 'unsettled_extend' ? (
+                                                        <>
+                                                            <button
+                                                                onClick={() => handleResolve(d.id, 'rollback')}
+                                                                disabled={saving || !resolutionNote.trim()}
+                                                                className="rounded-lg bg-red-600 px-3 py-1 text-xs font-medium text-white hover:bg-red-700 disabled:opacity-50"
+                                                            >
+                                                                Not Charged
+                                                            </button>
+                                                            <button
+                                                                onClick={() => handleResolve(d.id, 'commit')}
+                                                                disabled={saving || !resolutionNote.trim()}
+                                                                className="rounded-lg bg-green-600 px-3 py-1 text-xs font-medium text-white hover:bg-green-700 disabled:opacity-50"
+                                                            >
+                                                                {saving ? 'Saving...' : 'Charged'}
+                                                            </button>
+                                                        </>
+                                                    ) : (
+                                                        <button
+                                                            onClick={() => handleResolve(d.id)}
+                                                            disabled={saving || !resolutionNote.trim()}
+                                                            className="rounded-lg bg-green-600 px-3 py-1 text-xs font-medium text-white hover:bg-green-700 disabled:opacity-50"
+                                                        >
+                                                            {saving ? 'Saving...' : 'Mark Resolved'}
+                                                        </button>
+                                                    )}
+                                                </div>
+                                            </div>
+                                        ) : (
+                                            <button
+                                                onClick={() => { setResolvingId(d.id); setResolutionNote('') }}
+                                                className="rounded-lg border border-gray-300 px-3 py-1 text-xs font-medium text-gray-700 hover:bg-gray-50"
+                                            >
+                                                Resolve
+                                            </button>
+                                        )}
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                )}
+            </div>
+        </div>
+    )
+}
@@ -0,0 +1,180 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Network, ShieldAlert } from 'lucide-react'
+
+interface SectigoClientRow {
+    name: string
+    apiUrl: string
+    mockMode: boolean
+    circuit: {
+        state: 'closed' | 'open' | 'half_open'
+        consecutiveFailures: number
+        retryAt: string | null
+        lastFailure: string | null
+    }
+}
+
+interface PartnerRow {
+    id: string
+    company_name: string
+    sectigo_client: string | null
+}
+
+const CIRCUIT_STYLES: Record<string, string> = {
+    closed: 'bg-green-100 text-green-800',
+    half_open: 'bg-yellow-100 text-yellow-800',
+    open: 'bg-red-100 text-red-800'
+}
+
+export default function SectigoClientsPage() {
+    const [clients, setClients] = useState<SectigoClientRow[]>([])
+    const [partners, setPartners] = useState<PartnerRow[]>([])
+    const [loading, setLoading] = useState(true)
+    const [accessDenied, setAccessDenied] = useState(false)
+    const [updatingId, setUpdatingId] = useState<string | null>(null)
+
+    useEffect(() => {
+        async function fetchClients() {
+            const response = await fetch('/api/admin/sectigo-clients')
+            if (response.status === 401 || response.status === 403) {
+                setAccessDenied(true)
+                setLoading(false)
+                return
+            }
+
+            const result = await response.json()
+            if (!response.ok) {
+                console.error('Error fetching Sectigo clients:', result.error)
+            }
+            setClients(result.data || [])
+            setPartners(result.partners || [])
+            setLoading(false)
+        }
+
+        fetchClients()
+    }, [])
+
+    const handleAssign = async (partner: PartnerRow, clientName: string) => {
+        setUpdatingId(partner.id)
+        try {
+            const response = await fetch('/api/admin/sectigo-clients', {
+                method: 'PATCH',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ partnerId: partner.id, clientName })
+            })
+            const result = await response.json()
+            if (!response.ok) {
+                alert(`Failed to update partner: ${result.error}`)
+                return
+            }
+            setPartners(prev => prev.map(p => p.id === partner.id ? result.data : p))
+        } finally {
+            setUpdatingId(null)
+        }
+    }
+
+    if (accessDenied) {
+        return (
+            <div className="rounded-lg bg-white p-12 shadow text-center">
+                <ShieldAlert className="mx-auto h-12 w-12 text-gray-400" />
+                <h3 className="mt-4 text-lg font-medium text-gray-900">Admin access required</h3>
+                <p className="mt-2 text-gray-500">This page is only available to KICA staff.</p>
+            </div>
+        )
+    }
+
+    return (
+        <div className="space-y-6">
+            {/* Header */}
+            <div>
+                <h1 className="text-2xl font-bold text-gray-900">Sectigo Clients</h1>
+                <p className="text-gray-500">Reseller accounts configured on this server, and which one each partner uses</p>
+            </div>
+
+            {loading ? (
+                <div className="rounded-lg bg-white p-12 shadow text-center">
+                    <div className="animate-pulse">Loading...</div>
+                </div>
+            ) : (
+                <>
+                    {/* Registry */}
+                    <div className="overflow-hidden rounded-lg bg-white shadow">
+                        <table className="min-w-full divide-y divide-gray-200">
+                            <thead className="bg-gray-50">
+                                <tr>
+                                    <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500">Client</th>
+                                    <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500">Endpoint</th>
+                                    <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500">Circuit</th>
+                                </tr>
+                            </thead>
+                            <tbody className="divide-y divide-gray-200 bg-white">
+                                {clients.map(client => (
+                                    <tr key={client.name} className="hover:bg-gray-50">
+                                        <td className="whitespace-nowrap px-6 py-4 text-sm">
+                                            <div className="font-mono text-gray-900">{client.name}</div>
+                                            {client.mockMode && (
+                                                <div className="text-xs text-purple-600">Mock</div>
+                                            )}
+                                        </td>
+                                        <td className="px-6 py-4 font-mono text-sm text-gray-500">{client.apiUrl}</td>
+                                        <td className="px-6 py-4 text-sm">
+                                            <span className={`inline-flex rounded-full px-2.5 py-1 text-xs font-semibold ${CIRCUIT_STYLES[client.circuit.state]}`}>
+                                                {client.circuit.state.replace('_', ' ')}
+                                            </span>
+                                            {client.circuit.lastFailure && (
+                                                <div className="mt-1 text-xs text-gray-500">{client.circuit.lastFailure}</div>
+                                            )}
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+
+                    {/* Partner routing */}
+                    <div className="overflow-hidden rounded-lg bg-white shadow">
+                        {partners.length === 0 ? (
+                            <div className="p-12 text-center">
+                                <Network className="mx-auto h-12 w-12 text-gray-400" />
+                                <h3 className="mt-4 text-lg font-medium text-gray-900">No partners</h3>
+                            </div>
+                        ) : (
+                            <table className="min-w-full divide-y divide-gray-200">
+                                <thead className="bg-gray-50">
+                                    <tr>
+                                        <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500">Partner</th>
+                                        <th className="px-6 py-3 text-right text-xs font-medium uppercase tracking-wider text-gray-500">Client for New Accounts</th>
+                                    </tr>
+                                </thead>
+                                <tbody className="divide-y divide-gray-200 bg-white">
+                                    {partners.map(partner => (
+                                        <tr key={partner.id} className="hover:bg-gray-50">
+                                            <td className="px-6 py-4 text-sm text-gray-900">{partner.company_name}</td>
+                                            <td className="whitespace-nowrap px-6 py-4 text-right">
+                                                <select
+                                                    value={partner.sectigo_client || 'default'}
+                                                    onChange={(e) => handleAssign(partner, e.target.value)}
+                                                    disabled={updatingId === partner.id}
+                                                    className="rounded-lg border border-gray-300 px-3 py-1 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500 disabled:opacity-50"
+                                                >
+                                                    {clients.map(client => (
+                                                        <option key={client.name} value={client.name}>{client.name}</option>
+                                                    ))}
+                                                </select>
+                                            </td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        )}
+                    </div>
+
+                    <p className="text-sm text-gray-500">
+                        Existing ACME accounts keep the client they were created with.
+                    </p>
+                </>
+            )}
+        </div>
+    )
+}
@@ -0,0 +1,326 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { KeyRound, Plus, ShieldAlert, CheckCircle, XCircle } from 'lucide-react'
+
+interface StoredCredential {
+    id: string
+    client_name: string
+    label: string
+    login_name: string
+    is_active: boolean
+    activated_at: string | null
+    last_tested_at: string | null
+    last_test_ok: boolean | null
+    last_test_error: string | null
+    created_at: string
+}
+
+type CurrentCredential =
+    | { clientName: string; source: 'database' | 'file' | 'env'; label: string; loginName: string }
+    | { clientName: string; source: null; error: string }
+
+const SOURCE_LABELS: Record<string, string> = {
+    database: 'Stored credential',
+    file: 'Credentials file',
+    env: 'Environment variables'
+}
+
+function formatDateTime(value: string | null): string {
+    if (!value) return '-'
+    return new Date(value).toLocaleString('id-ID', {
+        year: 'numeric',
+        month: 'short',
+        day: 'numeric',
+        hour: '2-digit',
+        minute: '2-digit'
+    })
+}
+
+export default function SectigoCredentialsPage() {
+    const [credentials, setCredentials] = useState<StoredCredential[]>([])
+    const [current, setCurrent] = useState<CurrentCredential[]>([])
+    const [encryptionConfigured, setEncryptionConfigured] = useState(true)
+    const [loading, setLoading] = useState(true)
+    const [accessDenied, setAccessDenied] = useState(false)
+    const [refreshKey, setRefreshKey] = useState(0)
+    const [busyId, setBusyId] = useState<string | null>(null)
+    const [showForm, setShowForm] = useState(false)
+    const [saving, setSaving] = useState(false)
+    const [form, setForm] = useState({ clientName: 'default', label: '', loginName: '', loginPassword: '' })
+
+    useEffect(() => {
+        async function fetchCredentials() {
+            const response = await fetch('/api/admin/sectigo-credentials')
+            if (response.status === 401 || response.status === 403) {
+                setAccessDenied(true)
+                setLoading(false)
+                return
+            }
+
+            const result = await response.json()
+            if (!response.ok) {
+                console.error('Error fetching credentials:', result.error)
+            }
+            setCredentials(result.data || [])
+            setCurrent(result.current || [])
+            setEncryptionConfigured(result.encryptionConfigured !== false)
+            setLoading(false)
+        }
+
+        fetchCredentials()
+    }, [refreshKey])
+
+    const handleCreate = async (e: React.FormEvent) => {
+        e.preventDefault()
+        setSaving(true)
+        try {
+            const response = await fetch('/api/admin/sectigo-credentials', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify(form)
+            })
+            const result = await response.json()
+            if (!response.ok) {
+                alert(`Failed to save credential: ${result.error}`)
+                return
+            }
+            setForm({ clientName: 'default', label: '', loginName: '', loginPassword: '' })
+            setShowForm(false)
+            setRefreshKey(key => key + 1)
+        } finally {
+            setSaving(false)
+        }
+    }
+
+    const handleTest = async (credential: StoredCredential) => {
+        setBusyId(credential.id)
+        try {
+            const response = await fetch('/api/admin/sectigo-credentials/test', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ credentialId: credential.id })
+            })
+            const result = await response.json()
+            if (!response.ok) {
+                alert(`Failed to test credential: ${result.error}`)
+                return
+            }
+            setRefreshKey(key => key + 1)
+        } finally {
+            setBusyId(null)
+        }
+    }
+
+    const handleActivate = async (credential: StoredCredential) => {
+        if (!confirm(`Switch all "${credential.client_name}" Sectigo calls to "${credential.label}"?`)) return
+
+        setBusyId(credential.id)
+        try {
+            const response = await fetch('/api/admin/sectigo-credentials/activate', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ credentialId: credential.id })
+            })
+            const result = await response.json()
+            if (!response.ok) {
+                alert(`Failed to activate credential: ${result.error}`)
+                return
+            }
+            setRefreshKey(key => key + 1)
+        } finally {
+            setBusyId(null)
+        }
+    }
+
+    if (accessDenied) {
+        return (
+            <div className="rounded-lg bg-white p-12 shadow text-center">
+                <ShieldAlert className="mx-auto h-12 w-12 text-gray-400" />
+                <h3 className="mt-4 text-lg font-medium text-gray-900">Admin access required</h3>
+                <p className="mt-2 text-gray-500">This page is only available to KICA staff.</p>
+            </div>
+        )
+    }
+
+    return (
+        <div className="space-y-6">
+            {/* Header */}
+            <div className="flex items-center justify-between">
+                <div>
+                    <h1 className="text-2xl font-bold text-gray-900">Sectigo Credentials</h1>
+                    <p className="text-gray-500">Test a credential, then activate it to rotate without a redeploy</p>
+                </div>
+                <button
+                    onClick={() => setShowForm(!showForm)}
+                    disabled={!encryptionConfigured}
+                    className="inline-flex items-center rounded-lg bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700 disabled:opacity-50"
+                >
+                    <Plus className="mr-2 h-4 w-4" />
+                    Add Credential
+                </button>
+            </div>
+
+            {/* Credential in use, per Sectigo client */}
+            {current.map(status => (
+                <div key={status.clientName} className={`rounded-lg p-4 ${status.source ? 'bg-blue-50' : 'bg-red-50'}`}>
+                    {status.source ? (
+                        <p className="text-sm text-blue-800">
+                            <span className="font-mono">{status.clientName}</span> uses{' '}
+                            <strong>{SOURCE_LABELS[status.source]}</strong> ({status.label}) as{' '}
+                            <span className="font-mono">{status.loginName}</span>
+                        </p>
+                    ) : (
+                        <p className="text-sm text-red-800">{status.error}</p>
+                    )}
+                </div>
+            ))}
+
+            {!encryptionConfigured && (
+                <div className="rounded-lg bg-yellow-50 p-4">
+                    <p className="text-sm text-yellow-800">
+                        SECRET_BOX_KEY is not set, so credentials cannot be stored here. Configure it to enable rotation.
+                    </p>
+                </div>
+            )}
+
+            {/* New credential */}
+            {showForm && (
+                <form onSubmit={handleCreate} className="space-y-4 rounded-lg bg-white p-6 shadow">
+                    <div className="grid grid-cols-1 gap-4 md:grid-cols-4">
+                        <select
+                            value={form.clientName}
+                            onChange={(e) => setForm({ ...form, clientName: e.target.value })}
+                            className="rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+                        >
+                            {current.map(status => (
+                                <option key={status.clientName} value={status.clientName}>{status.clientName}</option>
+                            ))}
+                        </select>
+                        <input
+                            type="text"
+                            placeholder="Label (e.g. 2026 rotation)"
+                            value={form.label}
+                            onChange={(e) => setForm({ ...form, label: e.target.value })}
+                            className="rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+                            required
+                        />
+                        <input
+                            type="text"
+                            placeholder="Login name"
+                            value={form.loginName}
+                            onChange={(e) => setForm({ ...form, loginName: e.target.value })}
+                            className="rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+                            autoComplete="off"
+                            required
+                        />
+                        <input
+                            type="password"
+                            placeholder="Password"
+                            value={form.loginPassword}
+                            onChange={(e) => setForm({ ...form, loginPassword: e.target.value })}
+                            className="rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+                            autoComplete="new-password"
+                            required
+                        />
+                    </div>
+                    <div className="flex justify-end">
+                        <button
+                            type="submit"
+                            disabled={saving}
+                            className="rounded-lg bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700 disabled:opacity-50"
+                        >
+                            {saving ? 'Saving...' : 'Save (inactive)'}
+                        </button>
+                    </div>
+                </form>
+            )}
+
+            <div className="overflow-hidden rounded-lg bg-white shadow">
+                {loading ? (
+                    <div className="p-12 text-center">
+                        <div className="animate-pulse">Loading...</div>
+                    </div>
+                ) : credentials.length === 0 ? (
+                    <div className="p-12 text-center">
+                        <KeyRound className="mx-auto h-12 w-12 text-gray-400" />
+                        <h3 className="mt-4 text-lg font-medium text-gray-900">No stored credentials</h3>
+                        <p className="mt-2 text-gray-500">Sectigo calls use the credentials file or environment variables.</p>
+                    </div>
+                ) : (
+                    <table className="min-w-full divide-y divide-gray-200">
+                        <thead className="bg-gray-50">
+                            <tr>
+                                <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500">Credential</th>
+                                <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500">Last Test</th>
+                                <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500">Created</th>
+                                <th className="px-6 py-3 text-right text-xs font-medium uppercase tracking-wider text-gray-500">Actions</th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-200 bg-white">
+                            {credentials.map(credential => (
+                                <tr key={credential.id} className="hover:bg-gray-50">
+                                    <td className="px-6 py-4 text-sm">
+                                        <div className="flex items-center gap-2 text-gray-900">
+                                            {credential.label}
+                                            {credential.is_active && (
+                                                <span className="inline-flex rounded-full bg-green-100 px-2.5 py-0.5 text-xs font-semibold text-green-800">
+                                                    Active
+                                                </span>
+                                            )}
+                                        </div>
+                                        <div className="font-mono text-gray-500">
+                                            {credential.client_name} · {credential.login_name}
+                                        </div>
+                                    </td>
+                                    <td className="px-6 py-4 text-sm">
+                                        {credential.last_test_ok === null ? (
+                                            <span className="text-gray-400">Not tested</span>
+                                        ) : credential.last_test_ok ? (
+                                            <span className="inline-flex items-center text-green-700">
+                                                <CheckCircle className="mr-1 h-4 w-4" />
+                                                Passed {formatDateTime(credential.last_tested_at)}
+                                            </span>
+                                        ) : (
+                                            <div>
+                                                <span className="inline-flex items-center text-red-600">
+                                                    <XCircle className="mr-1 h-4 w-4" />
+                                                    Failed {formatDateTime(credential.last_tested_at)}
+                                                </span>
+                                                <div className="text-xs text-gray-500">{credential.last_test_error}</div>
+                                            </div>
+                                        )}
+                                    </td>
+                                    <td className="whitespace-nowrap px-6 py-4 text-sm text-gray-500">
+                                        {formatDateTime(credential.created_at)}
+                                    </td>
+                                    <td className="whitespace-nowrap px-6 py-4 text-right">
+                                        <div className="flex justify-end gap-2">
+                                            <button
+                                                onClick={() => handleTest(credential)}
+                                                disabled={busyId === credential.id}
+                                                className="rounded-lg border border-gray-300 bg-white px-3 py-1 text-xs font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                                            >
+                                                Test
+                                            </button>
+                                            {!credential.is_active && (
+                                                <button
+                                                    onClick={() => handleActivate(credential)}
+                                                    disabled={busyId === credential.id || credential.last_test_ok !== true}
+                                                    title={credential.last_test_ok !== true ? 'Test this credential first' : undefined}
+                                                    className="rounded-lg bg-blue-600 px-3 py-1 text-xs font-medium text-white hover:bg-blue-700 disabled:opacity-50"
+                                                >
+                                                    Activate
+                                                </button>
+                                            )}
+                                        </div>
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                )}
+            </div>
+        </div>
+    )
+}
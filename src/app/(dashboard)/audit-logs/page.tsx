@@ -19,6 +19,7 @@ interface AuditLog {
 function formatAction(action: string): string {
     const actionMap: Record<string, string> = {
         'reveal_eab_key': 'Revealed EAB Key',
+        'encrypt_eab_keys': 'Encrypted EAB Keys',
         'add_domain': 'Added Domain',
         'remove_domain': 'Removed Domain',
         'refund_domain': 'Refund Processed',
@@ -27,6 +28,28 @@ function formatAction(action: string): string {
         'account_activated': 'Account Activated',
         'account_reactivated': 'Account Reactivated',
         'account_deactivated': 'Account Deactivated',
+        'subscription_renewed': 'Subscription Renewed',
+        'subscription_expired': 'Subscription Expired',
+        'domain_expired': 'Domain Expired',
+        'reconciliation_resolved': 'Discrepancy Resolved',
+        'acme_server_enabled': 'ACME Server Enabled',
+        'acme_server_disabled': 'ACME Server Disabled',
+        'sectigo_job_retried': 'Operation Retried',
+        'idempotent_replay': 'Duplicate Request Replayed',
+        'sectigo_credential_created': 'Sectigo Credential Added',
+        'sectigo_credential_tested': 'Sectigo Credential Tested',
+        'sectigo_credential_activated': 'Sectigo Credential Activated',
+        'sectigo_client_assigned': 'Sectigo Client Assigned',
+        'zombie_commit': 'Stuck Transaction Committed',
+        'zombie_rollback': 'Stuck Transaction Rolled Back',
+        'register_ov_anchor': 'Registered OV Anchor',
+        'update_ov_anchor': 'Updated OV Anchor',
+        'withdraw_ov_anchor': 'Withdrew OV Anchor',
+        'ov_anchor_validated': 'OV Anchor Validated',
+        'ov_anchor_rejected': 'OV Anchor Rejected',
+        'ov_anchor_revoked': 'OV Anchor Revoked',
+        'snooze_expiry_reminders': 'Expiry Reminders Snoozed',
+        'unsnooze_expiry_reminders': 'Expiry Reminders Resumed',
         'high_risk_refund_pattern': '⚠️ High Risk Alert',
         'login': 'Logged In',
     }
@@ -72,6 +95,7 @@ function formatDetails(details: Record<string, unknown> | null): string {
 
 const actionColors: Record<string, string> = {
     'reveal_eab_key': 'bg-yellow-100 text-yellow-800',
+    'encrypt_eab_keys': 'bg-gray-100 text-gray-800',
     'add_domain': 'bg-green-100 text-green-800',
     'remove_domain': 'bg-red-100 text-red-800',
     'refund_domain': 'bg-purple-100 text-purple-800',
@@ -80,6 +104,28 @@ const actionColors: Record<string, string> = {
     'account_activated': 'bg-emerald-100 text-emerald-800',
     'account_reactivated': 'bg-green-100 text-green-800',
     'account_deactivated': 'bg-orange-100 text-orange-800',
+    'subscription_renewed': 'bg-blue-100 text-blue-800',
+    'subscription_expired': 'bg-red-100 text-red-800',
+    'domain_expired': 'bg-red-100 text-red-800',
+    'reconciliation_resolved': 'bg-teal-100 text-teal-800',
+    'acme_server_enabled': 'bg-green-100 text-green-800',
+    'acme_server_disabled': 'bg-orange-100 text-orange-800',
+    'sectigo_job_retried': 'bg-yellow-100 text-yellow-800',
+    'idempotent_replay': 'bg-gray-100 text-gray-800',
+    'sectigo_credential_created': 'bg-gray-100 text-gray-800',
+    'sectigo_credential_tested': 'bg-gray-100 text-gray-800',
+    'sectigo_credential_activated': 'bg-purple-100 text-purple-800',
+    'sectigo_client_assigned': 'bg-purple-100 text-purple-800',
+    'zombie_commit': 'bg-green-100 text-green-800',
+    'zombie_rollback': 'bg-orange-100 text-orange-800',
+    'register_ov_anchor': 'bg-indigo-100 text-indigo-800',
+    'update_ov_anchor': 'bg-gray-100 text-gray-800',
+    'withdraw_ov_anchor': 'bg-orange-100 text-orange-800',
+    'ov_anchor_validated': 'bg-green-100 text-green-800',
+    'ov_anchor_rejected': 'bg-red-100 text-red-800',
+    'ov_anchor_revoked': 'bg-red-100 text-red-800',
+    'snooze_expiry_reminders': 'bg-gray-100 text-gray-800',
+    'unsnooze_expiry_reminders': 'bg-blue-100 text-blue-800',
     'high_risk_refund_pattern': 'bg-red-100 text-red-800',
     'login': 'bg-gray-100 text-gray-800',
 }
@@ -87,6 +133,7 @@ const actionColors: Record<string, string> = {
 const ActionIcon = ({ action }: { action: string }) => {
     switch (action) {
         case 'reveal_eab_key':
+        case 'encrypt_eab_keys':
             return <Key className="h-4 w-4" />
         case 'add_domain':
             return <Plus className="h-4 w-4" />
@@ -98,8 +145,12 @@ const ActionIcon = ({ action }: { action: string }) => {
             return <Plus className="h-4 w-4" />
         case 'account_activated':
         case 'account_reactivated':
+        case 'subscription_renewed':
+        case 'reconciliation_resolved':
             return <CheckCircle className="h-4 w-4" />
         case 'account_deactivated':
+        case 'subscription_expired':
+        case 'domain_expired':
             return <AlertCircle className="h-4 w-4" />
         case 'high_risk_refund_pattern':
             return <AlertTriangle className="h-4 w-4" />
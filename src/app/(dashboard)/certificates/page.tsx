@@ -18,9 +18,14 @@ import {
     Shield,
     Clock,
     AlertTriangle,
-    CheckCircle
+    CheckCircle,
+    RefreshCw,
+    History
 } from 'lucide-react'
 import { useEffect, useState, useRef } from 'react'
+import { useSearchParams } from 'next/navigation'
+import CertificateTimeline from '@/components/CertificateTimeline'
+import { buildRenewalTimeline, countRenewalGaps } from '@/lib/certificate-history'
 
 interface Certificate {
     id: string
@@ -31,6 +36,7 @@ interface Certificate {
     valid_not_after: string | null
     status_code: number | null
     status_desc: string | null
+    is_latest: boolean
     synced_at: string | null
     created_at: string
     // Nested domain data
@@ -46,6 +52,15 @@ interface Certificate {
     account_name: string
 }
 
+// Per-domain sync state written by the certificate sync cron
+interface DomainSyncState {
+    id: string
+    domain_name: string
+    last_synced_at: string | null
+    last_sync_error: string | null
+    sync_failures: number
+}
+
 type SortField = 'valid_not_after' | 'valid_not_before' | 'synced_at' | 'created_at'
 type SortDirection = 'asc' | 'desc'
 
@@ -59,7 +74,8 @@ const STATUS_MAP: Record<number, { label: string; color: string }> = {
 }
 
 export default function CertificatesPage() {
-    const [certificates, setCertificates] = useState<Certificate[]>([])
+    // Every certificate ever synced; the list shows the latest per domain
+    const [history, setHistory] = useState<Certificate[]>([])
     const [loading, setLoading] = useState(true)
     const [searchTerm, setSearchTerm] = useState('')
     const [sortField, setSortField] = useState<SortField>('created_at')
@@ -71,6 +87,10 @@ export default function CertificatesPage() {
     const [filterStatus, setFilterStatus] = useState<string>('all')
     const [filterClient, setFilterClient] = useState<string>('all')
     const [filterExpiring, setFilterExpiring] = useState(false)
+    const [syncStates, setSyncStates] = useState<DomainSyncState[]>([])
+    const [showSyncErrors, setShowSyncErrors] = useState(false)
+    const searchParams = useSearchParams()
+    const [timelineDomainId, setTimelineDomainId] = useState<string | null>(searchParams.get('domain'))
     const menuRef = useRef<HTMLDivElement>(null)
     const filterRef = useRef<HTMLDivElement>(null)
     const supabase = createClient()
@@ -145,6 +165,7 @@ export default function CertificatesPage() {
                         valid_not_after: cert.valid_not_after,
                         status_code: cert.status_code,
                         status_desc: cert.status_desc,
+                        is_latest: cert.is_latest,
                         synced_at: cert.synced_at,
                         created_at: cert.created_at,
                         domain_name: domain?.domain_name || 'Unknown',
@@ -158,13 +179,43 @@ export default function CertificatesPage() {
                     }
                 })
 
-            setCertificates(transformed)
+            setHistory(transformed)
+
+            // Sync progress for the partner's active domains
+            const { data: domainData } = await supabase
+                .from('domains')
+                .select('id, domain_name, last_synced_at, last_sync_error, sync_failures, acme_accounts!inner(clients!inner(partner_id))')
+                .eq('status', 'active')
+                .eq('acme_accounts.clients.partner_id', user.id)
+
+            setSyncStates((domainData || []).map(d => ({
+                id: d.id,
+                domain_name: d.domain_name,
+                last_synced_at: d.last_synced_at,
+                last_sync_error: d.last_sync_error,
+                sync_failures: d.sync_failures || 0
+            })))
             setLoading(false)
         }
 
         fetchCertificates()
     }, [supabase])
 
+    const certificates = history.filter(c => c.is_latest)
+
+    const historyByDomain = new Map<string, Certificate[]>()
+    for (const cert of history) {
+        historyByDomain.set(cert.domain_id, [...(historyByDomain.get(cert.domain_id) || []), cert])
+    }
+
+    // Missed renewals per domain
+    const gapsByDomain = new Map(
+        [...historyByDomain].map(([domainId, certs]) => [domainId, countRenewalGaps(buildRenewalTimeline(certs))])
+    )
+
+    // Renewal history of the domain picked for the timeline
+    const timelineCertificates = timelineDomainId ? historyByDomain.get(timelineDomainId) || [] : []
+
     // Get unique clients for filter dropdown
     const uniqueClients = [...new Map(
         certificates.map(c => [c.client_id, { id: c.client_id, name: c.client_name }])
@@ -182,6 +233,20 @@ export default function CertificatesPage() {
         revoked: certificates.filter(c => c.status_code === 8).length,
     }
 
+    // Certificate sync progress
+    const syncProgress = {
+        total: syncStates.length,
+        synced: syncStates.filter(d => d.last_synced_at).length,
+        failing: syncStates.filter(d => d.sync_failures > 0),
+        lastSyncedAt: syncStates.reduce<string | null>(
+            (latest, d) => d.last_synced_at && (!latest || d.last_synced_at > latest) ? d.last_synced_at : latest,
+            null
+        )
+    }
+    const syncPercent = syncProgress.total > 0
+        ? Math.round(syncProgress.synced / syncProgress.total * 100)
+        : 0
+
     // Handle sorting
     const handleSort = (field: SortField) => {
         if (sortField === field) {
@@ -368,6 +433,60 @@ export default function CertificatesPage() {
                 </div>
             </div>
 
+            {/* Sync Progress */}
+            {syncProgress.total > 0 && (
+                <div className="rounded-lg bg-white p-4 shadow">
+                    <div className="flex items-center justify-between gap-4">
+                        <div className="flex items-center gap-3">
+                            <div className="rounded-lg bg-blue-100 p-2">
+                                <RefreshCw className="h-5 w-5 text-[#2d56c2]" />
+                            </div>
+                            <div>
+                                <p className="text-sm font-medium text-gray-900">
+                                    Certificate sync: {syncProgress.synced} of {syncProgress.total} domains synced
+                                </p>
+                                <p className="text-xs text-gray-500">
+                                    {syncProgress.lastSyncedAt
+                                        ? `Last synced ${new Date(syncProgress.lastSyncedAt).toLocaleString()}`
+                                        : 'Waiting for the first sync'}
+                                    {' · '}Domains without a certificate or close to expiry are synced first
+                                </p>
+                            </div>
+                        </div>
+                        {syncProgress.failing.length > 0 && (
+                            <button
+                                onClick={() => setShowSyncErrors(!showSyncErrors)}
+                                className="inline-flex items-center rounded-full bg-[#e83131]/10 px-3 py-1 text-xs font-medium text-[#e83131]"
+                            >
+                                <AlertTriangle className="mr-1 h-3 w-3" />
+                                {syncProgress.failing.length} sync error{syncProgress.failing.length !== 1 ? 's' : ''}
+                            </button>
+                        )}
+                    </div>
+                    <div className="mt-3 h-2 w-full overflow-hidden rounded-full bg-gray-100">
+                        <div
+                            className="h-2 rounded-full bg-[#2d56c2]"
+                            style={{ width: `${syncPercent}%` }}
+                        />
+                    </div>
+                    {showSyncErrors && syncProgress.failing.length > 0 && (
+                        <ul className="mt-3 divide-y divide-gray-100 text-sm">
+                            {syncProgress.failing.map(d => (
+                                <li key={d.id} className="flex items-start justify-between gap-4 py-2">
+                                    <span className="font-medium text-gray-900">{d.domain_name}</span>
+                                    <span className="text-right text-gray-500">
+                                        {d.last_sync_error || 'Unknown error'}
+                                        <span className="ml-2 text-xs text-gray-400">
+                                            ({d.sync_failures} attempt{d.sync_failures !== 1 ? 's' : ''})
+                                        </span>
+                                    </span>
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                </div>
+            )}
+
             {/* Summary Cards */}
             {certificates.length > 0 && (
                 <div className="grid grid-cols-1 gap-4 sm:grid-cols-4">
@@ -692,6 +811,15 @@ export default function CertificatesPage() {
                                                             Wildcard
                                                         </span>
                                                     )}
+                                                    {(gapsByDomain.get(cert.domain_id) || 0) > 0 && (
+                                                        <button
+                                                            onClick={() => setTimelineDomainId(cert.domain_id)}
+                                                            className="text-xs bg-[#e83131]/10 text-[#e83131] px-1.5 py-0.5 rounded"
+                                                            title="Show renewal history"
+                                                        >
+                                                            {gapsByDomain.get(cert.domain_id)} missed renewal{gapsByDomain.get(cert.domain_id) !== 1 ? 's' : ''}
+                                                        </button>
+                                                    )}
                                                 </div>
                                             </td>
                                             <td className="whitespace-nowrap px-6 py-4 text-sm">
@@ -765,6 +893,13 @@ export default function CertificatesPage() {
                                                                     <Eye className="mr-3 h-4 w-4 text-gray-400" />
                                                                     View Client
                                                                 </Link>
+                                                                <button
+                                                                    onClick={() => { setTimelineDomainId(cert.domain_id); setOpenMenuId(null) }}
+                                                                    className="flex w-full items-center px-4 py-2 text-sm text-gray-700 hover:bg-gray-100"
+                                                                >
+                                                                    <History className="mr-3 h-4 w-4 text-gray-400" />
+                                                                    Renewal History
+                                                                </button>
                                                                 {cert.certificate_id && (
                                                                     <button
                                                                         onClick={() => copyToClipboard(cert.certificate_id!)}
@@ -824,6 +959,37 @@ export default function CertificatesPage() {
                     </div>
                 )}
             </div>
+
+            {/* Renewal History */}
+            {timelineDomainId && (
+                <div className="fixed inset-0 z-50 overflow-y-auto">
+                    <div
+                        className="fixed inset-0 bg-black bg-opacity-50 transition-opacity"
+                        onClick={() => setTimelineDomainId(null)}
+                    />
+                    <div className="flex min-h-full items-center justify-center p-4">
+                        <div className="relative w-full max-w-lg rounded-xl bg-white shadow-2xl">
+                            <div className="flex items-center justify-between border-b border-gray-200 px-6 py-4">
+                                <div>
+                                    <h3 className="text-lg font-semibold text-gray-900">Renewal History</h3>
+                                    <p className="text-sm text-gray-500">
+                                        {timelineCertificates[0]?.domain_name || 'Domain'} · {timelineCertificates.length} certificate{timelineCertificates.length !== 1 ? 's' : ''}
+                                    </p>
+                                </div>
+                                <button
+                                    onClick={() => setTimelineDomainId(null)}
+                                    className="rounded-full p-1 text-gray-400 hover:bg-gray-100 hover:text-gray-600"
+                                >
+                                    <X className="h-5 w-5" />
+                                </button>
+                            </div>
+                            <div className="max-h-[60vh] overflow-y-auto px-6 py-5">
+                                <CertificateTimeline certificates={timelineCertificates} />
+                            </div>
+                        </div>
+                    </div>
+                </div>
+            )}
         </div>
     )
 }
@@ -1,16 +1,42 @@
 'use client'
 
-import { useState, useEffect, use } from 'react'
+import { useState, useEffect, use, Fragment } from 'react'
 import { createClient } from '@/lib/supabase/client'
 import Link from 'next/link'
 import { notFound } from 'next/navigation'
-import { ArrowLeft, Eye, EyeOff, Copy, Check, Plus, Globe, Trash2, Calculator, Calendar, Clock, AlertTriangle, MoreVertical, Pause, Play, Power } from 'lucide-react'
+import { ArrowLeft, Eye, EyeOff, Copy, Check, Plus, Globe, Trash2, Calculator, Calendar, Clock, AlertTriangle, MoreVertical, Pause, Play, Power, RefreshCw } from 'lucide-react'
 import RemoveDomainModal from '@/components/RemoveDomainModal'
+import RenewSubscriptionModal from '@/components/RenewSubscriptionModal'
+import RevealEabKeyModal from '@/components/RevealEabKeyModal'
+import CertificateTimeline from '@/components/CertificateTimeline'
+import AcmeClientConfig from '@/components/AcmeClientConfig'
+import { buildRenewalTimeline, countRenewalGaps } from '@/lib/certificate-history'
+import { canTransition } from '@/lib/subscription-lifecycle'
 
 // Default prices (fallback if tier pricing fails)
 const DEFAULT_PRICE_SINGLE = 50
 const DEFAULT_PRICE_WILDCARD = 150
 
+// Response of /api/domains/quote (upstream fields are admin-only)
+interface DomainQuoteResult {
+    blocked: boolean
+    tolerancePercent: number
+    totalPartnerPrice: number
+    totalUpstreamCost?: number
+    totalMargin?: number
+    quotes: Array<{
+        domain: string
+        type: 'single' | 'wildcard'
+        partnerPrice: number
+        withinTolerance: boolean
+        upstreamCost?: number | null
+        expectedCost?: number | null
+        margin?: number | null
+        deviationPercent?: number | null
+        error: string | null
+    }>
+}
+
 export default function AcmeAccountDetailPage({
     params,
 }: {
@@ -24,7 +50,6 @@ export default function AcmeAccountDetailPage({
         status: string
         subscription_years: number
         eab_key_id: string
-        eab_hmac_key: string
         server_url: string
         created_at: string
         start_date: string | null
@@ -53,13 +78,19 @@ export default function AcmeAccountDetailPage({
         valid_not_after: string | null
         status_code: number | null
         status_desc: string | null
+        is_latest: boolean
         synced_at: string | null
     }>>([])
+    const [historyDomainId, setHistoryDomainId] = useState<string | null>(null)
     const [clientName, setClientName] = useState('')
-    const [showEabKey, setShowEabKey] = useState(false)
+    // Decrypted on request (password re-check), never loaded with the account
+    const [eabHmacKey, setEabHmacKey] = useState<string | null>(null)
+    const [revealModalOpen, setRevealModalOpen] = useState(false)
     const [copied, setCopied] = useState<string | null>(null)
     const [domainInput, setDomainInput] = useState('')
     const [addingDomain, setAddingDomain] = useState(false)
+    const [quotingDomains, setQuotingDomains] = useState(false)
+    const [quote, setQuote] = useState<{ input: string; result: DomainQuoteResult } | null>(null)
     const [loading, setLoading] = useState(true)
     const [showRemovedDomains, setShowRemovedDomains] = useState(false)
 
@@ -86,6 +117,7 @@ export default function AcmeAccountDetailPage({
     const [showAccountMenu, setShowAccountMenu] = useState(false)
     const [accountActionLoading, setAccountActionLoading] = useState(false)
     const [showDeactivateConfirm, setShowDeactivateConfirm] = useState(false)
+    const [renewModalOpen, setRenewModalOpen] = useState(false)
 
     const supabase = createClient()
 
@@ -120,12 +152,16 @@ export default function AcmeAccountDetailPage({
     const parsedDomains = parseDomains(domainInput)
     const totalPrice = parsedDomains.reduce((sum, d) => sum + d.price, 0)
 
+    // A quote is only valid for the exact input it was requested for
+    const currentQuote = quote && quote.input === domainInput ? quote.result : null
+    const showUpstreamCost = currentQuote?.totalUpstreamCost !== undefined
+
     useEffect(() => {
         const fetchData = async () => {
-            // Fetch account
+            // Fetch account (without the EAB HMAC key columns)
             const { data: accountData } = await supabase
                 .from('acme_accounts')
-                .select('*')
+                .select('id, account_name, certificate_type, status, subscription_years, eab_key_id, server_url, created_at, start_date, end_date, acme_account_id')
                 .eq('id', accountId)
                 .single()
 
@@ -208,6 +244,7 @@ export default function AcmeAccountDetailPage({
                     valid_not_after: cert.valid_not_after,
                     status_code: cert.status_code,
                     status_desc: cert.status_desc,
+                    is_latest: cert.is_latest,
                     synced_at: cert.synced_at
                 }))
                 setCertificates(transformed)
@@ -237,266 +274,118 @@ export default function AcmeAccountDetailPage({
         }
     }
 
-    const handleAddDomains = async (e: React.FormEvent) => {
-        e.preventDefault()
-        if (parsedDomains.length === 0) return
-
-        const { data: { user } } = await supabase.auth.getUser()
-        if (!user) return
-
-        // ============================================================
-        // CREDIT CHECK: Only applies to DEPOSIT payment type
-        // Post-Paid partners have trust-based billing (no limit)
-        // ============================================================
-
-        const estimatedCost = parsedDomains.reduce((sum, d) => sum + d.price, 0)
-
-        // Get partner's payment type and credit limit
-        const { data: partner } = await supabase
-            .from('partners')
-            .select('payment_type, credit_limit')
-            .eq('id', user.id)
-            .single()
-
-        const paymentType = partner?.payment_type || 'post_paid'
-
-        // Only check credit limit for DEPOSIT payment type
-        if (paymentType === 'deposit') {
-            // Get current usage from transactions (including reserved)
-            const { data: usageData } = await supabase
-                .from('transactions')
-                .select('type, amount, status')
-                .eq('partner_id', user.id)
-                .in('status', ['success', 'pending_api'])
-
-            let currentUsage = 0
-            usageData?.forEach(tx => {
-                if (tx.type === 'add_domain') currentUsage += tx.amount || 0
-                if (tx.type === 'refund') currentUsage -= tx.amount || 0
+    // Ask Sectigo for upstream cost (ADDDOMAIN quoteOnly) before committing
+    const handleQuoteDomains = async () => {
+        setQuotingDomains(true)
+        try {
+            const response = await fetch('/api/domains/quote', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    accountId,
+                    domains: parsedDomains.map(d => d.domain)
+                })
             })
 
-            const creditLimit = partner?.credit_limit || 0
-            const availableLimit = creditLimit - currentUsage
-
-            // REJECT if insufficient credit (deposit users only)
-            if (estimatedCost > availableLimit) {
-                alert(
-                    `❌ Insufficient Credit Limit\n\n` +
-                    `Required: $${estimatedCost.toFixed(2)}\n` +
-                    `Available: $${availableLimit.toFixed(2)}\n\n` +
-                    `Please contact KICA to increase your credit limit.`
-                )
+            const result = await response.json()
+
+            if (!response.ok) {
+                const listed = result.duplicates || result.invalid
+                alert(`❌ ${result.error || 'Failed to get quote'}${listed ? `\n\n${listed.join('\n')}` : ''}`)
                 return
             }
-        }
-        // For post_paid: No credit check - trust-based billing
-
-        // Credit check passed, proceed with domain addition
-        setAddingDomain(true)
-
-        const results: { domain: string; success: boolean; error?: string }[] = []
-
-        for (const domainInfo of parsedDomains) {
-            // ============================================================
-            // PHASE 1: RESERVE - Create pending records before API call
-            // ============================================================
 
-            // Insert domain with pending status
-            const { data: domainData, error: domainError } = await supabase
-                .from('domains')
-                .insert({
-                    acme_account_id: accountId,
-                    domain_name: domainInfo.domain,
-                    domain_type: domainInfo.type,
-                    billing_type: 'paid',
-                    status: 'pending',  // Will become 'active' on success
-                    price_charged: domainInfo.price
-                })
-                .select()
-                .single()
+            setQuote({ input: domainInput, result })
+        } catch (apiError) {
+            console.error('Quote domains error:', apiError)
+            alert('API connection failed. Please try again.')
+        } finally {
+            setQuotingDomains(false)
+        }
+    }
 
-            if (domainError || !domainData) {
-                results.push({ domain: domainInfo.domain, success: false, error: 'Failed to create domain record' })
-                continue
-            }
+    const handleAddDomains = async (e: React.FormEvent) => {
+        e.preventDefault()
+        if (parsedDomains.length === 0) return
 
-            // Insert transaction with pending_api status (RESERVE credit)
-            const { data: txData, error: txError } = await supabase
-                .from('transactions')
-                .insert({
-                    partner_id: user.id,
-                    acme_account_id: accountId,
-                    domain_id: domainData.id,
-                    type: 'add_domain',
-                    description: `Adding domain: ${domainInfo.domain}`,
-                    amount: domainInfo.price,
-                    status: 'pending_api'  // Credit is now RESERVED
-                })
-                .select()
-                .single()
+        if (!currentQuote) {
+            await handleQuoteDomains()
+            return
+        }
+        if (currentQuote.blocked) return
 
-            if (txError || !txData) {
-                // Rollback domain
-                await supabase.from('domains').delete().eq('id', domainData.id)
-                results.push({ domain: domainInfo.domain, success: false, error: 'Failed to create transaction' })
-                continue
-            }
+        setAddingDomain(true)
 
+        try {
             // ============================================================
-            // PHASE 2: EXECUTE - Call Sectigo API via server endpoint
+            // Server-side provisioning: credit check, reserve, Sectigo
+            // ADDDOMAIN and commit/rollback all run in one durable job
             // ============================================================
-
-            try {
-                // Call server-side API endpoint (not direct Sectigo client)
-                const apiResponse = await fetch('/api/domains/add', {
-                    method: 'POST',
-                    headers: { 'Content-Type': 'application/json' },
-                    body: JSON.stringify({
-                        acmeAccountID: account?.acme_account_id || '',
-                        domainName: domainInfo.domain,
-                        transactionId: txData.id
-                    })
+            const response = await fetch('/api/domains/provision', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    accountId,
+                    domains: parsedDomains.map(d => d.domain)
                 })
+            })
 
-                const apiData = await apiResponse.json()
-
-                // ============================================================
-                // PHASE 3: Handle API response
-                // ============================================================
-
-                if (!apiData.success) {
-                    // API returned error - already rolled back in API route
-                    await supabase
-                        .from('domains')
-                        .update({ status: 'failed' })
-                        .eq('id', domainData.id)
+            const result = await response.json()
 
-                    results.push({ domain: domainInfo.domain, success: false, error: apiData.error })
-                    continue
+            if (!response.ok) {
+                if (response.status === 402) {
+                    alert(
+                        `❌ Insufficient Credit Limit\n\n` +
+                        `Required: $${Number(result.required).toFixed(2)}\n` +
+                        `Available: $${Number(result.available).toFixed(2)}\n\n` +
+                        `Please contact KICA to increase your credit limit.`
+                    )
+                } else {
+                    const listed = result.duplicates || result.invalid || result.blocked
+                    alert(`❌ ${result.error || 'Failed to add domains'}${listed ? `\n\n${listed.join('\n')}` : ''}`)
                 }
-
-                // SUCCESS - Update domain status
-                const response = apiData.data
-                const orderNumber = response?.orderNumber?.toString() || null
-
-                // Update domain with active status and order number
-                await supabase
-                    .from('domains')
-                    .update({
-                        status: 'active',
-                        sectigo_order_number: orderNumber
-                    })
-                    .eq('id', domainData.id)
-
-                // Update UI
-                setDomains(prev => [{
-                    ...domainData,
-                    status: 'active',
-                    sectigo_order_number: orderNumber
-                }, ...prev])
-
-                // Log audit
-                await supabase.from('audit_logs').insert({
-                    actor_id: user.id,
-                    action: 'add_domain',
-                    target_type: 'domain',
-                    target_id: domainData.id,
-                    details: {
-                        domain_name: domainInfo.domain,
-                        price: domainInfo.price,
-                        sectigo_order_number: orderNumber
-                    }
-                })
-
-                results.push({ domain: domainInfo.domain, success: true })
-
-            } catch (apiError) {
-                // Network error or exception - mark as failed
-                console.error('Sectigo API error:', apiError)
-
-                await supabase
-                    .from('transactions')
-                    .update({
-                        status: 'failed',
-                        description: `API Error: ${apiError instanceof Error ? apiError.message : 'Unknown error'}`
-                    })
-                    .eq('id', txData.id)
-
-                await supabase
-                    .from('domains')
-                    .update({ status: 'failed' })
-                    .eq('id', domainData.id)
-
-                results.push({ domain: domainInfo.domain, success: false, error: 'API connection failed' })
+                return
             }
-        }
 
-        // ============================================================
-        // ACCOUNT REACTIVATION LOGIC
-        // If first successful domain added to pending_start or inactive account,
-        // activate the account and set billing cycle dates
-        // ============================================================
-        const successCount = results.filter(r => r.success).length
-        const shouldActivate = successCount > 0 &&
-            (account?.status === 'pending_start' || account?.status === 'inactive')
+            const results: { domain: string; success: boolean; step: string; error: string | null }[] = result.results
 
-        if (shouldActivate) {
-            const previousStatus = account?.status
-            const previousStartDate = account?.start_date
-            const previousEndDate = account?.end_date
-
-            const startDate = new Date()
-            const endDate = new Date(startDate)
-            endDate.setFullYear(endDate.getFullYear() + (account?.subscription_years || 1))
+            // Refresh domains from the database (source of truth)
+            const { data: domainsData } = await supabase
+                .from('domains')
+                .select('*')
+                .eq('acme_account_id', accountId)
+                .order('added_at', { ascending: false })
 
-            const { error: activateError } = await supabase
-                .from('acme_accounts')
-                .update({
-                    status: 'active',
-                    start_date: startDate.toISOString(),
-                    end_date: endDate.toISOString()
-                })
-                .eq('id', accountId)
+            if (domainsData) {
+                setDomains(domainsData)
+            }
 
-            if (!activateError) {
-                // Update local state
-                setAccount(prev => prev ? {
-                    ...prev,
-                    status: 'active',
-                    start_date: startDate.toISOString(),
-                    end_date: endDate.toISOString()
-                } : null)
+            // Account may have been activated by the first successful domain
+            if (result.account) {
+                setAccount(prev => prev ? { ...prev, ...result.account } : null)
+            }
 
-                // Log account activation/reactivation
-                const isReactivation = previousStatus === 'inactive'
-                await supabase.from('audit_logs').insert({
-                    actor_id: user.id,
-                    action: isReactivation ? 'account_reactivated' : 'account_activated',
-                    target_type: 'acme_account',
-                    target_id: accountId,
-                    details: {
-                        previous_status: previousStatus,
-                        new_status: 'active',
-                        previous_start_date: previousStartDate,
-                        previous_end_date: previousEndDate,
-                        new_start_date: startDate.toISOString(),
-                        new_end_date: endDate.toISOString(),
-                        triggered_by_domain: results.find(r => r.success)?.domain,
-                        subscription_years: account?.subscription_years || 1
-                    }
-                })
+            // Show results summary
+            const successCount = results.filter(r => r.success).length
+            const failed = results.filter(r => r.step === 'rolled_back')
+            const unfinished = results.filter(r => !r.success && r.step !== 'rolled_back')
+
+            if (failed.length > 0 || unfinished.length > 0) {
+                const failedDomains = failed.map(r => `• ${r.domain}: ${r.error}`).join('\n')
+                const unfinishedNote = unfinished.length > 0
+                    ? `\n\n${unfinished.length} domain(s) are still being processed and will be completed automatically.`
+                    : ''
+                alert(`⚠️ Some domains failed to add:\n\n${failedDomains}${unfinishedNote}\n\n${successCount} domain(s) added successfully.`)
             }
-        }
 
-        // Show results summary
-        const failedCount = results.filter(r => !r.success).length
-        if (failedCount > 0) {
-            const failedDomains = results.filter(r => !r.success).map(r => `• ${r.domain}: ${r.error}`).join('\n')
-            alert(`⚠️ Some domains failed to add:\n\n${failedDomains}\n\n${successCount} domain(s) added successfully.`)
+            setDomainInput('')
+            setQuote(null)
+        } catch (apiError) {
+            console.error('Add domains error:', apiError)
+            alert('API connection failed. Domains that were already submitted will be completed automatically.')
+        } finally {
+            setAddingDomain(false)
         }
-
-        setDomainInput('')
-        setAddingDomain(false)
     }
 
     // ============================================================
@@ -525,212 +414,34 @@ export default function AcmeAccountDetailPage({
     const handleConfirmRemove = async () => {
         if (!domainToRemove) return
 
-        const { data: { user } } = await supabase.auth.getUser()
-        if (!user) return
-
         // ============================================================
-        // VALIDATION: Find original add_domain transaction
+        // Server-side removal: Sectigo REMOVEDOMAIN, soft delete,
+        // refund, audit log and account lifecycle in one idempotent call
         // ============================================================
-        const { data: originalTx, error: txFetchError } = await supabase
-            .from('transactions')
-            .select('id, status, amount, sectigo_order_number')
-            .eq('domain_id', domainToRemove.id)
-            .eq('type', 'add_domain')
-            .single()
-
-        if (txFetchError || !originalTx) {
-            console.error('Failed to find original transaction:', txFetchError)
-            alert('Error: Cannot find original add_domain transaction for this domain.')
-            return
-        }
-
-        // STATUS VALIDATION: Block if original tx is FAILED or PENDING
-        if (originalTx.status === 'failed' || originalTx.status === 'pending') {
-            alert(`Cannot refund: Original transaction status is "${originalTx.status}". Only successful transactions can be refunded.`)
-            return
-        }
-
-        // DUPLICATE CHECK: Ensure no existing refund for this domain
-        if (domainToRemove.isRefundable) {
-            const { data: existingRefund } = await supabase
-                .from('transactions')
-                .select('id')
-                .eq('domain_id', domainToRemove.id)
-                .eq('type', 'refund')
-                .single()
-
-            if (existingRefund) {
-                alert('Error: This domain has already been refunded.')
-                return
-            }
-        }
-
-        // ============================================================
-        // ATOMIC OPERATION: Remove domain + Create refund transaction
-        // ============================================================
-        const removedAt = new Date().toISOString()
-
-        // Step 1: Soft delete domain (mark as removed with timestamp)
-        const { error: updateError } = await supabase
-            .from('domains')
-            .update({
-                status: 'removed',
-                removed_at: removedAt
+        try {
+            const response = await fetch('/api/domains/remove', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ domainId: domainToRemove.id })
             })
-            .eq('id', domainToRemove.id)
 
-        if (updateError) {
-            console.error('Failed to remove domain:', updateError)
-            alert('Failed to remove domain. Please try again.')
-            return
-        }
-
-        // Step 2: Create refund transaction with link to original
-        let refundTxId: string | null = null
-        if (domainToRemove.isRefundable && domainToRemove.price_charged > 0) {
-            const { data: refundTx, error: txError } = await supabase
-                .from('transactions')
-                .insert({
-                    partner_id: user.id,
-                    acme_account_id: accountId,
-                    domain_id: domainToRemove.id,
-                    type: 'refund',
-                    description: `Refund for removed domain: ${domainToRemove.domain_name} (within 30-day window)`,
-                    amount: domainToRemove.price_charged,
-                    status: 'success',
-                    related_transaction_id: originalTx.id,  // LINK to original transaction
-                    sectigo_order_number: originalTx.sectigo_order_number  // SAME order number for reconciliation
-                })
-                .select('id')
-                .single()
+            const result = await response.json()
 
-            if (txError) {
-                console.error('Failed to create refund transaction:', txError)
-                // Domain already removed, but refund failed - log this as critical
-                await supabase.from('audit_logs').insert({
-                    actor_id: user.id,
-                    action: 'refund_failed',
-                    target_type: 'transaction',
-                    target_id: originalTx.id,
-                    details: {
-                        error: txError.message,
-                        domain_name: domainToRemove.domain_name,
-                        amount: domainToRemove.price_charged
-                    }
-                })
-            } else {
-                refundTxId = refundTx?.id || null
-
-                // Update original transaction status to 'refunded'
-                await supabase
-                    .from('transactions')
-                    .update({ status: 'refunded' })
-                    .eq('id', originalTx.id)
-
-                // Update domain with refund transaction link
-                await supabase
-                    .from('domains')
-                    .update({ refund_transaction_id: refundTxId })
-                    .eq('id', domainToRemove.id)
+            if (!response.ok || !result.success) {
+                alert(`Failed to remove domain: ${result.error || 'Unknown error'}\n\nYou can safely retry - the removal resumes where it stopped.`)
+                return
             }
-        }
 
-        // ============================================================
-        // AUDIT LOGGING: Record refund action with full details
-        // ============================================================
-        await supabase.from('audit_logs').insert({
-            actor_id: user.id,
-            action: domainToRemove.isRefundable ? 'refund_domain' : 'remove_domain',
-            target_type: 'domain',
-            target_id: domainToRemove.id,
-            details: {
-                domain_name: domainToRemove.domain_name,
-                days_since_added: domainToRemove.daysSinceAdded,
-                refunded: domainToRemove.isRefundable,
-                refund_amount: domainToRemove.isRefundable ? domainToRemove.price_charged : 0,
-                original_transaction_id: originalTx.id,
-                refund_transaction_id: refundTxId,
-                triggered_by: user.email || user.id
+            // Sectigo didn't respond in time: the removal is retried in the background
+            if (result.queued) {
+                alert(`Removal of ${domainToRemove.domain_name} is queued and will be retried automatically.\n\nTrack it on the Operations page.`)
+                setRemoveModalOpen(false)
+                setDomainToRemove(null)
+                return
             }
-        })
-
-        // ============================================================
-        // ACME ACCOUNT LIFECYCLE: Check if account should become inactive
-        // ============================================================
-        // Count remaining active domains for this account
-        const { count: remainingDomains } = await supabase
-            .from('domains')
-            .select('*', { count: 'exact', head: true })
-            .eq('acme_account_id', accountId)
-            .eq('status', 'active')
-
-        // If no more active domains, reset account to inactive state
-        if (remainingDomains === 0) {
-            const previousStatus = account?.status
-            const previousStartDate = account?.start_date
-            const previousEndDate = account?.end_date
-
-            // Update ACME account: status → inactive, dates → NULL
-            const { error: accountUpdateError } = await supabase
-                .from('acme_accounts')
-                .update({
-                    status: 'inactive',
-                    start_date: null,
-                    end_date: null
-                })
-                .eq('id', accountId)
 
-            if (accountUpdateError) {
-                console.error('Failed to update ACME account status:', accountUpdateError)
-            } else {
-                // Log the account status change
-                await supabase.from('audit_logs').insert({
-                    actor_id: user.id,
-                    action: 'account_deactivated',
-                    target_type: 'acme_account',
-                    target_id: accountId,
-                    details: {
-                        reason: 'All domains removed/refunded',
-                        previous_status: previousStatus,
-                        new_status: 'inactive',
-                        previous_start_date: previousStartDate,
-                        previous_end_date: previousEndDate,
-                        dates_reset: true,
-                        triggered_by_domain: domainToRemove.domain_name
-                    }
-                })
-
-                // ============================================================
-                // ABUSE DETECTION: Check for excessive refund patterns
-                // ============================================================
-                const thirtyDaysAgo = new Date()
-                thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30)
-
-                const { count: recentRefundCount } = await supabase
-                    .from('transactions')
-                    .select('*', { count: 'exact', head: true })
-                    .eq('acme_account_id', accountId)
-                    .eq('type', 'refund')
-                    .eq('status', 'success')
-                    .gte('created_at', thirtyDaysAgo.toISOString())
-
-                if (recentRefundCount && recentRefundCount >= 3) {
-                    // Flag as high risk in audit log
-                    await supabase.from('audit_logs').insert({
-                        actor_id: user.id,
-                        action: 'high_risk_refund_pattern',
-                        target_type: 'acme_account',
-                        target_id: accountId,
-                        details: {
-                            refund_count_30_days: recentRefundCount,
-                            alert_level: 'HIGH',
-                            message: 'This account has had 3+ refunds in the last 30 days. Manual review recommended.',
-                            account_status: 'inactive'
-                        }
-                    })
-                }
-
-                // Update local account state
+            // Update local account state (inactive when no domains remain)
+            if (result.accountStatus === 'inactive') {
                 setAccount(prev => prev ? {
                     ...prev,
                     status: 'inactive',
@@ -738,6 +449,10 @@ export default function AcmeAccountDetailPage({
                     end_date: null
                 } : null)
             }
+        } catch (err) {
+            console.error('Failed to remove domain:', err)
+            alert('Failed to remove domain. Please try again.')
+            return
         }
 
         // Update UI - remove from list and close modal
@@ -770,6 +485,11 @@ export default function AcmeAccountDetailPage({
                 throw new Error(result.error || 'Action failed')
             }
 
+            if (result.queued) {
+                alert(`Sectigo did not respond in time. The ${action} request is queued and will be retried automatically.\n\nTrack it on the Operations page.`)
+                return
+            }
+
             // Update local state
             const newStatus = action === 'suspend' ? 'suspended'
                 : action === 'unsuspend' ? 'active'
@@ -803,11 +523,18 @@ export default function AcmeAccountDetailPage({
         notFound()
     }
 
+    // One row per domain; older certificates show in its renewal history
+    const latestCertificates = certificates.filter(c => c.is_latest)
+
     // Calculate days remaining
     const daysRemaining = account.end_date
         ? Math.ceil((new Date(account.end_date).getTime() - Date.now()) / (1000 * 60 * 60 * 24))
         : null
 
+    // Renewal needs a live (or lapsed) subscription with at least one paid domain
+    const canRenew = (account.status === 'active' || account.status === 'expired') &&
+        domains.some(d => d.billing_type === 'paid' && (d.status === 'active' || d.status === 'expired'))
+
     return (
         <div className="space-y-6">
             {/* Header */}
@@ -841,6 +568,14 @@ export default function AcmeAccountDetailPage({
                                             {daysRemaining} days left
                                         </span>
                                     )}
+                                    {canRenew && daysRemaining !== null && daysRemaining < 90 && (
+                                        <button
+                                            onClick={() => setRenewModalOpen(true)}
+                                            className="ml-2 rounded-lg bg-blue-600 px-2.5 py-1 text-xs font-medium text-white hover:bg-blue-700"
+                                        >
+                                            Renew
+                                        </button>
+                                    )}
                                 </div>
                             )}
                         </div>
@@ -874,7 +609,19 @@ export default function AcmeAccountDetailPage({
 
                         {showAccountMenu && (
                             <div className="absolute right-0 top-full z-10 mt-1 w-48 rounded-lg bg-white py-1 shadow-lg ring-1 ring-black ring-opacity-5">
-                                {account.status !== 'suspended' && account.status !== 'terminated' && (
+                                {canRenew && (
+                                    <button
+                                        onClick={() => {
+                                            setShowAccountMenu(false)
+                                            setRenewModalOpen(true)
+                                        }}
+                                        className="flex w-full items-center px-4 py-2 text-sm text-gray-700 hover:bg-gray-100"
+                                    >
+                                        <RefreshCw className="mr-3 h-4 w-4 text-blue-500" />
+                                        Renew Subscription
+                                    </button>
+                                )}
+                                {canTransition(account.status, 'suspended') && (
                                     <button
                                         onClick={() => handleAccountAction('suspend')}
                                         className="flex w-full items-center px-4 py-2 text-sm text-gray-700 hover:bg-gray-100"
@@ -892,7 +639,7 @@ export default function AcmeAccountDetailPage({
                                         Unsuspend Subscription
                                     </button>
                                 )}
-                                {account.status !== 'terminated' && (
+                                {canTransition(account.status, 'terminated') && (
                                     <>
                                         <div className="my-1 border-t border-gray-100" />
                                         <button
@@ -968,7 +715,7 @@ export default function AcmeAccountDetailPage({
             <div className="rounded-lg bg-white p-6 shadow">
                 <h3 className="text-lg font-medium text-gray-900">EAB Credentials</h3>
                 <p className="mt-1 text-sm text-gray-500">
-                    Use these credentials to configure your ACME client (certbot, acme.sh, etc.)
+                    Use these credentials to configure your ACME client, or copy a ready-made configuration below
                 </p>
 
                 <div className="mt-4 space-y-4">
@@ -998,21 +745,21 @@ export default function AcmeAccountDetailPage({
                         <label className="block text-sm font-medium text-gray-700">EAB HMAC Key</label>
                         <div className="mt-1 flex items-center space-x-2">
                             <code className="flex-1 rounded-lg bg-gray-100 px-4 py-3 font-mono text-sm text-gray-900">
-                                {showEabKey ? account.eab_hmac_key : '••••••••••••••••••••••••••••••••'}
+                                {eabHmacKey ?? '••••••••••••••••••••••••••••••••'}
                             </code>
                             <button
-                                onClick={() => setShowEabKey(!showEabKey)}
+                                onClick={() => eabHmacKey ? setEabHmacKey(null) : setRevealModalOpen(true)}
                                 className="rounded-lg p-2 hover:bg-gray-100"
-                                title={showEabKey ? 'Hide' : 'Show'}
+                                title={eabHmacKey ? 'Hide' : 'Show'}
                             >
-                                {showEabKey ? (
+                                {eabHmacKey ? (
                                     <EyeOff className="h-5 w-5 text-gray-500" />
                                 ) : (
                                     <Eye className="h-5 w-5 text-gray-500" />
                                 )}
                             </button>
                             <button
-                                onClick={() => copyToClipboard(account.eab_hmac_key, 'eab_hmac_key')}
+                                onClick={() => eabHmacKey ? copyToClipboard(eabHmacKey, 'eab_hmac_key') : setRevealModalOpen(true)}
                                 className="rounded-lg p-2 hover:bg-gray-100"
                                 title="Copy"
                             >
@@ -1047,15 +794,16 @@ export default function AcmeAccountDetailPage({
                     </div>
                 </div>
 
-                {/* Certbot Command */}
+                {/* ACME Client Configuration */}
                 <div className="mt-6">
-                    <label className="block text-sm font-medium text-gray-700">Certbot Command Example</label>
-                    <pre className="mt-2 overflow-x-auto rounded-lg bg-gray-900 p-4 text-sm text-green-400">
-                        {`certbot certonly --server ${account.server_url} \\
-  --eab-kid ${account.eab_key_id} \\
-  --eab-hmac-key ${showEabKey ? account.eab_hmac_key : '<YOUR_HMAC_KEY>'} \\
-  -d example.com`}
-                    </pre>
+                    <AcmeClientConfig
+                        serverUrl={account.server_url}
+                        eabKeyId={account.eab_key_id}
+                        eabHmacKey={eabHmacKey}
+                        certificateType={account.certificate_type === 'OV' ? 'OV' : 'DV'}
+                        domains={domains.filter(d => d.status === 'active').map(d => d.domain_name)}
+                        onRevealKey={() => setRevealModalOpen(true)}
+                    />
                 </div>
             </div>
 
@@ -1125,15 +873,96 @@ export default function AcmeAccountDetailPage({
                         </div>
                     )}
 
+                    {/* Sectigo Quote */}
+                    {currentQuote && (
+                        <div className={`mt-3 overflow-hidden rounded-lg border ${currentQuote.blocked ? 'border-red-200' : 'border-green-200'}`}>
+                            <table className="min-w-full divide-y divide-gray-200 text-sm">
+                                <thead className="bg-gray-50">
+                                    <tr>
+                                        <th className="px-4 py-2 text-left text-xs font-medium uppercase tracking-wider text-gray-500">Domain</th>
+                                        <th className="px-4 py-2 text-right text-xs font-medium uppercase tracking-wider text-gray-500">Price</th>
+                                        {showUpstreamCost && (
+                                            <>
+                                                <th className="px-4 py-2 text-right text-xs font-medium uppercase tracking-wider text-gray-500">Sectigo Cost</th>
+                                                <th className="px-4 py-2 text-right text-xs font-medium uppercase tracking-wider text-gray-500">Margin</th>
+                                            </>
+                                        )}
+                                        <th className="px-4 py-2 text-left text-xs font-medium uppercase tracking-wider text-gray-500">Status</th>
+                                    </tr>
+                                </thead>
+                                <tbody className="divide-y divide-gray-100 bg-white">
+                                    {currentQuote.quotes.map(q => (
+                                        <tr key={q.domain}>
+                                            <td className="px-4 py-2 text-gray-900">{q.domain}</td>
+                                            <td className="px-4 py-2 text-right text-gray-900">${q.partnerPrice.toFixed(2)}</td>
+                                            {showUpstreamCost && (
+                                                <>
+                                                    <td className="px-4 py-2 text-right text-gray-900">
+                                                        {q.upstreamCost != null ? `$${q.upstreamCost.toFixed(2)}` : '-'}
+                                                        {q.expectedCost != null && (
+                                                            <div className="text-xs text-gray-400">expected ${q.expectedCost.toFixed(2)}</div>
+                                                        )}
+                                                    </td>
+                                                    <td className={`px-4 py-2 text-right ${q.margin != null && q.margin < 0 ? 'text-red-600' : 'text-gray-900'}`}>
+                                                        {q.margin != null ? `$${q.margin.toFixed(2)}` : '-'}
+                                                    </td>
+                                                </>
+                                            )}
+                                            <td className="px-4 py-2">
+                                                {q.withinTolerance ? (
+                                                    <span className="inline-flex items-center text-green-700">
+                                                        <Check className="mr-1 h-4 w-4" /> OK
+                                                    </span>
+                                                ) : (
+                                                    <span className="inline-flex items-start text-red-600">
+                                                        <AlertTriangle className="mr-1 h-4 w-4 flex-shrink-0" /> {q.error}
+                                                    </span>
+                                                )}
+                                            </td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                                <tfoot className="bg-gray-50 font-semibold">
+                                    <tr>
+                                        <td className="px-4 py-2 text-gray-900">Total</td>
+                                        <td className="px-4 py-2 text-right text-gray-900">${currentQuote.totalPartnerPrice.toFixed(2)}</td>
+                                        {showUpstreamCost && (
+                                            <>
+                                                <td className="px-4 py-2 text-right text-gray-900">${(currentQuote.totalUpstreamCost ?? 0).toFixed(2)}</td>
+                                                <td className="px-4 py-2 text-right text-gray-900">${(currentQuote.totalMargin ?? 0).toFixed(2)}</td>
+                                            </>
+                                        )}
+                                        <td className="px-4 py-2 text-xs font-normal text-gray-500">
+                                            {currentQuote.blocked
+                                                ? `Blocked: cost differs by more than ${currentQuote.tolerancePercent}%`
+                                                : 'Confirmed with Sectigo'}
+                                        </td>
+                                    </tr>
+                                </tfoot>
+                            </table>
+                        </div>
+                    )}
+
                     <div className="mt-3 flex justify-end">
-                        <button
-                            type="submit"
-                            disabled={addingDomain || parsedDomains.length === 0}
-                            className="inline-flex items-center rounded-lg bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700 disabled:opacity-50"
-                        >
-                            <Plus className="mr-2 h-4 w-4" />
-                            {addingDomain ? 'Adding...' : `Add ${parsedDomains.length > 0 ? parsedDomains.length : ''} Domain${parsedDomains.length !== 1 ? 's' : ''}`}
-                        </button>
+                        {currentQuote ? (
+                            <button
+                                type="submit"
+                                disabled={addingDomain || currentQuote.blocked}
+                                className="inline-flex items-center rounded-lg bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700 disabled:opacity-50"
+                            >
+                                <Plus className="mr-2 h-4 w-4" />
+                                {addingDomain ? 'Adding...' : `Add ${parsedDomains.length} Domain${parsedDomains.length !== 1 ? 's' : ''}`}
+                            </button>
+                        ) : (
+                            <button
+                                type="submit"
+                                disabled={quotingDomains || parsedDomains.length === 0}
+                                className="inline-flex items-center rounded-lg bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700 disabled:opacity-50"
+                            >
+                                <Calculator className="mr-2 h-4 w-4" />
+                                {quotingDomains ? 'Getting Quote...' : 'Get Quote'}
+                            </button>
+                        )}
                     </div>
                 </form>
 
@@ -1300,15 +1129,15 @@ export default function AcmeAccountDetailPage({
                             <h3 className="text-lg font-medium text-gray-900">Certificates</h3>
                             <p className="text-sm text-gray-500">Issued certificates for this account</p>
                         </div>
-                        {certificates.length > 0 && (
+                        {latestCertificates.length > 0 && (
                             <span className="inline-flex items-center rounded-full bg-green-100 px-3 py-1 text-xs font-medium text-green-700">
-                                {certificates.length} Certificate{certificates.length !== 1 ? 's' : ''}
+                                {latestCertificates.length} Certificate{latestCertificates.length !== 1 ? 's' : ''}
                             </span>
                         )}
                     </div>
                 </div>
 
-                {certificates.length === 0 ? (
+                {latestCertificates.length === 0 ? (
                     <div className="p-8 text-center">
                         <div className="mx-auto flex h-16 w-16 items-center justify-center rounded-full bg-gray-100">
                             <svg className="h-8 w-8 text-gray-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
@@ -1343,71 +1172,99 @@ export default function AcmeAccountDetailPage({
                                 <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500">
                                     Days Left
                                 </th>
+                                <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500">
+                                    History
+                                </th>
                             </tr>
                         </thead>
                         <tbody className="divide-y divide-gray-200 bg-white">
-                            {certificates.map((cert) => {
+                            {latestCertificates.map((cert) => {
+                                const domainHistory = certificates.filter(c => c.domain_id === cert.domain_id)
+                                const missedRenewals = countRenewalGaps(buildRenewalTimeline(domainHistory))
+                                const showHistory = historyDomainId === cert.domain_id
                                 const expiryDate = cert.valid_not_after ? new Date(cert.valid_not_after) : null
                                 const daysLeft = expiryDate ? Math.ceil((expiryDate.getTime() - Date.now()) / (1000 * 60 * 60 * 24)) : null
                                 const isExpired = daysLeft !== null && daysLeft < 0
                                 const isExpiringSoon = daysLeft !== null && daysLeft > 0 && daysLeft <= 30
 
                                 return (
-                                    <tr key={cert.id} className="hover:bg-gray-50">
-                                        <td className="whitespace-nowrap px-6 py-4">
-                                            <div className="flex items-center">
-                                                <Globe className="mr-2 h-5 w-5 text-gray-400" />
-                                                <span className="font-medium text-gray-900">{cert.domain_name}</span>
-                                            </div>
-                                        </td>
-                                        <td className="whitespace-nowrap px-6 py-4">
-                                            <span className={`inline-flex rounded-full px-2 py-1 text-xs font-semibold ${isExpired
-                                                ? 'bg-red-100 text-red-800'
-                                                : isExpiringSoon
-                                                    ? 'bg-yellow-100 text-yellow-800'
-                                                    : 'bg-green-100 text-green-800'
-                                                }`}>
-                                                {isExpired ? 'Expired' : cert.status_desc || 'Unknown'}
-                                            </span>
-                                        </td>
-                                        <td className="px-6 py-4">
-                                            <code className="text-xs text-gray-600">
-                                                {cert.serial_number || 'N/A'}
-                                            </code>
-                                        </td>
-                                        <td className="whitespace-nowrap px-6 py-4 text-sm text-gray-900">
-                                            {cert.valid_not_before
-                                                ? new Date(cert.valid_not_before).toLocaleDateString('id-ID', {
-                                                    day: 'numeric',
-                                                    month: 'short',
-                                                    year: 'numeric'
-                                                })
-                                                : 'N/A'}
-                                        </td>
-                                        <td className="whitespace-nowrap px-6 py-4 text-sm text-gray-900">
-                                            {cert.valid_not_after
-                                                ? new Date(cert.valid_not_after).toLocaleDateString('id-ID', {
-                                                    day: 'numeric',
-                                                    month: 'short',
-                                                    year: 'numeric'
-                                                })
-                                                : 'N/A'}
-                                        </td>
-                                        <td className="whitespace-nowrap px-6 py-4">
-                                            {daysLeft !== null ? (
-                                                <span className={`inline-flex items-center rounded-full px-2 py-1 text-xs font-medium ${isExpired
-                                                    ? 'bg-red-100 text-red-700'
+                                    <Fragment key={cert.id}>
+                                        <tr className="hover:bg-gray-50">
+                                            <td className="whitespace-nowrap px-6 py-4">
+                                                <div className="flex items-center">
+                                                    <Globe className="mr-2 h-5 w-5 text-gray-400" />
+                                                    <span className="font-medium text-gray-900">{cert.domain_name}</span>
+                                                </div>
+                                            </td>
+                                            <td className="whitespace-nowrap px-6 py-4">
+                                                <span className={`inline-flex rounded-full px-2 py-1 text-xs font-semibold ${isExpired
+                                                    ? 'bg-red-100 text-red-800'
                                                     : isExpiringSoon
-                                                        ? 'bg-yellow-100 text-yellow-700'
-                                                        : 'bg-green-100 text-green-700'
+                                                        ? 'bg-yellow-100 text-yellow-800'
+                                                        : 'bg-green-100 text-green-800'
                                                     }`}>
-                                                    {isExpired ? `Expired ${Math.abs(daysLeft)}d ago` : `${daysLeft} days`}
+                                                    {isExpired ? 'Expired' : cert.status_desc || 'Unknown'}
                                                 </span>
-                                            ) : (
-                                                <span className="text-gray-400">N/A</span>
-                                            )}
-                                        </td>
-                                    </tr>
+                                            </td>
+                                            <td className="px-6 py-4">
+                                                <code className="text-xs text-gray-600">
+                                                    {cert.serial_number || 'N/A'}
+                                                </code>
+                                            </td>
+                                            <td className="whitespace-nowrap px-6 py-4 text-sm text-gray-900">
+                                                {cert.valid_not_before
+                                                    ? new Date(cert.valid_not_before).toLocaleDateString('id-ID', {
+                                                        day: 'numeric',
+                                                        month: 'short',
+                                                        year: 'numeric'
+                                                    })
+                                                    : 'N/A'}
+                                            </td>
+                                            <td className="whitespace-nowrap px-6 py-4 text-sm text-gray-900">
+                                                {cert.valid_not_after
+                                                    ? new Date(cert.valid_not_after).toLocaleDateString('id-ID', {
+                                                        day: 'numeric',
+                                                        month: 'short',
+                                                        year: 'numeric'
+                                                    })
+                                                    : 'N/A'}
+                                            </td>
+                                            <td className="whitespace-nowrap px-6 py-4">
+                                                {daysLeft !== null ? (
+                                                    <span className={`inline-flex items-center rounded-full px-2 py-1 text-xs font-medium ${isExpired
+                                                        ? 'bg-red-100 text-red-700'
+                                                        : isExpiringSoon
+                                                            ? 'bg-yellow-100 text-yellow-700'
+                                                            : 'bg-green-100 text-green-700'
+                                                        }`}>
+                                                        {isExpired ? `Expired ${Math.abs(daysLeft)}d ago` : `${daysLeft} days`}
+                                                    </span>
+                                                ) : (
+                                                    <span className="text-gray-400">N/A</span>
+                                                )}
+                                            </td>
+                                            <td className="whitespace-nowrap px-6 py-4">
+                                                <button
+                                                    onClick={() => setHistoryDomainId(showHistory ? null : cert.domain_id)}
+                                                    className="inline-flex items-center gap-1 text-sm text-blue-600 hover:text-blue-800"
+                                                >
+                                                    {domainHistory.length} issued
+                                                    {missedRenewals > 0 && (
+                                                        <span className="rounded-full bg-red-100 px-2 py-0.5 text-xs font-medium text-red-700">
+                                                            {missedRenewals} missed
+                                                        </span>
+                                                    )}
+                                                </button>
+                                            </td>
+                                        </tr>
+                                        {showHistory && (
+                                            <tr>
+                                                <td colSpan={7} className="bg-gray-50 px-6 py-4">
+                                                    <CertificateTimeline certificates={domainHistory} />
+                                                </td>
+                                            </tr>
+                                        )}
+                                    </Fragment>
                                 )
                             })}
                         </tbody>
@@ -1428,6 +1285,29 @@ export default function AcmeAccountDetailPage({
                 daysSinceAdded={domainToRemove?.daysSinceAdded || 0}
                 isRefundable={domainToRemove?.isRefundable || false}
             />
+
+            {/* Reveal EAB Key Modal */}
+            <RevealEabKeyModal
+                isOpen={revealModalOpen}
+                onClose={() => setRevealModalOpen(false)}
+                onRevealed={(revealed) => setEabHmacKey(revealed.eabHmacKey)}
+                accountId={account.id}
+            />
+
+            {/* Renew Subscription Modal */}
+            <RenewSubscriptionModal
+                isOpen={renewModalOpen}
+                onClose={() => setRenewModalOpen(false)}
+                onRenewed={(renewed) => {
+                    // Renewal of an expired subscription brings its domains back
+                    if (account.status === 'expired') {
+                        setDomains(prev => prev.map(d => d.status === 'expired' ? { ...d, status: 'active' } : d))
+                    }
+                    setAccount(prev => prev ? { ...prev, ...renewed } : null)
+                }}
+                accountId={account.id}
+                accountName={account.account_name || 'ACME Account'}
+            />
         </div>
     )
 }
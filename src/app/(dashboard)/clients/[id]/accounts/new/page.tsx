@@ -5,23 +5,28 @@ import { useRouter, useParams } from 'next/navigation'
 import { createClient } from '@/lib/supabase/client'
 import { ArrowLeft, Loader2, Shield, CheckCircle2, AlertTriangle, Info } from 'lucide-react'
 import Link from 'next/link'
+import { anchorState, daysUntilAnchorExpiry, findValidAnchor } from '@/lib/organization-anchors'
+import type { OrganizationAnchor } from '@/lib/types'
 
 interface ClientData {
     name: string
     company_name: string | null
-    organization_anchors: Array<{
-        id: string
-        ov_anchor_order_number: string
-        is_active: boolean
-        expires_at: string | null
-    }>
+    organization_anchors: Array<Pick<OrganizationAnchor, 'id' | 'ov_anchor_order_number' | 'status' | 'is_active' | 'expires_at'>>
+}
+
+interface ServerOption {
+    serverUrl: string
+    description: string | null
+    validationType: 'DV' | 'OV'
 }
 
 export default function NewAcmeAccountPage() {
     const [accountName, setAccountName] = useState('')
     const [certificateType, setCertificateType] = useState<'DV' | 'OV'>('DV')
     const [subscriptionYears, setSubscriptionYears] = useState(1)
-    const [serverUrl, setServerUrl] = useState('https://acme.sectigo.com/v2/DV')
+    const [servers, setServers] = useState<ServerOption[]>([])
+    const [selectedServerUrl, setSelectedServerUrl] = useState('')
+    const [fetchingServers, setFetchingServers] = useState(true)
     const [loading, setLoading] = useState(false)
     const [error, setError] = useState<string | null>(null)
     const [clientName, setClientName] = useState('')
@@ -35,8 +40,11 @@ export default function NewAcmeAccountPage() {
 
     // Derive OV eligibility from client data
     const isOrganization = clientData?.company_name ? true : false
-    const activeAnchor = clientData?.organization_anchors?.find(a => a.is_active)
+    const activeAnchor = findValidAnchor(clientData?.organization_anchors)
     const hasValidatedOV = !!activeAnchor
+    const anchorDaysLeft = activeAnchor && anchorState(activeAnchor) === 'expiring'
+        ? daysUntilAnchorExpiry(activeAnchor)
+        : null
     const canSelectOV = isOrganization && hasValidatedOV
 
     useEffect(() => {
@@ -50,6 +58,7 @@ export default function NewAcmeAccountPage() {
                     organization_anchors(
                         id,
                         ov_anchor_order_number,
+                        status,
                         is_active,
                         expires_at
                     )
@@ -66,14 +75,29 @@ export default function NewAcmeAccountPage() {
         fetchClient()
     }, [clientId, supabase])
 
-    // Update server URL when certificate type changes
+    // Load ACME servers from the LISTSERVERS catalog
     useEffect(() => {
-        if (certificateType === 'OV') {
-            setServerUrl('https://acme.sectigo.com/v2/OV')
-        } else {
-            setServerUrl('https://acme.sectigo.com/v2/DV')
+        const fetchServers = async () => {
+            try {
+                const response = await fetch('/api/acme-servers')
+                const result = await response.json()
+                if (response.ok) {
+                    setServers(result.servers || [])
+                } else {
+                    console.error('Error fetching ACME servers:', result.error)
+                }
+            } finally {
+                setFetchingServers(false)
+            }
         }
-    }, [certificateType])
+        fetchServers()
+    }, [])
+
+    // Default to the first server for the selected certificate type
+    const serversForType = servers.filter(s => s.validationType === certificateType)
+    const serverUrl = serversForType.some(s => s.serverUrl === selectedServerUrl)
+        ? selectedServerUrl
+        : serversForType[0]?.serverUrl || ''
 
     const handleSubmit = async (e: React.FormEvent) => {
         e.preventDefault()
@@ -229,12 +253,51 @@ export default function NewAcmeAccountPage() {
                                 <div className="text-amber-700">
                                     <strong>OV Pre-Validation Required</strong>
                                     <p className="mt-1">
-                                        To create OV ACME accounts, this organization needs to complete OV Pre-Validation first.
-                                        Please contact KICA support to initiate the validation process.
+                                        To create OV ACME accounts, this organization needs a validated, unexpired OV Pre-Validation.
+                                        Register the Sectigo pre-validation order on the{' '}
+                                        <Link href={`/clients/${clientId}`} className="font-medium underline">client page</Link>.
                                     </p>
                                 </div>
                             </div>
                         )}
+                        {anchorDaysLeft !== null && (
+                            <div className="mt-3 flex items-start rounded-lg bg-orange-50 p-3 text-sm text-orange-700">
+                                <AlertTriangle className="mr-2 h-5 w-5 flex-shrink-0 text-orange-500" />
+                                <span>
+                                    The organization validation expires in {anchorDaysLeft} day{anchorDaysLeft !== 1 ? 's' : ''}.
+                                    OV subscriptions can&apos;t be created after that until a new validation is registered.
+                                </span>
+                            </div>
+                        )}
+                    </div>
+
+                    {/* ACME Server */}
+                    <div>
+                        <label htmlFor="serverUrl" className="block text-sm font-medium text-gray-700">
+                            ACME Server
+                        </label>
+                        {fetchingServers ? (
+                            <p className="mt-2 text-sm text-gray-500">Loading servers...</p>
+                        ) : serversForType.length === 0 ? (
+                            <div className="mt-2 flex items-start rounded-lg bg-amber-50 p-3 text-sm text-amber-700">
+                                <AlertTriangle className="mr-2 h-5 w-5 flex-shrink-0 text-amber-500" />
+                                No {certificateType} ACME server is currently available. Please contact KICA support.
+                            </div>
+                        ) : (
+                            <select
+                                id="serverUrl"
+                                value={serverUrl}
+                                onChange={(e) => setSelectedServerUrl(e.target.value)}
+                                disabled={serversForType.length === 1}
+                                className="mt-1 block w-full rounded-lg border border-gray-300 bg-white px-4 py-3 text-gray-900 focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500 disabled:bg-gray-50"
+                            >
+                                {serversForType.map(server => (
+                                    <option key={server.serverUrl} value={server.serverUrl}>
+                                        {server.description ? `${server.description} (${server.serverUrl})` : server.serverUrl}
+                                    </option>
+                                ))}
+                            </select>
+                        )}
                     </div>
 
                     {/* Subscription Period */}
@@ -281,7 +344,7 @@ export default function NewAcmeAccountPage() {
                         </Link>
                         <button
                             type="submit"
-                            disabled={loading || !accountName}
+                            disabled={loading || !accountName || !serverUrl}
                             className="inline-flex items-center rounded-lg bg-[#2d56c2] px-6 py-2.5 text-sm font-medium text-white hover:bg-[#234a9f] disabled:opacity-50"
                         >
                             {loading ? (
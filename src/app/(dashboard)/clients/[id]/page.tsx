@@ -2,6 +2,8 @@ import { createClient } from '@/lib/supabase/server'
 import Link from 'next/link'
 import { notFound } from 'next/navigation'
 import { ArrowLeft, Plus, Shield, Building2, User, Mail, Phone, Calendar, Globe, DollarSign } from 'lucide-react'
+import OrganizationAnchors from '@/components/OrganizationAnchors'
+import type { OrganizationAnchor } from '@/lib/types'
 
 export const dynamic = 'force-dynamic'
 
@@ -27,6 +29,13 @@ async function getClient(id: string) {
         .eq('client_id', id)
         .order('created_at', { ascending: false })
 
+    // Get OV pre-validation anchors
+    const { data: anchors } = await supabase
+        .from('organization_anchors')
+        .select('*')
+        .eq('client_id', id)
+        .order('created_at', { ascending: false })
+
     // Get account IDs for stats
     const accountIds = (accounts || []).map(a => a.id)
 
@@ -52,7 +61,7 @@ async function getClient(id: string) {
 
         if (transactions) {
             transactions.forEach(tx => {
-                if (tx.type === 'add_domain') totalSpend += tx.amount || 0
+                if (tx.type === 'add_domain' || tx.type === 'extend') totalSpend += tx.amount || 0
                 if (tx.type === 'refund') totalSpend -= tx.amount || 0
             })
         }
@@ -61,6 +70,7 @@ async function getClient(id: string) {
     return {
         client,
         accounts: accounts || [],
+        anchors: (anchors || []) as OrganizationAnchor[],
         stats: {
             accountCount: accounts?.length || 0,
             domainCount,
@@ -81,7 +91,7 @@ export default async function ClientDetailPage({
         notFound()
     }
 
-    const { client, accounts, stats } = data
+    const { client, accounts, anchors, stats } = data
 
     return (
         <div className="space-y-6">
@@ -212,6 +222,13 @@ export default async function ClientDetailPage({
                 </div>
             </div>
 
+            {/* OV Pre-Validation */}
+            <OrganizationAnchors
+                clientId={id}
+                isOrganization={client.client_type !== 'personal' && !!client.company_name}
+                initialAnchors={anchors}
+            />
+
             {/* ACME Accounts Table */}
             <div className="rounded-lg bg-white shadow">
                 <div className="flex items-center justify-between border-b border-gray-200 px-6 py-4">
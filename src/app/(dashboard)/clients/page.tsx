@@ -4,6 +4,8 @@ import { createClient } from '@/lib/supabase/client'
 import Link from 'next/link'
 import { Plus, User, Building2, Mail, Search, Shield, Users, Globe, ChevronUp, ChevronDown, Filter, MoreVertical, Pencil, FileText, Copy, ChevronLeft, ChevronRight, X, Download, Eye, CheckCircle2, AlertTriangle } from 'lucide-react'
 import { useEffect, useState, useRef } from 'react'
+import { anchorState, findValidAnchor } from '@/lib/organization-anchors'
+import type { OrganizationAnchor } from '@/lib/types'
 
 interface Client {
     id: string
@@ -14,6 +16,7 @@ interface Client {
     status: string
     created_at: string
     ov_anchor_number: string | null
+    ov_anchor_expiring: boolean
     // ACME Account stats
     acme_total: number
     acme_active: number
@@ -79,6 +82,7 @@ export default function ClientsPage() {
                     organization_anchors(
                         id,
                         ov_anchor_order_number,
+                        status,
                         is_active,
                         expires_at
                     )
@@ -105,8 +109,7 @@ export default function ClientsPage() {
                 const wildcardDomains = activeDomains.filter((d: { domain_type: string }) => d.domain_type === 'wildcard')
 
                 // Get active anchor for OV Pre-Validation
-                const anchors = client.organization_anchors || []
-                const activeAnchor = anchors.find((a: { is_active: boolean }) => a.is_active)
+                const activeAnchor = findValidAnchor(client.organization_anchors as Pick<OrganizationAnchor, 'ov_anchor_order_number' | 'status' | 'is_active' | 'expires_at'>[])
 
                 return {
                     ...client,
@@ -118,6 +121,7 @@ export default function ClientsPage() {
                     domain_total: allDomains.length,
                     domain_wildcard: wildcardDomains.length,
                     ov_anchor_number: activeAnchor?.ov_anchor_order_number || null,
+                    ov_anchor_expiring: activeAnchor ? anchorState(activeAnchor) === 'expiring' : false,
                 }
             })
 
@@ -676,6 +680,11 @@ export default function ClientsPage() {
                                         <td className="whitespace-nowrap px-6 py-4 text-sm">
                                             {client.client_type === 'personal' || !client.company_name ? (
                                                 <span className="text-gray-400 italic">Personal Account</span>
+                                            ) : client.ov_anchor_number && client.ov_anchor_expiring ? (
+                                                <span className="inline-flex items-center rounded-full bg-orange-100 px-2.5 py-0.5 text-xs font-medium text-orange-700">
+                                                    <AlertTriangle className="mr-1 h-3 w-3" />
+                                                    Validation Expiring
+                                                </span>
                                             ) : client.ov_anchor_number ? (
                                                 <span className="inline-flex items-center rounded-full bg-green-100 px-2.5 py-0.5 text-xs font-medium text-green-700">
                                                     <CheckCircle2 className="mr-1 h-3 w-3" />
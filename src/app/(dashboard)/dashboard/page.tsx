@@ -54,6 +54,7 @@ async function getStats() {
             .from('certificates')
             .select('*', { count: 'exact', head: true })
             .in('domain_id', domainIds)
+            .eq('is_latest', true)
 
         certificateCount = count || 0
         console.log('[Dashboard] Certificate count:', certificateCount)
@@ -75,13 +76,13 @@ async function getStats() {
         .gte('created_at', billingCycleStart.toISOString())
         .lte('created_at', billingCycleEnd.toISOString())
 
-    let totalPurchases = 0     // Total add_domain amounts this month
+    let totalPurchases = 0     // Total add_domain + extend amounts this month
     let totalRefunds = 0       // Total refund amounts this month
     let reservedCredit = 0     // Pending API amounts
 
     if (transactions) {
         for (const tx of transactions) {
-            if (tx.type === 'add_domain') {
+            if (tx.type === 'add_domain' || tx.type === 'extend') {
                 if (tx.status === 'pending_api') {
                     reservedCredit += tx.amount || 0
                 } else {
@@ -162,6 +163,7 @@ async function getStats() {
                 domains!inner(id, domain_name)
             `)
             .in('domain_id', domainIds)
+            .eq('is_latest', true)
             .lte('valid_not_after', thirtyDaysFromNow.toISOString())
             .gt('valid_not_after', new Date().toISOString())
             .order('valid_not_after', { ascending: true })
@@ -201,6 +203,7 @@ function getActivityIcon(action: string): string {
         'create_account': '🔵',
         'create_client': '👤',
         'reveal_eab_key': '🔑',
+        'subscription_renewed': '🔄',
     }
     return icons[action] || '📌'
 }
@@ -219,6 +222,8 @@ function formatActivityMessage(action: string, details: Record<string, unknown>)
             return `Added Client: ${details.name || 'unknown'}`
         case 'reveal_eab_key':
             return `Viewed EAB credentials`
+        case 'subscription_renewed':
+            return `Renewed subscription: ${details.years || '?'} year(s)`
         default:
             return action.replace(/_/g, ' ')
     }
@@ -2,7 +2,7 @@
 
 import { createClient } from '@/lib/supabase/client'
 import Link from 'next/link'
-import { Globe, Search, Shield, Users, ChevronUp, ChevronDown, Filter, MoreVertical, Copy, ChevronLeft, ChevronRight, X, Download, Eye, Award, Clock, CheckCircle, XCircle, Asterisk } from 'lucide-react'
+import { Globe, Search, Shield, Users, ChevronUp, ChevronDown, Filter, MoreVertical, Copy, ChevronLeft, ChevronRight, X, Download, Eye, Award, Clock, CheckCircle, XCircle, Asterisk, BellOff, Bell } from 'lucide-react'
 import { useEffect, useState, useRef } from 'react'
 
 interface Domain {
@@ -22,6 +22,8 @@ interface Domain {
     certificate_count: number
     issuance_date: string | null
     expiry_date: string | null
+    // Certificate expiry reminders paused until (null when not snoozed)
+    reminders_snoozed_until: string | null
 }
 
 type SortField = 'domain_name' | 'created_at' | 'expiry_date' | 'certificate_count'
@@ -122,11 +124,13 @@ export default function DomainsPage() {
                 const account = accountMap.get(domain.acme_account_id)
                 const client = account ? clientMap.get(account.client_id) : null
                 const certs = domain.certificates || []
-                // Status code 6 = Valid in Sectigo
-                const activeCerts = certs.filter((c: { status_code: number }) => c.status_code === 6)
+                // Status code 6 = Valid in Sectigo; certs keeps every renewal,
+                // so earlier certificates that ran out don't count
+                const activeCerts = certs.filter((c: { status_code: number; valid_not_after: string | null }) =>
+                    c.status_code === 6 && (!c.valid_not_after || new Date(c.valid_not_after).getTime() > Date.now()))
 
-                // Find earliest issuance and latest expiry
-                const issuanceDates = activeCerts
+                // Find first issuance and latest expiry
+                const issuanceDates = certs
                     .map((c: { valid_not_before: string }) => c.valid_not_before)
                     .filter(Boolean)
                     .sort()
@@ -151,6 +155,10 @@ export default function DomainsPage() {
                     certificate_count: activeCerts.length,
                     issuance_date: issuanceDates[0] || null,
                     expiry_date: expiryDates[0] || null,
+                    reminders_snoozed_until: domain.expiry_reminders_snoozed_until &&
+                        new Date(domain.expiry_reminders_snoozed_until).getTime() > Date.now()
+                        ? domain.expiry_reminders_snoozed_until
+                        : null,
                 }
             })
 
@@ -298,6 +306,22 @@ export default function DomainsPage() {
         setOpenMenuId(null)
     }
 
+    // Snooze (days > 0) or resume (days = 0) expiry reminders for a domain
+    const snoozeReminders = async (domainId: string, days: number) => {
+        setOpenMenuId(null)
+        const response = await fetch('/api/domains/snooze-reminders', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ domainId, days })
+        })
+        const result = await response.json()
+        if (!response.ok) {
+            alert(result.error || 'Failed to update reminders')
+            return
+        }
+        setDomains(prev => prev.map(d => d.id === domainId ? { ...d, reminders_snoozed_until: result.snoozedUntil } : d))
+    }
+
     // Get status badge styles
     const getStatusBadge = (status: string) => {
         switch (status) {
@@ -684,6 +708,7 @@ export default function DomainsPage() {
                                     const validationBadge = getValidationBadge(domain.validation_status)
                                     const ValidationIcon = validationBadge.icon
                                     const expiryStatus = getExpiryStatus(domain.expiry_date)
+                                    const isSnoozed = !!domain.reminders_snoozed_until
 
                                     return (
                                         <tr
@@ -700,8 +725,13 @@ export default function DomainsPage() {
                                                         )}
                                                     </div>
                                                     <div className="ml-3">
-                                                        <div className="font-medium text-gray-900">
+                                                        <div className="flex items-center gap-1.5 font-medium text-gray-900">
                                                             {domain.domain_name}
+                                                            {isSnoozed && (
+                                                                <span title={`Expiry reminders snoozed until ${new Date(domain.reminders_snoozed_until!).toLocaleDateString()}`}>
+                                                                    <BellOff className="h-3.5 w-3.5 text-gray-400" />
+                                                                </span>
+                                                            )}
                                                         </div>
                                                     </div>
                                                 </div>
@@ -782,6 +812,23 @@ export default function DomainsPage() {
                                                                         <Copy className="mr-3 h-4 w-4 text-gray-400" />
                                                                         Copy Domain
                                                                     </button>
+                                                                    {isSnoozed ? (
+                                                                        <button
+                                                                            onClick={() => snoozeReminders(domain.id, 0)}
+                                                                            className="flex w-full items-center px-4 py-2 text-sm text-gray-700 hover:bg-gray-100"
+                                                                        >
+                                                                            <Bell className="mr-3 h-4 w-4 text-gray-400" />
+                                                                            Resume Reminders
+                                                                        </button>
+                                                                    ) : (
+                                                                        <button
+                                                                            onClick={() => snoozeReminders(domain.id, 30)}
+                                                                            className="flex w-full items-center px-4 py-2 text-sm text-gray-700 hover:bg-gray-100"
+                                                                        >
+                                                                            <BellOff className="mr-3 h-4 w-4 text-gray-400" />
+                                                                            Snooze Reminders (30d)
+                                                                        </button>
+                                                                    )}
                                                                 </div>
                                                             </div>
                                                         )}
@@ -4,7 +4,7 @@ import { createClient } from '@/lib/supabase/server'
 
 export const dynamic = 'force-dynamic'
 
-async function getPartnerName() {
+async function getPartner() {
     const supabase = await createClient()
     const { data: { user } } = await supabase.auth.getUser()
 
@@ -12,11 +12,11 @@ async function getPartnerName() {
 
     const { data: partner } = await supabase
         .from('partners')
-        .select('company_name')
+        .select('company_name, is_admin')
         .eq('id', user.id)
         .single()
 
-    return partner?.company_name || null
+    return partner || null
 }
 
 export default async function DashboardLayout({
@@ -24,12 +24,12 @@ export default async function DashboardLayout({
 }: {
     children: React.ReactNode
 }) {
-    const partnerName = await getPartnerName()
+    const partner = await getPartner()
 
     return (
         <div className="flex h-screen bg-[#F8FAFC]">
-            <Sidebar />
-            <DashboardClient partnerName={partnerName || undefined}>{children}</DashboardClient>
+            <Sidebar isAdmin={partner?.is_admin === true} />
+            <DashboardClient partnerName={partner?.company_name || undefined}>{children}</DashboardClient>
         </div>
     )
 }
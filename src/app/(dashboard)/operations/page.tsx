@@ -0,0 +1,244 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { Activity, Filter, RefreshCw, CheckCircle, Clock, XCircle, Loader2 } from 'lucide-react'
+import type { SectigoJobType } from '@/lib/types'
+
+type JobStatus = 'pending' | 'running' | 'succeeded' | 'dead'
+
+interface OperationRow {
+    id: string
+    job_type: SectigoJobType
+    payload: { domainName?: string; domains?: string[] }
+    status: JobStatus
+    attempts: number
+    max_attempts: number
+    run_after: string
+    last_error: string | null
+    created_at: string
+    completed_at: string | null
+    acme_accounts: { account_name: string | null } | null
+}
+
+const jobTypeLabels: Record<SectigoJobType, string> = {
+    ADDDOMAIN: 'Add Domains',
+    REMOVEDOMAIN: 'Remove Domain',
+    SUSPENDACCOUNT: 'Suspend Subscription',
+    UNSUSPENDACCOUNT: 'Unsuspend Subscription',
+    DEACTIVATEACCOUNT: 'Deactivate Subscription',
+    SYNC_CERT: 'Certificate Sync',
+}
+
+const statusStyles: Record<JobStatus, { label: string; className: string }> = {
+    pending: { label: 'Queued', className: 'bg-yellow-100 text-yellow-800' },
+    running: { label: 'Running', className: 'bg-blue-100 text-blue-800' },
+    succeeded: { label: 'Completed', className: 'bg-green-100 text-green-800' },
+    dead: { label: 'Failed', className: 'bg-red-100 text-red-800' },
+}
+
+const StatusIcon = ({ status }: { status: JobStatus }) => {
+    switch (status) {
+        case 'pending':
+            return <Clock className="h-4 w-4" />
+        case 'running':
+            return <Loader2 className="h-4 w-4 animate-spin" />
+        case 'succeeded':
+            return <CheckCircle className="h-4 w-4" />
+        case 'dead':
+            return <XCircle className="h-4 w-4" />
+    }
+}
+
+function describeTarget(job: OperationRow): string {
+    if (job.payload.domainName) return job.payload.domainName
+    if (job.payload.domains && job.payload.domains.length > 0) {
+        const [first, ...rest] = job.payload.domains
+        return rest.length > 0 ? `${first} +${rest.length} more` : first
+    }
+    return '-'
+}
+
+function formatDateTime(value: string | null): string {
+    if (!value) return '-'
+    return new Date(value).toLocaleString('id-ID', {
+        year: 'numeric',
+        month: 'short',
+        day: 'numeric',
+        hour: '2-digit',
+        minute: '2-digit'
+    })
+}
+
+export default function OperationsPage() {
+    const [jobs, setJobs] = useState<OperationRow[]>([])
+    const [loading, setLoading] = useState(true)
+    const [statusFilter, setStatusFilter] = useState<JobStatus | 'all'>('all')
+    const [retryingId, setRetryingId] = useState<string | null>(null)
+
+    const fetchJobs = useCallback(async () => {
+        const params = statusFilter !== 'all' ? `?status=${statusFilter}` : ''
+        const response = await fetch(`/api/sectigo-jobs${params}`)
+        const result = await response.json()
+
+        if (!response.ok) {
+            console.error('Error fetching operations:', result.error)
+        }
+        setJobs(result.data || [])
+        setLoading(false)
+    }, [statusFilter])
+
+    useEffect(() => {
+        fetchJobs()
+    }, [fetchJobs])
+
+    // Poll while anything is still queued or running
+    const hasOpenJobs = jobs.some(j => j.status === 'pending' || j.status === 'running')
+    useEffect(() => {
+        if (!hasOpenJobs) return
+        const interval = setInterval(fetchJobs, 10000)
+        return () => clearInterval(interval)
+    }, [hasOpenJobs, fetchJobs])
+
+    const handleRetry = async (jobId: string) => {
+        setRetryingId(jobId)
+        try {
+            const response = await fetch('/api/sectigo-jobs/retry', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ jobId })
+            })
+            const result = await response.json()
+            if (!response.ok) {
+                alert(`Retry failed: ${result.error}`)
+            }
+            await fetchJobs()
+        } finally {
+            setRetryingId(null)
+        }
+    }
+
+    const openCount = jobs.filter(j => j.status === 'pending' || j.status === 'running').length
+    const failedCount = jobs.filter(j => j.status === 'dead').length
+
+    return (
+        <div className="space-y-6">
+            {/* Header */}
+            <div className="flex items-center justify-between">
+                <div>
+                    <h1 className="text-2xl font-bold text-gray-900">Operations</h1>
+                    <p className="text-gray-500">Requests sent to Sectigo and their progress</p>
+                </div>
+                <div className="flex items-center gap-4">
+                    <div className="flex items-center gap-2">
+                        <Filter className="h-4 w-4 text-gray-400" />
+                        <select
+                            value={statusFilter}
+                            onChange={(e) => setStatusFilter(e.target.value as JobStatus | 'all')}
+                            className="rounded-lg border border-gray-300 bg-white py-2 pl-3 pr-8 text-sm text-gray-900 focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+                        >
+                            <option value="all">All Operations</option>
+                            <option value="pending">Queued</option>
+                            <option value="running">Running</option>
+                            <option value="dead">Failed</option>
+                            <option value="succeeded">Completed</option>
+                        </select>
+                    </div>
+                    <button
+                        onClick={fetchJobs}
+                        className="inline-flex items-center rounded-lg border border-gray-300 bg-white px-3 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50"
+                    >
+                        <RefreshCw className="mr-2 h-4 w-4" />
+                        Refresh
+                    </button>
+                </div>
+            </div>
+
+            {/* Summary */}
+            {(openCount > 0 || failedCount > 0) && (
+                <div className="flex gap-4">
+                    {openCount > 0 && (
+                        <div className="rounded-lg bg-yellow-50 px-4 py-3 text-sm text-yellow-800">
+                            <strong>{openCount}</strong> operation{openCount > 1 ? 's' : ''} in progress. They are retried automatically.
+                        </div>
+                    )}
+                    {failedCount > 0 && (
+                        <div className="rounded-lg bg-red-50 px-4 py-3 text-sm text-red-800">
+                            <strong>{failedCount}</strong> operation{failedCount > 1 ? 's' : ''} failed after all retries.
+                        </div>
+                    )}
+                </div>
+            )}
+
+            {/* Operations Table */}
+            <div className="overflow-hidden rounded-lg bg-white shadow">
+                {loading ? (
+                    <div className="p-12 text-center">
+                        <div className="animate-pulse">Loading...</div>
+                    </div>
+                ) : jobs.length === 0 ? (
+                    <div className="p-12 text-center">
+                        <Activity className="mx-auto h-12 w-12 text-gray-400" />
+                        <h3 className="mt-4 text-lg font-medium text-gray-900">No operations</h3>
+                        <p className="mt-2 text-gray-500">Sectigo requests will appear here.</p>
+                    </div>
+                ) : (
+                    <table className="min-w-full divide-y divide-gray-200">
+                        <thead className="bg-gray-50">
+                            <tr>
+                                <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500">Operation</th>
+                                <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500">Subscription</th>
+                                <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500">Status</th>
+                                <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500">Attempts</th>
+                                <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-500">Created</th>
+                                <th className="px-6 py-3 text-right text-xs font-medium uppercase tracking-wider text-gray-500"></th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-200 bg-white">
+                            {jobs.map(job => (
+                                <tr key={job.id} className="hover:bg-gray-50 align-top">
+                                    <td className="px-6 py-4 text-sm">
+                                        <div className="font-medium text-gray-900">{jobTypeLabels[job.job_type] || job.job_type}</div>
+                                        <div className="text-gray-500">{describeTarget(job)}</div>
+                                    </td>
+                                    <td className="whitespace-nowrap px-6 py-4 text-sm text-gray-900">
+                                        {job.acme_accounts?.account_name || '-'}
+                                    </td>
+                                    <td className="px-6 py-4 text-sm">
+                                        <span className={`inline-flex items-center gap-1 rounded-full px-2.5 py-1 text-xs font-semibold ${statusStyles[job.status].className}`}>
+                                            <StatusIcon status={job.status} />
+                                            {statusStyles[job.status].label}
+                                        </span>
+                                        {job.last_error && job.status !== 'succeeded' && (
+                                            <p className="mt-1 max-w-sm text-xs text-gray-500">{job.last_error}</p>
+                                        )}
+                                        {job.status === 'pending' && job.attempts > 0 && (
+                                            <p className="mt-1 text-xs text-gray-400">Next attempt {formatDateTime(job.run_after)}</p>
+                                        )}
+                                    </td>
+                                    <td className="whitespace-nowrap px-6 py-4 text-sm text-gray-500">
+                                        {job.attempts} / {job.max_attempts}
+                                    </td>
+                                    <td className="whitespace-nowrap px-6 py-4 text-sm text-gray-500">
+                                        {formatDateTime(job.created_at)}
+                                    </td>
+                                    <td className="whitespace-nowrap px-6 py-4 text-right">
+                                        {job.status === 'dead' && (
+                                            <button
+                                                onClick={() => handleRetry(job.id)}
+                                                disabled={retryingId === job.id}
+                                                className="inline-flex items-center rounded-lg border border-gray-300 px-3 py-1 text-xs font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                                            >
+                                                <RefreshCw className={`mr-1 h-3 w-3 ${retryingId === job.id ? 'animate-spin' : ''}`} />
+                                                Retry
+                                            </button>
+                                        )}
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                )}
+            </div>
+        </div>
+    )
+}
@@ -647,8 +647,8 @@ export default function SettingsPage() {
                                     className="mt-1 h-4 w-4 rounded border-gray-300 text-[#2d56c2] focus:ring-[#2d56c2]"
                                 />
                                 <div>
-                                    <label className="text-sm font-medium text-gray-700">Certificate expiry alerts</label>
-                                    <p className="text-xs text-gray-500">Receive notifications 30 days and 7 days before certificate expiration</p>
+                                    <label className="text-sm font-medium text-gray-700">Expiry alerts</label>
+                                    <p className="text-xs text-gray-500">Receive notifications 30 days and 7 days before a certificate or subscription expires. Reminders for a single domain can be snoozed from the Domains page</p>
                                 </div>
                             </div>
 
@@ -108,7 +108,7 @@ export default function StatementsPage() {
 
         if (transactions) {
             const usage = transactions.reduce((sum, tx) => {
-                if (tx.type === 'add_domain') return sum + (tx.amount || 0)
+                if (tx.type === 'add_domain' || tx.type === 'extend') return sum + (tx.amount || 0)
                 if (tx.type === 'refund') return sum - (tx.amount || 0)
                 return sum
             }, 0)
@@ -2,8 +2,9 @@
 
 import { createClient } from '@/lib/supabase/client'
 import Link from 'next/link'
-import { CalendarClock, Search, Shield, Users, Globe, ChevronUp, ChevronDown, Filter, MoreVertical, Copy, ChevronLeft, ChevronRight, X, Download, Eye, Clock, CheckCircle, XCircle, AlertTriangle } from 'lucide-react'
+import { CalendarClock, Search, Shield, Users, Globe, ChevronUp, ChevronDown, Filter, MoreVertical, Copy, ChevronLeft, ChevronRight, X, Download, Eye, Clock, CheckCircle, XCircle, AlertTriangle, RefreshCw } from 'lucide-react'
 import { useEffect, useState, useRef } from 'react'
+import RenewSubscriptionModal, { type RenewedAccount } from '@/components/RenewSubscriptionModal'
 
 interface Subscription {
     id: string
@@ -42,6 +43,7 @@ export default function SubscriptionsPage() {
     const [filterCertType, setFilterCertType] = useState<string>('all')
     const [filterYears, setFilterYears] = useState<string>('all')
     const [filterExpiry, setFilterExpiry] = useState<string>('all')
+    const [renewTarget, setRenewTarget] = useState<Subscription | null>(null)
     const menuRef = useRef<HTMLDivElement>(null)
     const filterRef = useRef<HTMLDivElement>(null)
     const supabase = createClient()
@@ -272,6 +274,16 @@ export default function SubscriptionsPage() {
         setOpenMenuId(null)
     }
 
+    // Apply renewal result to the list without refetching
+    const handleRenewed = (account: RenewedAccount) => {
+        if (!renewTarget) return
+        setSubscriptions(prev => prev.map(s =>
+            s.id === renewTarget.id
+                ? { ...s, status: account.status as Subscription['status'], start_date: account.start_date, end_date: account.end_date }
+                : s
+        ))
+    }
+
     // Get status badge styles
     const getStatusBadge = (status: string) => {
         switch (status) {
@@ -802,6 +814,18 @@ export default function SubscriptionsPage() {
                                                                             <Copy className="mr-3 h-4 w-4 text-gray-400" />
                                                                             Copy EAB Key ID
                                                                         </button>
+                                                                        {(subscription.status === 'active' || subscription.status === 'expired') && subscription.domain_count > 0 && (
+                                                                            <button
+                                                                                onClick={() => {
+                                                                                    setRenewTarget(subscription)
+                                                                                    setOpenMenuId(null)
+                                                                                }}
+                                                                                className="flex w-full items-center px-4 py-2 text-sm text-gray-700 hover:bg-gray-100"
+                                                                            >
+                                                                                <RefreshCw className="mr-3 h-4 w-4 text-gray-400" />
+                                                                                Renew Subscription
+                                                                            </button>
+                                                                        )}
                                                                     </div>
                                                                 </div>
                                                             )}
@@ -880,6 +904,16 @@ export default function SubscriptionsPage() {
                     </>
                 )}
             </div>
+
+            {renewTarget && (
+                <RenewSubscriptionModal
+                    isOpen={!!renewTarget}
+                    onClose={() => setRenewTarget(null)}
+                    onRenewed={handleRenewed}
+                    accountId={renewTarget.id}
+                    accountName={renewTarget.account_name}
+                />
+            )}
         </div>
     )
 }
@@ -0,0 +1,95 @@
+'use client'
+
+import { useState, use } from 'react'
+import Link from 'next/link'
+import { ArrowLeft, Key, Copy, Check } from 'lucide-react'
+import RevealEabKeyModal, { type RevealedEabKey } from '@/components/RevealEabKeyModal'
+
+// One-time EAB HMAC key reveal from the subscription created email
+export default function RevealEabKeyPage({
+    params
+}: {
+    params: Promise<{ token: string }>
+}) {
+    const { token } = use(params)
+    const [modalOpen, setModalOpen] = useState(true)
+    const [revealed, setRevealed] = useState<RevealedEabKey | null>(null)
+    const [copied, setCopied] = useState<string | null>(null)
+
+    const copyToClipboard = async (text: string, field: string) => {
+        await navigator.clipboard.writeText(text)
+        setCopied(field)
+        setTimeout(() => setCopied(null), 2000)
+    }
+
+    return (
+        <div className="space-y-6">
+            <div className="flex items-center gap-4">
+                <Link href="/subscriptions" className="rounded-lg p-2 hover:bg-gray-100">
+                    <ArrowLeft className="h-5 w-5 text-gray-500" />
+                </Link>
+                <div>
+                    <h1 className="text-2xl font-bold text-gray-900">EAB HMAC Key</h1>
+                    <p className="text-gray-500">One-time reveal link</p>
+                </div>
+            </div>
+
+            <div className="rounded-lg bg-white p-6 shadow">
+                {revealed ? (
+                    <div className="space-y-4">
+                        <p className="text-sm text-gray-600">
+                            This link has now been used. Store the key in your ACME client configuration;
+                            you can reveal it again later from the subscription page.
+                        </p>
+                        {([
+                            ['eab_key_id', 'EAB Key ID', revealed.eabKeyId || ''],
+                            ['eab_hmac_key', 'EAB HMAC Key', revealed.eabHmacKey]
+                        ] as const).map(([field, label, value]) => (
+                            <div key={field}>
+                                <label className="block text-sm font-medium text-gray-700">{label}</label>
+                                <div className="mt-1 flex items-center space-x-2">
+                                    <code className="flex-1 break-all rounded-lg bg-gray-100 px-4 py-3 font-mono text-sm text-gray-900">
+                                        {value}
+                                    </code>
+                                    <button
+                                        onClick={() => copyToClipboard(value, field)}
+                                        className="rounded-lg p-2 hover:bg-gray-100"
+                                        title="Copy"
+                                    >
+                                        {copied === field ? (
+                                            <Check className="h-5 w-5 text-green-600" />
+                                        ) : (
+                                            <Copy className="h-5 w-5 text-gray-500" />
+                                        )}
+                                    </button>
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                ) : (
+                    <div className="text-center">
+                        <div className="mx-auto flex h-16 w-16 items-center justify-center rounded-full bg-yellow-50">
+                            <Key className="h-8 w-8 text-yellow-600" />
+                        </div>
+                        <p className="mt-4 text-sm text-gray-600">
+                            Confirm your password to reveal the HMAC key. The link works only once.
+                        </p>
+                        <button
+                            onClick={() => setModalOpen(true)}
+                            className="mt-4 rounded-lg bg-[#2d56c2] px-4 py-2 text-sm font-medium text-white hover:bg-[#234a9f]"
+                        >
+                            Reveal Key
+                        </button>
+                    </div>
+                )}
+            </div>
+
+            <RevealEabKeyModal
+                isOpen={modalOpen && !revealed}
+                onClose={() => setModalOpen(false)}
+                onRevealed={setRevealed}
+                token={token}
+            />
+        </div>
+    )
+}
@@ -115,7 +115,7 @@ export default function TransactionsPage() {
     const totalAdded = transactions
         .filter(t => {
             const txDate = new Date(t.created_at)
-            return t.type === 'add_domain' &&
+            return (t.type === 'add_domain' || t.type === 'extend') &&
                 t.status === 'success' &&
                 txDate >= monthStart &&
                 txDate <= monthEnd
@@ -370,9 +370,11 @@ export default function TransactionsPage() {
                                                     ? 'bg-green-100 text-green-800'
                                                     : tx.type === 'refund'
                                                         ? 'bg-red-100 text-red-800'
-                                                        : 'bg-gray-100 text-gray-800'
+                                                        : tx.type === 'extend'
+                                                            ? 'bg-blue-100 text-blue-800'
+                                                            : 'bg-gray-100 text-gray-800'
                                                     }`}>
-                                                    {tx.type === 'add_domain' ? 'Add Domain' : tx.type === 'refund' ? 'Refund' : tx.type}
+                                                    {tx.type === 'add_domain' ? 'Add Domain' : tx.type === 'refund' ? 'Refund' : tx.type === 'extend' ? 'Renewal' : tx.type}
                                                 </span>
                                             </td>
                                             <td className="whitespace-nowrap px-4 py-4">
@@ -0,0 +1,40 @@
+import { NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { getServerCatalog, selectableServers } from '@/lib/acme-servers'
+
+/**
+ * GET /api/acme-servers?certificateType=DV
+ * ACME servers a partner can choose for a new subscription
+ */
+export async function GET(request: Request) {
+    try {
+        const supabase = await createClient()
+
+        const { data: { user }, error: authError } = await supabase.auth.getUser()
+        if (authError || !user) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+        }
+
+        const { searchParams } = new URL(request.url)
+        const certificateType = searchParams.get('certificateType')
+        if (certificateType && certificateType !== 'DV' && certificateType !== 'OV') {
+            return NextResponse.json({ error: 'Invalid certificate type' }, { status: 400 })
+        }
+
+        // Service role: a stale catalog is refreshed from LISTSERVERS
+        const catalog = await getServerCatalog(createAdminClient())
+        const servers = selectableServers(catalog, certificateType ? certificateType as 'DV' | 'OV' : undefined)
+
+        return NextResponse.json({
+            servers: servers.map(server => ({
+                serverUrl: server.server_url,
+                description: server.description,
+                validationType: server.validation_type
+            }))
+        })
+    } catch (error) {
+        console.error('[ACME Servers API] Error:', error)
+        return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+    }
+}
@@ -0,0 +1,84 @@
+import { NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { checkAdmin } from '@/lib/admin-access'
+import { getServerCatalog } from '@/lib/acme-servers'
+
+/**
+ * GET /api/admin/acme-servers?refresh=1
+ * Full ACME server catalog including disabled servers (admin only)
+ */
+export async function GET(request: Request) {
+    try {
+        const supabase = await createClient()
+        const access = await checkAdmin(supabase)
+        if (!access.ok) {
+            return NextResponse.json({ error: access.error }, { status: access.status })
+        }
+
+        const { searchParams } = new URL(request.url)
+        const forceRefresh = searchParams.get('refresh') === '1'
+
+        const servers = await getServerCatalog(createAdminClient(), { forceRefresh })
+
+        return NextResponse.json({ data: servers })
+    } catch (error) {
+        console.error('[ACME Servers Admin API] Error:', error)
+        return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+    }
+}
+
+/**
+ * PATCH /api/admin/acme-servers
+ * Enable or disable a server for new subscriptions (admin only)
+ *
+ * Body: { serverId, isEnabled }
+ */
+export async function PATCH(request: Request) {
+    try {
+        const supabase = await createClient()
+        const access = await checkAdmin(supabase)
+        if (!access.ok) {
+            return NextResponse.json({ error: access.error }, { status: access.status })
+        }
+
+        const body = await request.json()
+        const { serverId, isEnabled } = body
+
+        if (!serverId || typeof isEnabled !== 'boolean') {
+            return NextResponse.json({ error: 'Server ID and isEnabled are required' }, { status: 400 })
+        }
+
+        const { data: server, error: updateError } = await createAdminClient()
+            .from('acme_servers')
+            .update({ is_enabled: isEnabled, updated_at: new Date().toISOString() })
+            .eq('id', serverId)
+            .select()
+            .maybeSingle()
+
+        if (updateError) {
+            console.error('[ACME Servers Admin API] Update error:', updateError)
+            return NextResponse.json({ error: 'Failed to update server' }, { status: 500 })
+        }
+
+        if (!server) {
+            return NextResponse.json({ error: 'Server not found' }, { status: 404 })
+        }
+
+        await supabase.from('audit_logs').insert({
+            actor_id: access.userId,
+            action: isEnabled ? 'acme_server_enabled' : 'acme_server_disabled',
+            target_type: 'acme_server',
+            target_id: server.id,
+            details: {
+                server_url: server.server_url,
+                validation_type: server.validation_type
+            }
+        })
+
+        return NextResponse.json({ success: true, data: server })
+    } catch (error) {
+        console.error('[ACME Servers Admin API] Error:', error)
+        return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+    }
+}
@@ -0,0 +1,64 @@
+import { NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { checkAdmin } from '@/lib/admin-access'
+import { isSecretBoxConfigured } from '@/lib/secret-box'
+import { countPlaintextEabKeys, encryptLegacyEabKeys } from '@/lib/eab-keys'
+
+/**
+ * GET /api/admin/eab-keys
+ * How many EAB HMAC keys are still stored in plaintext (admin only)
+ */
+export async function GET() {
+    try {
+        const supabase = await createClient()
+        const access = await checkAdmin(supabase)
+        if (!access.ok) {
+            return NextResponse.json({ error: access.error }, { status: access.status })
+        }
+
+        return NextResponse.json({
+            plaintext: await countPlaintextEabKeys(createAdminClient()),
+            encryptionConfigured: isSecretBoxConfigured()
+        })
+    } catch (error) {
+        console.error('[EAB Keys API] Error:', error)
+        return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+    }
+}
+
+/**
+ * POST /api/admin/eab-keys
+ * Encrypt the next batch of plaintext EAB HMAC keys (admin only)
+ */
+export async function POST() {
+    try {
+        const supabase = await createClient()
+        const access = await checkAdmin(supabase)
+        if (!access.ok) {
+            return NextResponse.json({ error: access.error }, { status: access.status })
+        }
+
+        if (!isSecretBoxConfigured()) {
+            return NextResponse.json(
+                { error: 'SECRET_BOX_KEY must be set before EAB keys can be encrypted' },
+                { status: 503 }
+            )
+        }
+
+        const result = await encryptLegacyEabKeys(createAdminClient())
+
+        await supabase.from('audit_logs').insert({
+            actor_id: access.userId,
+            action: 'encrypt_eab_keys',
+            target_type: 'acme_account',
+            target_id: null,
+            details: result
+        })
+
+        return NextResponse.json({ success: true, ...result })
+    } catch (error) {
+        console.error('[EAB Keys API] Error:', error)
+        return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+    }
+}
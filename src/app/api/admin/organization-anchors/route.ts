@@ -0,0 +1,112 @@
+import { NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { checkAdmin } from '@/lib/admin-access'
+import { setAnchorStatus, type AnchorStatus } from '@/lib/organization-anchors'
+
+const REVIEW_STATUSES: AnchorStatus[] = ['validated', 'rejected', 'revoked']
+
+/**
+ * GET /api/admin/organization-anchors?status=pending
+ * OV anchors of all partners, optionally by status (admin only)
+ */
+export async function GET(request: Request) {
+    try {
+        const supabase = await createClient()
+        const access = await checkAdmin(supabase)
+        if (!access.ok) {
+            return NextResponse.json({ error: access.error }, { status: access.status })
+        }
+
+        const { searchParams } = new URL(request.url)
+        const status = searchParams.get('status')
+
+        let query = createAdminClient()
+            .from('organization_anchors')
+            .select(`
+                *,
+                clients!inner(
+                    name,
+                    company_name,
+                    partners!inner(company_name)
+                )
+            `)
+            .order('created_at', { ascending: false })
+            .limit(200)
+
+        if (status) {
+            query = query.eq('status', status)
+        }
+
+        const { data, error } = await query
+
+        if (error) {
+            console.error('[OV Anchors Admin API] Fetch error:', error)
+            return NextResponse.json({ error: 'Failed to fetch anchors' }, { status: 500 })
+        }
+
+        return NextResponse.json({ data })
+    } catch (error) {
+        console.error('[OV Anchors Admin API] Error:', error)
+        return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+    }
+}
+
+/**
+ * PATCH /api/admin/organization-anchors
+ * Record the validation result of an anchor (admin only)
+ *
+ * Body: { anchorId, status: 'validated' | 'rejected' | 'revoked', expiresAt?, reason? }
+ * expiresAt defaults to ANCHOR_VALIDITY_DAYS from now for validated anchors.
+ */
+export async function PATCH(request: Request) {
+    try {
+        const supabase = await createClient()
+        const access = await checkAdmin(supabase)
+        if (!access.ok) {
+            return NextResponse.json({ error: access.error }, { status: access.status })
+        }
+
+        const body = await request.json()
+        const { anchorId, status, expiresAt, reason } = body
+
+        if (!anchorId || !REVIEW_STATUSES.includes(status)) {
+            return NextResponse.json(
+                { error: 'Anchor ID and status (validated, rejected or revoked) are required' },
+                { status: 400 }
+            )
+        }
+
+        if (expiresAt && (isNaN(Date.parse(expiresAt)) || Date.parse(expiresAt) <= Date.now())) {
+            return NextResponse.json({ error: 'expiresAt must be a future date' }, { status: 400 })
+        }
+
+        const admin = createAdminClient()
+        const { data: anchor } = await admin
+            .from('organization_anchors')
+            .select('id, client_id, status, ov_anchor_order_number')
+            .eq('id', anchorId)
+            .maybeSingle()
+
+        if (!anchor) {
+            return NextResponse.json({ error: 'Anchor not found' }, { status: 404 })
+        }
+
+        const result = await setAnchorStatus(admin, {
+            anchor,
+            status,
+            expiresAt: expiresAt ? new Date(expiresAt).toISOString() : null,
+            reason: typeof reason === 'string' ? reason.trim() : null,
+            actorId: access.userId
+        })
+
+        if (!result.ok) {
+            return NextResponse.json({ error: result.error }, { status: 409 })
+        }
+
+        return NextResponse.json({ success: true, data: result.anchor })
+    } catch (error) {
+        console.error('[OV Anchors Admin API] Error:', error)
+        return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+    }
+}
@@ -0,0 +1,108 @@
+import { NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { checkAdmin } from '@/lib/admin-access'
+
+/**
+ * POST /api/admin/reconciliation/resolve
+ * Mark a reconciliation discrepancy as resolved (admin only)
+ *
+ * Body: { discrepancyId, note, settle? }
+ *
+ * An unsettled_extend (a stuck renewal escalated by the zombie sweeper)
+ * also needs settle: 'commit' when Sectigo charged it, 'rollback' when
+ * it didn't; the transaction is settled before the row is resolved.
+ */
+export async function POST(request: Request) {
+    try {
+        const supabase = await createClient()
+        const access = await checkAdmin(supabase)
+        if (!access.ok) {
+            return NextResponse.json({ error: access.error }, { status: access.status })
+        }
+
+        const body = await request.json()
+        const { discrepancyId, note, settle } = body
+
+        if (!discrepancyId || typeof note !== 'string' || note.trim().length === 0) {
+            return NextResponse.json(
+                { error: 'Discrepancy ID and resolution note are required' },
+                { status: 400 }
+            )
+        }
+
+        const admin = createAdminClient()
+
+        const { data: pending } = await admin
+            .from('reconciliation_discrepancies')
+            .select('kind, transaction_id')
+            .eq('id', discrepancyId)
+            .eq('status', 'open')
+            .maybeSingle()
+
+        if (pending?.kind === 'unsettled_extend' && pending.transaction_id) {
+            if (settle !== 'commit' && settle !== 'rollback') {
+                return NextResponse.json(
+                    { error: "Settle ('commit' or 'rollback') is required for an unsettled renewal" },
+                    { status: 400 }
+                )
+            }
+
+            // Also moves the end date of a committed renewal (migration 037)
+            const { error: settleError } = await admin.rpc('settle_stuck_transaction', {
+                p_transaction_id: pending.transaction_id,
+                p_success: settle === 'commit',
+                p_order_number: null,
+                p_reason: note.trim()
+            })
+
+            if (settleError) {
+                console.error('[Reconciliation Resolve] Settle error:', settleError)
+                return NextResponse.json({ error: 'Failed to settle renewal' }, { status: 500 })
+            }
+        }
+
+        const { data: discrepancy, error: updateError } = await admin
+            .from('reconciliation_discrepancies')
+            .update({
+                status: 'resolved',
+                resolution_note: note.trim(),
+                resolved_by: access.userId,
+                resolved_at: new Date().toISOString()
+            })
+            .eq('id', discrepancyId)
+            .eq('status', 'open')
+            .select('id, kind, sectigo_order_number, transaction_id, local_amount, upstream_amount')
+            .maybeSingle()
+
+        if (updateError) {
+            console.error('[Reconciliation Resolve] Update error:', updateError)
+            return NextResponse.json({ error: 'Failed to resolve discrepancy' }, { status: 500 })
+        }
+
+        if (!discrepancy) {
+            return NextResponse.json({ error: 'Discrepancy not found or already resolved' }, { status: 404 })
+        }
+
+        await supabase.from('audit_logs').insert({
+            actor_id: access.userId,
+            action: 'reconciliation_resolved',
+            target_type: 'reconciliation_discrepancy',
+            target_id: discrepancy.id,
+            details: {
+                kind: discrepancy.kind,
+                sectigo_order_number: discrepancy.sectigo_order_number,
+                transaction_id: discrepancy.transaction_id,
+                local_amount: discrepancy.local_amount,
+                upstream_amount: discrepancy.upstream_amount,
+                ...(discrepancy.kind === 'unsettled_extend' && { settle }),
+                note: note.trim()
+            }
+        })
+
+        return NextResponse.json({ success: true })
+    } catch (error) {
+        console.error('[Reconciliation Resolve] Error:', error)
+        return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+    }
+}
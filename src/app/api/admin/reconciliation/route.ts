@@ -0,0 +1,100 @@
+import { NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { checkAdmin } from '@/lib/admin-access'
+import { runReconciliation } from '@/lib/reconciliation'
+
+const DISCREPANCY_KINDS = ['missing_local', 'missing_upstream', 'amount_mismatch', 'type_mismatch', 'unsettled_extend']
+
+/**
+ * GET /api/admin/reconciliation?status=open&kind=amount_mismatch
+ * List reconciliation discrepancies and recent runs (admin only)
+ */
+export async function GET(request: Request) {
+    try {
+        const supabase = await createClient()
+        const access = await checkAdmin(supabase)
+        if (!access.ok) {
+            return NextResponse.json({ error: access.error }, { status: access.status })
+        }
+
+        const { searchParams } = new URL(request.url)
+        const status = searchParams.get('status') || 'open'
+        const kind = searchParams.get('kind')
+
+        const admin = createAdminClient()
+
+        let query = admin
+            .from('reconciliation_discrepancies')
+            .select(`
+                *,
+                partners!reconciliation_discrepancies_partner_id_fkey (
+                    company_name
+                ),
+                acme_accounts (
+                    account_name,
+                    acme_account_id
+                )
+            `)
+            .order('last_detected_at', { ascending: false })
+            .limit(500)
+
+        if (status !== 'all') {
+            query = query.eq('status', status)
+        }
+        if (kind && DISCREPANCY_KINDS.includes(kind)) {
+            query = query.eq('kind', kind)
+        }
+
+        const [{ data: discrepancies, error }, { data: runs }] = await Promise.all([
+            query,
+            admin
+                .from('reconciliation_runs')
+                .select('*')
+                .order('started_at', { ascending: false })
+                .limit(10)
+        ])
+
+        if (error) {
+            console.error('[Reconciliation API] Query error:', error)
+            return NextResponse.json({ error: 'Failed to load discrepancies' }, { status: 500 })
+        }
+
+        return NextResponse.json({ data: discrepancies || [], runs: runs || [] })
+    } catch (error) {
+        console.error('[Reconciliation API] Unexpected error:', error)
+        return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+    }
+}
+
+/**
+ * POST /api/admin/reconciliation
+ * Run reconciliation now for { fromDate, toDate } (admin only)
+ */
+export async function POST(request: Request) {
+    try {
+        const supabase = await createClient()
+        const access = await checkAdmin(supabase)
+        if (!access.ok) {
+            return NextResponse.json({ error: access.error }, { status: access.status })
+        }
+
+        const body = await request.json()
+        const { fromDate, toDate } = body
+
+        if (!/^\d{4}-\d{2}-\d{2}$/.test(fromDate || '') || !/^\d{4}-\d{2}-\d{2}$/.test(toDate || '') || fromDate > toDate) {
+            return NextResponse.json({ error: 'Invalid date range' }, { status: 400 })
+        }
+
+        const result = await runReconciliation(createAdminClient(), {
+            fromDate,
+            toDate,
+            triggeredBy: access.userId
+        })
+
+        return NextResponse.json({ success: true, ...result })
+    } catch (error) {
+        console.error('[Reconciliation API] Error:', error)
+        return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+    }
+}
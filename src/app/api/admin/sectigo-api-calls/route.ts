@@ -0,0 +1,83 @@
+import { NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { checkAdmin } from '@/lib/admin-access'
+
+const PAGE_SIZE = 100
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+/**
+ * GET /api/admin/sectigo-api-calls
+ * Search the Sectigo API call journal (admin only)
+ *
+ * Query: q (domain, Sectigo account ID, order number, or a
+ *        transaction / job UUID), action,
+ *        outcome (success|failed), client, transactionId, jobId, from, to, page
+ */
+export async function GET(request: Request) {
+    try {
+        const supabase = await createClient()
+        const access = await checkAdmin(supabase)
+        if (!access.ok) {
+            return NextResponse.json({ error: access.error }, { status: access.status })
+        }
+
+        const { searchParams } = new URL(request.url)
+        const q = searchParams.get('q')?.trim()
+        const action = searchParams.get('action')
+        const outcome = searchParams.get('outcome')
+        const clientName = searchParams.get('client')
+        const transactionId = searchParams.get('transactionId')
+        const jobId = searchParams.get('jobId')
+        const from = searchParams.get('from')
+        const to = searchParams.get('to')
+        const page = Math.max(0, parseInt(searchParams.get('page') || '0', 10) || 0)
+
+        let query = createAdminClient()
+            .from('sectigo_api_calls')
+            .select('*', { count: 'exact' })
+            .order('created_at', { ascending: false })
+            .range(page * PAGE_SIZE, page * PAGE_SIZE + PAGE_SIZE - 1)
+
+        if (q && UUID_PATTERN.test(q)) {
+            query = query.or(`transaction_id.eq.${q},job_id.eq.${q}`)
+        } else if (q) {
+            // Strip PostgREST filter syntax characters from free text
+            const term = q.replace(/[,()*%]/g, '')
+            query = query.or(`domain_name.ilike.%${term}%,acme_account_id.eq.${term},order_number.eq.${term}`)
+        }
+        if (action) {
+            query = query.eq('action', action)
+        }
+        if (outcome === 'success' || outcome === 'failed') {
+            query = query.eq('success', outcome === 'success')
+        }
+        if (clientName) {
+            query = query.eq('client_name', clientName)
+        }
+        if (transactionId) {
+            query = query.eq('transaction_id', transactionId)
+        }
+        if (jobId) {
+            query = query.eq('job_id', jobId)
+        }
+        if (from) {
+            query = query.gte('created_at', from)
+        }
+        if (to) {
+            query = query.lte('created_at', `${to}T23:59:59.999Z`)
+        }
+
+        const { data, count, error } = await query
+
+        if (error) {
+            console.error('[Sectigo API Calls API] Query error:', error)
+            return NextResponse.json({ error: 'Failed to load API calls' }, { status: 500 })
+        }
+
+        return NextResponse.json({ data: data || [], total: count || 0, page, pageSize: PAGE_SIZE })
+    } catch (error) {
+        console.error('[Sectigo API Calls API] Error:', error)
+        return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+    }
+}
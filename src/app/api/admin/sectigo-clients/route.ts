@@ -0,0 +1,109 @@
+import { NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { checkAdmin } from '@/lib/admin-access'
+import { getResilienceStatus } from '@/lib/sectigo-resilience'
+import {
+    DEFAULT_SECTIGO_CLIENT,
+    getSectigoClientConfig,
+    isSectigoClientName,
+    listSectigoClientNames
+} from '@/lib/sectigo-registry'
+
+/**
+ * GET /api/admin/sectigo-clients
+ * Configured Sectigo clients (endpoint, mock mode, circuit state) and
+ * which client each partner's new accounts use (admin only)
+ */
+export async function GET() {
+    try {
+        const supabase = await createClient()
+        const access = await checkAdmin(supabase)
+        if (!access.ok) {
+            return NextResponse.json({ error: access.error }, { status: access.status })
+        }
+
+        const names = listSectigoClientNames()
+        const resilience = getResilienceStatus(names)
+
+        const { data: partners, error: partnersError } = await createAdminClient()
+            .from('partners')
+            .select('id, company_name, sectigo_client')
+            .order('company_name')
+
+        if (partnersError) {
+            console.error('[Sectigo Clients API] Partners error:', partnersError)
+            return NextResponse.json({ error: 'Failed to load partners' }, { status: 500 })
+        }
+
+        return NextResponse.json({
+            data: names.map(name => ({
+                ...getSectigoClientConfig(name),
+                circuit: resilience.clients[name].circuit
+            })),
+            partners: partners || []
+        })
+    } catch (error) {
+        console.error('[Sectigo Clients API] Error:', error)
+        return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+    }
+}
+
+/**
+ * PATCH /api/admin/sectigo-clients
+ * Route a partner's NEW ACME accounts to a Sectigo client; existing
+ * accounts stay on the client they were created with (admin only)
+ *
+ * Body: { partnerId, clientName }
+ */
+export async function PATCH(request: Request) {
+    try {
+        const supabase = await createClient()
+        const access = await checkAdmin(supabase)
+        if (!access.ok) {
+            return NextResponse.json({ error: access.error }, { status: access.status })
+        }
+
+        const { partnerId, clientName } = await request.json()
+
+        if (!partnerId || !clientName) {
+            return NextResponse.json({ error: 'Partner ID and client name are required' }, { status: 400 })
+        }
+
+        if (!isSectigoClientName(clientName)) {
+            return NextResponse.json({ error: `Unknown Sectigo client: ${clientName}` }, { status: 400 })
+        }
+
+        const { data: partner, error: updateError } = await createAdminClient()
+            .from('partners')
+            .update({
+                sectigo_client: clientName === DEFAULT_SECTIGO_CLIENT ? null : clientName,
+                updated_at: new Date().toISOString()
+            })
+            .eq('id', partnerId)
+            .select('id, company_name, sectigo_client')
+            .maybeSingle()
+
+        if (updateError) {
+            console.error('[Sectigo Clients API] Update error:', updateError)
+            return NextResponse.json({ error: 'Failed to update partner' }, { status: 500 })
+        }
+
+        if (!partner) {
+            return NextResponse.json({ error: 'Partner not found' }, { status: 404 })
+        }
+
+        await supabase.from('audit_logs').insert({
+            actor_id: access.userId,
+            action: 'sectigo_client_assigned',
+            target_type: 'partner',
+            target_id: partner.id,
+            details: { company_name: partner.company_name, sectigo_client: clientName }
+        })
+
+        return NextResponse.json({ success: true, data: partner })
+    } catch (error) {
+        console.error('[Sectigo Clients API] Error:', error)
+        return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+    }
+}
@@ -0,0 +1,66 @@
+import { NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { checkAdmin } from '@/lib/admin-access'
+import { activateStoredCredential, listStoredCredentials } from '@/lib/sectigo-credentials'
+
+/**
+ * POST /api/admin/sectigo-credentials/activate
+ * Switch a Sectigo client's calls to a stored credential; it must have
+ * passed its last test (admin only)
+ *
+ * Other server instances pick the change up when their credential cache
+ * expires (SECTIGO_CREDENTIALS_CACHE_MS).
+ *
+ * Body: { credentialId }
+ */
+export async function POST(request: Request) {
+    try {
+        const supabase = await createClient()
+        const access = await checkAdmin(supabase)
+        if (!access.ok) {
+            return NextResponse.json({ error: access.error }, { status: access.status })
+        }
+
+        const { credentialId } = await request.json()
+        if (!credentialId) {
+            return NextResponse.json({ error: 'Credential ID is required' }, { status: 400 })
+        }
+
+        const adminClient = createAdminClient()
+        const credential = (await listStoredCredentials(adminClient)).find(c => c.id === credentialId)
+        if (!credential) {
+            return NextResponse.json({ error: 'Credential not found' }, { status: 404 })
+        }
+
+        if (credential.last_test_ok !== true) {
+            return NextResponse.json(
+                { error: 'Test this credential successfully before activating it' },
+                { status: 409 }
+            )
+        }
+
+        await activateStoredCredential(
+            adminClient,
+            { credentialId, clientName: credential.client_name },
+            access.userId
+        )
+
+        await supabase.from('audit_logs').insert({
+            actor_id: access.userId,
+            action: 'sectigo_credential_activated',
+            target_type: 'sectigo_credential',
+            target_id: credentialId,
+            details: {
+                client_name: credential.client_name,
+                label: credential.label,
+                login_name: credential.login_name
+            }
+        })
+
+        return NextResponse.json({ success: true })
+    } catch (error) {
+        console.error('[Sectigo Credentials Activate API] Error:', error)
+        return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+    }
+}
@@ -0,0 +1,101 @@
+import { NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { checkAdmin } from '@/lib/admin-access'
+import { isSecretBoxConfigured } from '@/lib/secret-box'
+import { DEFAULT_SECTIGO_CLIENT, isSectigoClientName, listSectigoClientNames } from '@/lib/sectigo-registry'
+import {
+    createStoredCredential,
+    getCredentialStatus,
+    listStoredCredentials
+} from '@/lib/sectigo-credentials'
+
+/**
+ * GET /api/admin/sectigo-credentials
+ * Stored credentials (never the password) and the credential each
+ * Sectigo client is currently using on this server instance (admin only)
+ */
+export async function GET() {
+    try {
+        const supabase = await createClient()
+        const access = await checkAdmin(supabase)
+        if (!access.ok) {
+            return NextResponse.json({ error: access.error }, { status: access.status })
+        }
+
+        const [credentials, current] = await Promise.all([
+            listStoredCredentials(createAdminClient()),
+            Promise.all(listSectigoClientNames().map(name => getCredentialStatus(name)))
+        ])
+
+        return NextResponse.json({
+            data: credentials,
+            current,
+            encryptionConfigured: isSecretBoxConfigured()
+        })
+    } catch (error) {
+        console.error('[Sectigo Credentials API] Error:', error)
+        return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+    }
+}
+
+/**
+ * POST /api/admin/sectigo-credentials
+ * Store a new credential, inactive until tested and activated (admin only)
+ *
+ * Body: { clientName?, label, loginName, loginPassword }
+ */
+export async function POST(request: Request) {
+    try {
+        const supabase = await createClient()
+        const access = await checkAdmin(supabase)
+        if (!access.ok) {
+            return NextResponse.json({ error: access.error }, { status: access.status })
+        }
+
+        if (!isSecretBoxConfigured()) {
+            return NextResponse.json(
+                { error: 'SECRET_BOX_KEY must be set before credentials can be stored' },
+                { status: 503 }
+            )
+        }
+
+        const body = await request.json()
+        const clientName = body.clientName || DEFAULT_SECTIGO_CLIENT
+        const label = typeof body.label === 'string' ? body.label.trim() : ''
+        const loginName = typeof body.loginName === 'string' ? body.loginName.trim() : ''
+        const loginPassword = typeof body.loginPassword === 'string' ? body.loginPassword : ''
+
+        if (!label || !loginName || !loginPassword) {
+            return NextResponse.json(
+                { error: 'Label, login name and password are required' },
+                { status: 400 }
+            )
+        }
+
+        if (!isSectigoClientName(clientName)) {
+            return NextResponse.json({ error: `Unknown Sectigo client: ${clientName}` }, { status: 400 })
+        }
+
+        const credential = await createStoredCredential(createAdminClient(), {
+            clientName,
+            label,
+            loginName,
+            loginPassword,
+            createdBy: access.userId
+        })
+
+        await supabase.from('audit_logs').insert({
+            actor_id: access.userId,
+            action: 'sectigo_credential_created',
+            target_type: 'sectigo_credential',
+            target_id: credential.id,
+            details: { client_name: clientName, label, login_name: loginName }
+        })
+
+        return NextResponse.json({ success: true, data: credential })
+    } catch (error) {
+        console.error('[Sectigo Credentials API] Error:', error)
+        return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+    }
+}
@@ -0,0 +1,50 @@
+import { NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { checkAdmin } from '@/lib/admin-access'
+import { loadStoredCredential, recordCredentialTest } from '@/lib/sectigo-credentials'
+import { testSectigoCredentials } from '@/lib/sectigo'
+
+/**
+ * POST /api/admin/sectigo-credentials/test
+ * Try a stored credential against its client's Sectigo endpoint (LISTSERVERS) without switching
+ * to it; a passing test is required before activation (admin only)
+ *
+ * Body: { credentialId }
+ */
+export async function POST(request: Request) {
+    try {
+        const supabase = await createClient()
+        const access = await checkAdmin(supabase)
+        if (!access.ok) {
+            return NextResponse.json({ error: access.error }, { status: access.status })
+        }
+
+        const { credentialId } = await request.json()
+        if (!credentialId) {
+            return NextResponse.json({ error: 'Credential ID is required' }, { status: 400 })
+        }
+
+        const adminClient = createAdminClient()
+        const stored = await loadStoredCredential(adminClient, credentialId)
+        if (!stored) {
+            return NextResponse.json({ error: 'Credential not found' }, { status: 404 })
+        }
+
+        const result = await testSectigoCredentials(stored.credentials, stored.clientName)
+        await recordCredentialTest(adminClient, credentialId, result)
+
+        await supabase.from('audit_logs').insert({
+            actor_id: access.userId,
+            action: 'sectigo_credential_tested',
+            target_type: 'sectigo_credential',
+            target_id: credentialId,
+            details: { client_name: stored.clientName, ...result }
+        })
+
+        return NextResponse.json({ success: true, data: result })
+    } catch (error) {
+        console.error('[Sectigo Credentials Test API] Error:', error)
+        return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+    }
+}
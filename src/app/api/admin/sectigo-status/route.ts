@@ -0,0 +1,24 @@
+import { NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { checkAdmin } from '@/lib/admin-access'
+import { getResilienceStatus } from '@/lib/sectigo-resilience'
+
+/**
+ * GET /api/admin/sectigo-status
+ * Circuit breaker state and rate limiter tokens per Sectigo client, and
+ * configured thresholds, for this server instance (admin only)
+ */
+export async function GET() {
+    try {
+        const supabase = await createClient()
+        const access = await checkAdmin(supabase)
+        if (!access.ok) {
+            return NextResponse.json({ error: access.error }, { status: access.status })
+        }
+
+        return NextResponse.json({ data: getResilienceStatus() })
+    } catch (error) {
+        console.error('[Sectigo Status API] Error:', error)
+        return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+    }
+}
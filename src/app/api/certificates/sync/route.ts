@@ -1,15 +1,20 @@
 import { NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
-import { getSectigoClient } from '@/lib/sectigo'
-import { isSectigoError } from '@/lib/sectigo-types'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { enqueueSectigoJob, runSectigoWorker } from '@/lib/sectigo-jobs'
+import type { CertificateSyncResult } from '@/lib/certificate-sync'
+
+// Time spent syncing inline; remaining SYNC_CERT jobs are finished by the worker
+const INLINE_SYNC_BUDGET_MS = 20000
 
 /**
  * POST /api/certificates/sync
  * 
- * Manual sync certificates from Sectigo GETLASTORDER API
- * Simple version - just syncs without complex error handling
+ * Sync the partner's certificates from Sectigo GETLASTORDER.
+ * Queues one SYNC_CERT job per active domain and works through them
+ * for up to INLINE_SYNC_BUDGET_MS; the worker cron handles the rest.
  */
-export async function POST(request: Request) {
+export async function POST() {
     try {
         const supabase = await createClient()
         const { data: { user } } = await supabase.auth.getUser()
@@ -18,62 +23,44 @@ export async function POST(request: Request) {
             return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
         }
 
-        // TEMP: Force reset singleton to reload credentials
-        const { resetSectigoClient } = await import('@/lib/sectigo')
-        resetSectigoClient()
-
-        // Get all active domains
+        // Get the partner's active domains
         const { data: domains } = await supabase
             .from('domains')
-            .select('id, domain_name, acme_account_id, acme_accounts(acme_account_id, clients(partner_id))')
+            .select('id, domain_name, acme_account_id, acme_accounts!inner(clients!inner(partner_id))')
             .eq('status', 'active')
+            .eq('acme_accounts.clients.partner_id', user.id)
 
         if (!domains || domains.length === 0) {
             return NextResponse.json({ success: true, synced: 0, message: 'No domains to sync' })
         }
 
-        const sectigoClient = getSectigoClient()
-        let synced = 0
+        const admin = createAdminClient()
+        const jobIds: string[] = []
 
         for (const domain of domains) {
-            try {
-                const acctArray = domain.acme_accounts as any
-                const acctData = Array.isArray(acctArray) ? acctArray[0] : acctArray
-                const clientArray = acctData?.clients as any
-                const clientData = Array.isArray(clientArray) ? clientArray[0] : clientArray
-
-                if (clientData?.partner_id !== user.id) continue
-                if (!acctData?.acme_account_id) continue
-
-                const response = await sectigoClient.getLastOrder({
-                    acmeAccountID: acctData.acme_account_id,
-                    domainName: domain.domain_name
-                })
+            const job = await enqueueSectigoJob(admin, {
+                type: 'SYNC_CERT',
+                partnerId: user.id,
+                accountId: domain.acme_account_id,
+                payload: { domainId: domain.id, domainName: domain.domain_name },
+                dedupeKey: `SYNC_CERT:${domain.id}`,
+                createdBy: user.id
+            })
+            jobIds.push(job.id)
+        }
 
-                // Check if response has Orders array (success)
-                if ('Orders' in response && Array.isArray(response.Orders) && response.Orders.length > 0) {
-                    const order = response.Orders[0] // Get first (latest) order
+        await runSectigoWorker(admin, { jobIds, timeBudgetMs: INLINE_SYNC_BUDGET_MS })
 
-                    await supabase.from('certificates').upsert({
-                        domain_id: domain.id,
-                        order_number: order.orderNumber?.toString() || null,
-                        certificate_id: order.certificateID?.toString() || null,
-                        serial_number: order.serialNumber || null,
-                        valid_not_before: order.validNotBefore || null,
-                        valid_not_after: order.validNotAfter || null,
-                        status_code: order.statusCode || null,
-                        status_desc: order.statusDesc || null,
-                        synced_at: new Date().toISOString()
-                    }, { onConflict: 'domain_id' })
+        const { data: jobs } = await admin
+            .from('sectigo_jobs')
+            .select('status, result')
+            .in('id', jobIds)
 
-                    synced++
-                }
-            } catch (err) {
-                console.error(`Sync error for ${domain.domain_name}:`, err)
-            }
-        }
+        const finished = (jobs || []).filter(j => j.status === 'succeeded')
+        const synced = finished.filter(j => (j.result as CertificateSyncResult | null)?.synced).length
+        const pending = (jobs || []).filter(j => j.status === 'pending' || j.status === 'running').length
 
-        return NextResponse.json({ success: true, synced, total: domains.length })
+        return NextResponse.json({ success: true, synced, pending, total: domains.length })
     } catch (error) {
         console.error('Sync error:', error)
         return NextResponse.json({ error: 'Sync failed' }, { status: 500 })
@@ -0,0 +1,41 @@
+import { NextResponse } from 'next/server'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { expireLapsedSubscriptions } from '@/lib/subscription-lifecycle'
+
+/**
+ * POST /api/cron/expire-subscriptions
+ *
+ * Daily job that expires subscriptions whose end_date passed more than
+ * SUBSCRIPTION_GRACE_DAYS (default 7) ago, and their active domains.
+ * Each status change is recorded in the audit log.
+ *
+ * Security: Protected by CRON_SECRET header
+ */
+export async function POST(request: Request) {
+    const authHeader = request.headers.get('authorization')
+    const cronSecret = process.env.CRON_SECRET
+
+    if (!cronSecret || authHeader !== `Bearer ${cronSecret}`) {
+        console.log('[Subscription Expiry] Unauthorized request')
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    try {
+        const result = await expireLapsedSubscriptions(createAdminClient())
+
+        console.log('[Subscription Expiry] Complete:', result)
+        return NextResponse.json({ success: true, ...result })
+
+    } catch (error) {
+        console.error('[Subscription Expiry] Fatal error:', error)
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500 }
+        )
+    }
+}
+
+// Also allow GET for Vercel Cron / manual testing (with same auth)
+export async function GET(request: Request) {
+    return POST(request)
+}
@@ -0,0 +1,42 @@
+import { NextResponse } from 'next/server'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { sendExpiryReminders } from '@/lib/expiry-reminders'
+
+/**
+ * POST /api/cron/expiry-reminders
+ *
+ * Daily job that emails partners about certificates and subscriptions
+ * close to expiry (EXPIRY_REMINDER_DAYS, default H-30 and H-7).
+ * Respects billing_preferences.notify_on_expiry and per-domain snoozes;
+ * sent reminders are recorded so none goes out twice.
+ *
+ * Security: Protected by CRON_SECRET header
+ */
+export async function POST(request: Request) {
+    const authHeader = request.headers.get('authorization')
+    const cronSecret = process.env.CRON_SECRET
+
+    if (!cronSecret || authHeader !== `Bearer ${cronSecret}`) {
+        console.log('[Expiry Reminders] Unauthorized request')
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    try {
+        const result = await sendExpiryReminders(createAdminClient())
+
+        console.log('[Expiry Reminders] Complete:', result)
+        return NextResponse.json({ success: true, ...result })
+
+    } catch (error) {
+        console.error('[Expiry Reminders] Fatal error:', error)
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500 }
+        )
+    }
+}
+
+// Also allow GET for Vercel Cron / manual testing (with same auth)
+export async function GET(request: Request) {
+    return POST(request)
+}
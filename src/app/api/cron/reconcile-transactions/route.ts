@@ -0,0 +1,56 @@
+import { NextResponse } from 'next/server'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { RECONCILIATION_LOOKBACK_DAYS, runReconciliation } from '@/lib/reconciliation'
+
+/**
+ * POST /api/cron/reconcile-transactions
+ *
+ * Daily cron: reconcile Sectigo LISTTRANSACTIONS against local transactions
+ * for the last RECONCILIATION_LOOKBACK_DAYS days.
+ *
+ * Optional query params: ?from=YYYY-MM-DD&to=YYYY-MM-DD
+ *
+ * Security: Protected by CRON_SECRET header
+ */
+export async function POST(request: Request) {
+    const authHeader = request.headers.get('authorization')
+    const cronSecret = process.env.CRON_SECRET
+
+    if (!cronSecret || authHeader !== `Bearer ${cronSecret}`) {
+        console.log('[Reconciliation] Unauthorized request')
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    try {
+        const { searchParams } = new URL(request.url)
+        const today = new Date()
+        const lookback = new Date(today.getTime() - RECONCILIATION_LOOKBACK_DAYS * 24 * 60 * 60 * 1000)
+
+        const fromDate = searchParams.get('from') || lookback.toISOString().substring(0, 10)
+        const toDate = searchParams.get('to') || today.toISOString().substring(0, 10)
+
+        if (!/^\d{4}-\d{2}-\d{2}$/.test(fromDate) || !/^\d{4}-\d{2}-\d{2}$/.test(toDate) || fromDate > toDate) {
+            return NextResponse.json({ error: 'Invalid date range' }, { status: 400 })
+        }
+
+        console.log(`[Reconciliation] Starting run for ${fromDate} → ${toDate}`)
+
+        const supabase = createAdminClient()
+        const result = await runReconciliation(supabase, { fromDate, toDate })
+
+        console.log('[Reconciliation] Complete:', result)
+        return NextResponse.json({ success: true, ...result })
+
+    } catch (error) {
+        console.error('[Reconciliation] Fatal error:', error)
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500 }
+        )
+    }
+}
+
+// Also allow GET for Vercel Cron / manual testing (with same auth)
+export async function GET(request: Request) {
+    return POST(request)
+}
@@ -0,0 +1,42 @@
+import { NextResponse } from 'next/server'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { runSectigoWorker } from '@/lib/sectigo-jobs'
+
+/**
+ * POST /api/cron/sectigo-worker
+ *
+ * Runs due Sectigo jobs (retries with backoff, abandoned jobs, jobs
+ * queued while Sectigo was unavailable). Dead-letters jobs that run
+ * out of attempts.
+ *
+ * Security: Protected by CRON_SECRET header
+ */
+export async function POST(request: Request) {
+    const authHeader = request.headers.get('authorization')
+    const cronSecret = process.env.CRON_SECRET
+
+    if (!cronSecret || authHeader !== `Bearer ${cronSecret}`) {
+        console.log('[Sectigo Worker] Unauthorized request')
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    try {
+        const supabase = createAdminClient()
+        const result = await runSectigoWorker(supabase, { timeBudgetMs: 50000 })
+
+        console.log('[Sectigo Worker] Complete:', result)
+        return NextResponse.json({ success: true, ...result })
+
+    } catch (error) {
+        console.error('[Sectigo Worker] Fatal error:', error)
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500 }
+        )
+    }
+}
+
+// Also allow GET for Vercel Cron / manual testing (with same auth)
+export async function GET(request: Request) {
+    return POST(request)
+}
@@ -0,0 +1,43 @@
+import { NextResponse } from 'next/server'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { runCertificateSyncBatch } from '@/lib/certificate-sync'
+
+/**
+ * POST /api/cron/sync-certificates
+ *
+ * Incremental certificate sync. Each run claims the domains most in need
+ * of a sync (no certificate, not valid or close to expiry, then oldest
+ * sync) and pulls their latest order from the CA a few at a time.
+ * Progress and errors are recorded per domain and shown on the
+ * certificates page.
+ *
+ * Security: Protected by CRON_SECRET header
+ */
+export async function POST(request: Request) {
+    const authHeader = request.headers.get('authorization')
+    const cronSecret = process.env.CRON_SECRET
+
+    if (!cronSecret || authHeader !== `Bearer ${cronSecret}`) {
+        console.log('[Certificate Sync] Unauthorized request')
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    try {
+        const result = await runCertificateSyncBatch(createAdminClient())
+
+        console.log('[Certificate Sync] Complete:', result)
+        return NextResponse.json({ success: true, ...result })
+
+    } catch (error) {
+        console.error('[Certificate Sync] Fatal error:', error)
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500 }
+        )
+    }
+}
+
+// Also allow GET for Vercel Cron / manual testing (with same auth)
+export async function GET(request: Request) {
+    return POST(request)
+}
@@ -1,14 +1,43 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { createClient } from '@supabase/supabase-js'
-import { getSectigoClient } from '@/lib/sectigo'
-import { isSectigoError } from '@/lib/sectigo-types'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { createClient } from '@/lib/supabase/server'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { getCaProvider, isCaError } from '@/lib/ca'
+import { withSectigoCallContext } from '@/lib/sectigo-journal'
+import { runIdempotent, transactionIdempotencyKey } from '@/lib/idempotency'
+import { resolveOvAnchor } from '@/lib/organization-anchors'
+
+// Transaction statuses that may still be executed against the CA
+const EXECUTABLE_TX_STATUSES = ['pending', 'pending_api']
 
 /**
  * POST /api/domains/add
- * Add domain to Sectigo ACME account
+ * Add domain to an ACME account at its CA
+ *
+ * Security:
+ * - Caller must have a valid session
+ * - ACME account must belong to one of the caller's clients
+ * - Transaction must belong to the caller, reference that ACME account
+ *   and domain, and still be pending
+ * Rejected requests are written to the audit log.
+ *
+ * OV accounts send the client's valid organization anchor as
+ * ovAnchorOrderNumber; without one the request is refused (409) and the
+ * transaction stays pending.
+ *
+ * Idempotent per transaction: a replayed request gets the stored response
+ * (with an `Idempotent-Replayed: true` header) and Sectigo is not called again.
  */
 export async function POST(request: NextRequest) {
     try {
+        const supabase = await createClient()
+
+        // Verify authentication
+        const { data: { user }, error: authError } = await supabase.auth.getUser()
+        if (authError || !user) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+        }
+
         const body = await request.json()
         const { acmeAccountID, domainName, transactionId } = body
 
@@ -19,50 +48,148 @@ export async function POST(request: NextRequest) {
             )
         }
 
-        // Use service role for database access
-        const supabase = createClient(
-            process.env.NEXT_PUBLIC_SUPABASE_URL!,
-            process.env.SUPABASE_SERVICE_ROLE_KEY!
-        )
+        // ============================================================
+        // AUTHORIZATION: ACME account must belong to caller's partner
+        // ============================================================
+        const { data: accountData } = await supabase
+            .from('acme_accounts')
+            .select('id, client_id, certificate_type, ca_provider, sectigo_client, clients!inner(partner_id)')
+            .eq('acme_account_id', acmeAccountID)
+            .maybeSingle()
 
-        // Call Sectigo API
-        const client = getSectigoClient()
-        const response = await client.addDomain({
-            acmeAccountID,
-            domainName
+        const account = accountData as unknown as {
+            id: string
+            client_id: string
+            certificate_type: string
+            ca_provider: string
+            sectigo_client: string | null
+            clients: { partner_id: string }
+        } | null
+
+        if (!account || account.clients.partner_id !== user.id) {
+            await logRejection(supabase, user.id, transactionId, {
+                reason: 'acme_account_not_owned',
+                acme_account_id: acmeAccountID,
+                domain_name: domainName
+            })
+            return NextResponse.json({ error: 'Access denied' }, { status: 403 })
+        }
+
+        // ============================================================
+        // AUTHORIZATION: Transaction must match caller, account and domain
+        // ============================================================
+        const { data: txData } = await supabase
+            .from('transactions')
+            .select('id, partner_id, acme_account_id, type, status, domains!transactions_domain_id_fkey(domain_name)')
+            .eq('id', transactionId)
+            .maybeSingle()
+
+        const tx = txData as unknown as {
+            id: string
+            partner_id: string
+            acme_account_id: string | null
+            type: string
+            status: string
+            domains: { domain_name: string } | null
+        } | null
+
+        const mismatch = !tx ? 'transaction_not_found'
+            : tx.partner_id !== user.id ? 'transaction_not_owned'
+                : tx.acme_account_id !== account.id ? 'transaction_account_mismatch'
+                    : tx.type !== 'add_domain' ? 'transaction_type_mismatch'
+                        : tx.domains?.domain_name !== domainName ? 'transaction_domain_mismatch'
+                            : null
+
+        if (mismatch) {
+            await logRejection(supabase, user.id, transactionId, {
+                reason: mismatch,
+                acme_account_id: acmeAccountID,
+                domain_name: domainName
+            })
+            return NextResponse.json({ error: 'Access denied' }, { status: 403 })
+        }
+
+        // ============================================================
+        // OV: ADDDOMAIN needs the client's valid organization anchor
+        // ============================================================
+        const anchor = await resolveOvAnchor(supabase, {
+            clientId: account.client_id,
+            certificateType: account.certificate_type
         })
+        if (!anchor.ok) {
+            return NextResponse.json({ error: anchor.error }, { status: 409 })
+        }
+        const ovAnchorOrderNumber = anchor.anchor?.ov_anchor_order_number
 
-        // Check if error
-        if (isSectigoError(response)) {
-            const errorMsg = (response as { errorMessage?: string }).errorMessage || 'Unknown error'
+        // Caller is verified - service role for the idempotency key and transaction update
+        const admin = createAdminClient()
+        const txStatus = tx!.status
 
-            // Update transaction to failed
-            await supabase
-                .from('transactions')
-                .update({ status: 'failed', description: `Failed: ${errorMsg}` })
-                .eq('id', transactionId)
+        // ============================================================
+        // IDEMPOTENCY: one Sectigo ADDDOMAIN per transaction
+        // ============================================================
+        const result = await runIdempotent(admin, {
+            key: transactionIdempotencyKey('add_domain', transactionId),
+            operation: 'add_domain',
+            partnerId: user.id,
+            transactionId,
+            requestBody: { acmeAccountID, domainName, transactionId }
+        }, async () => {
+            if (!EXECUTABLE_TX_STATUSES.includes(txStatus)) {
+                await logRejection(supabase, user.id, transactionId, {
+                    reason: 'transaction_not_pending',
+                    transaction_status: txStatus,
+                    acme_account_id: acmeAccountID,
+                    domain_name: domainName
+                })
+                return {
+                    status: 409,
+                    body: { error: `Transaction is not pending (status: ${txStatus})` }
+                }
+            }
 
-            return NextResponse.json(
-                { success: false, error: errorMsg },
-                { status: 400 }
+            // Call the account's CA
+            const ca = getCaProvider(account)
+            const response = await withSectigoCallContext({ transactionId }, () =>
+                ca.addDomain({
+                    accountId: acmeAccountID,
+                    domainName,
+                    ...(ovAnchorOrderNumber && { ovAnchorOrderNumber })
+                })
             )
-        }
 
-        // Success - extract order number and update transaction
-        const orderNumber = (response as any)?.orderNumber?.toString() || null
+            // Check if error
+            if (isCaError(response)) {
+                const errorMsg = response.errorMessage || 'Unknown error'
 
-        await supabase
-            .from('transactions')
-            .update({
-                status: 'success',
-                sectigo_order_number: orderNumber,
-                description: `Added domain: ${domainName}`
-            })
-            .eq('id', transactionId)
+                // Update transaction to failed
+                await admin
+                    .from('transactions')
+                    .update({ status: 'failed', description: `Failed: ${errorMsg}` })
+                    .eq('id', transactionId)
+
+                return { status: 400, body: { success: false, error: errorMsg } }
+            }
 
-        return NextResponse.json({
-            success: true,
-            data: response
+            // Success - extract order number and update transaction
+            const orderNumber = response.orderNumber
+
+            await admin
+                .from('transactions')
+                .update({
+                    status: 'success',
+                    sectigo_order_number: orderNumber,
+                    upstream_cost: orderNumber ? response.cost : null,
+                    description: `Added domain: ${domainName}`
+                })
+                .eq('id', transactionId)
+
+            return { status: 200, body: { success: true, data: response } }
+        })
+
+        return NextResponse.json(result.body, {
+            status: result.status,
+            headers: result.replayed ? { 'Idempotent-Replayed': 'true' } : undefined
         })
 
     } catch (error) {
@@ -73,3 +200,23 @@ export async function POST(request: NextRequest) {
         )
     }
 }
+
+/**
+ * Record a rejected add-domain request in the audit log
+ */
+async function logRejection(
+    supabase: SupabaseClient,
+    actorId: string,
+    transactionId: string,
+    details: Record<string, unknown>
+) {
+    console.warn('[Add Domain API] Rejected request:', { actorId, transactionId, ...details })
+
+    await supabase.from('audit_logs').insert({
+        actor_id: actorId,
+        action: 'add_domain_rejected',
+        target_type: 'transaction',
+        target_id: transactionId,
+        details
+    })
+}
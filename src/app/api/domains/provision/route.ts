@@ -0,0 +1,151 @@
+import { NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { createAdminClient } from '@/lib/supabase/admin'
+import {
+    createProvisioningJob,
+    getProvisioningJob,
+    type ProvisioningJobResult
+} from '@/lib/domain-provisioning'
+import { enqueueSectigoJob, runSectigoJob } from '@/lib/sectigo-jobs'
+
+/**
+ * POST /api/domains/provision
+ *
+ * Adds a list of domains to an ACME account in one server-side job:
+ * reserve → Sectigo ADDDOMAIN → commit or rollback, per domain.
+ *
+ * Body:
+ *   { accountId, domains: string[] }  - start a new job
+ *   { jobId }                          - resume an interrupted job
+ *
+ * Returns per-domain results. Progress is stored durably, so a job that
+ * was cut short (closed tab, timeout, crash) can be resumed with its jobId.
+ * The Sectigo calls run as an ADDDOMAIN Sectigo job; if it doesn't finish
+ * here the worker retries it and the response is 202 with `queued: true`.
+ */
+export async function POST(request: Request) {
+    try {
+        const supabase = await createClient()
+
+        // Verify authentication
+        const { data: { user }, error: authError } = await supabase.auth.getUser()
+        if (authError || !user) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+        }
+
+        const body = await request.json()
+        const { accountId, domains, jobId: resumeJobId } = body
+
+        let jobId: string
+        let accountIdForJob: string
+        let domainNames: string[]
+
+        // Jobs and items are written by the service role only (ownership is checked explicitly)
+        const admin = createAdminClient()
+
+        if (resumeJobId) {
+            const existing = await getProvisioningJob(supabase, resumeJobId)
+            if (!existing || existing.partnerId !== user.id) {
+                return NextResponse.json({ error: 'Job not found' }, { status: 404 })
+            }
+            jobId = existing.jobId
+            accountIdForJob = existing.acmeAccountId
+            domainNames = existing.results.map(r => r.domain)
+        } else {
+            if (!accountId || !Array.isArray(domains) || domains.length === 0) {
+                return NextResponse.json(
+                    { error: 'Missing required fields' },
+                    { status: 400 }
+                )
+            }
+
+            const created = await createProvisioningJob(admin, {
+                partnerId: user.id,
+                accountId,
+                domains: domains.filter((d: unknown): d is string => typeof d === 'string')
+            })
+
+            if (!created.success) {
+                return NextResponse.json(
+                    { success: false, error: created.error, ...created.details },
+                    { status: created.status }
+                )
+            }
+            jobId = created.jobId
+            accountIdForJob = accountId
+            domainNames = created.domains
+        }
+
+        const queued = await enqueueSectigoJob(admin, {
+            type: 'ADDDOMAIN',
+            partnerId: user.id,
+            accountId: accountIdForJob,
+            payload: { provisioningJobId: jobId, domains: domainNames },
+            dedupeKey: `ADDDOMAIN:${jobId}`,
+            createdBy: user.id
+        })
+
+        const sectigoJob = await runSectigoJob(admin, queued.id)
+
+        if (sectigoJob?.status === 'succeeded') {
+            return NextResponse.json({ success: true, ...(sectigoJob.result as ProvisioningJobResult) })
+        }
+
+        // Not finished: report progress so far, the worker completes the rest
+        const progress = await getProvisioningJob(supabase, jobId)
+        if (!progress) {
+            return NextResponse.json({ error: 'Job not found' }, { status: 404 })
+        }
+
+        if (sectigoJob?.status === 'dead') {
+            return NextResponse.json(
+                { success: false, error: sectigoJob.last_error || 'Provisioning failed', ...progress },
+                { status: 500 }
+            )
+        }
+
+        return NextResponse.json(
+            { success: true, queued: true, sectigoJobId: queued.id, ...progress, account: null },
+            { status: 202 }
+        )
+
+    } catch (error) {
+        console.error('[Provision Domains API] Error:', error)
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500 }
+        )
+    }
+}
+
+/**
+ * GET /api/domains/provision?jobId=...
+ * Fetch per-domain progress of a provisioning job
+ */
+export async function GET(request: Request) {
+    try {
+        const supabase = await createClient()
+
+        const { data: { user }, error: authError } = await supabase.auth.getUser()
+        if (authError || !user) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+        }
+
+        const { searchParams } = new URL(request.url)
+        const jobId = searchParams.get('jobId')
+
+        if (!jobId) {
+            return NextResponse.json({ error: 'Job ID is required' }, { status: 400 })
+        }
+
+        const job = await getProvisioningJob(supabase, jobId)
+        if (!job || job.partnerId !== user.id) {
+            return NextResponse.json({ error: 'Job not found' }, { status: 404 })
+        }
+
+        return NextResponse.json({ data: job })
+    } catch (error) {
+        console.error('[Provision Domains API] Unexpected error:', error)
+        return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+    }
+}
@@ -0,0 +1,89 @@
+import { NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { isAdminUser } from '@/lib/admin-access'
+import { quoteProvisioning } from '@/lib/domain-provisioning'
+
+/**
+ * POST /api/domains/quote
+ *
+ * Quotes domains before they are added: partner price from pricing_tiers,
+ * upstream cost from Sectigo ADDDOMAIN quoteOnly='Y'. Nothing is reserved
+ * or charged. `blocked` means /api/domains/provision will refuse the same
+ * domains because Sectigo's cost is outside the configured tolerance.
+ *
+ * Body: { accountId, domains: string[] }
+ *
+ * Upstream cost and margin are only returned to admins (KICA staff).
+ */
+export async function POST(request: Request) {
+    try {
+        const supabase = await createClient()
+
+        // Verify authentication
+        const { data: { user }, error: authError } = await supabase.auth.getUser()
+        if (authError || !user) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+        }
+
+        const body = await request.json()
+        const { accountId, domains } = body
+
+        if (!accountId || !Array.isArray(domains) || domains.length === 0) {
+            return NextResponse.json(
+                { error: 'Missing required fields' },
+                { status: 400 }
+            )
+        }
+
+        const result = await quoteProvisioning(supabase, {
+            partnerId: user.id,
+            accountId,
+            domains: domains.filter((d: unknown): d is string => typeof d === 'string')
+        })
+
+        if (!result.success) {
+            return NextResponse.json(
+                { success: false, error: result.error, ...result.details },
+                { status: result.status }
+            )
+        }
+
+        const { quote } = result
+        const showUpstream = await isAdminUser(supabase, user.id)
+
+        return NextResponse.json({
+            success: true,
+            blocked: quote.blocked,
+            tolerancePercent: quote.tolerancePercent,
+            totalPartnerPrice: quote.totalPartnerPrice,
+            ...(showUpstream && {
+                totalUpstreamCost: quote.totalUpstreamCost,
+                totalMargin: quote.totalMargin
+            }),
+            quotes: quote.quotes.map(q => ({
+                domain: q.domain,
+                type: q.type,
+                partnerPrice: q.partnerPrice,
+                withinTolerance: q.withinTolerance,
+                ...(showUpstream
+                    ? {
+                        upstreamCost: q.upstreamCost,
+                        expectedCost: q.expectedCost,
+                        margin: q.margin,
+                        deviationPercent: q.deviationPercent,
+                        error: q.error
+                    }
+                    : {
+                        error: q.withinTolerance ? null : 'Pricing for this domain could not be confirmed. Please contact KICA support.'
+                    })
+            }))
+        })
+
+    } catch (error) {
+        console.error('[Quote Domains API] Error:', error)
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500 }
+        )
+    }
+}
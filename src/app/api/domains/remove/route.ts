@@ -0,0 +1,88 @@
+import { NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { enqueueSectigoJob, runSectigoJob } from '@/lib/sectigo-jobs'
+
+/**
+ * POST /api/domains/remove
+ *
+ * Removes a domain from its ACME account:
+ * ownership check → Sectigo REMOVEDOMAIN → local soft delete → refund → audit log
+ *
+ * Idempotent: calling again for the same domain resumes a partially
+ * completed removal, or returns the stored result once it has completed.
+ * Runs as a REMOVEDOMAIN Sectigo job; if Sectigo is unavailable the job
+ * is retried by the worker and the response is 202 with `queued: true`.
+ */
+export async function POST(request: Request) {
+    try {
+        const supabase = await createClient()
+
+        // Verify authentication
+        const { data: { user }, error: authError } = await supabase.auth.getUser()
+        if (authError || !user) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+        }
+
+        const body = await request.json()
+        const { domainId } = body
+
+        if (!domainId) {
+            return NextResponse.json(
+                { error: 'Missing required fields' },
+                { status: 400 }
+            )
+        }
+
+        // Ownership check before anything is queued
+        const { data: domain } = await supabase
+            .from('domains')
+            .select('id, domain_name, acme_account_id, acme_accounts!inner(clients!inner(partner_id))')
+            .eq('id', domainId)
+            .single()
+
+        if (!domain) {
+            return NextResponse.json({ error: 'Domain not found' }, { status: 404 })
+        }
+
+        const owner = (domain.acme_accounts as unknown as { clients: { partner_id: string } }).clients.partner_id
+        if (owner !== user.id) {
+            return NextResponse.json({ error: 'Access denied' }, { status: 403 })
+        }
+
+        const admin = createAdminClient()
+        const queued = await enqueueSectigoJob(admin, {
+            type: 'REMOVEDOMAIN',
+            partnerId: user.id,
+            accountId: domain.acme_account_id,
+            payload: { domainId, domainName: domain.domain_name, actorLabel: user.email || user.id },
+            dedupeKey: `REMOVEDOMAIN:${domainId}`,
+            createdBy: user.id
+        })
+
+        const job = await runSectigoJob(admin, queued.id)
+
+        if (job?.status === 'succeeded') {
+            return NextResponse.json(job.result)
+        }
+
+        if (job?.status === 'dead') {
+            return NextResponse.json(
+                { success: false, error: job.last_error || 'Failed to remove domain' },
+                { status: 409 }
+            )
+        }
+
+        return NextResponse.json(
+            { success: true, queued: true, jobId: queued.id, error: job?.last_error || null },
+            { status: 202 }
+        )
+
+    } catch (error) {
+        console.error('[Remove Domain API] Error:', error)
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500 }
+        )
+    }
+}
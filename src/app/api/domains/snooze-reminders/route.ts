@@ -0,0 +1,86 @@
+import { NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { createAdminClient } from '@/lib/supabase/admin'
+
+// Longest snooze a partner can pick
+const MAX_SNOOZE_DAYS = 90
+
+/**
+ * POST /api/domains/snooze-reminders
+ *
+ * Snoozes certificate expiry reminders for one domain.
+ * Body: { domainId, days } – days 0 lifts an active snooze.
+ */
+export async function POST(request: Request) {
+    try {
+        const supabase = await createClient()
+
+        // Verify authentication
+        const { data: { user }, error: authError } = await supabase.auth.getUser()
+        if (authError || !user) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+        }
+
+        const body = await request.json()
+        const { domainId } = body
+        const days = Number(body.days)
+
+        if (!domainId || !Number.isInteger(days) || days < 0 || days > MAX_SNOOZE_DAYS) {
+            return NextResponse.json(
+                { error: `domainId and days (0-${MAX_SNOOZE_DAYS}) are required` },
+                { status: 400 }
+            )
+        }
+
+        // Ownership check
+        const { data: domain } = await supabase
+            .from('domains')
+            .select('id, domain_name, acme_accounts!inner(clients!inner(partner_id))')
+            .eq('id', domainId)
+            .single()
+
+        if (!domain) {
+            return NextResponse.json({ error: 'Domain not found' }, { status: 404 })
+        }
+
+        const owner = (domain.acme_accounts as unknown as { clients: { partner_id: string } }).clients.partner_id
+        if (owner !== user.id) {
+            return NextResponse.json({ error: 'Access denied' }, { status: 403 })
+        }
+
+        const snoozedUntil = days > 0
+            ? new Date(Date.now() + days * 24 * 60 * 60 * 1000).toISOString()
+            : null
+
+        const admin = createAdminClient()
+        const { error: updateError } = await admin
+            .from('domains')
+            .update({ expiry_reminders_snoozed_until: snoozedUntil })
+            .eq('id', domainId)
+
+        if (updateError) {
+            console.error('Failed to snooze reminders:', updateError)
+            return NextResponse.json({ error: 'Failed to snooze reminders' }, { status: 500 })
+        }
+
+        await supabase.from('audit_logs').insert({
+            actor_id: user.id,
+            action: snoozedUntil ? 'snooze_expiry_reminders' : 'unsnooze_expiry_reminders',
+            target_type: 'domain',
+            target_id: domainId,
+            details: {
+                domain_name: domain.domain_name,
+                snoozed_until: snoozedUntil
+            }
+        })
+
+        return NextResponse.json({ success: true, snoozedUntil })
+
+    } catch (error) {
+        console.error('Snooze reminders error:', error)
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500 }
+        )
+    }
+}
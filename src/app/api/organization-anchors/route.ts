@@ -0,0 +1,311 @@
+import { NextResponse } from 'next/server'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { createClient } from '@/lib/supabase/server'
+import { createAdminClient } from '@/lib/supabase/admin'
+import type { OrganizationAnchor } from '@/lib/types'
+
+// Sectigo order numbers are numeric
+const ORDER_NUMBER_PATTERN = /^\d{1,20}$/
+
+// Only anchors that never validated can be edited or withdrawn
+const EDITABLE_STATUSES = ['pending', 'rejected']
+
+type OwnedAnchor = OrganizationAnchor & { clients: { partner_id: string } }
+
+async function loadOwnedAnchor(
+    supabase: SupabaseClient,
+    anchorId: string,
+    userId: string
+): Promise<{ anchor: OwnedAnchor } | { error: NextResponse }> {
+    const { data } = await supabase
+        .from('organization_anchors')
+        .select('*, clients!inner(partner_id)')
+        .eq('id', anchorId)
+        .maybeSingle()
+
+    const anchor = data as OwnedAnchor | null
+    if (!anchor) {
+        return { error: NextResponse.json({ error: 'Anchor not found' }, { status: 404 }) }
+    }
+    if (anchor.clients.partner_id !== userId) {
+        return { error: NextResponse.json({ error: 'Access denied' }, { status: 403 }) }
+    }
+    return { anchor }
+}
+
+/**
+ * GET /api/organization-anchors?clientId=
+ * OV anchors registered for a client, newest first
+ */
+export async function GET(request: Request) {
+    try {
+        const supabase = await createClient()
+
+        const { data: { user }, error: authError } = await supabase.auth.getUser()
+        if (authError || !user) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+        }
+
+        const { searchParams } = new URL(request.url)
+        const clientId = searchParams.get('clientId')
+        if (!clientId) {
+            return NextResponse.json({ error: 'clientId is required' }, { status: 400 })
+        }
+
+        const { data: client } = await supabase
+            .from('clients')
+            .select('id')
+            .eq('id', clientId)
+            .eq('partner_id', user.id)
+            .maybeSingle()
+
+        if (!client) {
+            return NextResponse.json({ error: 'Client not found' }, { status: 404 })
+        }
+
+        const { data, error } = await supabase
+            .from('organization_anchors')
+            .select('*')
+            .eq('client_id', clientId)
+            .order('created_at', { ascending: false })
+
+        if (error) {
+            console.error('[OV Anchors GET]', error)
+            return NextResponse.json({ error: 'Failed to fetch anchors' }, { status: 500 })
+        }
+
+        return NextResponse.json({ data })
+    } catch (error) {
+        console.error('[OV Anchors GET] Unexpected error:', error)
+        return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+    }
+}
+
+/**
+ * POST /api/organization-anchors
+ * Register the OV pre-validation order of an organization client
+ *
+ * Body: { clientId, orderNumber, notes? }
+ */
+export async function POST(request: Request) {
+    try {
+        const supabase = await createClient()
+
+        const { data: { user }, error: authError } = await supabase.auth.getUser()
+        if (authError || !user) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+        }
+
+        const body = await request.json()
+        const { clientId, notes } = body
+        const orderNumber = typeof body.orderNumber === 'string' ? body.orderNumber.trim() : ''
+
+        if (!clientId || !ORDER_NUMBER_PATTERN.test(orderNumber)) {
+            return NextResponse.json(
+                { error: 'clientId and a numeric Sectigo order number are required' },
+                { status: 400 }
+            )
+        }
+
+        const { data: client } = await supabase
+            .from('clients')
+            .select('id, company_name, client_type')
+            .eq('id', clientId)
+            .eq('partner_id', user.id)
+            .maybeSingle()
+
+        if (!client) {
+            return NextResponse.json({ error: 'Client not found' }, { status: 404 })
+        }
+
+        if (client.client_type === 'personal' || !client.company_name) {
+            return NextResponse.json(
+                { error: 'OV pre-validation is only available for organization clients' },
+                { status: 400 }
+            )
+        }
+
+        const { data: existing } = await supabase
+            .from('organization_anchors')
+            .select('id')
+            .eq('client_id', clientId)
+            .eq('ov_anchor_order_number', orderNumber)
+            .maybeSingle()
+
+        if (existing) {
+            return NextResponse.json({ error: 'This order number is already registered' }, { status: 409 })
+        }
+
+        const { data, error } = await createAdminClient()
+            .from('organization_anchors')
+            .insert({
+                client_id: clientId,
+                ov_anchor_order_number: orderNumber,
+                status: 'pending',
+                notes: notes?.trim() || null,
+                created_by: user.id
+            })
+            .select()
+            .single()
+
+        if (error) {
+            console.error('[OV Anchors POST]', error)
+            return NextResponse.json({ error: 'Failed to register anchor' }, { status: 500 })
+        }
+
+        await supabase.from('audit_logs').insert({
+            actor_id: user.id,
+            action: 'register_ov_anchor',
+            target_type: 'organization_anchor',
+            target_id: data.id,
+            details: { client_id: clientId, ov_anchor_order_number: orderNumber }
+        })
+
+        return NextResponse.json({ data })
+    } catch (error) {
+        console.error('[OV Anchors POST] Unexpected error:', error)
+        return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+    }
+}
+
+/**
+ * PATCH /api/organization-anchors
+ * Update notes, or correct the order number of an anchor that never validated
+ *
+ * Body: { anchorId, orderNumber?, notes? }
+ */
+export async function PATCH(request: Request) {
+    try {
+        const supabase = await createClient()
+
+        const { data: { user }, error: authError } = await supabase.auth.getUser()
+        if (authError || !user) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+        }
+
+        const body = await request.json()
+        const { anchorId, notes } = body
+        const orderNumber = typeof body.orderNumber === 'string' ? body.orderNumber.trim() : undefined
+
+        if (!anchorId || (orderNumber !== undefined && !ORDER_NUMBER_PATTERN.test(orderNumber))) {
+            return NextResponse.json(
+                { error: 'anchorId is required and the order number must be numeric' },
+                { status: 400 }
+            )
+        }
+
+        const access = await loadOwnedAnchor(supabase, anchorId, user.id)
+        if ('error' in access) return access.error
+        const { anchor } = access
+
+        const changes: Record<string, unknown> = { updated_at: new Date().toISOString() }
+        if (notes !== undefined) {
+            changes.notes = typeof notes === 'string' && notes.trim() ? notes.trim() : null
+        }
+        if (orderNumber !== undefined && orderNumber !== anchor.ov_anchor_order_number) {
+            if (!EDITABLE_STATUSES.includes(anchor.status)) {
+                return NextResponse.json(
+                    { error: 'The order number of a validated anchor cannot be changed' },
+                    { status: 409 }
+                )
+            }
+            // A corrected order goes back to review
+            changes.ov_anchor_order_number = orderNumber
+            changes.status = 'pending'
+            changes.status_reason = null
+        }
+
+        const { data, error } = await createAdminClient()
+            .from('organization_anchors')
+            .update(changes)
+            .eq('id', anchorId)
+            .select()
+            .single()
+
+        if (error) {
+            console.error('[OV Anchors PATCH]', error)
+            return NextResponse.json(
+                { error: error.code === '23505' ? 'This order number is already registered' : 'Failed to update anchor' },
+                { status: error.code === '23505' ? 409 : 500 }
+            )
+        }
+
+        await supabase.from('audit_logs').insert({
+            actor_id: user.id,
+            action: 'update_ov_anchor',
+            target_type: 'organization_anchor',
+            target_id: anchorId,
+            details: {
+                client_id: anchor.client_id,
+                ov_anchor_order_number: data.ov_anchor_order_number,
+                ...(changes.ov_anchor_order_number !== undefined && {
+                    previous_order_number: anchor.ov_anchor_order_number
+                })
+            }
+        })
+
+        return NextResponse.json({ data })
+    } catch (error) {
+        console.error('[OV Anchors PATCH] Unexpected error:', error)
+        return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+    }
+}
+
+/**
+ * DELETE /api/organization-anchors?id=
+ * Withdraw an anchor that never validated
+ */
+export async function DELETE(request: Request) {
+    try {
+        const supabase = await createClient()
+
+        const { data: { user }, error: authError } = await supabase.auth.getUser()
+        if (authError || !user) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+        }
+
+        const { searchParams } = new URL(request.url)
+        const id = searchParams.get('id')
+        if (!id) {
+            return NextResponse.json({ error: 'Anchor ID is required' }, { status: 400 })
+        }
+
+        const access = await loadOwnedAnchor(supabase, id, user.id)
+        if ('error' in access) return access.error
+        const { anchor } = access
+
+        if (!EDITABLE_STATUSES.includes(anchor.status)) {
+            return NextResponse.json(
+                { error: 'Validated anchors are kept for the subscriptions created with them' },
+                { status: 409 }
+            )
+        }
+
+        const { error } = await createAdminClient()
+            .from('organization_anchors')
+            .delete()
+            .eq('id', id)
+
+        if (error) {
+            console.error('[OV Anchors DELETE]', error)
+            return NextResponse.json({ error: 'Failed to withdraw anchor' }, { status: 500 })
+        }
+
+        await supabase.from('audit_logs').insert({
+            actor_id: user.id,
+            action: 'withdraw_ov_anchor',
+            target_type: 'organization_anchor',
+            target_id: id,
+            details: {
+                client_id: anchor.client_id,
+                ov_anchor_order_number: anchor.ov_anchor_order_number,
+                previous_status: anchor.status
+            }
+        })
+
+        return NextResponse.json({ success: true })
+    } catch (error) {
+        console.error('[OV Anchors DELETE] Unexpected error:', error)
+        return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+    }
+}
@@ -0,0 +1,60 @@
+import { NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { requeueSectigoJob, runSectigoJob } from '@/lib/sectigo-jobs'
+
+/**
+ * POST /api/sectigo-jobs/retry
+ * Put a dead-lettered Sectigo job back in the queue and run it now
+ *
+ * Body: { jobId }
+ */
+export async function POST(request: Request) {
+    try {
+        const supabase = await createClient()
+
+        const { data: { user }, error: authError } = await supabase.auth.getUser()
+        if (authError || !user) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+        }
+
+        const body = await request.json()
+        const { jobId } = body
+
+        if (!jobId) {
+            return NextResponse.json({ error: 'Job ID is required' }, { status: 400 })
+        }
+
+        // RLS limits this to the partner's own jobs
+        const { data: job } = await supabase
+            .from('sectigo_jobs')
+            .select('id, partner_id, status')
+            .eq('id', jobId)
+            .single()
+
+        if (!job || job.partner_id !== user.id) {
+            return NextResponse.json({ error: 'Job not found' }, { status: 404 })
+        }
+
+        const admin = createAdminClient()
+        const requeued = await requeueSectigoJob(admin, jobId)
+        if (!requeued) {
+            return NextResponse.json({ error: 'Only failed operations can be retried' }, { status: 409 })
+        }
+
+        await supabase.from('audit_logs').insert({
+            actor_id: user.id,
+            action: 'sectigo_job_retried',
+            target_type: 'sectigo_job',
+            target_id: jobId,
+            details: { job_type: requeued.job_type, last_error: requeued.last_error }
+        })
+
+        const result = await runSectigoJob(admin, jobId)
+
+        return NextResponse.json({ success: true, data: result })
+    } catch (error) {
+        console.error('[Sectigo Jobs Retry] Error:', error)
+        return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+    }
+}
@@ -0,0 +1,59 @@
+import { NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+
+const JOB_STATUSES = ['pending', 'running', 'succeeded', 'dead']
+
+/**
+ * GET /api/sectigo-jobs?status=pending
+ * The partner's Sectigo operations, newest first
+ */
+export async function GET(request: Request) {
+    try {
+        const supabase = await createClient()
+
+        const { data: { user }, error: authError } = await supabase.auth.getUser()
+        if (authError || !user) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+        }
+
+        const { searchParams } = new URL(request.url)
+        const status = searchParams.get('status')
+
+        let query = supabase
+            .from('sectigo_jobs')
+            .select(`
+                id,
+                job_type,
+                payload,
+                status,
+                attempts,
+                max_attempts,
+                run_after,
+                last_error,
+                created_at,
+                completed_at,
+                acme_accounts (
+                    account_name
+                )
+            `)
+            .eq('partner_id', user.id)
+            .order('created_at', { ascending: false })
+            .limit(200)
+
+        if (status && JOB_STATUSES.includes(status)) {
+            query = query.eq('status', status)
+        }
+
+        const { data, error } = await query
+
+        if (error) {
+            console.error('[Sectigo Jobs API] Query error:', error)
+            return NextResponse.json({ error: 'Failed to load operations' }, { status: 500 })
+        }
+
+        return NextResponse.json({ data: data || [] })
+    } catch (error) {
+        console.error('[Sectigo Jobs API] Unexpected error:', error)
+        return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+    }
+}
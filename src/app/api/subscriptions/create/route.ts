@@ -1,16 +1,31 @@
 import { NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
+import { createAdminClient } from '@/lib/supabase/admin'
 import { getSectigoClient } from '@/lib/sectigo'
-import { isSectigoError } from '@/lib/sectigo-types'
+import { DEFAULT_CA_PROVIDER, getCaProvider, isCaError, isCaProviderEnabled, isCaProviderName } from '@/lib/ca'
 import { sendSubscriptionCreatedNotification } from '@/lib/email'
+import { checkServerSelection, getServerCatalog } from '@/lib/acme-servers'
+import { isSecretBoxConfigured } from '@/lib/secret-box'
+import { createEabRevealLink, sealEabHmacKey } from '@/lib/eab-keys'
+import { resolveOvAnchor } from '@/lib/organization-anchors'
 
 /**
  * POST /api/subscriptions/create
  * 
  * Creates a new ACME subscription by:
- * 1. Calling Sectigo PREREGISTER API to get EAB credentials
- * 2. Storing the account in our database
- * 3. Sending confirmation email to partner
+ * 1. Registering the account with its CA (Sectigo PREREGISTER) to get EAB credentials
+ * 2. Storing the account in our database (EAB HMAC key envelope-encrypted)
+ * 3. Sending confirmation email to partner with a one-time link to reveal
+ *    the HMAC key
+ * 
+ * The CA is the partner's ca_provider (default 'sectigo', set by KICA
+ * staff); it is stored on the account and used for every later call. serverUrl must be a catalog
+ * server for Sectigo and is ignored for other CAs, which hand out their
+ * own directory.
+ * 
+ * OV subscriptions need a valid organization anchor for the client
+ * (see organization-anchors.ts); its order number is sent to PREREGISTER
+ * as ovAnchorOrderNumber.
  * 
  * Note: Subscription period STARTS when first domain is added (not now)
  */
@@ -27,28 +42,70 @@ export async function POST(request: Request) {
         const body = await request.json()
         const { clientId, accountName, certificateType, subscriptionYears, serverUrl } = body
 
+        // Get partner info: CA routing and email notification
+        // Note: Email is from auth.users (user.email), partners table only has company_name
+        const { data: partner, error: partnerError } = await supabase
+            .from('partners')
+            .select('company_name, sectigo_client, ca_provider')
+            .eq('id', user.id)
+            .single()
+
+        console.log('[Email Debug] Partner query:', {
+            userId: user.id,
+            userEmail: user.email,
+            partner,
+            error: partnerError?.message
+        })
+
+        const caProvider: string = partner?.ca_provider || DEFAULT_CA_PROVIDER
+
+        if (!isCaProviderName(caProvider) || !isCaProviderEnabled(caProvider)) {
+            return NextResponse.json(
+                { error: `CA provider not available: ${caProvider}` },
+                { status: 400 }
+            )
+        }
+
         // Validate required fields
-        if (!clientId || !accountName || !certificateType || !subscriptionYears || !serverUrl) {
+        if (!clientId || !accountName || !certificateType || !subscriptionYears ||
+            (caProvider === 'sectigo' && !serverUrl)) {
             return NextResponse.json(
                 { error: 'Missing required fields' },
                 { status: 400 }
             )
         }
 
-        // Verify client belongs to this partner and get organization anchors
+        if (certificateType !== 'DV' && certificateType !== 'OV') {
+            return NextResponse.json(
+                { error: 'Invalid certificate type' },
+                { status: 400 }
+            )
+        }
+
+        // The EAB HMAC key is only ever stored encrypted
+        if (!isSecretBoxConfigured()) {
+            return NextResponse.json(
+                { error: 'SECRET_BOX_KEY must be set before subscriptions can be created' },
+                { status: 503 }
+            )
+        }
+
+        // serverUrl must be an enabled catalog server for this certificate type
+        if (caProvider === 'sectigo') {
+            const catalog = await getServerCatalog(createAdminClient())
+            const serverCheck = checkServerSelection(catalog, serverUrl, certificateType)
+            if (!serverCheck.ok) {
+                return NextResponse.json(
+                    { error: serverCheck.error },
+                    { status: 400 }
+                )
+            }
+        }
+
+        // Verify client belongs to this partner
         const { data: client, error: clientError } = await supabase
             .from('clients')
-            .select(`
-                id, 
-                partner_id, 
-                name,
-                organization_anchors(
-                    id,
-                    ov_anchor_order_number,
-                    is_active,
-                    expires_at
-                )
-            `)
+            .select('id, partner_id, name')
             .eq('id', clientId)
             .single()
 
@@ -66,64 +123,47 @@ export async function POST(request: Request) {
             )
         }
 
-        // Get active organization anchor for OV certificates
-        const activeAnchor = (client.organization_anchors as any[])?.find((a: any) => a.is_active)
-        const ovAnchorNumber = certificateType === 'OV' && activeAnchor
-            ? activeAnchor.ov_anchor_order_number
-            : undefined
-
-        // Get partner info for email notification
-        // Note: Email is from auth.users (user.email), partners table only has company_name
-        const { data: partner, error: partnerError } = await supabase
-            .from('partners')
-            .select('company_name')
-            .eq('id', user.id)
-            .single()
+        // OV subscriptions are registered against the client's valid organization anchor
+        const anchorResult = await resolveOvAnchor(supabase, { clientId, certificateType })
+        if (!anchorResult.ok) {
+            return NextResponse.json(
+                { error: anchorResult.error },
+                { status: 400 }
+            )
+        }
 
-        console.log('[Email Debug] Partner query:', {
-            userId: user.id,
-            userEmail: user.email,
-            partner,
-            error: partnerError?.message
-        })
+        const activeAnchor = anchorResult.anchor
+        const ovAnchorOrderNumber = activeAnchor?.ov_anchor_order_number
 
         console.log('[OV Debug] Organization anchor:', {
             certificateType,
             activeAnchor,
-            ovAnchorNumber
+            ovAnchorOrderNumber
         })
 
-        // Call Sectigo PREREGISTER API
-        const sectigoClient = getSectigoClient()
-        const preregisterParams: any = {
-            serverUrl,
-            years: subscriptionYears as 1 | 2 | 3
-        }
-
-        // Add ovAnchorNumber for OV certificates
-        if (ovAnchorNumber) {
-            preregisterParams.ovAnchorNumber = ovAnchorNumber
-        }
-
-        const preregisterResponse = await sectigoClient.preregister(preregisterParams)
+        // Register with the chosen CA (Sectigo: on the partner's Sectigo client)
+        const sectigoClientName = caProvider === 'sectigo'
+            ? getSectigoClient(partner?.sectigo_client).name
+            : null
+        const ca = getCaProvider({ ca_provider: caProvider, sectigo_client: sectigoClientName })
+
+        const registerResponse = await ca.registerAccount({
+            serverUrl: serverUrl || '',
+            years: subscriptionYears as 1 | 2 | 3,
+            // Add ovAnchorOrderNumber for OV certificates
+            ...(ovAnchorOrderNumber && { ovAnchorOrderNumber })
+        })
 
-        // Check for Sectigo API error
-        if (isSectigoError(preregisterResponse)) {
-            console.error('[Sectigo Error]', preregisterResponse)
+        // Check for CA API error
+        if (isCaError(registerResponse)) {
+            console.error('[CA Error]', caProvider, registerResponse)
             return NextResponse.json(
-                { error: `Sectigo API Error: ${preregisterResponse.errorMessage}` },
+                { error: `CA API Error: ${registerResponse.errorMessage}` },
                 { status: 500 }
             )
         }
 
-        // Extract account info from response
-        const accountInfo = preregisterResponse.Accounts[0]
-        if (!accountInfo) {
-            return NextResponse.json(
-                { error: 'No account returned from Sectigo' },
-                { status: 500 }
-            )
-        }
+        const accountInfo = registerResponse.account
 
         // Insert into database
         const { data: newAccount, error: insertError } = await supabase
@@ -132,12 +172,16 @@ export async function POST(request: Request) {
                 client_id: clientId,
                 account_name: accountName,
                 certificate_type: certificateType,
+                ov_anchor_id: activeAnchor?.id || null,
                 subscription_years: subscriptionYears,
-                server_url: serverUrl,
+                server_url: accountInfo.serverUrl,
                 status: 'pending_start',
-                acme_account_id: accountInfo.acmeAccountID,
-                eab_key_id: accountInfo.eabMACIDb64url,
-                eab_hmac_key: accountInfo.eabMACKeyb64url,
+                acme_account_id: accountInfo.accountId,
+                eab_key_id: accountInfo.eabKeyId,
+                eab_hmac_key_encrypted: sealEabHmacKey(accountInfo.eabHmacKey),
+                ca_provider: caProvider,
+                // The account only exists in this reseller account, so pin it
+                sectigo_client: sectigoClientName,
                 // start_date and end_date remain NULL until first domain is added
             })
             .select()
@@ -160,22 +204,29 @@ export async function POST(request: Request) {
             details: {
                 client_id: clientId,
                 certificate_type: certificateType,
+                ov_anchor_id: activeAnchor?.id || null,
                 subscription_years: subscriptionYears,
-                acme_account_id: accountInfo.acmeAccountID
+                ca_provider: caProvider,
+                acme_account_id: accountInfo.accountId
             }
         })
 
         // Send confirmation email (non-blocking)
         if (user.email) {
-            sendSubscriptionCreatedNotification({
-                to: user.email,
+            createEabRevealLink(createAdminClient(), {
+                accountId: newAccount.id,
+                partnerId: user.id,
+                portalUrl: process.env.NEXT_PUBLIC_APP_URL || ''
+            }).then(revealUrl => sendSubscriptionCreatedNotification({
+                to: user.email!,
                 partnerName: partner?.company_name || 'Partner',
                 subscriptionName: accountName,
                 certificateType: certificateType,
                 subscriptionYears: subscriptionYears,
-                eabKeyId: accountInfo.eabMACIDb64url,
-                serverUrl: serverUrl
-            }).catch(err => {
+                eabKeyId: accountInfo.eabKeyId,
+                serverUrl: accountInfo.serverUrl,
+                revealUrl
+            })).catch(err => {
                 console.error('[Email Error] Failed to send subscription notification:', err)
             })
         }
@@ -183,7 +234,7 @@ export async function POST(request: Request) {
         return NextResponse.json({
             success: true,
             subscriptionId: newAccount.id,
-            acmeAccountId: accountInfo.acmeAccountID
+            acmeAccountId: accountInfo.accountId
         })
 
     } catch (error) {
@@ -0,0 +1,79 @@
+import { NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { revealEabHmacKey } from '@/lib/eab-keys'
+import { SecretBoxError } from '@/lib/secret-box'
+
+/**
+ * POST /api/subscriptions/eab-key
+ *
+ * Reveals the EAB HMAC key of a subscription owned by the partner.
+ * Body: { password, accountId } from the portal, or { password, token }
+ * from a one-time reveal link. The password is checked again on every
+ * reveal, and every reveal is audited.
+ */
+export async function POST(request: Request) {
+    try {
+        const supabase = await createClient()
+
+        // Verify authentication
+        const { data: { user }, error: authError } = await supabase.auth.getUser()
+        if (authError || !user) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+        }
+
+        const body = await request.json()
+        const { password, accountId, token } = body
+
+        if (!password || (!accountId && !token)) {
+            return NextResponse.json(
+                { error: 'password and accountId or token are required' },
+                { status: 400 }
+            )
+        }
+
+        // Re-authenticate before showing the secret
+        const { error: signInError } = await supabase.auth.signInWithPassword({
+            email: user.email || '',
+            password
+        })
+
+        if (signInError) {
+            return NextResponse.json(
+                { error: 'Password is incorrect' },
+                { status: 401 }
+            )
+        }
+
+        const result = await revealEabHmacKey(createAdminClient(), {
+            partnerId: user.id,
+            accountId: token ? undefined : accountId,
+            token
+        })
+
+        if (!result.ok) {
+            return NextResponse.json({ error: result.error }, { status: result.status })
+        }
+
+        return NextResponse.json({
+            success: true,
+            accountId: result.accountId,
+            eabKeyId: result.eabKeyId,
+            eabHmacKey: result.eabHmacKey
+        })
+
+    } catch (error) {
+        if (error instanceof SecretBoxError) {
+            console.error('[EAB Reveal] Decryption failed:', error.message)
+            return NextResponse.json(
+                { error: 'EAB key could not be decrypted' },
+                { status: 503 }
+            )
+        }
+        console.error('EAB key reveal error:', error)
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500 }
+        )
+    }
+}
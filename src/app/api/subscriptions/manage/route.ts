@@ -1,14 +1,24 @@
 import { NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
-import { getSectigoClient } from '@/lib/sectigo'
-import { isSectigoError } from '@/lib/sectigo-types'
-import { sendAccountSuspendedNotification } from '@/lib/email'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { enqueueSectigoJob, runSectigoJob } from '@/lib/sectigo-jobs'
+import { ACCOUNT_ACTION_STATUS, type AccountAction } from '@/lib/account-management'
+import { canTransition } from '@/lib/subscription-lifecycle'
+import type { SectigoJobType } from '@/lib/types'
+
+const ACTION_JOB_TYPES: Record<string, SectigoJobType> = {
+    suspend: 'SUSPENDACCOUNT',
+    unsuspend: 'UNSUSPENDACCOUNT',
+    deactivate: 'DEACTIVATEACCOUNT'
+}
 
 /**
  * POST /api/subscriptions/manage
  * 
  * Manage subscription status (suspend/unsuspend/deactivate)
- * Calls Sectigo API and updates local database
+ * Runs as a Sectigo job: calls Sectigo API and updates local database.
+ * If Sectigo doesn't respond, the job is retried by the worker and the
+ * response is 202 with `queued: true`.
  */
 export async function POST(request: Request) {
     try {
@@ -31,26 +41,22 @@ export async function POST(request: Request) {
             )
         }
 
-        if (!['suspend', 'unsuspend', 'deactivate'].includes(action)) {
+        if (!ACTION_JOB_TYPES[action]) {
             return NextResponse.json(
                 { error: 'Invalid action' },
                 { status: 400 }
             )
         }
 
-        // Verify account belongs to this user's client and get partner info for email
+        // Verify account belongs to this user's client
         const { data: account, error: accountError } = await supabase
             .from('acme_accounts')
             .select(`
                 id,
                 status,
-                account_name,
+                acme_account_id,
                 clients!inner (
-                    partner_id,
-                    partners!inner (
-                        email,
-                        company_name
-                    )
+                    partner_id
                 )
             `)
             .eq('id', accountId)
@@ -63,88 +69,60 @@ export async function POST(request: Request) {
             )
         }
 
-        const clientData = account.clients as unknown as {
-            partner_id: string
-            partners: { email: string; company_name: string }
-        }
-        if (clientData.partner_id !== user.id) {
+        const clientData = account.clients as unknown as { partner_id: string }
+        if (clientData.partner_id !== user.id || account.acme_account_id !== acmeAccountId) {
             return NextResponse.json(
                 { error: 'Access denied' },
                 { status: 403 }
             )
         }
 
-        // Call Sectigo API
-        const sectigoClient = getSectigoClient()
-        let response: Awaited<ReturnType<typeof sectigoClient.suspendAccount>> | undefined
-
-        switch (action) {
-            case 'suspend':
-                response = await sectigoClient.suspendAccount({ acmeAccountID: acmeAccountId })
-                break
-            case 'unsuspend':
-                response = await sectigoClient.unsuspendAccount({ acmeAccountID: acmeAccountId })
-                break
-            case 'deactivate':
-                response = await sectigoClient.deactivateAccount({ acmeAccountID: acmeAccountId })
-                break
-        }
-
-        if (!response || isSectigoError(response)) {
-            console.error('[Sectigo Error]', response)
+        if (!canTransition(account.status, ACCOUNT_ACTION_STATUS[action as AccountAction])) {
             return NextResponse.json(
-                { error: response ? `Sectigo API Error: ${response.errorMessage}` : 'Unknown error' },
-                { status: 500 }
+                { error: `Cannot ${action} a subscription that is ${account.status}` },
+                { status: 409 }
             )
         }
 
-        // Map action to status
-        const newStatus = action === 'suspend' ? 'suspended'
-            : action === 'unsuspend' ? 'active'
-                : 'terminated'
-
-        // Update local database
-        const { error: updateError } = await supabase
-            .from('acme_accounts')
-            .update({ status: newStatus })
-            .eq('id', accountId)
+        const admin = createAdminClient()
+        const queued = await enqueueSectigoJob(admin, {
+            type: ACTION_JOB_TYPES[action],
+            partnerId: user.id,
+            accountId,
+            payload: { accountId, acmeAccountId },
+            dedupeKey: `ACCOUNT:${accountId}`,
+            createdBy: user.id
+        })
 
-        if (updateError) {
-            console.error('[DB Update Error]', updateError)
+        if (queued.job_type !== ACTION_JOB_TYPES[action]) {
             return NextResponse.json(
-                { error: 'Failed to update status' },
-                { status: 500 }
+                { error: 'Another action for this subscription is still in progress' },
+                { status: 409 }
             )
         }
 
-        // Audit log
-        await supabase.from('audit_logs').insert({
-            actor_id: user.id,
-            action: `subscription_${action}`,
-            target_type: 'acme_account',
-            target_id: accountId,
-            details: {
-                acme_account_id: acmeAccountId,
-                new_status: newStatus
-            }
-        })
+        const job = await runSectigoJob(admin, queued.id)
 
-        // Send email notification for suspend action (non-blocking)
-        if (action === 'suspend') {
-            sendAccountSuspendedNotification({
-                to: clientData.partners.email,
-                partnerName: clientData.partners.company_name || 'Partner',
-                subscriptionName: account.account_name || 'Subscription',
-                reason: 'Suspended by account owner'
-            }).catch(err => {
-                console.error('[Email Error] Failed to send suspend notification:', err)
+        if (job?.status === 'succeeded') {
+            const { newStatus } = job.result as { newStatus: string }
+            return NextResponse.json({
+                success: true,
+                newStatus
             })
         }
 
-        return NextResponse.json({
-            success: true,
-            newStatus
-        })
+        if (job?.status === 'dead') {
+            console.error('[Sectigo Error]', job.last_error)
+            return NextResponse.json(
+                { error: `Sectigo API Error: ${job.last_error || 'Unknown error'}` },
+                { status: 500 }
+            )
+        }
+
+        return NextResponse.json(
+            { success: true, queued: true, jobId: queued.id },
+            { status: 202 }
+        )
 
     } catch (error) {
         console.error('Account management error:', error)
@@ -0,0 +1,125 @@
+import { NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { runIdempotent, transactionIdempotencyKey } from '@/lib/idempotency'
+import { executeRenewal, isRenewalYears, quoteRenewal, reserveRenewal } from '@/lib/subscription-renewal'
+
+/**
+ * POST /api/subscriptions/renew
+ *
+ * Renew (extend) an ACME account subscription via Sectigo EXTENDDOMAINS
+ *
+ * Body:
+ *   { accountId, years }                 - quote only (no charge)
+ *   { accountId, years, confirm: true }  - execute renewal
+ *
+ * Quote returns our tier price (per paid domain × years) and the new end date.
+ * Execute reserves an `extend` transaction, pushes end_date forward and
+ * writes an audit log entry. Execution is idempotent per reserved
+ * transaction: a confirm repeated while the renewal is pending reuses it,
+ * so a double-submitted confirm is charged once.
+ */
+export async function POST(request: Request) {
+    try {
+        const supabase = await createClient()
+
+        // Verify authentication
+        const { data: { user }, error: authError } = await supabase.auth.getUser()
+        if (authError || !user) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+        }
+
+        const body = await request.json()
+        const { accountId, years, confirm } = body
+
+        if (!accountId || years === undefined) {
+            return NextResponse.json(
+                { error: 'Missing required fields' },
+                { status: 400 }
+            )
+        }
+
+        if (!isRenewalYears(years)) {
+            return NextResponse.json(
+                { error: 'Invalid renewal period (must be 1, 2 or 3 years)' },
+                { status: 400 }
+            )
+        }
+
+        if (confirm !== true) {
+            const result = await quoteRenewal(supabase, { accountId, partnerId: user.id, years })
+
+            if (!result.success) {
+                return NextResponse.json(
+                    { success: false, error: result.error, ...result.details },
+                    { status: result.status }
+                )
+            }
+
+            // Upstream (Sectigo) cost stays server-side; partners see our tier price
+            const { quote } = result
+            return NextResponse.json({
+                success: true,
+                quote: {
+                    accountId: quote.accountId,
+                    years: quote.years,
+                    domainCount: quote.domainCount,
+                    price: quote.price,
+                    currency: quote.currency,
+                    currentEndDate: quote.currentEndDate,
+                    newEndDate: quote.newEndDate
+                }
+            })
+        }
+
+        // Transactions are written with the service-role client (migration 041)
+        const admin = createAdminClient()
+
+        const reservation = await reserveRenewal(admin, { accountId, partnerId: user.id, years })
+        if (!reservation.success) {
+            return NextResponse.json(
+                { success: false, error: reservation.error, ...reservation.details },
+                { status: reservation.status }
+            )
+        }
+        const { transactionId } = reservation
+
+        // A repeated confirm for the pending renewal returns the first result
+        const result = await runIdempotent(admin, {
+            key: transactionIdempotencyKey('extend', transactionId),
+            operation: 'extend',
+            partnerId: user.id,
+            transactionId,
+            requestBody: { accountId, years, transactionId }
+        }, async () => {
+            const renewal = await executeRenewal(admin, {
+                accountId,
+                partnerId: user.id,
+                years,
+                transactionId,
+                actorId: user.id
+            })
+
+            if (!renewal.success) {
+                return {
+                    status: renewal.status,
+                    body: { success: false, error: renewal.error, ...renewal.details }
+                }
+            }
+
+            return { status: 200, body: renewal, transactionId: renewal.transactionId }
+        })
+
+        return NextResponse.json(result.body, {
+            status: result.status,
+            headers: result.replayed ? { 'Idempotent-Replayed': 'true' } : undefined
+        })
+
+    } catch (error) {
+        console.error('[Renew Subscription API] Error:', error)
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500 }
+        )
+    }
+}
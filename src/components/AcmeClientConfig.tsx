@@ -0,0 +1,108 @@
+'use client'
+
+import { useState } from 'react'
+import { Copy, Check, Download, Key } from 'lucide-react'
+import { ACME_CLIENTS, buildAcmeClientConfig, type AcmeClientId } from '@/lib/acme-client-config'
+
+interface AcmeClientConfigProps {
+    serverUrl: string
+    eabKeyId: string
+    eabHmacKey: string | null
+    certificateType: 'DV' | 'OV'
+    domains: string[]
+    onRevealKey: () => void
+}
+
+export default function AcmeClientConfig({
+    serverUrl,
+    eabKeyId,
+    eabHmacKey,
+    certificateType,
+    domains,
+    onRevealKey
+}: AcmeClientConfigProps) {
+    const [client, setClient] = useState<AcmeClientId>('certbot')
+    const [copied, setCopied] = useState(false)
+
+    const config = buildAcmeClientConfig(client, {
+        serverUrl,
+        eabKeyId,
+        eabHmacKey,
+        certificateType,
+        domains
+    })
+
+    const handleCopy = async () => {
+        await navigator.clipboard.writeText(config.content)
+        setCopied(true)
+        setTimeout(() => setCopied(false), 2000)
+    }
+
+    const handleDownload = () => {
+        const blob = new Blob([config.content], { type: 'text/plain;charset=utf-8;' })
+        const link = document.createElement('a')
+        link.href = URL.createObjectURL(blob)
+        link.download = config.filename
+        link.click()
+    }
+
+    return (
+        <div>
+            <div className="flex flex-wrap items-center justify-between gap-2">
+                <label className="block text-sm font-medium text-gray-700">
+                    Client Configuration ({certificateType})
+                </label>
+                <div className="flex items-center gap-2">
+                    <button
+                        onClick={handleCopy}
+                        className="inline-flex items-center gap-1 rounded-lg border border-gray-300 bg-white px-3 py-1.5 text-xs font-medium text-gray-700 hover:bg-gray-50"
+                    >
+                        {copied ? <Check className="h-4 w-4 text-green-600" /> : <Copy className="h-4 w-4" />}
+                        {copied ? 'Copied' : 'Copy'}
+                    </button>
+                    <button
+                        onClick={handleDownload}
+                        className="inline-flex items-center gap-1 rounded-lg border border-gray-300 bg-white px-3 py-1.5 text-xs font-medium text-gray-700 hover:bg-gray-50"
+                        title={`Download ${config.filename}`}
+                    >
+                        <Download className="h-4 w-4" />
+                        {config.filename}
+                    </button>
+                </div>
+            </div>
+
+            {/* Client tabs */}
+            <div className="mt-2 flex flex-wrap gap-1 border-b border-gray-200">
+                {ACME_CLIENTS.map(c => (
+                    <button
+                        key={c.id}
+                        onClick={() => setClient(c.id)}
+                        className={`-mb-px border-b-2 px-3 py-2 text-sm font-medium ${client === c.id
+                            ? 'border-[#2d56c2] text-[#2d56c2]'
+                            : 'border-transparent text-gray-500 hover:text-gray-700'
+                            }`}
+                    >
+                        {c.label}
+                    </button>
+                ))}
+            </div>
+
+            {!eabHmacKey && (
+                <div className="mt-3 flex items-center justify-between gap-3 rounded-lg bg-yellow-50 px-4 py-2 text-sm text-yellow-800">
+                    <span>The HMAC key is shown as a placeholder. Reveal it to get a ready-to-run configuration.</span>
+                    <button
+                        onClick={onRevealKey}
+                        className="inline-flex flex-shrink-0 items-center gap-1 font-medium text-yellow-900 hover:underline"
+                    >
+                        <Key className="h-4 w-4" />
+                        Reveal key
+                    </button>
+                </div>
+            )}
+
+            <pre className="mt-3 overflow-x-auto rounded-lg bg-gray-900 p-4 text-sm text-green-400">
+                {config.content}
+            </pre>
+        </div>
+    )
+}
@@ -0,0 +1,87 @@
+'use client'
+
+import { AlertTriangle, Award } from 'lucide-react'
+import { buildRenewalTimeline, type TimelineCertificate } from '@/lib/certificate-history'
+
+interface CertificateTimelineProps {
+    certificates: TimelineCertificate[]
+}
+
+// Status code mapping from Sectigo
+const STATUS_MAP: Record<number, { label: string; color: string }> = {
+    6: { label: 'Valid', color: 'bg-[#00d57b]/10 text-[#00d57b]' },
+    8: { label: 'Revoked', color: 'bg-[#e83131]/10 text-[#e83131]' },
+    9: { label: 'Pending', color: 'bg-[#f57c14]/10 text-[#f57c14]' },
+}
+
+function formatDate(value: string | null) {
+    return value
+        ? new Date(value).toLocaleDateString('id-ID', { day: 'numeric', month: 'short', year: 'numeric' })
+        : 'N/A'
+}
+
+/**
+ * Renewal history of one domain, newest first, with the periods
+ * no certificate covered the domain
+ */
+export default function CertificateTimeline({ certificates }: CertificateTimelineProps) {
+    const timeline = buildRenewalTimeline(certificates).reverse()
+
+    if (timeline.length === 0) {
+        return <p className="text-sm text-gray-500">No certificates issued for this domain yet.</p>
+    }
+
+    return (
+        <ol className="relative border-l border-gray-200 ml-2">
+            {timeline.map(entry => {
+                if (entry.kind === 'gap') {
+                    return (
+                        <li key={`gap-${entry.from}`} className="mb-4 ml-6">
+                            <span className="absolute -left-3 flex h-6 w-6 items-center justify-center rounded-full bg-[#e83131]/10 ring-4 ring-white">
+                                <AlertTriangle className="h-3 w-3 text-[#e83131]" />
+                            </span>
+                            <div className="rounded-lg border border-dashed border-[#e83131]/40 bg-[#e83131]/5 px-3 py-2">
+                                <p className="text-sm font-medium text-[#e83131]">
+                                    {entry.to ? 'Missed renewal' : 'Not renewed'}: {entry.days} day{entry.days !== 1 ? 's' : ''} without a certificate
+                                </p>
+                                <p className="text-xs text-gray-500">
+                                    {formatDate(entry.from)} – {entry.to ? formatDate(entry.to) : 'now'}
+                                </p>
+                            </div>
+                        </li>
+                    )
+                }
+
+                const cert = entry.certificate
+                const status = cert.status_code !== null && STATUS_MAP[cert.status_code]
+                    ? STATUS_MAP[cert.status_code]
+                    : { label: cert.status_desc || 'Unknown', color: 'bg-gray-100 text-gray-600' }
+
+                return (
+                    <li key={cert.id} className="mb-4 ml-6">
+                        <span className="absolute -left-3 flex h-6 w-6 items-center justify-center rounded-full bg-blue-50 ring-4 ring-white">
+                            <Award className="h-3 w-3 text-blue-500" />
+                        </span>
+                        <div className="flex flex-wrap items-center gap-2">
+                            <span className="text-sm font-medium text-gray-900">
+                                {formatDate(cert.valid_not_before)} – {formatDate(cert.valid_not_after)}
+                            </span>
+                            <span className={`inline-flex items-center rounded-full px-2 py-0.5 text-xs font-semibold ${status.color}`}>
+                                {status.label}
+                            </span>
+                            {cert.is_latest && (
+                                <span className="inline-flex items-center rounded-full bg-blue-100 px-2 py-0.5 text-xs font-medium text-blue-700">
+                                    Current
+                                </span>
+                            )}
+                        </div>
+                        <p className="mt-1 text-xs text-gray-500 font-mono">
+                            SN: {cert.serial_number || 'N/A'}
+                            {cert.order_number && ` · Order ${cert.order_number}`}
+                        </p>
+                    </li>
+                )
+            })}
+        </ol>
+    )
+}
@@ -0,0 +1,268 @@
+'use client'
+
+import { useState } from 'react'
+import { AlertTriangle, BadgeCheck, Loader2, Plus, Trash2 } from 'lucide-react'
+import {
+    ANCHOR_WARNING_DAYS,
+    anchorState,
+    daysUntilAnchorExpiry,
+    findValidAnchor,
+    type AnchorState
+} from '@/lib/organization-anchors'
+import type { OrganizationAnchor } from '@/lib/types'
+
+interface OrganizationAnchorsProps {
+    clientId: string
+    isOrganization: boolean
+    initialAnchors: OrganizationAnchor[]
+}
+
+const ANCHOR_STATE_STYLES: Record<AnchorState, { label: string; color: string }> = {
+    pending: { label: 'Pending Validation', color: 'bg-yellow-100 text-yellow-800' },
+    valid: { label: 'Validated', color: 'bg-green-100 text-green-800' },
+    expiring: { label: 'Expiring Soon', color: 'bg-orange-100 text-orange-800' },
+    expired: { label: 'Expired', color: 'bg-red-100 text-red-800' },
+    superseded: { label: 'Superseded', color: 'bg-gray-100 text-gray-600' },
+    rejected: { label: 'Rejected', color: 'bg-red-100 text-red-800' },
+    revoked: { label: 'Revoked', color: 'bg-red-100 text-red-800' },
+}
+
+function formatDate(value: string | null) {
+    return value
+        ? new Date(value).toLocaleDateString('id-ID', { day: 'numeric', month: 'short', year: 'numeric' })
+        : '-'
+}
+
+/**
+ * OV pre-validation of a client: the registered anchor orders, their
+ * validation status and a warning before the active one lapses
+ */
+export default function OrganizationAnchors({ clientId, isOrganization, initialAnchors }: OrganizationAnchorsProps) {
+    const [anchors, setAnchors] = useState(initialAnchors)
+    const [orderNumber, setOrderNumber] = useState('')
+    const [notes, setNotes] = useState('')
+    const [saving, setSaving] = useState(false)
+    const [withdrawingId, setWithdrawingId] = useState<string | null>(null)
+    const [error, setError] = useState<string | null>(null)
+
+    const activeAnchor = anchors.find(a => a.is_active) || null
+    const validAnchor = findValidAnchor(anchors)
+    const activeState = activeAnchor ? anchorState(activeAnchor) : null
+    const activeDays = activeAnchor ? daysUntilAnchorExpiry(activeAnchor) : null
+
+    const refresh = async () => {
+        const response = await fetch(`/api/organization-anchors?clientId=${clientId}`)
+        const result = await response.json()
+        if (response.ok) {
+            setAnchors(result.data || [])
+        }
+    }
+
+    const handleRegister = async (e: React.FormEvent) => {
+        e.preventDefault()
+        setSaving(true)
+        setError(null)
+
+        try {
+            const response = await fetch('/api/organization-anchors', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ clientId, orderNumber, notes })
+            })
+            const result = await response.json()
+
+            if (!response.ok) {
+                setError(result.error || 'Failed to register anchor')
+                return
+            }
+
+            setOrderNumber('')
+            setNotes('')
+            await refresh()
+        } finally {
+            setSaving(false)
+        }
+    }
+
+    const handleWithdraw = async (anchor: OrganizationAnchor) => {
+        if (!confirm(`Withdraw OV anchor order ${anchor.ov_anchor_order_number}?`)) return
+        setWithdrawingId(anchor.id)
+
+        try {
+            const response = await fetch(`/api/organization-anchors?id=${anchor.id}`, { method: 'DELETE' })
+            const result = await response.json()
+
+            if (!response.ok) {
+                alert(`Failed to withdraw anchor: ${result.error}`)
+                return
+            }
+
+            setAnchors(prev => prev.filter(a => a.id !== anchor.id))
+        } finally {
+            setWithdrawingId(null)
+        }
+    }
+
+    return (
+        <div className="rounded-lg bg-white shadow">
+            <div className="flex items-center justify-between border-b border-gray-200 px-6 py-4">
+                <div>
+                    <h3 className="text-lg font-medium text-gray-900">OV Pre-Validation</h3>
+                    <p className="text-sm text-gray-500">
+                        OV subscriptions are registered against the client&apos;s validated organization anchor
+                    </p>
+                </div>
+                {isOrganization && (
+                    validAnchor ? (
+                        <span className="inline-flex items-center rounded-full bg-green-100 px-2.5 py-1 text-xs font-semibold text-green-800">
+                            <BadgeCheck className="mr-1 h-3.5 w-3.5" />
+                            OV Available
+                        </span>
+                    ) : (
+                        <span className="inline-flex items-center rounded-full bg-yellow-100 px-2.5 py-1 text-xs font-semibold text-yellow-800">
+                            <AlertTriangle className="mr-1 h-3.5 w-3.5" />
+                            OV Unavailable
+                        </span>
+                    )
+                )}
+            </div>
+
+            {!isOrganization ? (
+                <p className="px-6 py-4 text-sm text-gray-500">
+                    OV pre-validation is only available for organization clients.
+                </p>
+            ) : (
+                <div className="space-y-4 px-6 py-4">
+                    {/* Lapse warnings for the active anchor */}
+                    {activeAnchor && activeState === 'expiring' && (
+                        <div className="flex items-start gap-2 rounded-lg bg-orange-50 p-3 text-sm text-orange-800">
+                            <AlertTriangle className="mt-0.5 h-4 w-4 flex-shrink-0" />
+                            <span>
+                                Organization validation (order {activeAnchor.ov_anchor_order_number}) expires in {activeDays} day{activeDays !== 1 ? 's' : ''} on {formatDate(activeAnchor.expires_at)}.
+                                Register a new validation order before then to keep creating OV subscriptions.
+                            </span>
+                        </div>
+                    )}
+                    {activeAnchor && activeState === 'expired' && (
+                        <div className="flex items-start gap-2 rounded-lg bg-red-50 p-3 text-sm text-red-700">
+                            <AlertTriangle className="mt-0.5 h-4 w-4 flex-shrink-0" />
+                            <span>
+                                Organization validation expired on {formatDate(activeAnchor.expires_at)}.
+                                New OV subscriptions are blocked until a new anchor is validated.
+                            </span>
+                        </div>
+                    )}
+
+                    {/* Register */}
+                    <form onSubmit={handleRegister} className="flex flex-wrap items-end gap-3">
+                        <div>
+                            <label htmlFor="ovAnchorOrder" className="block text-sm font-medium text-gray-700">
+                                Sectigo Order Number
+                            </label>
+                            <input
+                                id="ovAnchorOrder"
+                                type="text"
+                                inputMode="numeric"
+                                value={orderNumber}
+                                onChange={(e) => setOrderNumber(e.target.value)}
+                                placeholder="123456789"
+                                className="mt-1 block w-48 rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+                            />
+                        </div>
+                        <div className="flex-1">
+                            <label htmlFor="ovAnchorNotes" className="block text-sm font-medium text-gray-700">
+                                Notes
+                            </label>
+                            <input
+                                id="ovAnchorNotes"
+                                type="text"
+                                value={notes}
+                                onChange={(e) => setNotes(e.target.value)}
+                                placeholder="Optional"
+                                className="mt-1 block w-full rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+                            />
+                        </div>
+                        <button
+                            type="submit"
+                            disabled={saving || !orderNumber.trim()}
+                            className="inline-flex items-center rounded-lg bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700 disabled:opacity-50"
+                        >
+                            {saving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Plus className="mr-2 h-4 w-4" />}
+                            Register Anchor
+                        </button>
+                    </form>
+                    {error && (
+                        <div className="rounded-md bg-red-50 p-3 text-sm text-red-700">{error}</div>
+                    )}
+
+                    {/* Anchors */}
+                    {anchors.length === 0 ? (
+                        <p className="text-sm text-gray-500">
+                            No anchor registered yet. Register the order number of the client&apos;s Sectigo OV pre-validation;
+                            KICA confirms it once the organization is validated.
+                        </p>
+                    ) : (
+                        <table className="min-w-full divide-y divide-gray-200">
+                            <thead className="bg-gray-50">
+                                <tr>
+                                    <th className="px-4 py-2 text-left text-xs font-medium uppercase tracking-wider text-gray-500">Order</th>
+                                    <th className="px-4 py-2 text-left text-xs font-medium uppercase tracking-wider text-gray-500">Status</th>
+                                    <th className="px-4 py-2 text-left text-xs font-medium uppercase tracking-wider text-gray-500">Validated</th>
+                                    <th className="px-4 py-2 text-left text-xs font-medium uppercase tracking-wider text-gray-500">Expires</th>
+                                    <th className="px-4 py-2 text-left text-xs font-medium uppercase tracking-wider text-gray-500">Notes</th>
+                                    <th className="relative px-4 py-2"><span className="sr-only">Actions</span></th>
+                                </tr>
+                            </thead>
+                            <tbody className="divide-y divide-gray-200">
+                                {anchors.map(anchor => {
+                                    const state = ANCHOR_STATE_STYLES[anchorState(anchor)]
+                                    const days = daysUntilAnchorExpiry(anchor)
+
+                                    return (
+                                        <tr key={anchor.id}>
+                                            <td className="whitespace-nowrap px-4 py-3 font-mono text-sm text-gray-900">
+                                                {anchor.ov_anchor_order_number}
+                                            </td>
+                                            <td className="whitespace-nowrap px-4 py-3">
+                                                <span className={`inline-flex rounded-full px-2 py-0.5 text-xs font-semibold ${state.color}`}>
+                                                    {state.label}
+                                                </span>
+                                                {anchor.status_reason && (
+                                                    <p className="mt-1 text-xs text-gray-500">{anchor.status_reason}</p>
+                                                )}
+                                            </td>
+                                            <td className="whitespace-nowrap px-4 py-3 text-sm text-gray-600">
+                                                {formatDate(anchor.validated_at)}
+                                            </td>
+                                            <td className="whitespace-nowrap px-4 py-3 text-sm text-gray-600">
+                                                {formatDate(anchor.expires_at)}
+                                                {anchor.is_active && days !== null && days > 0 && days <= ANCHOR_WARNING_DAYS && (
+                                                    <span className="ml-2 inline-flex rounded-full bg-orange-100 px-2 py-0.5 text-xs font-medium text-orange-700">
+                                                        {days}d
+                                                    </span>
+                                                )}
+                                            </td>
+                                            <td className="px-4 py-3 text-sm text-gray-600">{anchor.notes || '-'}</td>
+                                            <td className="whitespace-nowrap px-4 py-3 text-right">
+                                                {(anchor.status === 'pending' || anchor.status === 'rejected') && (
+                                                    <button
+                                                        onClick={() => handleWithdraw(anchor)}
+                                                        disabled={withdrawingId === anchor.id}
+                                                        className="rounded-lg p-1.5 text-gray-400 hover:bg-red-50 hover:text-red-600 disabled:opacity-50"
+                                                        title="Withdraw"
+                                                    >
+                                                        <Trash2 className="h-4 w-4" />
+                                                    </button>
+                                                )}
+                                            </td>
+                                        </tr>
+                                    )
+                                })}
+                            </tbody>
+                        </table>
+                    )}
+                </div>
+            )}
+        </div>
+    )
+}
@@ -0,0 +1,270 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { RefreshCw, X, Calendar, AlertTriangle } from 'lucide-react'
+
+type RenewalYears = 1 | 2 | 3
+
+interface RenewalQuote {
+    years: RenewalYears
+    domainCount: number
+    price: number
+    currentEndDate: string | null
+    newEndDate: string
+}
+
+export interface RenewedAccount {
+    status: string
+    start_date: string | null
+    end_date: string
+}
+
+interface RenewSubscriptionModalProps {
+    isOpen: boolean
+    onClose: () => void
+    onRenewed: (account: RenewedAccount) => void
+    accountId: string
+    accountName: string
+}
+
+function formatDate(value: string | null): string {
+    if (!value) return '-'
+    return new Date(value).toLocaleDateString('id-ID', { day: 'numeric', month: 'short', year: 'numeric' })
+}
+
+export default function RenewSubscriptionModal({
+    isOpen,
+    onClose,
+    onRenewed,
+    accountId,
+    accountName
+}: RenewSubscriptionModalProps) {
+    const [years, setYears] = useState<RenewalYears>(1)
+    const [quote, setQuote] = useState<RenewalQuote | null>(null)
+    const [loadingQuote, setLoadingQuote] = useState(false)
+    const [isProcessing, setIsProcessing] = useState(false)
+    const [error, setError] = useState<string | null>(null)
+
+    // Reset state when modal closes
+    useEffect(() => {
+        if (!isOpen) {
+            setYears(1)
+            setQuote(null)
+            setError(null)
+            setIsProcessing(false)
+        }
+    }, [isOpen])
+
+    // Fetch quote (EXTENDDOMAINS quoteOnly) whenever the period changes
+    useEffect(() => {
+        if (!isOpen) return
+
+        let cancelled = false
+        const fetchQuote = async () => {
+            setLoadingQuote(true)
+            setError(null)
+            try {
+                const response = await fetch('/api/subscriptions/renew', {
+                    method: 'POST',
+                    headers: { 'Content-Type': 'application/json' },
+                    body: JSON.stringify({ accountId, years })
+                })
+                const result = await response.json()
+                if (cancelled) return
+
+                if (!response.ok) {
+                    setQuote(null)
+                    setError(result.error || 'Failed to get renewal quote')
+                } else {
+                    setQuote(result.quote)
+                }
+            } catch (err) {
+                if (!cancelled) {
+                    setQuote(null)
+                    setError(err instanceof Error ? err.message : 'Failed to get renewal quote')
+                }
+            } finally {
+                if (!cancelled) setLoadingQuote(false)
+            }
+        }
+
+        fetchQuote()
+        return () => { cancelled = true }
+    }, [isOpen, accountId, years])
+
+    // Handle escape key
+    useEffect(() => {
+        const handleEscape = (e: KeyboardEvent) => {
+            if (e.key === 'Escape' && isOpen && !isProcessing) {
+                onClose()
+            }
+        }
+        window.addEventListener('keydown', handleEscape)
+        return () => window.removeEventListener('keydown', handleEscape)
+    }, [isOpen, isProcessing, onClose])
+
+    const handleConfirm = async () => {
+        if (!quote) return
+        setIsProcessing(true)
+        setError(null)
+
+        try {
+            const response = await fetch('/api/subscriptions/renew', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ accountId, years, confirm: true })
+            })
+            const result = await response.json()
+
+            // 202: outcome at the CA unknown, settled in the background
+            if (!response.ok || result.success === false) {
+                if (response.status === 402) {
+                    setError(
+                        `Credit limit exceeded. Required: $${Number(result.required).toFixed(2)}, ` +
+                        `available: $${Number(result.available).toFixed(2)}`
+                    )
+                } else {
+                    setError(result.error || 'Renewal failed')
+                }
+                return
+            }
+
+            onRenewed(result.account)
+            onClose()
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Renewal failed')
+        } finally {
+            setIsProcessing(false)
+        }
+    }
+
+    if (!isOpen) return null
+
+    return (
+        <div className="fixed inset-0 z-50 overflow-y-auto">
+            {/* Backdrop */}
+            <div
+                className="fixed inset-0 bg-black bg-opacity-50 transition-opacity"
+                onClick={() => !isProcessing && onClose()}
+            />
+
+            {/* Modal */}
+            <div className="flex min-h-full items-center justify-center p-4">
+                <div className="relative w-full max-w-md transform rounded-xl bg-white shadow-2xl transition-all">
+                    {/* Header */}
+                    <div className="flex items-center gap-3 rounded-t-xl bg-blue-50 px-6 py-4">
+                        <div className="flex h-10 w-10 items-center justify-center rounded-full bg-blue-100">
+                            <RefreshCw className="h-6 w-6 text-blue-600" />
+                        </div>
+                        <div className="flex-1">
+                            <h3 className="text-lg font-semibold text-gray-900">
+                                Renew Subscription
+                            </h3>
+                            <p className="text-sm text-blue-700">{accountName}</p>
+                        </div>
+                        <button
+                            onClick={onClose}
+                            disabled={isProcessing}
+                            className="rounded-full p-1 text-gray-400 hover:bg-gray-100 hover:text-gray-600"
+                        >
+                            <X className="h-5 w-5" />
+                        </button>
+                    </div>
+
+                    {/* Content */}
+                    <div className="px-6 py-5">
+                        {/* Period selector */}
+                        <div className="mb-4">
+                            <p className="mb-2 text-sm font-medium text-gray-700">Renewal period:</p>
+                            <div className="grid grid-cols-3 gap-2">
+                                {([1, 2, 3] as RenewalYears[]).map(option => (
+                                    <button
+                                        key={option}
+                                        onClick={() => setYears(option)}
+                                        disabled={isProcessing}
+                                        className={`rounded-lg border px-3 py-2 text-sm font-medium transition-colors ${years === option
+                                            ? 'border-blue-500 bg-blue-50 text-blue-700'
+                                            : 'border-gray-300 bg-white text-gray-700 hover:bg-gray-50'
+                                            }`}
+                                    >
+                                        {option} year{option > 1 ? 's' : ''}
+                                    </button>
+                                ))}
+                            </div>
+                        </div>
+
+                        {/* Quote */}
+                        <div className="mb-4 rounded-lg bg-gray-50 p-4">
+                            {loadingQuote ? (
+                                <div className="flex items-center gap-2 text-sm text-gray-500">
+                                    <RefreshCw className="h-4 w-4 animate-spin" />
+                                    Getting quote...
+                                </div>
+                            ) : quote ? (
+                                <div className="space-y-2 text-sm">
+                                    <div className="flex justify-between text-gray-600">
+                                        <span>Paid domains</span>
+                                        <span>{quote.domainCount}</span>
+                                    </div>
+                                    <div className="flex items-center justify-between text-gray-600">
+                                        <span className="flex items-center gap-1">
+                                            <Calendar className="h-4 w-4" /> Current expiry
+                                        </span>
+                                        <span>{formatDate(quote.currentEndDate)}</span>
+                                    </div>
+                                    <div className="flex items-center justify-between text-gray-900">
+                                        <span className="flex items-center gap-1">
+                                            <Calendar className="h-4 w-4" /> New expiry
+                                        </span>
+                                        <span className="font-semibold">{formatDate(quote.newEndDate)}</span>
+                                    </div>
+                                    <div className="flex justify-between border-t border-gray-200 pt-2 text-base">
+                                        <span className="font-medium text-gray-700">Total</span>
+                                        <span className="font-semibold text-blue-900">${quote.price.toFixed(2)}</span>
+                                    </div>
+                                </div>
+                            ) : (
+                                <p className="text-sm text-gray-500">No quote available</p>
+                            )}
+                        </div>
+
+                        {error && (
+                            <div className="flex items-start gap-2 rounded-lg bg-red-50 p-3 text-sm text-red-700">
+                                <AlertTriangle className="mt-0.5 h-4 w-4 flex-shrink-0" />
+                                <span>{error}</span>
+                            </div>
+                        )}
+                    </div>
+
+                    {/* Footer */}
+                    <div className="flex items-center justify-end gap-3 rounded-b-xl border-t border-gray-100 bg-gray-50 px-6 py-4">
+                        <button
+                            onClick={onClose}
+                            disabled={isProcessing}
+                            className="rounded-lg border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-gray-300"
+                        >
+                            Cancel
+                        </button>
+                        <button
+                            onClick={handleConfirm}
+                            disabled={!quote || loadingQuote || isProcessing}
+                            className="rounded-lg bg-blue-600 px-4 py-2 text-sm font-medium text-white transition-all hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:cursor-not-allowed disabled:bg-blue-300"
+                        >
+                            {isProcessing ? (
+                                <span className="flex items-center gap-2">
+                                    <svg className="h-4 w-4 animate-spin" viewBox="0 0 24 24">
+                                        <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" fill="none" />
+                                        <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4z" />
+                                    </svg>
+                                    Processing...
+                                </span>
+                            ) : (
+                                quote ? `Renew for $${quote.price.toFixed(2)}` : 'Renew'
+                            )}
+                        </button>
+                    </div>
+                </div>
+            </div>
+        </div>
+    )
+}
@@ -0,0 +1,168 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Key, X, AlertTriangle } from 'lucide-react'
+
+export interface RevealedEabKey {
+    accountId: string
+    eabKeyId: string | null
+    eabHmacKey: string
+}
+
+interface RevealEabKeyModalProps {
+    isOpen: boolean
+    onClose: () => void
+    onRevealed: (revealed: RevealedEabKey) => void
+    // Reveal by subscription (portal) or by one-time link token
+    accountId?: string
+    token?: string
+}
+
+export default function RevealEabKeyModal({
+    isOpen,
+    onClose,
+    onRevealed,
+    accountId,
+    token
+}: RevealEabKeyModalProps) {
+    const [password, setPassword] = useState('')
+    const [isProcessing, setIsProcessing] = useState(false)
+    const [error, setError] = useState<string | null>(null)
+
+    // Reset state when modal closes
+    useEffect(() => {
+        if (!isOpen) {
+            setPassword('')
+            setError(null)
+            setIsProcessing(false)
+        }
+    }, [isOpen])
+
+    // Handle escape key
+    useEffect(() => {
+        const handleEscape = (e: KeyboardEvent) => {
+            if (e.key === 'Escape' && isOpen && !isProcessing) {
+                onClose()
+            }
+        }
+        window.addEventListener('keydown', handleEscape)
+        return () => window.removeEventListener('keydown', handleEscape)
+    }, [isOpen, isProcessing, onClose])
+
+    const handleReveal = async (e: React.FormEvent) => {
+        e.preventDefault()
+        if (!password) return
+        setIsProcessing(true)
+        setError(null)
+
+        try {
+            const response = await fetch('/api/subscriptions/eab-key', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ password, accountId, token })
+            })
+            const result = await response.json()
+
+            if (!response.ok) {
+                setError(result.error || 'Failed to reveal EAB key')
+                return
+            }
+
+            onRevealed({
+                accountId: result.accountId,
+                eabKeyId: result.eabKeyId,
+                eabHmacKey: result.eabHmacKey
+            })
+            onClose()
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to reveal EAB key')
+        } finally {
+            setIsProcessing(false)
+        }
+    }
+
+    if (!isOpen) return null
+
+    return (
+        <div className="fixed inset-0 z-50 overflow-y-auto">
+            {/* Backdrop */}
+            <div
+                className="fixed inset-0 bg-black bg-opacity-50 transition-opacity"
+                onClick={() => !isProcessing && onClose()}
+            />
+
+            {/* Modal */}
+            <div className="flex min-h-full items-center justify-center p-4">
+                <form
+                    onSubmit={handleReveal}
+                    className="relative w-full max-w-md transform rounded-xl bg-white shadow-2xl transition-all"
+                >
+                    {/* Header */}
+                    <div className="flex items-center gap-3 rounded-t-xl bg-yellow-50 px-6 py-4">
+                        <div className="flex h-10 w-10 items-center justify-center rounded-full bg-yellow-100">
+                            <Key className="h-6 w-6 text-yellow-700" />
+                        </div>
+                        <div className="flex-1">
+                            <h3 className="text-lg font-semibold text-gray-900">
+                                Reveal EAB HMAC Key
+                            </h3>
+                            <p className="text-sm text-yellow-800">Confirm your password to continue</p>
+                        </div>
+                        <button
+                            type="button"
+                            onClick={onClose}
+                            disabled={isProcessing}
+                            className="rounded-full p-1 text-gray-400 hover:bg-gray-100 hover:text-gray-600"
+                        >
+                            <X className="h-5 w-5" />
+                        </button>
+                    </div>
+
+                    {/* Content */}
+                    <div className="px-6 py-5">
+                        <p className="mb-4 text-sm text-gray-600">
+                            The HMAC key lets anyone issue certificates on this subscription.
+                            Every reveal is recorded in the audit log.
+                        </p>
+                        <label className="block text-sm font-medium text-gray-700">Password</label>
+                        <input
+                            type="password"
+                            value={password}
+                            onChange={(e) => setPassword(e.target.value)}
+                            autoFocus
+                            autoComplete="current-password"
+                            disabled={isProcessing}
+                            className="mt-1 block w-full rounded-lg border border-gray-300 px-4 py-2 focus:border-[#2d56c2] focus:outline-none focus:ring-1 focus:ring-[#2d56c2]"
+                        />
+
+                        {error && (
+                            <div className="mt-4 flex items-start gap-2 rounded-lg bg-red-50 p-3 text-sm text-red-700">
+                                <AlertTriangle className="mt-0.5 h-4 w-4 flex-shrink-0" />
+                                <span>{error}</span>
+                            </div>
+                        )}
+                    </div>
+
+                    {/* Footer */}
+                    <div className="flex items-center justify-end gap-3 rounded-b-xl border-t border-gray-100 bg-gray-50 px-6 py-4">
+                        <button
+                            type="button"
+                            onClick={onClose}
+                            disabled={isProcessing}
+                            className="rounded-lg border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-gray-300"
+                        >
+                            Cancel
+                        </button>
+                        <button
+                            type="submit"
+                            disabled={!password || isProcessing}
+                            className="rounded-lg bg-yellow-600 px-4 py-2 text-sm font-medium text-white transition-all hover:bg-yellow-700 focus:outline-none focus:ring-2 focus:ring-yellow-500 disabled:cursor-not-allowed disabled:bg-yellow-300"
+                        >
+                            {isProcessing ? 'Verifying...' : 'Reveal Key'}
+                        </button>
+                    </div>
+                </form>
+            </div>
+        </div>
+    )
+}
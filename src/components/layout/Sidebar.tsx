@@ -11,7 +11,14 @@ import {
     Shield,
     Globe,
     CalendarClock,
-    Award
+    Award,
+    Scale,
+    Server,
+    Activity,
+    ScrollText,
+    KeyRound,
+    Network,
+    BadgeCheck
 } from 'lucide-react'
 
 const navigation = [
@@ -21,13 +28,47 @@ const navigation = [
     { name: 'Domains', href: '/domains', icon: Globe },
     { name: 'Certificates', href: '/certificates', icon: Award },
     { name: 'Transactions', href: '/transactions', icon: CreditCard },
+    { name: 'Operations', href: '/operations', icon: Activity },
     { name: 'Statements', href: '/statements', icon: FileText },
     { name: 'Audit Logs', href: '/audit-logs', icon: Shield },
 ]
 
-export default function Sidebar() {
+// Only shown to KICA staff (partners.is_admin)
+const adminNavigation = [
+    { name: 'Reconciliation', href: '/admin/reconciliation', icon: Scale },
+    { name: 'ACME Servers', href: '/admin/acme-servers', icon: Server },
+    { name: 'API Calls', href: '/admin/api-calls', icon: ScrollText },
+    { name: 'Sectigo Clients', href: '/admin/sectigo-clients', icon: Network },
+    { name: 'Sectigo Credentials', href: '/admin/sectigo-credentials', icon: KeyRound },
+    { name: 'OV Pre-Validation', href: '/admin/organization-anchors', icon: BadgeCheck },
+]
+
+export default function Sidebar({ isAdmin = false }: { isAdmin?: boolean }) {
     const pathname = usePathname()
 
+    const renderItem = (item: typeof navigation[number]) => {
+        const isActive = pathname.startsWith(item.href)
+        return (
+            <Link
+                key={item.name}
+                href={item.href}
+                className={`
+                    group flex items-center rounded-lg px-3 py-2.5 text-sm font-medium transition-all duration-200
+                    ${isActive
+                        ? 'bg-[#2d56c2] text-white shadow-lg shadow-blue-500/20'
+                        : 'text-gray-400 hover:bg-white/5 hover:text-white'
+                    }
+                `}
+            >
+                <item.icon
+                    className={`mr-3 h-5 w-5 flex-shrink-0 ${isActive ? 'text-white' : 'text-gray-500 group-hover:text-white'
+                        }`}
+                />
+                {item.name}
+            </Link>
+        )
+    }
+
     return (
         <div className="flex h-screen w-64 flex-col bg-[#0a1227]">
             {/* KICA Logo */}
@@ -43,28 +84,16 @@ export default function Sidebar() {
 
             {/* Navigation */}
             <nav className="flex-1 space-y-1 px-3 py-4">
-                {navigation.map((item) => {
-                    const isActive = pathname.startsWith(item.href)
-                    return (
-                        <Link
-                            key={item.name}
-                            href={item.href}
-                            className={`
-                                group flex items-center rounded-lg px-3 py-2.5 text-sm font-medium transition-all duration-200
-                                ${isActive
-                                    ? 'bg-[#2d56c2] text-white shadow-lg shadow-blue-500/20'
-                                    : 'text-gray-400 hover:bg-white/5 hover:text-white'
-                                }
-                            `}
-                        >
-                            <item.icon
-                                className={`mr-3 h-5 w-5 flex-shrink-0 ${isActive ? 'text-white' : 'text-gray-500 group-hover:text-white'
-                                    }`}
-                            />
-                            {item.name}
-                        </Link>
-                    )
-                })}
+                {navigation.map(renderItem)}
+
+                {isAdmin && (
+                    <>
+                        <div className="px-3 pt-6 pb-2 text-[10px] font-semibold uppercase tracking-wider text-gray-500">
+                            Admin
+                        </div>
+                        {adminNavigation.map(renderItem)}
+                    </>
+                )}
             </nav>
 
             {/* Powered by Sectigo */}
@@ -0,0 +1,13 @@
+/**
+ * Server startup hook (Next.js instrumentation)
+ *
+ * Production refuses to start without usable Sectigo credentials
+ * (see assertSectigoCredentials in lib/sectigo.ts).
+ */
+
+export async function register() {
+    if (process.env.NEXT_RUNTIME !== 'nodejs') return
+
+    const { assertSectigoCredentials } = await import('./lib/sectigo')
+    await assertSectigoCredentials()
+}
@@ -0,0 +1,101 @@
+/**
+ * ACME Account Management
+ *
+ * Suspend / unsuspend / deactivate an ACME account at its CA and mirror
+ * the result locally (status transition with audit log, suspend
+ * notification).
+ * Runs as a Sectigo job (see sectigo-jobs.ts); a thrown error means the
+ * CA call didn't go through and the job should be retried.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { caProviderForAccount, isCaError } from './ca'
+import { sendAccountSuspendedNotification } from './email'
+import { canTransition, transitionSubscription } from './subscription-lifecycle'
+import type { SubscriptionStatus } from './types'
+
+export type AccountAction = 'suspend' | 'unsuspend' | 'deactivate'
+
+export const ACCOUNT_ACTION_STATUS: Record<AccountAction, SubscriptionStatus> = {
+    suspend: 'suspended',
+    unsuspend: 'active',
+    deactivate: 'terminated'
+}
+
+/**
+ * Apply an account action at the CA, then locally
+ */
+export async function applyAccountAction(
+    supabase: SupabaseClient,
+    { accountId, acmeAccountId, action, actorId }: {
+        accountId: string
+        acmeAccountId: string
+        action: AccountAction
+        actorId: string | null
+    }
+): Promise<{ newStatus: string }> {
+    const newStatus = ACCOUNT_ACTION_STATUS[action]
+
+    const { data: account, error: loadError } = await supabase
+        .from('acme_accounts')
+        .select(`
+            id,
+            status,
+            account_name,
+            clients!inner (
+                partners!inner (
+                    email,
+                    company_name
+                )
+            )
+        `)
+        .eq('id', accountId)
+        .single()
+
+    if (loadError || !account) {
+        throw new Error(`Failed to load account: ${loadError?.message || 'account not found'}`)
+    }
+
+    // Already applied (e.g. a retried job whose local update went through)
+    if (account.status === newStatus) {
+        return { newStatus }
+    }
+
+    if (!canTransition(account.status, newStatus)) {
+        throw new Error(`Cannot ${action} a subscription that is ${account.status}`)
+    }
+
+    const ca = await caProviderForAccount(supabase, accountId)
+    const response = await ca.setAccountStatus({ accountId: acmeAccountId, action })
+
+    if (isCaError(response)) {
+        throw new Error(`CA API Error (${ca.name}): ${response.errorMessage}`)
+    }
+
+    const result = await transitionSubscription(supabase, {
+        account,
+        to: newStatus,
+        action: `subscription_${action}`,
+        actorId,
+        details: { acme_account_id: acmeAccountId }
+    })
+
+    if (!result.ok) {
+        throw new Error(`Failed to update status: ${result.error}`)
+    }
+
+    // Send email notification for suspend action (non-blocking)
+    if (action === 'suspend') {
+        const partner = (account.clients as unknown as { partners: { email: string; company_name: string } }).partners
+        sendAccountSuspendedNotification({
+            to: partner.email,
+            partnerName: partner.company_name || 'Partner',
+            subscriptionName: account.account_name || 'Subscription',
+            reason: 'Suspended by account owner'
+        }).catch(err => {
+            console.error('[Email Error] Failed to send suspend notification:', err)
+        })
+    }
+
+    return { newStatus }
+}
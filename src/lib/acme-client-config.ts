@@ -0,0 +1,254 @@
+/**
+ * ACME Client Configuration
+ *
+ * Ready-to-paste setup for common ACME clients from an account's
+ * server_url, eab_key_id and (revealed) EAB HMAC key. Until the key is
+ * revealed the snippets carry a YOUR_HMAC_KEY placeholder (plain text, so
+ * the shell and cmd scripts still parse).
+ *
+ * Wildcard domains can only be validated with DNS-01, so any wildcard in
+ * the domain list switches every snippet to its DNS challenge (with a
+ * placeholder DNS provider to fill in).
+ *
+ * Pure and client-safe:
+ *   const config = buildAcmeClientConfig('certbot', { serverUrl, eabKeyId, ... })
+ *   // { filename: 'kica-dv-certbot.sh', content: '...' }
+ */
+
+export const ACME_CLIENTS = [
+    { id: 'certbot', label: 'certbot' },
+    { id: 'acme.sh', label: 'acme.sh' },
+    { id: 'lego', label: 'lego' },
+    { id: 'caddy', label: 'Caddy' },
+    { id: 'traefik', label: 'Traefik' },
+    { id: 'cert-manager', label: 'cert-manager' },
+    { id: 'win-acme', label: 'win-acme' }
+] as const
+
+export type AcmeClientId = typeof ACME_CLIENTS[number]['id']
+
+export const HMAC_KEY_PLACEHOLDER = 'YOUR_HMAC_KEY'
+
+const EXAMPLE_DOMAIN = 'example.com'
+const EXAMPLE_EMAIL = 'admin@example.com'
+
+export interface AcmeClientConfigInput {
+    serverUrl: string
+    eabKeyId: string
+    eabHmacKey: string | null
+    certificateType: 'DV' | 'OV'
+    domains: string[]
+    email?: string
+}
+
+export interface AcmeClientConfig {
+    filename: string
+    content: string
+}
+
+interface ConfigContext {
+    server: string
+    kid: string
+    hmac: string
+    type: 'dv' | 'ov'
+    domains: string[]
+    email: string
+    dns: boolean
+    // Header lines, without comment markers
+    notes: string[]
+}
+
+export function buildAcmeClientConfig(client: AcmeClientId, input: AcmeClientConfigInput): AcmeClientConfig {
+    const domains = input.domains.length > 0 ? input.domains : [EXAMPLE_DOMAIN]
+    const dns = domains.some(d => d.startsWith('*.'))
+
+    const ctx: ConfigContext = {
+        server: input.serverUrl,
+        kid: input.eabKeyId,
+        hmac: input.eabHmacKey || HMAC_KEY_PLACEHOLDER,
+        type: input.certificateType === 'OV' ? 'ov' : 'dv',
+        domains,
+        email: input.email || EXAMPLE_EMAIL,
+        dns,
+        notes: [
+            `KICA ${input.certificateType} certificates (${ACME_CLIENTS.find(c => c.id === client)?.label})`,
+            input.certificateType === 'OV'
+                ? 'OV: organization details come from the validated organization of this subscription.'
+                : 'DV: the CA only checks control of each domain.',
+            'Only domains added to this subscription can be issued.',
+            ...(dns ? ['Wildcard domains need the DNS-01 challenge: set your DNS provider below.'] : []),
+            ...(input.eabHmacKey ? ['Contains the EAB HMAC key: keep this file private.'] : [])
+        ]
+    }
+
+    return BUILDERS[client](ctx)
+}
+
+// ============================================
+// Builders
+// ============================================
+
+const BUILDERS: Record<AcmeClientId, (ctx: ConfigContext) => AcmeClientConfig> = {
+    'certbot': ctx => ({
+        filename: `kica-${ctx.type}-certbot.sh`,
+        content: shell(ctx, [
+            'certbot certonly --non-interactive --agree-tos \\',
+            `  --server ${ctx.server} \\`,
+            `  --eab-kid ${ctx.kid} \\`,
+            `  --eab-hmac-key ${ctx.hmac} \\`,
+            `  --email ${ctx.email} \\`,
+            ctx.dns
+                ? '  --dns-cloudflare --dns-cloudflare-credentials ~/.secrets/cloudflare.ini \\'
+                : '  --standalone \\',
+            `  --cert-name kica-${ctx.type} \\`,
+            `  ${ctx.domains.map(d => `-d '${d}'`).join(' ')}`
+        ])
+    }),
+
+    'acme.sh': ctx => ({
+        filename: `kica-${ctx.type}-acmesh.sh`,
+        content: shell(ctx, [
+            ...(ctx.dns ? ['# DNS provider credentials, e.g. export CF_Token=...', ''] : []),
+            `acme.sh --register-account --server ${ctx.server} \\`,
+            `  --eab-kid ${ctx.kid} \\`,
+            `  --eab-hmac-key ${ctx.hmac} \\`,
+            `  -m ${ctx.email}`,
+            '',
+            `acme.sh --issue --server ${ctx.server} \\`,
+            ctx.dns
+                ? '  --dns dns_cf \\'
+                : '  --webroot /var/www/html \\',
+            `  ${ctx.domains.map(d => `-d '${d}'`).join(' ')}`
+        ])
+    }),
+
+    'lego': ctx => ({
+        filename: `kica-${ctx.type}-lego.sh`,
+        content: shell(ctx, [
+            ...(ctx.dns ? ['# DNS provider credentials, e.g. CLOUDFLARE_DNS_API_TOKEN=...', ''] : []),
+            `lego --server ${ctx.server} \\`,
+            `  --eab --kid ${ctx.kid} --hmac ${ctx.hmac} \\`,
+            `  --email ${ctx.email} --accept-tos \\`,
+            ctx.dns ? '  --dns cloudflare \\' : '  --http \\',
+            `  ${ctx.domains.map(d => `--domains '${d}'`).join(' ')} \\`,
+            '  run'
+        ])
+    }),
+
+    'caddy': ctx => ({
+        filename: 'Caddyfile',
+        content: [
+            ...comment('#', ctx.notes),
+            '{',
+            `\temail ${ctx.email}`,
+            `\tacme_ca ${ctx.server}`,
+            '\tacme_eab {',
+            `\t\tkey_id ${ctx.kid}`,
+            `\t\tmac_key ${ctx.hmac}`,
+            '\t}',
+            '}',
+            '',
+            `${ctx.domains.join(', ')} {`,
+            ...(ctx.dns
+                ? ['\t# Needs a Caddy build with the DNS provider module', '\ttls {', '\t\tdns cloudflare {env.CF_API_TOKEN}', '\t}']
+                : []),
+            '\treverse_proxy localhost:8080',
+            '}',
+            ''
+        ].join('\n')
+    }),
+
+    'traefik': ctx => ({
+        filename: 'traefik.yml',
+        content: [
+            ...comment('#', ctx.notes),
+            `# Use with: traefik.http.routers.<name>.tls.certresolver=kica-${ctx.type}`,
+            'certificatesResolvers:',
+            `  kica-${ctx.type}:`,
+            '    acme:',
+            `      email: ${ctx.email}`,
+            `      storage: /letsencrypt/kica-${ctx.type}.json`,
+            `      caServer: ${ctx.server}`,
+            '      eab:',
+            `        kid: ${ctx.kid}`,
+            `        hmacEncoded: ${ctx.hmac}`,
+            ...(ctx.dns
+                ? ['      dnsChallenge:', '        provider: cloudflare']
+                : ['      httpChallenge:', '        entryPoint: web']),
+            ''
+        ].join('\n')
+    }),
+
+    'cert-manager': ctx => ({
+        filename: `kica-${ctx.type}-issuer.yaml`,
+        content: [
+            ...comment('#', ctx.notes),
+            'apiVersion: v1',
+            'kind: Secret',
+            'metadata:',
+            `  name: kica-${ctx.type}-eab`,
+            '  namespace: default',
+            'type: Opaque',
+            'stringData:',
+            `  secret: ${ctx.hmac}`,
+            '---',
+            'apiVersion: cert-manager.io/v1',
+            'kind: Issuer',
+            'metadata:',
+            `  name: kica-${ctx.type}`,
+            '  namespace: default',
+            'spec:',
+            '  acme:',
+            `    server: ${ctx.server}`,
+            `    email: ${ctx.email}`,
+            '    privateKeySecretRef:',
+            `      name: kica-${ctx.type}-account-key`,
+            '    externalAccountBinding:',
+            `      keyID: ${ctx.kid}`,
+            '      keySecretRef:',
+            `        name: kica-${ctx.type}-eab`,
+            '        key: secret',
+            '    solvers:',
+            ...(ctx.dns
+                ? [
+                    '      - dns01:',
+                    '          cloudflare:',
+                    '            apiTokenSecretRef:',
+                    '              name: cloudflare-api-token',
+                    '              key: api-token'
+                ]
+                : [
+                    '      - http01:',
+                    '          ingress:',
+                    '            ingressClassName: nginx'
+                ]),
+            ''
+        ].join('\n')
+    }),
+
+    'win-acme': ctx => ({
+        filename: `kica-${ctx.type}-win-acme.cmd`,
+        content: [
+            ...comment('REM', ctx.notes),
+            ...(ctx.dns ? ['REM Needs the win-acme Cloudflare validation plugin'] : []),
+            `wacs.exe --baseuri ${ctx.server} ^`,
+            `  --eab-key-identifier ${ctx.kid} ^`,
+            `  --eab-key ${ctx.hmac} ^`,
+            `  --emailaddress ${ctx.email} --accepttos ^`,
+            `  --source manual --host ${ctx.domains.join(',')} ^`,
+            ...(ctx.dns
+                ? ['  --validationmode dns-01 --validation cloudflare ^', '  --cloudflareapitoken %CF_API_TOKEN% ^']
+                : []),
+            `  --friendlyname kica-${ctx.type}`,
+            ''
+        ].join('\r\n')
+    })
+}
+
+function comment(marker: string, lines: string[]): string[] {
+    return lines.map(line => `${marker} ${line}`)
+}
+
+function shell(ctx: ConfigContext, lines: string[]): string {
+    return ['#!/bin/sh', ...comment('#', ctx.notes), '', ...lines, ''].join('\n')
+}
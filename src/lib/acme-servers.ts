@@ -0,0 +1,157 @@
+/**
+ * ACME Server Catalog
+ *
+ * `acme_servers` caches Sectigo LISTSERVERS. The catalog is refreshed when
+ * it is empty or older than ACME_SERVER_CACHE_TTL_MS; if Sectigo is
+ * unreachable the cached rows are used as-is.
+ *
+ * The catalog is read through the default Sectigo client only, also for
+ * partners bound to another registry client (sectigo-registry.ts):
+ * LISTSERVERS returns the same servers for every reseller account, so one
+ * catalog validates server URLs for all of them.
+ *
+ * A server can be used for a new subscription when it is enabled by an
+ * admin, still returned by LISTSERVERS, and its validation type matches
+ * the subscription's certificate type.
+ *
+ * Usage (service-role client, refresh writes to acme_servers):
+ *   const catalog = await getServerCatalog(supabase)
+ *   const check = checkServerSelection(catalog, serverUrl, 'DV')
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { getSectigoClient } from './sectigo'
+import { DEFAULT_SECTIGO_CLIENT } from './sectigo-registry'
+import { isSectigoError } from './sectigo-types'
+import type { AcmeServer } from './types'
+
+// LISTSERVERS rarely changes; refresh at most every 6 hours
+export const ACME_SERVER_CACHE_TTL_MS = 6 * 60 * 60 * 1000
+
+export type ServerSelectionCheck =
+    | { ok: true; server: AcmeServer }
+    | { ok: false; error: string }
+
+/**
+ * Reload the catalog from Sectigo LISTSERVERS.
+ * Upserts returned servers (keeping is_enabled) and marks missing ones
+ * unavailable; an empty list leaves the catalog untouched.
+ */
+export async function refreshServerCatalog(supabase: SupabaseClient): Promise<AcmeServer[]> {
+    // One catalog for all reseller accounts: Sectigo's server list is the same for each
+    const response = await getSectigoClient(DEFAULT_SECTIGO_CLIENT).listServers()
+    if (isSectigoError(response)) {
+        throw new Error(`LISTSERVERS failed: ${response.errorMessage}`)
+    }
+
+    const now = new Date().toISOString()
+    const rows = response.servers.map(server => ({
+        server_url: server.serverUrl,
+        description: server.description,
+        validation_type: server.validationType,
+        is_available: true,
+        last_seen_at: now,
+        updated_at: now
+    }))
+
+    // Sectigo never retires every server at once
+    if (rows.length === 0) {
+        console.warn('[ACME Servers] LISTSERVERS returned no servers, keeping the cached catalog')
+        return loadCatalog(supabase)
+    }
+
+    const { error: upsertError } = await supabase
+        .from('acme_servers')
+        .upsert(rows, { onConflict: 'server_url' })
+
+    if (upsertError) {
+        throw new Error(`Failed to save server catalog: ${upsertError.message}`)
+    }
+
+    const { error: staleError } = await supabase
+        .from('acme_servers')
+        .update({ is_available: false, updated_at: now })
+        .lt('last_seen_at', now)
+
+    if (staleError) {
+        console.error('[ACME Servers] Failed to mark missing servers:', staleError)
+    }
+
+    return loadCatalog(supabase)
+}
+
+/**
+ * Get the full catalog (including disabled servers), refreshing if stale
+ */
+export async function getServerCatalog(
+    supabase: SupabaseClient,
+    { forceRefresh = false }: { forceRefresh?: boolean } = {}
+): Promise<AcmeServer[]> {
+    const cached = await loadCatalog(supabase)
+
+    const newestSeen = cached.reduce((latest, server) => {
+        const seen = server.last_seen_at ? new Date(server.last_seen_at).getTime() : 0
+        return Math.max(latest, seen)
+    }, 0)
+    const isStale = cached.length === 0 || Date.now() - newestSeen > ACME_SERVER_CACHE_TTL_MS
+
+    if (!forceRefresh && !isStale) {
+        return cached
+    }
+
+    try {
+        return await refreshServerCatalog(supabase)
+    } catch (error) {
+        console.error('[ACME Servers] Refresh failed, using cached catalog:', error)
+        return cached
+    }
+}
+
+/**
+ * Servers a partner may pick for a new subscription
+ */
+export function selectableServers(catalog: AcmeServer[], certificateType?: 'DV' | 'OV'): AcmeServer[] {
+    return catalog.filter(server =>
+        server.is_enabled &&
+        server.is_available &&
+        (!certificateType || server.validation_type === certificateType)
+    )
+}
+
+/**
+ * Validate a submitted serverUrl against the catalog and certificate type
+ */
+export function checkServerSelection(
+    catalog: AcmeServer[],
+    serverUrl: string,
+    certificateType: string
+): ServerSelectionCheck {
+    const server = catalog.find(s => s.server_url === serverUrl)
+
+    if (!server) {
+        return { ok: false, error: 'Unknown ACME server' }
+    }
+    if (!server.is_enabled || !server.is_available) {
+        return { ok: false, error: 'This ACME server is not available for new subscriptions' }
+    }
+    if (server.validation_type !== certificateType) {
+        return { ok: false, error: `ACME server is for ${server.validation_type} certificates, not ${certificateType}` }
+    }
+
+    return { ok: true, server }
+}
+
+async function loadCatalog(supabase: SupabaseClient): Promise<AcmeServer[]> {
+    const { data, error } = await supabase
+        .from('acme_servers')
+        .select('*')
+        .order('validation_type', { ascending: true })
+        .order('server_url', { ascending: true })
+
+    if (error) {
+        console.error('[ACME Servers] Failed to load catalog:', error)
+        return []
+    }
+
+    return (data || []) as AcmeServer[]
+}
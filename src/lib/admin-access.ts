@@ -0,0 +1,44 @@
+/**
+ * Admin Access
+ *
+ * KICA staff are partners with `partners.is_admin = true`. Only the
+ * service role can change the flag (trigger in migration 020).
+ * Admin API routes check the session with this helper, then use the
+ * service-role client (createAdminClient) for cross-partner data.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+export type AdminCheck =
+    | { ok: true; userId: string; email: string | null }
+    | { ok: false; status: 401 | 403; error: string }
+
+/**
+ * Verify the session user is an admin
+ */
+export async function checkAdmin(supabase: SupabaseClient): Promise<AdminCheck> {
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+        return { ok: false, status: 401, error: 'Unauthorized' }
+    }
+
+    const isAdmin = await isAdminUser(supabase, user.id)
+    if (!isAdmin) {
+        return { ok: false, status: 403, error: 'Admin access required' }
+    }
+
+    return { ok: true, userId: user.id, email: user.email || null }
+}
+
+/**
+ * Whether a partner has the admin flag
+ */
+export async function isAdminUser(supabase: SupabaseClient, userId: string): Promise<boolean> {
+    const { data: partner } = await supabase
+        .from('partners')
+        .select('is_admin')
+        .eq('id', userId)
+        .single()
+
+    return partner?.is_admin === true
+}
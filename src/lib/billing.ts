@@ -0,0 +1,123 @@
+/**
+ * Billing Helpers
+ *
+ * Server-side source of truth for partner pricing and credit checks.
+ * Prices come from `pricing_tiers` based on the partner's pricing_class;
+ * credit limits only apply to DEPOSIT partners (post-paid is trust-based).
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+// Default prices (fallback if tier pricing fails)
+export const DEFAULT_PRICE_SINGLE = 50
+export const DEFAULT_PRICE_WILDCARD = 150
+
+export interface TierPricing {
+    dv_single: number
+    dv_wildcard: number
+    ov_single: number
+    ov_wildcard: number
+}
+
+const DEFAULT_TIER_PRICING: TierPricing = {
+    dv_single: DEFAULT_PRICE_SINGLE,
+    dv_wildcard: DEFAULT_PRICE_WILDCARD,
+    ov_single: DEFAULT_PRICE_SINGLE,
+    ov_wildcard: DEFAULT_PRICE_WILDCARD
+}
+
+/**
+ * Load annual tier pricing for a partner
+ */
+export async function getPartnerTierPricing(
+    supabase: SupabaseClient,
+    partnerId: string
+): Promise<TierPricing> {
+    const { data: partnerData } = await supabase
+        .from('partners')
+        .select('pricing_class')
+        .eq('id', partnerId)
+        .single()
+
+    const pricingClass = partnerData?.pricing_class || 'STANDARD'
+
+    const { data: pricingData } = await supabase
+        .from('pricing_tiers')
+        .select('dv_single_annual, dv_wildcard_annual, ov_single_annual, ov_wildcard_annual')
+        .eq('tier_code', pricingClass)
+        .eq('is_active', true)
+        .single()
+
+    if (!pricingData) {
+        console.warn(`[Billing] No active pricing tier for ${pricingClass}, using defaults`)
+        return DEFAULT_TIER_PRICING
+    }
+
+    return {
+        dv_single: Number(pricingData.dv_single_annual),
+        dv_wildcard: Number(pricingData.dv_wildcard_annual),
+        ov_single: Number(pricingData.ov_single_annual),
+        ov_wildcard: Number(pricingData.ov_wildcard_annual)
+    }
+}
+
+/**
+ * Annual price for one domain
+ */
+export function getDomainPrice(
+    pricing: TierPricing,
+    certificateType: string,
+    domainType: 'single' | 'wildcard'
+): number {
+    if (certificateType === 'OV') {
+        return domainType === 'wildcard' ? pricing.ov_wildcard : pricing.ov_single
+    }
+    return domainType === 'wildcard' ? pricing.dv_wildcard : pricing.dv_single
+}
+
+export type CreditCheckResult =
+    | { allowed: true; paymentType: 'post_paid' | 'deposit'; availableLimit: number | null }
+    | { allowed: false; paymentType: 'deposit'; availableLimit: number; required: number }
+
+/**
+ * CREDIT CHECK: Only applies to DEPOSIT payment type.
+ * Usage counts successful charges plus credit reserved by in-flight (pending_api) transactions.
+ */
+export async function checkCreditLimit(
+    supabase: SupabaseClient,
+    partnerId: string,
+    requiredAmount: number
+): Promise<CreditCheckResult> {
+    const { data: partner } = await supabase
+        .from('partners')
+        .select('payment_type, credit_limit')
+        .eq('id', partnerId)
+        .single()
+
+    const paymentType = partner?.payment_type === 'deposit' ? 'deposit' : 'post_paid'
+
+    if (paymentType === 'post_paid') {
+        return { allowed: true, paymentType, availableLimit: null }
+    }
+
+    const { data: usageData } = await supabase
+        .from('transactions')
+        .select('type, amount, status')
+        .eq('partner_id', partnerId)
+        .in('status', ['success', 'pending_api'])
+
+    let currentUsage = 0
+    usageData?.forEach(tx => {
+        if (tx.type === 'add_domain' || tx.type === 'extend') currentUsage += Number(tx.amount) || 0
+        if (tx.type === 'refund') currentUsage -= Number(tx.amount) || 0
+    })
+
+    const creditLimit = Number(partner?.credit_limit) || 0
+    const availableLimit = creditLimit - currentUsage
+
+    if (requiredAmount > availableLimit) {
+        return { allowed: false, paymentType, availableLimit, required: requiredAmount }
+    }
+
+    return { allowed: true, paymentType, availableLimit }
+}
@@ -0,0 +1,128 @@
+/**
+ * Certificate Authority Providers
+ *
+ * Business code talks to a CA through the CaProvider for the ACME account
+ * it is working on:
+ *
+ *   const ca = getCaProvider(account)   // { ca_provider, sectigo_client }
+ *   const result = await ca.addDomain({ accountId: account.acme_account_id, domainName })
+ *
+ * acme_accounts.ca_provider and sectigo_client are copied from the
+ * partner's (set by KICA staff) when the account is created and never
+ * change (guarded by a trigger, migrations 039-040). Providers:
+ *   sectigo - Sectigo CaaS via SectigoClient (default, always enabled)
+ *   local   - in-memory stand-in (needs ENABLE_LOCAL_CA=true)
+ *
+ * A provider that is not enabled still answers read-only calls
+ * (getLastOrder, listDomains) so sync and sweeps can finish, but refuses
+ * every call that registers, charges or changes an account with a CaError.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { getSectigoClient } from '../sectigo'
+import { DEFAULT_SECTIGO_CLIENT } from '../sectigo-registry'
+import { SectigoCaProvider } from './sectigo'
+import { LocalCaProvider, isLocalCaEnabled } from './local'
+import { CA_PROVIDER_NAMES, type CaError, type CaProvider, type CaProviderName } from './types'
+
+export * from './types'
+
+export const DEFAULT_CA_PROVIDER: CaProviderName = 'sectigo'
+
+export function isCaProviderName(name: string): name is CaProviderName {
+    return (CA_PROVIDER_NAMES as readonly string[]).includes(name)
+}
+
+/**
+ * Whether accounts may be registered, charged or changed with this provider
+ */
+export function isCaProviderEnabled(name: CaProviderName): boolean {
+    switch (name) {
+        case 'sectigo': return true
+        case 'local': return isLocalCaEnabled()
+    }
+}
+
+const sectigoProviders = new Map<string, SectigoCaProvider>()
+let localProvider: LocalCaProvider | null = null
+
+/**
+ * Read-only view of a provider that is not enabled
+ */
+class DisabledCaProvider implements CaProvider {
+    readonly name: CaProviderName
+    readonly tracksDomains: boolean
+
+    constructor(private readonly provider: CaProvider) {
+        this.name = provider.name
+        this.tracksDomains = provider.tracksDomains
+    }
+
+    private refuse(): Promise<CaError> {
+        return Promise.resolve({
+            success: false,
+            errorCode: 503,
+            errorMessage: `CA provider not enabled: ${this.name}`
+        })
+    }
+
+    registerAccount() { return this.refuse() }
+    addDomain() { return this.refuse() }
+    removeDomain() { return this.refuse() }
+    extend() { return this.refuse() }
+    setAccountStatus() { return this.refuse() }
+
+    getLastOrder(request: Parameters<CaProvider['getLastOrder']>[0]) {
+        return this.provider.getLastOrder(request)
+    }
+
+    listDomains(request: Parameters<CaProvider['listDomains']>[0]) {
+        return this.provider.listDomains(request)
+    }
+}
+
+/**
+ * Provider for an ACME account (or for a new one: pass the chosen
+ * provider and the partner's Sectigo client)
+ */
+export function getCaProvider(account: {
+    ca_provider?: string | null
+    sectigo_client?: string | null
+}): CaProvider {
+    const name = account.ca_provider || DEFAULT_CA_PROVIDER
+    if (!isCaProviderName(name)) {
+        throw new Error(`Unknown CA provider: ${name}`)
+    }
+
+    const provider = providerFor(name, account.sectigo_client)
+    return isCaProviderEnabled(name) ? provider : new DisabledCaProvider(provider)
+}
+
+function providerFor(name: CaProviderName, sectigoClient: string | null | undefined): CaProvider {
+    switch (name) {
+        case 'sectigo': {
+            const clientName = sectigoClient || DEFAULT_SECTIGO_CLIENT
+            let provider = sectigoProviders.get(clientName)
+            if (!provider) {
+                provider = new SectigoCaProvider(getSectigoClient(clientName))
+                sectigoProviders.set(clientName, provider)
+            }
+            return provider
+        }
+        case 'local':
+            return localProvider ??= new LocalCaProvider()
+    }
+}
+
+/**
+ * Provider an existing ACME account was created with
+ */
+export async function caProviderForAccount(supabase: SupabaseClient, accountId: string): Promise<CaProvider> {
+    const { data } = await supabase
+        .from('acme_accounts')
+        .select('ca_provider, sectigo_client')
+        .eq('id', accountId)
+        .maybeSingle()
+
+    return getCaProvider(data || {})
+}
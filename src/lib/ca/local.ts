@@ -0,0 +1,165 @@
+/**
+ * Local CA Stand-in
+ *
+ * Pebble-style in-memory CA for development and tests without Sectigo:
+ * accounts, domains and instantly "issued" orders live in memory until
+ * restart. Point the customer's ACME client at a real Pebble instance
+ * (LOCAL_CA_DIRECTORY_URL) to exercise issuance end to end.
+ *
+ * Nothing is charged: every cost is 0.
+ *
+ * Configuration (env):
+ *   ENABLE_LOCAL_CA          'true' enables this provider
+ *   LOCAL_CA_DIRECTORY_URL   directory handed to customers,
+ *                            default https://localhost:14000/dir (Pebble)
+ */
+
+import { randomBytes } from 'crypto'
+import type { CaAccountStatus, CaError, CaOrder, CaProvider } from './types'
+
+const DEFAULT_DIRECTORY_URL = 'https://localhost:14000/dir'
+const CERT_VALIDITY_DAYS = 90
+const DAY_MS = 24 * 60 * 60 * 1000
+
+interface LocalAccount {
+    status: CaAccountStatus
+    domains: Map<string, { orderNumber: string; addedAt: Date }>
+    orders: CaOrder[]
+}
+
+// Kept on globalThis so every route module (and dev hot reloads) share one CA
+const globalForLocalCa = globalThis as unknown as {
+    __localCa?: { accounts: Map<string, LocalAccount>; nextOrderNumber: number }
+}
+
+function getState() {
+    if (!globalForLocalCa.__localCa) {
+        globalForLocalCa.__localCa = { accounts: new Map(), nextOrderNumber: 1 }
+    }
+    return globalForLocalCa.__localCa
+}
+
+export function isLocalCaEnabled(): boolean {
+    return process.env.ENABLE_LOCAL_CA === 'true'
+}
+
+/**
+ * Forget every account (useful for testing)
+ */
+export function resetLocalCa(): void {
+    globalForLocalCa.__localCa = undefined
+}
+
+function caError(errorMessage: string, errorCode: number): CaError {
+    return { success: false, errorCode, errorMessage }
+}
+
+const NO_CHARGE = { cost: 0, currency: 'USD' }
+
+export class LocalCaProvider implements CaProvider {
+    readonly name = 'local' as const
+    readonly tracksDomains = true
+
+    private account(accountId: string): LocalAccount | CaError {
+        const account = getState().accounts.get(accountId)
+        if (!account) return caError(`Unknown account ${accountId}`, 404)
+        if (account.status === 'deactivated') return caError(`Account ${accountId} is deactivated`, 403)
+        return account
+    }
+
+    async registerAccount() {
+        const accountId = `LOCAL_${randomBytes(6).toString('hex').toUpperCase()}`
+        getState().accounts.set(accountId, { status: 'active', domains: new Map(), orders: [] })
+
+        return {
+            success: true as const,
+            account: {
+                accountId,
+                status: 'active' as const,
+                eabKeyId: randomBytes(16).toString('base64url'),
+                eabHmacKey: randomBytes(32).toString('base64url'),
+                serverUrl: process.env.LOCAL_CA_DIRECTORY_URL || DEFAULT_DIRECTORY_URL
+            }
+        }
+    }
+
+    async addDomain({ accountId, domainName, quoteOnly }: Parameters<CaProvider['addDomain']>[0]) {
+        const account = this.account(accountId)
+        if ('success' in account) return account
+
+        if (account.domains.has(domainName)) {
+            return { success: true as const, alreadyPresent: true, cost: null, currency: null, orderNumber: null }
+        }
+        if (quoteOnly) {
+            return { success: true as const, alreadyPresent: false, ...NO_CHARGE, orderNumber: null }
+        }
+
+        const state = getState()
+        const orderNumber = `L${state.nextOrderNumber++}`
+        const now = new Date()
+        account.domains.set(domainName, { orderNumber, addedAt: now })
+
+        // Issue immediately, like Pebble
+        account.orders.push({
+            orderNumber,
+            certificateId: orderNumber,
+            serialNumber: randomBytes(8).toString('hex'),
+            validNotBefore: now.toISOString(),
+            validNotAfter: new Date(now.getTime() + CERT_VALIDITY_DAYS * DAY_MS).toISOString(),
+            statusCode: 6,
+            statusDesc: 'Issued',
+            issued: true
+        })
+
+        return { success: true as const, alreadyPresent: false, ...NO_CHARGE, orderNumber }
+    }
+
+    async removeDomain({ accountId, domainName }: Parameters<CaProvider['removeDomain']>[0]) {
+        const account = this.account(accountId)
+        if ('success' in account) return account
+
+        if (!account.domains.delete(domainName)) {
+            return caError(`Domain ${domainName} not found on account`, 404)
+        }
+        return { success: true as const }
+    }
+
+    async extend({ accountId, quoteOnly }: Parameters<CaProvider['extend']>[0]) {
+        const account = this.account(accountId)
+        if ('success' in account) return account
+
+        const orderNumber = quoteOnly ? null : `L${getState().nextOrderNumber++}`
+        return { success: true as const, ...NO_CHARGE, orderNumber }
+    }
+
+    async getLastOrder({ accountId, domainName }: Parameters<CaProvider['getLastOrder']>[0]) {
+        const account = this.account(accountId)
+        if ('success' in account) return account
+
+        const orderNumber = account.domains.get(domainName)?.orderNumber
+        const order = account.orders.find(o => o.orderNumber === orderNumber) || null
+        return { success: true as const, order }
+    }
+
+    async setAccountStatus({ accountId, action }: Parameters<CaProvider['setAccountStatus']>[0]) {
+        const account = this.account(accountId)
+        if ('success' in account) return account
+
+        account.status = action === 'suspend' ? 'suspended' : action === 'unsuspend' ? 'active' : 'deactivated'
+        return { success: true as const }
+    }
+
+    async listDomains({ accountId }: Parameters<CaProvider['listDomains']>[0]) {
+        const account = this.account(accountId)
+        if ('success' in account) return account
+
+        return {
+            success: true as const,
+            domains: [...account.domains].map(([domainName, domain]) => ({
+                domainName,
+                orderNumber: domain.orderNumber,
+                expiryDate: null
+            }))
+        }
+    }
+}
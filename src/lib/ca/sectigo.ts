@@ -0,0 +1,136 @@
+/**
+ * Sectigo CaaS Adapter
+ *
+ * CaProvider on top of SectigoClient. One adapter per registry client
+ * (see sectigo-registry.ts); everything else - retries, circuit breaker,
+ * journal, validation - stays in SectigoClient.
+ */
+
+import type { SectigoClient } from '../sectigo'
+import {
+    hasOrderNumber,
+    isDomainAlreadyPresent,
+    isSectigoError,
+    type OrderInfo
+} from '../sectigo-types'
+import type { CaOrder, CaProvider } from './types'
+
+// GETLASTORDER statusCode for an issued certificate
+const SECTIGO_ORDER_ISSUED = 6
+
+function toCaOrder(order: OrderInfo): CaOrder {
+    return {
+        orderNumber: order.orderNumber.toString(),
+        certificateId: order.certificateID?.toString() || null,
+        serialNumber: order.serialNumber || null,
+        validNotBefore: order.validNotBefore || null,
+        validNotAfter: order.validNotAfter || null,
+        statusCode: order.statusCode,
+        statusDesc: order.statusDesc,
+        issued: order.statusCode === SECTIGO_ORDER_ISSUED
+    }
+}
+
+export class SectigoCaProvider implements CaProvider {
+    readonly name = 'sectigo' as const
+    readonly tracksDomains = true
+
+    constructor(readonly client: SectigoClient) {}
+
+    async registerAccount({ serverUrl, years, ovAnchorOrderNumber }: Parameters<CaProvider['registerAccount']>[0]) {
+        const response = await this.client.preregister({
+            serverUrl,
+            years,
+            ...(ovAnchorOrderNumber && { ovAnchorOrderNumber })
+        })
+        if (isSectigoError(response)) return response
+
+        const info = response.Accounts[0]
+        return {
+            success: true as const,
+            account: {
+                accountId: info.acmeAccountID,
+                status: info.accountStatus,
+                eabKeyId: info.eabMACIDb64url,
+                eabHmacKey: info.eabMACKeyb64url,
+                serverUrl
+            }
+        }
+    }
+
+    async addDomain({ accountId, domainName, quoteOnly, ovAnchorOrderNumber }: Parameters<CaProvider['addDomain']>[0]) {
+        const response = await this.client.addDomain({
+            acmeAccountID: accountId,
+            domainName,
+            ...(quoteOnly !== undefined && { quoteOnly: quoteOnly ? 'Y' as const : 'N' as const }),
+            ...(ovAnchorOrderNumber && { ovAnchorOrderNumber })
+        })
+        if (isSectigoError(response)) return response
+
+        if (isDomainAlreadyPresent(response)) {
+            return { success: true as const, alreadyPresent: true, cost: null, currency: null, orderNumber: null }
+        }
+
+        return {
+            success: true as const,
+            alreadyPresent: false,
+            cost: response.cost,
+            currency: response.currency,
+            orderNumber: hasOrderNumber(response) ? response.orderNumber.toString() : null
+        }
+    }
+
+    async removeDomain({ accountId, domainName }: Parameters<CaProvider['removeDomain']>[0]) {
+        const response = await this.client.removeDomain(accountId, domainName)
+        return isSectigoError(response) ? response : { success: true as const }
+    }
+
+    async extend({ accountId, years, quoteOnly }: Parameters<CaProvider['extend']>[0]) {
+        const response = await this.client.extendDomains({
+            acmeAccountID: accountId,
+            years,
+            ...(quoteOnly !== undefined && { quoteOnly: quoteOnly ? 'Y' as const : 'N' as const })
+        })
+        if (isSectigoError(response)) return response
+
+        return {
+            success: true as const,
+            cost: response.cost,
+            currency: response.currency,
+            orderNumber: hasOrderNumber(response) ? response.orderNumber.toString() : null
+        }
+    }
+
+    async getLastOrder({ accountId, domainName }: Parameters<CaProvider['getLastOrder']>[0]) {
+        const response = await this.client.getLastOrder({ acmeAccountID: accountId, domainName })
+        if (isSectigoError(response)) return response
+
+        const latest = response.Orders[0]
+        return { success: true as const, order: latest ? toCaOrder(latest) : null }
+    }
+
+    async setAccountStatus({ accountId, action }: Parameters<CaProvider['setAccountStatus']>[0]) {
+        const request = { acmeAccountID: accountId }
+        const response = action === 'suspend'
+            ? await this.client.suspendAccount(request)
+            : action === 'unsuspend'
+                ? await this.client.unsuspendAccount(request)
+                : await this.client.deactivateAccount(request)
+
+        return isSectigoError(response) ? response : { success: true as const }
+    }
+
+    async listDomains({ accountId }: Parameters<CaProvider['listDomains']>[0]) {
+        const response = await this.client.listDomains(accountId)
+        if (isSectigoError(response)) return response
+
+        return {
+            success: true as const,
+            domains: response.domains.map(domain => ({
+                domainName: domain.domainName,
+                orderNumber: domain.orderNumber.toString(),
+                expiryDate: domain.expiryDate || null
+            }))
+        }
+    }
+}
@@ -0,0 +1,103 @@
+/**
+ * Certificate Authority Provider Types
+ *
+ * The operations the portal needs from a CA, independent of its API.
+ * Adapters: Sectigo CaaS (sectigo.ts) and an in-memory stand-in for
+ * development and tests (local.ts).
+ *
+ * Like the Sectigo client, a CA that answers with a rejection returns a
+ * CaError; transport failures (timeouts, 5xx after retries) are thrown.
+ */
+
+export type CaProviderName = 'sectigo' | 'local'
+
+export const CA_PROVIDER_NAMES: readonly CaProviderName[] = ['sectigo', 'local']
+
+export interface CaError {
+    success: false
+    errorCode: number
+    errorMessage: string
+}
+
+export type CaResult<T extends object = object> = ({ success: true } & T) | CaError
+
+export type CaAccountStatus = 'pending' | 'active' | 'suspended' | 'deactivated'
+
+export type CaAccountAction = 'suspend' | 'unsuspend' | 'deactivate'
+
+export interface CaRegisteredAccount {
+    accountId: string   // stored as acme_accounts.acme_account_id
+    status: CaAccountStatus
+    eabKeyId: string
+    eabHmacKey: string
+    serverUrl: string   // ACME directory the customer's client should use
+}
+
+export interface CaCharge {
+    cost: number | null        // null when the CA didn't charge (e.g. domain already present)
+    currency: string | null
+    orderNumber: string | null // null for quotes
+}
+
+export interface CaAddDomainResult extends CaCharge {
+    alreadyPresent: boolean
+}
+
+export interface CaOrder {
+    orderNumber: string
+    certificateId: string | null
+    serialNumber: string | null
+    validNotBefore: string | null
+    validNotAfter: string | null
+    statusCode: number
+    statusDesc: string
+    issued: boolean
+}
+
+export interface CaDomain {
+    domainName: string
+    orderNumber: string | null
+    expiryDate: string | null
+}
+
+export interface CaProvider {
+    readonly name: CaProviderName
+
+    /**
+     * Whether the CA keeps its own per-account domain list. Sectigo does;
+     * plain ACME CAs authorize each order by challenge, so adding a domain
+     * can't fail upstream and there is nothing to list.
+     */
+    readonly tracksDomains: boolean
+
+    registerAccount(request: {
+        serverUrl: string
+        years: 1 | 2 | 3
+        ovAnchorOrderNumber?: string  // OV only
+    }): Promise<CaResult<{ account: CaRegisteredAccount }>>
+
+    addDomain(request: {
+        accountId: string
+        domainName: string
+        quoteOnly?: boolean
+        ovAnchorOrderNumber?: string  // OV only
+    }): Promise<CaResult<CaAddDomainResult>>
+
+    removeDomain(request: { accountId: string; domainName: string }): Promise<CaResult>
+
+    extend(request: {
+        accountId: string
+        years: 1 | 2 | 3
+        quoteOnly?: boolean
+    }): Promise<CaResult<CaCharge>>
+
+    getLastOrder(request: { accountId: string; domainName: string }): Promise<CaResult<{ order: CaOrder | null }>>
+
+    setAccountStatus(request: { accountId: string; action: CaAccountAction }): Promise<CaResult>
+
+    listDomains(request: { accountId: string }): Promise<CaResult<{ domains: CaDomain[] }>>
+}
+
+export function isCaError<T extends object>(result: CaResult<T>): result is CaError {
+    return result.success === false
+}
@@ -0,0 +1,77 @@
+/**
+ * Certificate History
+ *
+ * Turns the certificates of one domain (every issuance the sync has seen,
+ * see migration 030) into a renewal timeline. Renewals normally overlap
+ * the certificate they replace; when a certificate starts after every
+ * earlier one has expired, or the newest one has expired and nothing
+ * followed it, the uncovered period is reported as a gap.
+ *
+ * Pure and client-safe:
+ *   const timeline = buildRenewalTimeline(certificates)
+ */
+
+import type { Certificate } from './types'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export type TimelineCertificate = Pick<Certificate,
+    'id' | 'order_number' | 'serial_number' | 'valid_not_before' | 'valid_not_after' |
+    'status_code' | 'status_desc' | 'is_latest'>
+
+export type RenewalTimelineEntry =
+    | { kind: 'certificate'; certificate: TimelineCertificate }
+    // `to` is null while the domain is still uncovered
+    | { kind: 'gap'; from: string; to: string | null; days: number }
+
+/**
+ * Certificates and coverage gaps in chronological order.
+ * Certificates without a validity period (not issued yet) come last.
+ */
+export function buildRenewalTimeline<T extends TimelineCertificate>(
+    certificates: T[],
+    now: Date = new Date()
+): RenewalTimelineEntry[] {
+    const dated = certificates
+        .filter(c => c.valid_not_before && c.valid_not_after)
+        .sort((a, b) => Date.parse(a.valid_not_before!) - Date.parse(b.valid_not_before!))
+    const undated = certificates.filter(c => !c.valid_not_before || !c.valid_not_after)
+
+    const timeline: RenewalTimelineEntry[] = []
+    let coveredUntil: number | null = null
+
+    for (const certificate of dated) {
+        const start = Date.parse(certificate.valid_not_before!)
+        if (coveredUntil !== null && start > coveredUntil) {
+            timeline.push(gap(coveredUntil, start))
+        }
+        timeline.push({ kind: 'certificate', certificate })
+        coveredUntil = Math.max(coveredUntil ?? 0, Date.parse(certificate.valid_not_after!))
+    }
+
+    if (coveredUntil !== null && coveredUntil < now.getTime()) {
+        timeline.push(gap(coveredUntil, now.getTime(), true))
+    }
+
+    for (const certificate of undated) {
+        timeline.push({ kind: 'certificate', certificate })
+    }
+
+    return timeline
+}
+
+/**
+ * Number of missed renewals (gaps) in a timeline
+ */
+export function countRenewalGaps(timeline: RenewalTimelineEntry[]): number {
+    return timeline.filter(entry => entry.kind === 'gap').length
+}
+
+function gap(from: number, to: number, ongoing = false): RenewalTimelineEntry {
+    return {
+        kind: 'gap',
+        from: new Date(from).toISOString(),
+        to: ongoing ? null : new Date(to).toISOString(),
+        days: Math.ceil((to - from) / DAY_MS)
+    }
+}
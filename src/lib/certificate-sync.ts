@@ -0,0 +1,210 @@
+/**
+ * Certificate Sync
+ *
+ * Pulls the latest order for a domain from the account's CA (Sectigo
+ * GETLASTORDER) and stores it in `certificates`. Every certificate a
+ * domain was issued keeps its own row (a SAN certificate has one per
+ * domain); the one last reported is flagged is_latest (record_certificate,
+ * migrations 030, 042).
+ * Runs as a SYNC_CERT Sectigo job (manual sync) or from the certificate
+ * sync cron (runCertificateSyncBatch); a thrown error means the sync
+ * should be retried.
+ *
+ * Every attempt is recorded on the domain (last_synced_at, last_sync_error,
+ * sync_failures). The cron claims domains most in need of a sync first:
+ * no certificate, then not valid or close to expiry, then the rest.
+ *
+ * Configuration (env):
+ *   CERT_SYNC_BATCH_SIZE        domains claimed per cron run, default 100
+ *   CERT_SYNC_CONCURRENCY       domains synced in parallel, default 4
+ *   CERT_SYNC_URGENT_DAYS       expiry window that makes a sync urgent, default 30
+ *   CERT_SYNC_URGENT_HOURS      re-sync interval for urgent domains, default 1
+ *   CERT_SYNC_ROUTINE_HOURS     re-sync interval for the rest, default 24
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { getCaProvider, isCaError } from './ca'
+import { SectigoCircuitOpenError } from './sectigo-resilience'
+
+const DEFAULT_BATCH_SIZE = 100
+const DEFAULT_CONCURRENCY = 4
+const DEFAULT_URGENT_DAYS = 30
+const DEFAULT_URGENT_HOURS = 1
+const DEFAULT_ROUTINE_HOURS = 24
+
+export interface CertificateSyncResult {
+    domainId: string
+    domainName: string
+    synced: boolean
+    orderNumber: string | null
+}
+
+interface SyncDomainRow {
+    id: string
+    domain_name: string
+    status: string
+    acme_accounts: {
+        acme_account_id: string | null
+        ca_provider: string
+        sectigo_client: string | null
+    } | null
+}
+
+export interface CertificateSyncBatchResult {
+    claimed: number
+    synced: number
+    noOrder: number
+    failed: number
+    // Set when the run stopped early because Sectigo is unavailable
+    deferredUntil: string | null
+}
+
+/**
+ * Sync the latest certificate order for one domain and record the outcome
+ */
+export async function syncDomainCertificate(
+    supabase: SupabaseClient,
+    domainId: string
+): Promise<CertificateSyncResult> {
+    try {
+        const result = await pullLatestOrder(supabase, domainId)
+        await recordSync(supabase, domainId, null)
+        return result
+    } catch (error) {
+        // The CA was never asked; not the domain's fault
+        if (!(error instanceof SectigoCircuitOpenError)) {
+            await recordSync(supabase, domainId, error instanceof Error ? error.message : 'Unknown error')
+        }
+        throw error
+    }
+}
+
+/**
+ * Claim the next batch of domains due for a sync and work through it
+ * with a bounded number of syncs in flight
+ */
+export async function runCertificateSyncBatch(
+    supabase: SupabaseClient,
+    { limit = envNumber('CERT_SYNC_BATCH_SIZE', DEFAULT_BATCH_SIZE) }: { limit?: number } = {}
+): Promise<CertificateSyncBatchResult> {
+    const { data, error } = await supabase.rpc('claim_certificate_sync_batch', {
+        p_limit: limit,
+        p_urgent_days: envNumber('CERT_SYNC_URGENT_DAYS', DEFAULT_URGENT_DAYS),
+        p_urgent_interval_seconds: envNumber('CERT_SYNC_URGENT_HOURS', DEFAULT_URGENT_HOURS) * 3600,
+        p_routine_interval_seconds: envNumber('CERT_SYNC_ROUTINE_HOURS', DEFAULT_ROUTINE_HOURS) * 3600
+    })
+
+    if (error) {
+        throw new Error(`Failed to claim domains: ${error.message}`)
+    }
+
+    const queue = ((data || []) as { domain_id: string }[]).map(row => row.domain_id)
+    const result: CertificateSyncBatchResult = {
+        claimed: queue.length,
+        synced: 0,
+        noOrder: 0,
+        failed: 0,
+        deferredUntil: null
+    }
+
+    // Each worker takes the next domain until the queue is empty
+    const worker = async () => {
+        // Check the circuit before taking a domain, so none is dropped unsynced
+        while (!result.deferredUntil && queue.length > 0) {
+            const domainId = queue.shift()!
+            try {
+                const synced = await syncDomainCertificate(supabase, domainId)
+                if (synced.synced) result.synced++
+                else result.noOrder++
+            } catch (syncError) {
+                if (syncError instanceof SectigoCircuitOpenError) {
+                    result.deferredUntil = syncError.retryAt.toISOString()
+                    // Give it back so the next run picks it up first
+                    await supabase.from('domains').update({ last_sync_attempt_at: null }).eq('id', domainId)
+                    return
+                }
+                result.failed++
+            }
+        }
+    }
+
+    const concurrency = Math.max(1, envNumber('CERT_SYNC_CONCURRENCY', DEFAULT_CONCURRENCY))
+    await Promise.all(Array.from({ length: Math.min(concurrency, queue.length) }, worker))
+
+    // Domains claimed but not started because the run stopped early
+    if (queue.length > 0) {
+        await supabase.from('domains').update({ last_sync_attempt_at: null }).in('id', queue)
+    }
+
+    return result
+}
+
+async function pullLatestOrder(
+    supabase: SupabaseClient,
+    domainId: string
+): Promise<CertificateSyncResult> {
+    const { data } = await supabase
+        .from('domains')
+        .select('id, domain_name, status, acme_accounts(acme_account_id, ca_provider, sectigo_client)')
+        .eq('id', domainId)
+        .single()
+
+    const domain = data as unknown as SyncDomainRow | null
+    if (!domain) {
+        throw new Error('Domain not found')
+    }
+
+    const acmeAccountId = domain.acme_accounts?.acme_account_id
+    if (!acmeAccountId || domain.status !== 'active') {
+        return { domainId, domainName: domain.domain_name, synced: false, orderNumber: null }
+    }
+
+    const response = await getCaProvider(domain.acme_accounts!).getLastOrder({
+        accountId: acmeAccountId,
+        domainName: domain.domain_name
+    })
+
+    if (isCaError(response)) {
+        throw new Error(`GETLASTORDER failed: ${response.errorMessage}`)
+    }
+
+    // No order yet (certificate not issued, or a CA that can't report orders)
+    const order = response.order
+    if (!order) {
+        return { domainId, domainName: domain.domain_name, synced: false, orderNumber: null }
+    }
+
+    const orderNumber = order.orderNumber
+
+    const { error: recordError } = await supabase.rpc('record_certificate', {
+        p_domain_id: domain.id,
+        p_order_number: orderNumber,
+        p_certificate_id: order.certificateId,
+        p_serial_number: order.serialNumber,
+        p_valid_not_before: order.validNotBefore,
+        p_valid_not_after: order.validNotAfter,
+        p_status_code: order.statusCode,
+        p_status_desc: order.statusDesc
+    })
+
+    if (recordError) {
+        throw new Error(`Failed to save certificate: ${recordError.message}`)
+    }
+
+    return { domainId, domainName: domain.domain_name, synced: true, orderNumber }
+}
+
+async function recordSync(supabase: SupabaseClient, domainId: string, error: string | null): Promise<void> {
+    const { error: recordError } = await supabase.rpc('record_certificate_sync', {
+        p_domain_id: domainId,
+        p_error: error
+    })
+    if (recordError) {
+        console.error(`[Certificate Sync] Failed to record sync for ${domainId}:`, recordError.message)
+    }
+}
+
+function envNumber(name: string, fallback: number): number {
+    const configured = Number(process.env[name])
+    return Number.isFinite(configured) && configured > 0 ? configured : fallback
+}
@@ -0,0 +1,666 @@
+/**
+ * Domain Provisioning Orchestrator
+ *
+ * Server-side add-domain saga, one provisioning item per domain:
+ * - PHASE 1: RESERVE  - pending domain + pending_api transaction (RPC, atomic)
+ * - PHASE 2: EXECUTE  - ADDDOMAIN at the account's CA, order number stored on the item
+ * - PHASE 3: COMMIT   - domain active + transaction success (RPC, atomic)
+ *            ROLLBACK - domain failed + transaction failed (RPC, atomic)
+ *
+ * Each step is recorded in `provisioning_items`, so running the same job
+ * again resumes where it stopped. Re-executing an item whose ADDDOMAIN
+ * outcome was lost is safe: "domain already present" is treated as
+ * success by every CA adapter.
+ *
+ * Before PHASE 1 every domain is quoted with ADDDOMAIN quoteOnly; the job
+ * is refused if the CA's cost is outside the tolerance (upstream-quote.ts).
+ *
+ * OV accounts send the client's valid organization anchor with every
+ * ADDDOMAIN; without one the job is refused, and items still to execute
+ * roll back if the anchor lapsed before the job ran.
+ *
+ * Each item's ADDDOMAIN runs under the idempotency key of its transaction
+ * (add_domain:<transaction_id>, shared with /api/domains/add).
+ *
+ * Jobs and items are written with the service-role client only; partners
+ * can read their own rows (migration 018).
+ *
+ * Usage:
+ *   const created = await createProvisioningJob(admin, { partnerId, accountId, domains })
+ *   const result = await runProvisioningJob(admin, created.jobId, { actorId })
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { getCaProvider, isCaError, type CaAddDomainResult, type CaProvider } from './ca'
+import { withSectigoCallContext } from './sectigo-journal'
+import { checkCreditLimit, getDomainPrice, getPartnerTierPricing } from './billing'
+import { quoteUpstreamCosts, type QuoteSummary } from './upstream-quote'
+import { transitionSubscription } from './subscription-lifecycle'
+import { resolveOvAnchor } from './organization-anchors'
+import { runIdempotent, transactionIdempotencyKey } from './idempotency'
+
+// Upper bound per submission to keep a single request within serverless limits
+export const MAX_DOMAINS_PER_JOB = 50
+
+const DOMAIN_PATTERN = /^(\*\.)?([a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?\.)+[a-z]{2,63}$/
+
+export type ProvisioningStep = 'pending' | 'reserved' | 'executed' | 'committed' | 'rolled_back'
+export type ProvisioningJobStatus = 'pending' | 'running' | 'completed' | 'partial' | 'failed'
+
+export interface ProvisioningItemResult {
+    itemId: string
+    domain: string
+    step: ProvisioningStep
+    success: boolean
+    domainId: string | null
+    transactionId: string | null
+    orderNumber: string | null
+    error: string | null
+}
+
+export interface ProvisioningJobResult {
+    jobId: string
+    status: ProvisioningJobStatus
+    results: ProvisioningItemResult[]
+    account: {
+        status: string
+        start_date: string | null
+        end_date: string | null
+    } | null
+}
+
+interface ProvisioningItemRow {
+    id: string
+    partner_id: string
+    domain_name: string
+    step: ProvisioningStep
+    domain_id: string | null
+    transaction_id: string | null
+    order_number: string | null
+    attempts: number
+    error: string | null
+    price: number
+}
+
+interface AccountRow {
+    id: string
+    client_id: string
+    acme_account_id: string | null
+    ca_provider: string
+    sectigo_client: string | null
+    certificate_type: string
+    status: string
+    subscription_years: number
+    start_date: string | null
+    end_date: string | null
+    clients: { partner_id: string }
+}
+
+/**
+ * Normalize and validate domains from user input
+ */
+export function parseDomainList(domains: string[]): {
+    valid: { domain: string; type: 'single' | 'wildcard' }[]
+    invalid: string[]
+} {
+    const seen = new Set<string>()
+    const valid: { domain: string; type: 'single' | 'wildcard' }[] = []
+    const invalid: string[] = []
+
+    for (const raw of domains) {
+        const domain = raw.trim().toLowerCase()
+        if (!domain || seen.has(domain)) continue
+        seen.add(domain)
+
+        if (!DOMAIN_PATTERN.test(domain)) {
+            invalid.push(domain)
+            continue
+        }
+
+        valid.push({ domain, type: domain.startsWith('*.') ? 'wildcard' : 'single' })
+    }
+
+    return { valid, invalid }
+}
+
+type PrepareResult =
+    | {
+        success: true
+        account: AccountRow
+        acmeAccountId: string
+        ovAnchorOrderNumber: string | null
+        items: PreparedItem[]
+        totalAmount: number
+    }
+    | { success: false; status: number; error: string; details?: Record<string, unknown> }
+
+interface PreparedItem {
+    domain: string
+    type: 'single' | 'wildcard'
+    price: number
+}
+
+/**
+ * Ownership, OV anchor, domain validation, duplicate check and server-side
+ * pricing shared by quotes and job creation
+ */
+async function prepareItems(
+    supabase: SupabaseClient,
+    { partnerId, accountId, domains }: { partnerId: string; accountId: string; domains: string[] }
+): Promise<PrepareResult> {
+    const account = await loadAccount(supabase, accountId)
+
+    if (!account) {
+        return { success: false, status: 404, error: 'Account not found' }
+    }
+
+    if (account.clients.partner_id !== partnerId) {
+        return { success: false, status: 403, error: 'Access denied' }
+    }
+
+    if (account.status === 'suspended' || account.status === 'terminated') {
+        return { success: false, status: 409, error: `Cannot add domains to a ${account.status} subscription` }
+    }
+
+    if (!account.acme_account_id) {
+        return { success: false, status: 400, error: 'Account has no CA account ID' }
+    }
+
+    const anchor = await resolveOvAnchor(supabase, {
+        clientId: account.client_id,
+        certificateType: account.certificate_type
+    })
+    if (!anchor.ok) {
+        return { success: false, status: 409, error: anchor.error }
+    }
+
+    const { valid, invalid } = parseDomainList(domains)
+
+    if (invalid.length > 0) {
+        return { success: false, status: 400, error: 'Invalid domain names', details: { invalid } }
+    }
+
+    if (valid.length === 0) {
+        return { success: false, status: 400, error: 'No domains to add' }
+    }
+
+    if (valid.length > MAX_DOMAINS_PER_JOB) {
+        return { success: false, status: 400, error: `At most ${MAX_DOMAINS_PER_JOB} domains can be added at once` }
+    }
+
+    // Reject domains already active (or being added) on this account
+    const { data: existing } = await supabase
+        .from('domains')
+        .select('domain_name')
+        .eq('acme_account_id', accountId)
+        .in('status', ['active', 'pending'])
+        .in('domain_name', valid.map(d => d.domain))
+
+    if (existing && existing.length > 0) {
+        return {
+            success: false,
+            status: 409,
+            error: 'Some domains already exist on this subscription',
+            details: { duplicates: existing.map(d => d.domain_name) }
+        }
+    }
+
+    // Server-side pricing (never trust prices from the browser)
+    const pricing = await getPartnerTierPricing(supabase, partnerId)
+    const items = valid.map(d => ({
+        ...d,
+        price: getDomainPrice(pricing, account.certificate_type, d.type)
+    }))
+    const totalAmount = items.reduce((sum, d) => sum + d.price, 0)
+
+    return {
+        success: true,
+        account,
+        acmeAccountId: account.acme_account_id,
+        ovAnchorOrderNumber: anchor.anchor?.ov_anchor_order_number ?? null,
+        items,
+        totalAmount
+    }
+}
+
+/**
+ * Quote domains with the CA (ADDDOMAIN quoteOnly) without reserving anything
+ */
+export async function quoteProvisioning(
+    supabase: SupabaseClient,
+    params: { partnerId: string; accountId: string; domains: string[] }
+): Promise<
+    | { success: true; quote: QuoteSummary }
+    | { success: false; status: number; error: string; details?: Record<string, unknown> }
+> {
+    const prepared = await prepareItems(supabase, params)
+    if (!prepared.success) {
+        return prepared
+    }
+
+    const quote = await quoteUpstreamCosts(
+        getCaProvider(prepared.account),
+        prepared.acmeAccountId,
+        prepared.account.certificate_type,
+        prepared.items,
+        prepared.ovAnchorOrderNumber
+    )
+
+    return { success: true, quote }
+}
+
+/**
+ * Create a provisioning job after ownership, pricing, upstream cost and credit checks
+ * (service-role client)
+ */
+export async function createProvisioningJob(
+    supabase: SupabaseClient,
+    { partnerId, accountId, domains }: { partnerId: string; accountId: string; domains: string[] }
+): Promise<
+    | { success: true; jobId: string; totalAmount: number; domains: string[] }
+    | { success: false; status: number; error: string; details?: Record<string, unknown> }
+> {
+    const prepared = await prepareItems(supabase, { partnerId, accountId, domains })
+    if (!prepared.success) {
+        return prepared
+    }
+
+    const { account, acmeAccountId, ovAnchorOrderNumber, items, totalAmount } = prepared
+
+    // Re-quote server-side: the browser's quote may be stale or skipped
+    const quote = await quoteUpstreamCosts(
+        getCaProvider(account),
+        acmeAccountId,
+        account.certificate_type,
+        items,
+        ovAnchorOrderNumber
+    )
+    if (quote.blocked) {
+        console.warn('[Provisioning] Upstream cost check failed:', quote.quotes.filter(q => !q.withinTolerance))
+        return {
+            success: false,
+            status: 409,
+            error: 'Pricing could not be confirmed with the CA for some domains',
+            details: { blocked: quote.quotes.filter(q => !q.withinTolerance).map(q => q.domain) }
+        }
+    }
+
+    const credit = await checkCreditLimit(supabase, partnerId, totalAmount)
+    if (!credit.allowed) {
+        return {
+            success: false,
+            status: 402,
+            error: 'Insufficient credit limit',
+            details: { required: credit.required, available: credit.availableLimit }
+        }
+    }
+
+    const { data: job, error: jobError } = await supabase
+        .from('provisioning_jobs')
+        .insert({
+            partner_id: partnerId,
+            acme_account_id: accountId,
+            status: 'pending',
+            total_amount: totalAmount
+        })
+        .select('id')
+        .single()
+
+    if (jobError || !job) {
+        console.error('[Provisioning] Failed to create job:', jobError)
+        return { success: false, status: 500, error: 'Failed to create provisioning job' }
+    }
+
+    const { error: itemsError } = await supabase
+        .from('provisioning_items')
+        .insert(items.map(item => ({
+            job_id: job.id,
+            partner_id: partnerId,
+            domain_name: item.domain,
+            domain_type: item.type,
+            price: item.price
+        })))
+
+    if (itemsError) {
+        console.error('[Provisioning] Failed to create items:', itemsError)
+        await supabase.from('provisioning_jobs').update({ status: 'failed' }).eq('id', job.id)
+        return { success: false, status: 500, error: 'Failed to create provisioning items' }
+    }
+
+    return { success: true, jobId: job.id, totalAmount, domains: items.map(item => item.domain) }
+}
+
+/**
+ * Run (or resume) a provisioning job
+ */
+export async function runProvisioningJob(
+    supabase: SupabaseClient,
+    jobId: string,
+    { actorId }: { actorId: string | null }
+): Promise<ProvisioningJobResult | null> {
+    const { data: job } = await supabase
+        .from('provisioning_jobs')
+        .select('id, acme_account_id, status')
+        .eq('id', jobId)
+        .single()
+
+    if (!job) return null
+
+    const account = await loadAccount(supabase, job.acme_account_id)
+    if (!account) return null
+
+    await supabase.from('provisioning_jobs').update({ status: 'running' }).eq('id', jobId)
+
+    const items = await loadItems(supabase, jobId)
+    const ca = getCaProvider(account)
+
+    // Resolved once per run: the anchor may have lapsed since the job was created
+    const anchor = await resolveOvAnchor(supabase, {
+        clientId: account.client_id,
+        certificateType: account.certificate_type
+    })
+
+    for (const item of items) {
+        try {
+            await runItem(supabase, item, account, ca, anchor, actorId)
+        } catch (error) {
+            // Leave the item in its last recorded step so the job can be resumed
+            const message = error instanceof Error ? error.message : 'Unknown error'
+            console.error(`[Provisioning] Item ${item.domain_name} interrupted:`, message)
+            await supabase.from('provisioning_items').update({ error: message }).eq('id', item.id)
+        }
+    }
+
+    const finalItems = await loadItems(supabase, jobId)
+    const committed = finalItems.filter(i => i.step === 'committed')
+    const settled = finalItems.every(i => i.step === 'committed' || i.step === 'rolled_back')
+
+    const status: ProvisioningJobStatus = !settled
+        ? 'running'
+        : committed.length === finalItems.length
+            ? 'completed'
+            : committed.length > 0
+                ? 'partial'
+                : 'failed'
+
+    await supabase
+        .from('provisioning_jobs')
+        .update({
+            status,
+            ...(settled && { completed_at: new Date().toISOString() })
+        })
+        .eq('id', jobId)
+
+    const accountState = committed.length > 0
+        ? await activateAccountIfNeeded(supabase, account, committed[0].domain_name, actorId)
+        : { status: account.status, start_date: account.start_date, end_date: account.end_date }
+
+    return {
+        jobId,
+        status,
+        results: finalItems.map(toResult),
+        account: accountState
+    }
+}
+
+/**
+ * Load a job with its per-domain results
+ */
+export async function getProvisioningJob(
+    supabase: SupabaseClient,
+    jobId: string
+): Promise<{ jobId: string; status: ProvisioningJobStatus; acmeAccountId: string; partnerId: string; results: ProvisioningItemResult[] } | null> {
+    const { data: job } = await supabase
+        .from('provisioning_jobs')
+        .select('id, status, acme_account_id, partner_id')
+        .eq('id', jobId)
+        .single()
+
+    if (!job) return null
+
+    const items = await loadItems(supabase, jobId)
+    return {
+        jobId: job.id,
+        status: job.status,
+        acmeAccountId: job.acme_account_id,
+        partnerId: job.partner_id,
+        results: items.map(toResult)
+    }
+}
+
+// ============================================
+// Saga Steps
+// ============================================
+
+async function runItem(
+    supabase: SupabaseClient,
+    item: ProvisioningItemRow,
+    account: AccountRow,
+    ca: CaProvider,
+    anchor: Awaited<ReturnType<typeof resolveOvAnchor>>,
+    actorId: string | null
+): Promise<void> {
+    let step = item.step
+    let transactionId = item.transaction_id
+
+    // PHASE 1: RESERVE
+    if (step === 'pending') {
+        const { data: reserved, error } = await supabase.rpc('reserve_provisioning_item', { p_item_id: item.id })
+        if (error) {
+            throw new Error(`Reserve failed: ${error.message}`)
+        }
+        transactionId = (reserved as { transaction_id: string | null }[] | null)?.[0]?.transaction_id ?? null
+        step = 'reserved'
+    }
+
+    // PHASE 2: EXECUTE
+    if (step === 'reserved') {
+        await supabase
+            .from('provisioning_items')
+            .update({ attempts: item.attempts + 1 })
+            .eq('id', item.id)
+
+        if (!account.acme_account_id) {
+            await rollback(supabase, item.id, 'Subscription has no CA account ID')
+            return
+        }
+
+        if (!anchor.ok) {
+            await rollback(supabase, item.id, anchor.error)
+            return
+        }
+        const ovAnchorOrderNumber = anchor.anchor?.ov_anchor_order_number
+
+        if (!transactionId) {
+            throw new Error('Reserved item has no transaction')
+        }
+
+        // A thrown error (timeout, network, retries exhausted) leaves the outcome
+        // unknown: the CA may have added and billed the domain. The item stays
+        // reserved and the error propagates; the resumed run treats "already
+        // present" as success. Only a CA error response rolls back.
+        // One ADDDOMAIN per transaction, shared with /api/domains/add
+        const acmeAccountID = account.acme_account_id
+        const executed = await runIdempotent(supabase, {
+            key: transactionIdempotencyKey('add_domain', transactionId),
+            operation: 'add_domain',
+            partnerId: item.partner_id,
+            transactionId,
+            requestBody: { acmeAccountID, domainName: item.domain_name, transactionId }
+        }, async () => {
+            const response = await withSectigoCallContext({ transactionId }, () =>
+                ca.addDomain({
+                    accountId: acmeAccountID,
+                    domainName: item.domain_name,
+                    ...(ovAnchorOrderNumber && { ovAnchorOrderNumber })
+                })
+            )
+
+            if (isCaError(response)) {
+                return { status: 400, body: { success: false, error: response.errorMessage || 'Unknown error' } }
+            }
+            return { status: 200, body: { success: true, data: response } }
+        })
+
+        // 409/422: another request holds this transaction's key; leave the item reserved
+        if (executed.status !== 200 && executed.status !== 400) {
+            throw new Error((executed.body as { error?: string }).error || `ADDDOMAIN not run (HTTP ${executed.status})`)
+        }
+
+        const outcome = executed.body as
+            | { success: true; data: CaAddDomainResult }
+            | { success: false; error: string }
+
+        if (!outcome.success) {
+            await rollback(supabase, item.id, outcome.error)
+            return
+        }
+
+        const orderNumber = outcome.data.orderNumber
+        const upstreamCost = outcome.data.orderNumber ? outcome.data.cost : null
+
+        const { error: executeError } = await supabase
+            .from('provisioning_items')
+            .update({ step: 'executed', order_number: orderNumber, upstream_cost: upstreamCost })
+            .eq('id', item.id)
+
+        if (executeError) {
+            throw new Error(`Failed to record ADDDOMAIN result: ${executeError.message}`)
+        }
+        step = 'executed'
+    }
+
+    // PHASE 3: COMMIT
+    if (step === 'executed') {
+        const { error } = await supabase.rpc('commit_provisioning_item', { p_item_id: item.id })
+        if (error) {
+            throw new Error(`Commit failed: ${error.message}`)
+        }
+
+        const { data: committed } = await supabase
+            .from('provisioning_items')
+            .select('domain_id, order_number')
+            .eq('id', item.id)
+            .single()
+
+        await supabase.from('audit_logs').insert({
+            actor_id: actorId,
+            action: 'add_domain',
+            target_type: 'domain',
+            target_id: committed?.domain_id || item.domain_id,
+            details: {
+                domain_name: item.domain_name,
+                price: Number(item.price),
+                sectigo_order_number: committed?.order_number || null
+            }
+        })
+    }
+}
+
+async function rollback(supabase: SupabaseClient, itemId: string, message: string): Promise<void> {
+    const { error } = await supabase.rpc('rollback_provisioning_item', {
+        p_item_id: itemId,
+        p_error: message
+    })
+    if (error) {
+        throw new Error(`Rollback failed: ${error.message}`)
+    }
+}
+
+/**
+ * ACCOUNT ACTIVATION: First successful domain on a pending_start or inactive
+ * account starts the billing cycle.
+ */
+async function activateAccountIfNeeded(
+    supabase: SupabaseClient,
+    account: AccountRow,
+    triggeredByDomain: string,
+    actorId: string | null
+): Promise<{ status: string; start_date: string | null; end_date: string | null }> {
+    const current = { status: account.status, start_date: account.start_date, end_date: account.end_date }
+
+    if (account.status !== 'pending_start' && account.status !== 'inactive') {
+        return current
+    }
+
+    const startDate = new Date()
+    const endDate = new Date(startDate)
+    endDate.setFullYear(endDate.getFullYear() + (account.subscription_years || 1))
+
+    const result = await transitionSubscription(supabase, {
+        account,
+        to: 'active',
+        action: account.status === 'inactive' ? 'account_reactivated' : 'account_activated',
+        actorId,
+        changes: {
+            start_date: startDate.toISOString(),
+            end_date: endDate.toISOString()
+        },
+        details: {
+            previous_start_date: account.start_date,
+            previous_end_date: account.end_date,
+            new_start_date: startDate.toISOString(),
+            new_end_date: endDate.toISOString(),
+            triggered_by_domain: triggeredByDomain,
+            subscription_years: account.subscription_years || 1
+        }
+    })
+
+    if (!result.ok) {
+        console.error('[Provisioning] Failed to activate account:', result.error)
+        return current
+    }
+
+    return { status: 'active', start_date: startDate.toISOString(), end_date: endDate.toISOString() }
+}
+
+// ============================================
+// Data Helpers
+// ============================================
+
+async function loadAccount(supabase: SupabaseClient, accountId: string): Promise<AccountRow | null> {
+    const { data } = await supabase
+        .from('acme_accounts')
+        .select(`
+            id,
+            client_id,
+            acme_account_id,
+            ca_provider,
+            sectigo_client,
+            certificate_type,
+            status,
+            subscription_years,
+            start_date,
+            end_date,
+            clients!inner (
+                partner_id
+            )
+        `)
+        .eq('id', accountId)
+        .single()
+
+    return data as unknown as AccountRow | null
+}
+
+async function loadItems(supabase: SupabaseClient, jobId: string): Promise<ProvisioningItemRow[]> {
+    const { data } = await supabase
+        .from('provisioning_items')
+        .select('id, partner_id, domain_name, step, domain_id, transaction_id, order_number, attempts, error, price')
+        .eq('job_id', jobId)
+        .order('created_at', { ascending: true })
+
+    return (data || []) as ProvisioningItemRow[]
+}
+
+function toResult(item: ProvisioningItemRow): ProvisioningItemResult {
+    return {
+        itemId: item.id,
+        domain: item.domain_name,
+        step: item.step,
+        success: item.step === 'committed',
+        domainId: item.domain_id,
+        transactionId: item.transaction_id,
+        orderNumber: item.order_number,
+        error: item.error
+    }
+}
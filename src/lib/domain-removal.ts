@@ -0,0 +1,528 @@
+/**
+ * Domain Removal Flow
+ *
+ * Owns the whole removal of a domain from an ACME account:
+ * 1. Ownership check (domain → account → client → partner)
+ * 2. REMOVEDOMAIN at the account's CA
+ * 3. Local soft delete (status 'removed')
+ * 4. Refund transaction (within 30-day window)
+ * 5. Audit log + account lifecycle (inactive when no domains left)
+ *
+ * Progress is stored in `domain_removals` so a failed or interrupted
+ * removal resumes from the last completed step when retried.
+ *
+ * Usage:
+ *   const result = await removeDomain(supabase, { domainId, actorId: user.id })
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { getCaProvider, isCaError, type CaProvider } from './ca'
+import { withSectigoCallContext } from './sectigo-journal'
+import { isDomainNotFoundError } from './sectigo-error-handler'
+import { transitionSubscription } from './subscription-lifecycle'
+
+// Refunds are only granted within this many days of the domain being added
+export const REFUND_WINDOW_DAYS = 30
+
+export type DomainRemovalStep = 'requested' | 'upstream_removed' | 'domain_removed' | 'completed'
+
+export type DomainRemovalResult =
+    | {
+        success: true
+        removalId: string
+        step: 'completed'
+        refunded: boolean
+        refundAmount: number
+        refundTransactionId: string | null
+        accountStatus: string | null
+    }
+    | {
+        success: false
+        status: number
+        error: string
+        step?: DomainRemovalStep
+    }
+
+interface DomainRemovalRow {
+    id: string
+    domain_id: string
+    partner_id: string
+    acme_account_id: string | null
+    step: DomainRemovalStep
+    is_refundable: boolean
+    refund_amount: number
+    original_transaction_id: string | null
+    refund_transaction_id: string | null
+    attempts: number
+}
+
+interface DomainRecord {
+    id: string
+    domain_name: string
+    status: string
+    added_at: string
+    price_charged: number
+    acme_account_id: string
+    acme_accounts: {
+        id: string
+        acme_account_id: string | null
+        ca_provider: string
+        sectigo_client: string | null
+        status: string
+        start_date: string | null
+        end_date: string | null
+        clients: { partner_id: string }
+    }
+}
+
+/**
+ * Remove a domain (idempotent, resumable)
+ */
+export async function removeDomain(
+    supabase: SupabaseClient,
+    { domainId, actorId, actorLabel }: { domainId: string; actorId: string; actorLabel?: string }
+): Promise<DomainRemovalResult> {
+    // ============================================================
+    // OWNERSHIP: Domain must belong to one of the actor's clients
+    // ============================================================
+    const { data: domainData, error: domainError } = await supabase
+        .from('domains')
+        .select(`
+            id,
+            domain_name,
+            status,
+            added_at,
+            price_charged,
+            acme_account_id,
+            acme_accounts!inner (
+                id,
+                acme_account_id,
+                ca_provider,
+                sectigo_client,
+                status,
+                start_date,
+                end_date,
+                clients!inner (
+                    partner_id
+                )
+            )
+        `)
+        .eq('id', domainId)
+        .single()
+
+    if (domainError || !domainData) {
+        return { success: false, status: 404, error: 'Domain not found' }
+    }
+
+    const domain = domainData as unknown as DomainRecord
+
+    if (domain.acme_accounts.clients.partner_id !== actorId) {
+        return { success: false, status: 403, error: 'Access denied' }
+    }
+
+    // ============================================================
+    // RESUME OR START: One removal row per domain
+    // ============================================================
+    let removal = await loadRemoval(supabase, domainId)
+
+    if (!removal) {
+        if (domain.status !== 'active') {
+            return { success: false, status: 409, error: `Domain is not active (status: ${domain.status})` }
+        }
+
+        const started = await startRemoval(supabase, domain, actorId)
+        if (!started.success) return started
+        removal = started.removal
+    }
+
+    if (removal.step === 'completed') {
+        return completedResult(removal, domain.acme_accounts.status)
+    }
+
+    await supabase
+        .from('domain_removals')
+        .update({ attempts: removal.attempts + 1, last_error: null })
+        .eq('id', removal.id)
+
+    // ============================================================
+    // STEP 1: REMOVEDOMAIN at the CA
+    // ============================================================
+    if (removal.step === 'requested') {
+        const sectigoAccountId = domain.acme_accounts.acme_account_id
+
+        if (sectigoAccountId) {
+            const upstreamError = await withSectigoCallContext({ transactionId: removal.original_transaction_id }, () =>
+                removeUpstream(getCaProvider(domain.acme_accounts), sectigoAccountId, domain.domain_name)
+            )
+            if (upstreamError) {
+                await failStep(supabase, removal.id, upstreamError)
+                return {
+                    success: false,
+                    status: 502,
+                    error: `CA REMOVEDOMAIN failed: ${upstreamError}`,
+                    step: removal.step
+                }
+            }
+        }
+
+        removal = await advance(supabase, removal, 'upstream_removed')
+    }
+
+    // ============================================================
+    // STEP 2: Soft delete domain (mark as removed with timestamp)
+    // ============================================================
+    if (removal.step === 'upstream_removed') {
+        const { error: updateError } = await supabase
+            .from('domains')
+            .update({
+                status: 'removed',
+                removed_at: new Date().toISOString()
+            })
+            .eq('id', domain.id)
+
+        if (updateError) {
+            await failStep(supabase, removal.id, updateError.message)
+            return { success: false, status: 500, error: 'Failed to update domain status', step: removal.step }
+        }
+
+        removal = await advance(supabase, removal, 'domain_removed')
+    }
+
+    // ============================================================
+    // STEP 3: Refund, audit log and account lifecycle
+    // ============================================================
+    if (removal.step === 'domain_removed') {
+        let refundTxId = removal.refund_transaction_id
+
+        if (removal.is_refundable && removal.refund_amount > 0 && !refundTxId) {
+            const refund = await createRefund(supabase, removal, domain)
+            if (!refund.success) {
+                await failStep(supabase, removal.id, refund.error)
+                await supabase.from('audit_logs').insert({
+                    actor_id: actorId,
+                    action: 'refund_failed',
+                    target_type: 'transaction',
+                    target_id: removal.original_transaction_id,
+                    details: {
+                        error: refund.error,
+                        domain_name: domain.domain_name,
+                        amount: removal.refund_amount
+                    }
+                })
+                return { success: false, status: 500, error: 'Failed to create refund transaction', step: removal.step }
+            }
+            refundTxId = refund.refundTransactionId
+        }
+
+        const addedAt = new Date(domain.added_at)
+        const daysSinceAdded = Math.floor((Date.now() - addedAt.getTime()) / (1000 * 60 * 60 * 24))
+
+        await supabase.from('audit_logs').insert({
+            actor_id: actorId,
+            action: removal.is_refundable ? 'refund_domain' : 'remove_domain',
+            target_type: 'domain',
+            target_id: domain.id,
+            details: {
+                domain_name: domain.domain_name,
+                days_since_added: daysSinceAdded,
+                refunded: removal.is_refundable,
+                refund_amount: removal.is_refundable ? removal.refund_amount : 0,
+                original_transaction_id: removal.original_transaction_id,
+                refund_transaction_id: refundTxId,
+                removal_attempts: removal.attempts + 1,
+                triggered_by: actorLabel || actorId
+            }
+        })
+
+        const accountStatus = await updateAccountLifecycle(supabase, domain, actorId)
+
+        const { error: completeError } = await supabase
+            .from('domain_removals')
+            .update({
+                step: 'completed',
+                refund_transaction_id: refundTxId,
+                completed_at: new Date().toISOString()
+            })
+            .eq('id', removal.id)
+
+        if (completeError) {
+            console.error('[Domain Removal] Failed to mark removal completed:', completeError)
+        }
+
+        return completedResult({ ...removal, refund_transaction_id: refundTxId }, accountStatus)
+    }
+
+    return { success: false, status: 500, error: `Unexpected removal step: ${removal.step}` }
+}
+
+// ============================================
+// Step Helpers
+// ============================================
+
+async function loadRemoval(supabase: SupabaseClient, domainId: string): Promise<DomainRemovalRow | null> {
+    const { data } = await supabase
+        .from('domain_removals')
+        .select('id, domain_id, partner_id, acme_account_id, step, is_refundable, refund_amount, original_transaction_id, refund_transaction_id, attempts')
+        .eq('domain_id', domainId)
+        .maybeSingle()
+
+    return data ? { ...data, refund_amount: Number(data.refund_amount) } as DomainRemovalRow : null
+}
+
+async function startRemoval(
+    supabase: SupabaseClient,
+    domain: DomainRecord,
+    actorId: string
+): Promise<{ success: true; removal: DomainRemovalRow } | { success: false; status: number; error: string }> {
+    // VALIDATION: Find original add_domain transaction
+    const { data: originalTx, error: txFetchError } = await supabase
+        .from('transactions')
+        .select('id, status, amount')
+        .eq('domain_id', domain.id)
+        .eq('type', 'add_domain')
+        .order('created_at', { ascending: false })
+        .limit(1)
+        .maybeSingle()
+
+    if (txFetchError || !originalTx) {
+        return { success: false, status: 409, error: 'Cannot find original add_domain transaction for this domain' }
+    }
+
+    // STATUS VALIDATION: Only successful transactions can be removed/refunded
+    if (originalTx.status !== 'success') {
+        return {
+            success: false,
+            status: 409,
+            error: `Original transaction status is "${originalTx.status}". Only successful transactions can be removed.`
+        }
+    }
+
+    const daysSinceAdded = Math.floor((Date.now() - new Date(domain.added_at).getTime()) / (1000 * 60 * 60 * 24))
+    const isRefundable = daysSinceAdded <= REFUND_WINDOW_DAYS
+
+    const { data, error } = await supabase
+        .from('domain_removals')
+        .insert({
+            domain_id: domain.id,
+            partner_id: actorId,
+            acme_account_id: domain.acme_account_id,
+            step: 'requested',
+            is_refundable: isRefundable,
+            refund_amount: isRefundable ? Number(domain.price_charged) || 0 : 0,
+            original_transaction_id: originalTx.id
+        })
+        .select('id, domain_id, partner_id, acme_account_id, step, is_refundable, refund_amount, original_transaction_id, refund_transaction_id, attempts')
+        .single()
+
+    if (error || !data) {
+        // Unique violation: a concurrent request started the same removal
+        const existing = await loadRemoval(supabase, domain.id)
+        if (existing) return { success: true, removal: existing }
+
+        console.error('[Domain Removal] Failed to start removal:', error)
+        return { success: false, status: 500, error: 'Failed to start domain removal' }
+    }
+
+    return { success: true, removal: { ...data, refund_amount: Number(data.refund_amount) } as DomainRemovalRow }
+}
+
+/**
+ * Call REMOVEDOMAIN at the CA. Returns an error message, or null on success.
+ * A domain the CA no longer knows about counts as removed.
+ */
+async function removeUpstream(
+    ca: CaProvider,
+    acmeAccountID: string,
+    domainName: string
+): Promise<string | null> {
+    try {
+        const response = await ca.removeDomain({ accountId: acmeAccountID, domainName })
+
+        if (isCaError(response)) {
+            if (isDomainNotFoundError(response.errorMessage)) return null
+            return response.errorMessage
+        }
+        return null
+    } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error'
+        if (isDomainNotFoundError(message)) return null
+        return message
+    }
+}
+
+async function createRefund(
+    supabase: SupabaseClient,
+    removal: DomainRemovalRow,
+    domain: DomainRecord
+): Promise<{ success: true; refundTransactionId: string } | { success: false; error: string }> {
+    // DUPLICATE CHECK: A previous attempt may have inserted the refund already
+    const { data: existingRefund } = await supabase
+        .from('transactions')
+        .select('id')
+        .eq('domain_id', domain.id)
+        .eq('type', 'refund')
+        .maybeSingle()
+
+    let refundTxId = existingRefund?.id as string | undefined
+
+    if (!refundTxId) {
+        const { data: originalTx } = await supabase
+            .from('transactions')
+            .select('sectigo_order_number')
+            .eq('id', removal.original_transaction_id)
+            .single()
+
+        const { data: refundTx, error: txError } = await supabase
+            .from('transactions')
+            .insert({
+                partner_id: removal.partner_id,
+                acme_account_id: domain.acme_account_id,
+                domain_id: domain.id,
+                type: 'refund',
+                description: `Refund for removed domain: ${domain.domain_name} (within ${REFUND_WINDOW_DAYS}-day window)`,
+                amount: removal.refund_amount,
+                status: 'success',
+                related_transaction_id: removal.original_transaction_id,  // LINK to original transaction
+                sectigo_order_number: originalTx?.sectigo_order_number || null  // SAME order number for reconciliation
+            })
+            .select('id')
+            .single()
+
+        if (txError || !refundTx) {
+            return { success: false, error: txError?.message || 'Refund insert failed' }
+        }
+        refundTxId = refundTx.id as string
+    }
+
+    // Update original transaction status to 'refunded'
+    await supabase
+        .from('transactions')
+        .update({ status: 'refunded' })
+        .eq('id', removal.original_transaction_id)
+
+    // Update domain with refund transaction link
+    await supabase
+        .from('domains')
+        .update({ refund_transaction_id: refundTxId })
+        .eq('id', domain.id)
+
+    await supabase
+        .from('domain_removals')
+        .update({ refund_transaction_id: refundTxId })
+        .eq('id', removal.id)
+
+    return { success: true, refundTransactionId: refundTxId }
+}
+
+/**
+ * ACME ACCOUNT LIFECYCLE: Reset account to inactive when no active domains remain.
+ * Returns the account status after the check.
+ */
+async function updateAccountLifecycle(
+    supabase: SupabaseClient,
+    domain: DomainRecord,
+    actorId: string
+): Promise<string> {
+    const account = domain.acme_accounts
+
+    const { count: remainingDomains } = await supabase
+        .from('domains')
+        .select('*', { count: 'exact', head: true })
+        .eq('acme_account_id', account.id)
+        .eq('status', 'active')
+
+    if (remainingDomains !== 0 || account.status === 'inactive') {
+        return account.status
+    }
+
+    const result = await transitionSubscription(supabase, {
+        account,
+        to: 'inactive',
+        action: 'account_deactivated',
+        actorId,
+        changes: {
+            start_date: null,
+            end_date: null
+        },
+        details: {
+            reason: 'All domains removed/refunded',
+            previous_start_date: account.start_date,
+            previous_end_date: account.end_date,
+            dates_reset: true,
+            triggered_by_domain: domain.domain_name
+        }
+    })
+
+    if (!result.ok) {
+        console.error('[Domain Removal] Failed to update ACME account status:', result.error)
+        return account.status
+    }
+
+    // ABUSE DETECTION: Check for excessive refund patterns
+    const thirtyDaysAgo = new Date()
+    thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30)
+
+    const { count: recentRefundCount } = await supabase
+        .from('transactions')
+        .select('*', { count: 'exact', head: true })
+        .eq('acme_account_id', account.id)
+        .eq('type', 'refund')
+        .eq('status', 'success')
+        .gte('created_at', thirtyDaysAgo.toISOString())
+
+    if (recentRefundCount && recentRefundCount >= 3) {
+        await supabase.from('audit_logs').insert({
+            actor_id: actorId,
+            action: 'high_risk_refund_pattern',
+            target_type: 'acme_account',
+            target_id: account.id,
+            details: {
+                refund_count_30_days: recentRefundCount,
+                alert_level: 'HIGH',
+                message: 'This account has had 3+ refunds in the last 30 days. Manual review recommended.',
+                account_status: 'inactive'
+            }
+        })
+    }
+
+    return 'inactive'
+}
+
+async function advance(
+    supabase: SupabaseClient,
+    removal: DomainRemovalRow,
+    step: DomainRemovalStep
+): Promise<DomainRemovalRow> {
+    const { error } = await supabase
+        .from('domain_removals')
+        .update({ step })
+        .eq('id', removal.id)
+
+    if (error) {
+        // The step itself succeeded; a retry will safely repeat it
+        console.error(`[Domain Removal] Failed to record step ${step}:`, error)
+    }
+
+    return { ...removal, step }
+}
+
+async function failStep(supabase: SupabaseClient, removalId: string, message: string): Promise<void> {
+    console.error(`[Domain Removal] ${removalId} failed:`, message)
+    await supabase
+        .from('domain_removals')
+        .update({ last_error: message })
+        .eq('id', removalId)
+}
+
+function completedResult(removal: DomainRemovalRow, accountStatus: string | null): DomainRemovalResult {
+    const refunded = removal.is_refundable && !!removal.refund_transaction_id
+    return {
+        success: true,
+        removalId: removal.id,
+        step: 'completed',
+        refunded,
+        refundAmount: refunded ? removal.refund_amount : 0,
+        refundTransactionId: removal.refund_transaction_id,
+        accountStatus
+    }
+}
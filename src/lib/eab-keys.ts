@@ -0,0 +1,190 @@
+/**
+ * EAB HMAC Keys
+ *
+ * EAB HMAC keys are stored envelope-encrypted in
+ * acme_accounts.eab_hmac_key_encrypted (encryptEnvelope, SECRET_BOX_KEY)
+ * and only decrypted for an audited reveal:
+ *
+ *   portal  the owning partner re-enters their password
+ *   link    a one-time link from the subscription created email,
+ *           also behind the password (eab_reveal_tokens, migration 032)
+ *
+ * Accounts created before encryption keep the plaintext in
+ * acme_accounts.eab_hmac_key until encryptLegacyEabKeys() runs; a reveal
+ * encrypts such a key on the way.
+ *
+ * Configuration (env):
+ *   SECRET_BOX_KEY             key that wraps the per-key data keys
+ *   EAB_REVEAL_LINK_HOURS      lifetime of a one-time reveal link, default 72
+ *
+ * Usage (service-role client, after authenticating the caller):
+ *   const sealed = sealEabHmacKey(accountInfo.eabHmacKey)
+ *   const link = await createEabRevealLink(admin, { accountId, partnerId, portalUrl })
+ *   const result = await revealEabHmacKey(admin, { accountId, partnerId })
+ */
+
+import { createHash, randomBytes } from 'crypto'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { decryptEnvelope, encryptEnvelope, isSecretBoxConfigured } from './secret-box'
+
+const DEFAULT_REVEAL_LINK_HOURS = 72
+
+// Accounts encrypted per encryptLegacyEabKeys call
+const LEGACY_BATCH_SIZE = 200
+
+export type EabRevealResult =
+    | { ok: true; accountId: string; eabKeyId: string | null; eabHmacKey: string }
+    | { ok: false; status: 403 | 404 | 410; error: string }
+
+interface EabAccountRow {
+    id: string
+    eab_key_id: string | null
+    eab_hmac_key: string | null
+    eab_hmac_key_encrypted: string | null
+    clients: { partner_id: string }
+}
+
+export function sealEabHmacKey(eabHmacKey: string): string {
+    return encryptEnvelope(eabHmacKey)
+}
+
+/**
+ * One-time reveal link for the partner that owns the account
+ */
+export async function createEabRevealLink(
+    supabase: SupabaseClient,
+    { accountId, partnerId, portalUrl }: { accountId: string; partnerId: string; portalUrl: string }
+): Promise<string> {
+    const token = randomBytes(32).toString('base64url')
+    const hours = Number(process.env.EAB_REVEAL_LINK_HOURS) || DEFAULT_REVEAL_LINK_HOURS
+
+    const { error } = await supabase.from('eab_reveal_tokens').insert({
+        acme_account_id: accountId,
+        partner_id: partnerId,
+        token_hash: hashToken(token),
+        expires_at: new Date(Date.now() + hours * 60 * 60 * 1000).toISOString()
+    })
+
+    if (error) {
+        throw new Error(`Failed to create reveal link: ${error.message}`)
+    }
+
+    return `${portalUrl}/subscriptions/reveal/${token}`
+}
+
+/**
+ * Decrypt the HMAC key of an account owned by the partner, either by
+ * account ID or by consuming a one-time reveal token. The caller must
+ * have re-authenticated the partner; the reveal is audited here.
+ */
+export async function revealEabHmacKey(
+    supabase: SupabaseClient,
+    { partnerId, accountId, token }: { partnerId: string; accountId?: string; token?: string }
+): Promise<EabRevealResult> {
+    let targetAccountId = accountId
+
+    if (token) {
+        // Consume the token; a second use finds nothing to update
+        const { data: used } = await supabase
+            .from('eab_reveal_tokens')
+            .update({ used_at: new Date().toISOString() })
+            .eq('token_hash', hashToken(token))
+            .eq('partner_id', partnerId)
+            .is('used_at', null)
+            .gt('expires_at', new Date().toISOString())
+            .select('acme_account_id')
+            .maybeSingle()
+
+        if (!used) {
+            return { ok: false, status: 410, error: 'This reveal link has expired or was already used' }
+        }
+        targetAccountId = used.acme_account_id
+    }
+
+    if (!targetAccountId) {
+        return { ok: false, status: 404, error: 'Subscription not found' }
+    }
+
+    const { data } = await supabase
+        .from('acme_accounts')
+        .select('id, eab_key_id, eab_hmac_key, eab_hmac_key_encrypted, clients!inner(partner_id)')
+        .eq('id', targetAccountId)
+        .maybeSingle()
+
+    const account = data as unknown as EabAccountRow | null
+    if (!account) {
+        return { ok: false, status: 404, error: 'Subscription not found' }
+    }
+    if (account.clients.partner_id !== partnerId) {
+        return { ok: false, status: 403, error: 'Access denied' }
+    }
+
+    const eabHmacKey = account.eab_hmac_key_encrypted
+        ? decryptEnvelope(account.eab_hmac_key_encrypted)
+        : account.eab_hmac_key
+
+    if (!eabHmacKey) {
+        return { ok: false, status: 404, error: 'This subscription has no EAB HMAC key' }
+    }
+
+    if (!account.eab_hmac_key_encrypted && isSecretBoxConfigured()) {
+        await encryptAccountKey(supabase, account.id, eabHmacKey)
+    }
+
+    await supabase.from('audit_logs').insert({
+        actor_id: partnerId,
+        action: 'reveal_eab_key',
+        target_type: 'acme_account',
+        target_id: account.id,
+        details: { field: 'eab_hmac_key', via: token ? 'link' : 'portal' }
+    })
+
+    return { ok: true, accountId: account.id, eabKeyId: account.eab_key_id, eabHmacKey }
+}
+
+/**
+ * Encrypt plaintext keys left from before encryption (one batch)
+ */
+export async function encryptLegacyEabKeys(supabase: SupabaseClient): Promise<{ encrypted: number; remaining: number }> {
+    const { data, error } = await supabase
+        .from('acme_accounts')
+        .select('id, eab_hmac_key')
+        .not('eab_hmac_key', 'is', null)
+        .limit(LEGACY_BATCH_SIZE)
+
+    if (error) {
+        throw new Error(`Failed to load plaintext EAB keys: ${error.message}`)
+    }
+
+    let encrypted = 0
+    for (const account of data || []) {
+        await encryptAccountKey(supabase, account.id, account.eab_hmac_key)
+        encrypted++
+    }
+
+    return { encrypted, remaining: await countPlaintextEabKeys(supabase) }
+}
+
+export async function countPlaintextEabKeys(supabase: SupabaseClient): Promise<number> {
+    const { count } = await supabase
+        .from('acme_accounts')
+        .select('id', { count: 'exact', head: true })
+        .not('eab_hmac_key', 'is', null)
+
+    return count || 0
+}
+
+async function encryptAccountKey(supabase: SupabaseClient, accountId: string, eabHmacKey: string): Promise<void> {
+    const { error } = await supabase
+        .from('acme_accounts')
+        .update({ eab_hmac_key_encrypted: sealEabHmacKey(eabHmacKey), eab_hmac_key: null })
+        .eq('id', accountId)
+
+    if (error) {
+        throw new Error(`Failed to encrypt EAB key for ${accountId}: ${error.message}`)
+    }
+}
+
+function hashToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex')
+}
@@ -164,7 +164,8 @@ export async function sendSubscriptionCreatedNotification({
     certificateType,
     subscriptionYears,
     eabKeyId,
-    serverUrl
+    serverUrl,
+    revealUrl
 }: {
     to: string
     partnerName: string
@@ -173,6 +174,7 @@ export async function sendSubscriptionCreatedNotification({
     subscriptionYears: number
     eabKeyId: string
     serverUrl: string
+    revealUrl: string  // one-time EAB HMAC key reveal link
 }): Promise<EmailResult> {
     const subject = `[KICA] New Subscription Created - ${subscriptionName}`
 
@@ -227,8 +229,18 @@ export async function sendSubscriptionCreatedNotification({
                 <td style="background: #fffbeb; padding: 8px; border-radius: 4px;">${eabKeyId}</td>
             </tr>
         </table>
-        <p style="margin: 15px 0 0 0; color: #78350f; font-size: 13px;">
-            <strong>Note:</strong> For security, the EAB HMAC Key is only shown in the portal.
+        <p style="margin: 15px 0 10px 0; color: #78350f; font-size: 13px;">
+            <strong>Note:</strong> For security, the EAB HMAC Key is never sent by email.
+            Reveal it once with the link below (you will be asked for your password):
+        </p>
+        <div style="text-align: center; margin: 20px 0 5px 0;">
+            <a href="${revealUrl}" 
+               style="background: #92400e; color: white; padding: 10px 20px; border-radius: 6px; text-decoration: none; font-weight: 600;">
+                Reveal EAB HMAC Key
+            </a>
+        </div>
+        <p style="margin: 0; color: #78350f; font-size: 12px; text-align: center;">
+            The link works once and expires. You can always reveal the key again from the subscription page.
         </p>
     </div>
     
@@ -252,12 +264,14 @@ export async function sendSubscriptionCreatedNotification({
 }
 
 /**
- * Send subscription expiring reminder
+ * Send subscription expiring reminder, or certificate expiring
+ * reminder when domainName is given
  */
 export async function sendExpirationReminder({
     to,
     partnerName,
     subscriptionName,
+    domainName,
     expirationDate,
     daysRemaining,
     portalUrl
@@ -265,12 +279,15 @@ export async function sendExpirationReminder({
     to: string
     partnerName: string
     subscriptionName: string
+    domainName?: string
     expirationDate: string
     daysRemaining: number
     portalUrl: string
 }): Promise<EmailResult> {
     const urgency = daysRemaining <= 7 ? '🚨 URGENT' : daysRemaining <= 14 ? '⚠️ Warning' : '📅 Reminder'
-    const subject = `[KICA] ${urgency}: Subscription Expiring - ${subscriptionName}`
+    const subject = domainName
+        ? `[KICA] ${urgency}: Certificate Expiring - ${domainName}`
+        : `[KICA] ${urgency}: Subscription Expiring - ${subscriptionName}`
 
     const html = `
 <!DOCTYPE html>
@@ -291,14 +308,19 @@ export async function sendExpirationReminder({
         <p style="color: ${daysRemaining <= 7 ? '#b91c1c' : '#92400e'}; margin: 0; font-weight: 600;">days remaining</p>
     </div>
     
+    ${domainName ? `
+    <p>The certificate for <strong>${domainName}</strong> (subscription <strong>${subscriptionName}</strong>) will expire on <strong>${expirationDate}</strong>.</p>
+    
+    <p>Please make sure the ACME client on the server renews it before the expiration date.</p>
+    ` : `
     <p>Your subscription <strong>${subscriptionName}</strong> will expire on <strong>${expirationDate}</strong>.</p>
     
     <p>To ensure uninterrupted certificate issuance, please renew your subscription before the expiration date.</p>
-    
+    `}
     <div style="text-align: center; margin: 30px 0;">
-        <a href="${portalUrl}/subscriptions" 
+        <a href="${domainName ? `${portalUrl}/certificates` : `${portalUrl}/subscriptions`}" 
            style="background: #2d56c2; color: white; padding: 12px 24px; border-radius: 6px; text-decoration: none; font-weight: 600;">
-            Renew Subscription
+            ${domainName ? 'View Certificates' : 'Renew Subscription'}
         </a>
     </div>
     
@@ -372,3 +394,75 @@ export async function sendAccountSuspendedNotification({
 
     return sendEmail({ to, subject, html })
 }
+
+/**
+ * Send the outcome of a transaction that was stuck in flight and has been
+ * settled by the zombie sweeper
+ */
+export async function sendStuckTransactionNotification({
+    to,
+    partnerName,
+    subscriptionName,
+    description,
+    completed,
+    amount,
+    creditReleased,
+    portalUrl
+}: {
+    to: string
+    partnerName: string
+    subscriptionName: string
+    description: string
+    completed: boolean
+    amount: string
+    creditReleased: boolean
+    portalUrl: string
+}): Promise<EmailResult> {
+    const subject = completed
+        ? `[KICA] Request Completed - ${subscriptionName}`
+        : `[KICA] Request Cancelled - ${subscriptionName}`
+
+    const html = `
+<!DOCTYPE html>
+<html>
+<head>
+    <meta charset="utf-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+</head>
+<body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
+    <div style="text-align: center; margin-bottom: 30px;">
+        <h1 style="color: #2d56c2; margin: 0;">KICA CaaS Portal</h1>
+    </div>
+    
+    <p>Dear ${partnerName},</p>
+    
+    <p>A request on your subscription <strong>${subscriptionName}</strong> was interrupted before it could finish. We have checked it with the certificate authority:</p>
+    
+    <div style="background: ${completed ? '#f0fdf4' : '#fef2f2'}; border: 1px solid ${completed ? '#bbf7d0' : '#fecaca'}; border-radius: 8px; padding: 20px; margin: 20px 0;">
+        <h3 style="margin: 0 0 10px 0; color: ${completed ? '#15803d' : '#b91c1c'};">${completed ? '✅ Completed' : '❌ Cancelled'}</h3>
+        <p style="margin: 0;">${description}</p>
+        <p style="margin: 10px 0 0 0; color: #6b7280;">Amount: <strong>${amount}</strong></p>
+    </div>
+    
+    ${completed
+        ? '<p>The request went through and has been billed as usual. No action is needed.</p>'
+        : `<p>The request did not go through and you have not been charged.${creditReleased ? ' The credit reserved for it has been released.' : ''} You can submit it again from the portal.</p>`}
+    
+    <div style="text-align: center; margin: 30px 0;">
+        <a href="${portalUrl}/subscriptions" 
+           style="background: #2d56c2; color: white; padding: 12px 24px; border-radius: 6px; text-decoration: none; font-weight: 600;">
+            View Subscriptions
+        </a>
+    </div>
+    
+    <hr style="border: none; border-top: 1px solid #e5e7eb; margin: 30px 0;">
+    
+    <p style="color: #9ca3af; font-size: 12px; text-align: center;">
+        © ${new Date().getFullYear()} KICA Indonesia. All rights reserved.
+    </p>
+</body>
+</html>
+    `
+
+    return sendEmail({ to, subject, html })
+}
@@ -0,0 +1,299 @@
+/**
+ * Expiry Reminders
+ *
+ * Emails partners when the current certificate of an active domain
+ * (certificates.valid_not_after) or an active subscription
+ * (acme_accounts.end_date) is about to expire. Each reminder offset is
+ * sent once: when an expiry crosses several offsets between runs only
+ * the closest one goes out.
+ *
+ * Reminders go to the partner's contact address (see partner-contacts.ts).
+ *
+ * Partners opt out with billing_preferences.notify_on_expiry and can
+ * snooze certificate reminders per domain (domains.expiry_reminders_snoozed_until).
+ * A snoozed reminder is not recorded, so it goes out once the snooze
+ * ends if the certificate still hasn't been renewed.
+ *
+ * Sent reminders are recorded in expiry_reminders (migration 031); the
+ * row is claimed before the email is sent and released if sending fails,
+ * so overlapping runs never send the same reminder twice.
+ *
+ * Configuration (env):
+ *   EXPIRY_REMINDER_DAYS   comma-separated offsets in days, default 30,7
+ *
+ * Usage (service-role client):
+ *   const summary = await sendExpiryReminders(supabase)
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { sendExpirationReminder } from './email'
+import { loadPartnerEmails } from './partner-contacts'
+
+const DEFAULT_REMINDER_DAYS = [30, 7]
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export type ExpiryReminderKind = 'certificate' | 'subscription'
+
+export interface ExpiryReminderSummary {
+    due: number
+    sent: number
+    alreadySent: number
+    snoozed: number
+    optedOut: number
+    failed: number
+}
+
+interface DueReminder {
+    kind: ExpiryReminderKind
+    targetId: string
+    partnerId: string
+    domainId: string | null
+    domainName: string | null
+    subscriptionName: string
+    expiresAt: string
+    snoozedUntil: string | null
+}
+
+interface CertificateRow {
+    id: string
+    valid_not_after: string
+    domains: {
+        id: string
+        domain_name: string
+        expiry_reminders_snoozed_until: string | null
+        acme_accounts: {
+            account_name: string | null
+            clients: { partner_id: string }
+        }
+    }
+}
+
+interface SubscriptionRow {
+    id: string
+    account_name: string | null
+    end_date: string
+    clients: { partner_id: string }
+}
+
+interface PartnerContact {
+    email: string | null
+    company_name: string | null
+    notifyOnExpiry: boolean
+}
+
+/**
+ * Reminder offsets in days, largest first
+ */
+export function getReminderDays(): number[] {
+    const days = (process.env.EXPIRY_REMINDER_DAYS || '')
+        .split(',')
+        .map(d => parseInt(d.trim(), 10))
+        .filter(d => Number.isFinite(d) && d > 0)
+
+    return [...new Set(days.length > 0 ? days : DEFAULT_REMINDER_DAYS)].sort((a, b) => b - a)
+}
+
+/**
+ * The offset an expiry is currently in, or null when it is further
+ * away than the largest offset (or already expired)
+ */
+export function reminderOffsetFor(expiresAt: string, reminderDays: number[], now: Date = new Date()): number | null {
+    const msRemaining = new Date(expiresAt).getTime() - now.getTime()
+    if (msRemaining <= 0) return null
+
+    const daysRemaining = Math.ceil(msRemaining / DAY_MS)
+    const crossed = reminderDays.filter(offset => daysRemaining <= offset)
+    return crossed.length > 0 ? Math.min(...crossed) : null
+}
+
+/**
+ * Send every certificate and subscription reminder that is due
+ */
+export async function sendExpiryReminders(supabase: SupabaseClient): Promise<ExpiryReminderSummary> {
+    const reminderDays = getReminderDays()
+    const now = new Date()
+    const horizon = new Date(now.getTime() + reminderDays[0] * DAY_MS).toISOString()
+
+    const due = [
+        ...await findCertificateReminders(supabase, now.toISOString(), horizon),
+        ...await findSubscriptionReminders(supabase, now.toISOString(), horizon)
+    ]
+
+    const summary: ExpiryReminderSummary = { due: due.length, sent: 0, alreadySent: 0, snoozed: 0, optedOut: 0, failed: 0 }
+    if (due.length === 0) {
+        return summary
+    }
+
+    const contacts = await loadPartnerContacts(supabase, [...new Set(due.map(r => r.partnerId))])
+
+    for (const reminder of due) {
+        const offset = reminderOffsetFor(reminder.expiresAt, reminderDays, now)
+        if (offset === null) continue
+
+        const contact = contacts.get(reminder.partnerId)
+        if (!contact?.email || !contact.notifyOnExpiry) {
+            summary.optedOut++
+            continue
+        }
+
+        if (reminder.snoozedUntil && new Date(reminder.snoozedUntil) > now) {
+            summary.snoozed++
+            continue
+        }
+
+        try {
+            const outcome = await deliver(supabase, reminder, offset, contact, now)
+            summary[outcome]++
+        } catch (error) {
+            console.error(`[Expiry Reminders] ${reminder.kind} ${reminder.targetId}:`, error)
+            summary.failed++
+        }
+    }
+
+    return summary
+}
+
+// ============================================
+// Due reminders
+// ============================================
+
+async function findCertificateReminders(supabase: SupabaseClient, from: string, to: string): Promise<DueReminder[]> {
+    const { data, error } = await supabase
+        .from('certificates')
+        .select(`
+            id,
+            valid_not_after,
+            domains!inner(
+                id,
+                domain_name,
+                expiry_reminders_snoozed_until,
+                acme_accounts!inner(
+                    account_name,
+                    clients!inner(partner_id)
+                )
+            )
+        `)
+        .eq('is_latest', true)
+        .eq('domains.status', 'active')
+        .gt('valid_not_after', from)
+        .lte('valid_not_after', to)
+
+    if (error) {
+        throw new Error(`Failed to load expiring certificates: ${error.message}`)
+    }
+
+    return ((data || []) as unknown as CertificateRow[]).map(cert => ({
+        kind: 'certificate',
+        targetId: cert.id,
+        partnerId: cert.domains.acme_accounts.clients.partner_id,
+        domainId: cert.domains.id,
+        domainName: cert.domains.domain_name,
+        subscriptionName: cert.domains.acme_accounts.account_name || 'ACME Account',
+        expiresAt: cert.valid_not_after,
+        snoozedUntil: cert.domains.expiry_reminders_snoozed_until
+    }))
+}
+
+async function findSubscriptionReminders(supabase: SupabaseClient, from: string, to: string): Promise<DueReminder[]> {
+    const { data, error } = await supabase
+        .from('acme_accounts')
+        .select('id, account_name, end_date, clients!inner(partner_id)')
+        .eq('status', 'active')
+        .gt('end_date', from)
+        .lte('end_date', to)
+
+    if (error) {
+        throw new Error(`Failed to load expiring subscriptions: ${error.message}`)
+    }
+
+    return ((data || []) as unknown as SubscriptionRow[]).map(account => ({
+        kind: 'subscription',
+        targetId: account.id,
+        partnerId: account.clients.partner_id,
+        domainId: null,
+        domainName: null,
+        subscriptionName: account.account_name || 'ACME Account',
+        expiresAt: account.end_date,
+        snoozedUntil: null
+    }))
+}
+
+async function loadPartnerContacts(supabase: SupabaseClient, partnerIds: string[]): Promise<Map<string, PartnerContact>> {
+    const [partnersResult, preferencesResult, emails] = await Promise.all([
+        supabase.from('partners').select('id, company_name').in('id', partnerIds),
+        supabase.from('billing_preferences').select('partner_id, notify_on_expiry').in('partner_id', partnerIds),
+        loadPartnerEmails(supabase, partnerIds)
+    ])
+
+    if (partnersResult.error) {
+        throw new Error(`Failed to load partners: ${partnersResult.error.message}`)
+    }
+    if (preferencesResult.error) {
+        throw new Error(`Failed to load billing preferences: ${preferencesResult.error.message}`)
+    }
+
+    // Partners without saved preferences get the defaults (alerts on)
+    const optedOut = new Set((preferencesResult.data || []).filter(p => p.notify_on_expiry === false).map(p => p.partner_id))
+
+    return new Map((partnersResult.data || []).map(p => [p.id, {
+        email: emails.get(p.id) || null,
+        company_name: p.company_name,
+        notifyOnExpiry: !optedOut.has(p.id)
+    }]))
+}
+
+// ============================================
+// Delivery
+// ============================================
+
+async function deliver(
+    supabase: SupabaseClient,
+    reminder: DueReminder,
+    offset: number,
+    contact: PartnerContact,
+    now: Date
+): Promise<'sent' | 'alreadySent'> {
+    // Claim the reminder; a conflict means it already went out
+    const { data: claimed, error: claimError } = await supabase
+        .from('expiry_reminders')
+        .upsert({
+            partner_id: reminder.partnerId,
+            kind: reminder.kind,
+            target_id: reminder.targetId,
+            domain_id: reminder.domainId,
+            offset_days: offset,
+            expires_at: reminder.expiresAt
+        }, { onConflict: 'kind,target_id,offset_days,expires_at', ignoreDuplicates: true })
+        .select('id')
+
+    if (claimError) {
+        throw new Error(`Failed to record reminder: ${claimError.message}`)
+    }
+    if (!claimed || claimed.length === 0) {
+        return 'alreadySent'
+    }
+
+    const result = await sendExpirationReminder({
+        to: contact.email!,
+        partnerName: contact.company_name || 'Partner',
+        subscriptionName: reminder.subscriptionName,
+        domainName: reminder.domainName || undefined,
+        expirationDate: new Date(reminder.expiresAt).toLocaleDateString('id-ID', {
+            day: 'numeric',
+            month: 'long',
+            year: 'numeric'
+        }),
+        daysRemaining: Math.ceil((new Date(reminder.expiresAt).getTime() - now.getTime()) / DAY_MS),
+        portalUrl: process.env.NEXT_PUBLIC_APP_URL || ''
+    })
+
+    if (!result.success) {
+        // Release the claim so the next run tries again
+        await supabase.from('expiry_reminders').delete().eq('id', claimed[0].id)
+        throw new Error(`Email not sent: ${result.error}`)
+    }
+
+    await supabase.from('expiry_reminders').update({ email_id: result.id || null }).eq('id', claimed[0].id)
+
+    return 'sent'
+}
@@ -0,0 +1,249 @@
+/**
+ * Idempotency Keys for Billable Operations
+ *
+ * Billable routes run their work through runIdempotent() under a key
+ * derived from the transaction being billed. The first request stores its
+ * response; replays get the stored response back without Sectigo being
+ * called again, and each replay is counted and written to the audit log.
+ *
+ * - Replay with a different request body   → 422
+ * - Replay while the first is still running → 409
+ * - Handler threw or returned 5xx           → key released, retry allowed
+ *
+ * Keys expire after IDEMPOTENCY_KEY_TTL_HOURS (default 24) and are purged
+ * by the zombie sweeper. All writes need the service-role client.
+ */
+
+import { createHash } from 'crypto'
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+export type IdempotentOperation = 'add_domain' | 'extend'
+
+export interface IdempotentResponse {
+    status: number
+    body: unknown
+    transactionId?: string | null  // transaction created by the handler, if any
+}
+
+export interface IdempotencyKeyRow {
+    key: string
+    operation: IdempotentOperation
+    partner_id: string | null
+    transaction_id: string | null
+    request_hash: string
+    status: 'in_progress' | 'completed'
+    response_status: number | null
+    response_body: unknown
+    replay_count: number
+    expires_at: string
+    created_at: string
+}
+
+const DEFAULT_TTL_HOURS = 24
+
+// An in-progress key older than this belongs to a request that died
+const IN_PROGRESS_TIMEOUT_MS = 5 * 60 * 1000
+
+/**
+ * How long stored responses are kept, in hours
+ */
+export function getIdempotencyKeyTtlHours(): number {
+    const configured = Number(process.env.IDEMPOTENCY_KEY_TTL_HOURS)
+    return Number.isFinite(configured) && configured > 0 ? configured : DEFAULT_TTL_HOURS
+}
+
+/**
+ * Key for an operation that bills an existing transaction
+ */
+export function transactionIdempotencyKey(operation: IdempotentOperation, transactionId: string): string {
+    return `${operation}:${transactionId}`
+}
+
+/**
+ * Stable hash of a request body (key order doesn't matter)
+ */
+export function hashRequest(body: Record<string, unknown>): string {
+    const canonical = JSON.stringify(Object.keys(body).sort().map(key => [key, body[key]]))
+    return createHash('sha256').update(canonical).digest('hex')
+}
+
+/**
+ * Run handler once per key; replays return the stored response
+ */
+export async function runIdempotent(
+    supabase: SupabaseClient,
+    {
+        key,
+        operation,
+        partnerId,
+        transactionId = null,
+        requestBody
+    }: {
+        key: string
+        operation: IdempotentOperation
+        partnerId: string
+        transactionId?: string | null
+        requestBody: Record<string, unknown>
+    },
+    handler: () => Promise<IdempotentResponse>
+): Promise<IdempotentResponse & { replayed: boolean }> {
+    const requestHash = hashRequest(requestBody)
+
+    // Two passes: the second runs after an expired or abandoned key was released
+    for (let pass = 0; pass < 2; pass++) {
+        const { error: insertError } = await supabase
+            .from('idempotency_keys')
+            .insert({
+                key,
+                operation,
+                partner_id: partnerId,
+                transaction_id: transactionId,
+                request_hash: requestHash,
+                expires_at: new Date(Date.now() + getIdempotencyKeyTtlHours() * 60 * 60 * 1000).toISOString()
+            })
+
+        if (!insertError) {
+            return { ...(await runAndStore(supabase, key, handler)), replayed: false }
+        }
+
+        if (insertError.code !== '23505') {
+            throw new Error(`Failed to create idempotency key: ${insertError.message}`)
+        }
+
+        const existing = await getIdempotencyKey(supabase, key)
+        if (!existing) continue
+
+        if (isReleasable(existing)) {
+            await supabase
+                .from('idempotency_keys')
+                .delete()
+                .eq('key', key)
+                .eq('created_at', existing.created_at)
+            continue
+        }
+
+        if (existing.request_hash !== requestHash) {
+            return {
+                status: 422,
+                body: { error: 'Idempotency key was already used for a different request' },
+                replayed: false
+            }
+        }
+
+        if (existing.status === 'in_progress') {
+            return {
+                status: 409,
+                body: { error: 'This request is already being processed' },
+                replayed: false
+            }
+        }
+
+        await recordIdempotentReplay(supabase, existing, partnerId)
+        return { status: existing.response_status ?? 200, body: existing.response_body, replayed: true }
+    }
+
+    throw new Error(`Could not acquire idempotency key ${key}`)
+}
+
+async function runAndStore(
+    supabase: SupabaseClient,
+    key: string,
+    handler: () => Promise<IdempotentResponse>
+): Promise<IdempotentResponse> {
+    let response: IdempotentResponse
+    try {
+        response = await handler()
+    } catch (error) {
+        await releaseIdempotencyKey(supabase, key)
+        throw error
+    }
+
+    // Server errors are transient: let the caller retry with the same key
+    if (response.status >= 500) {
+        await releaseIdempotencyKey(supabase, key)
+        return response
+    }
+
+    const { error } = await supabase
+        .from('idempotency_keys')
+        .update({
+            status: 'completed',
+            response_status: response.status,
+            response_body: response.body,
+            ...(response.transactionId && { transaction_id: response.transactionId }),
+            completed_at: new Date().toISOString()
+        })
+        .eq('key', key)
+
+    if (error) {
+        console.error(`[Idempotency] Failed to store response for ${key}:`, error.message)
+    }
+
+    return response
+}
+
+function isReleasable(row: IdempotencyKeyRow): boolean {
+    if (new Date(row.expires_at).getTime() <= Date.now()) return true
+    return row.status === 'in_progress' &&
+        Date.now() - new Date(row.created_at).getTime() > IN_PROGRESS_TIMEOUT_MS
+}
+
+async function releaseIdempotencyKey(supabase: SupabaseClient, key: string): Promise<void> {
+    await supabase.from('idempotency_keys').delete().eq('key', key).eq('status', 'in_progress')
+}
+
+export async function getIdempotencyKey(supabase: SupabaseClient, key: string): Promise<IdempotencyKeyRow | null> {
+    const { data } = await supabase
+        .from('idempotency_keys')
+        .select('*')
+        .eq('key', key)
+        .maybeSingle()
+
+    return data as IdempotencyKeyRow | null
+}
+
+/**
+ * Count a stored response being served again, with an audit log entry
+ */
+export async function recordIdempotentReplay(
+    supabase: SupabaseClient,
+    row: IdempotencyKeyRow,
+    actorId: string | null
+): Promise<void> {
+    const replayCount = row.replay_count + 1
+
+    await supabase
+        .from('idempotency_keys')
+        .update({ replay_count: replayCount, last_replayed_at: new Date().toISOString() })
+        .eq('key', row.key)
+
+    await supabase.from('audit_logs').insert({
+        actor_id: actorId,
+        action: 'idempotent_replay',
+        target_type: 'transaction',
+        target_id: row.transaction_id,
+        details: {
+            key: row.key,
+            operation: row.operation,
+            replay_count: replayCount,
+            response_status: row.response_status
+        }
+    })
+}
+
+/**
+ * Delete expired keys; returns how many were removed
+ */
+export async function purgeExpiredIdempotencyKeys(supabase: SupabaseClient): Promise<number> {
+    const { data, error } = await supabase
+        .from('idempotency_keys')
+        .delete()
+        .lt('expires_at', new Date().toISOString())
+        .select('key')
+
+    if (error) {
+        console.error('[Idempotency] Failed to purge expired keys:', error.message)
+        return 0
+    }
+    return data?.length || 0
+}
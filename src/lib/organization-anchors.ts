@@ -0,0 +1,201 @@
+/**
+ * Organization Anchors (OV Pre-Validation)
+ *
+ * An anchor is the Sectigo order that pre-validated a client's
+ * organization (organization_anchors, migration 034). Partners register
+ * the order number, KICA staff confirm the validation result:
+ *
+ *   pending ──▶ validated ──▶ revoked
+ *      └──────▶ rejected
+ *
+ * Correcting the order number of a pending or rejected anchor sends it
+ * back to pending.
+ *
+ * Validating an anchor makes it the client's active anchor (replacing
+ * the previous one). OV subscriptions can only be created with a valid
+ * anchor: active, validated and not past expires_at. From
+ * ANCHOR_WARNING_DAYS before expiry the portal warns that it lapses.
+ *
+ * Sectigo needs the anchor's order number (ovAnchorOrderNumber) on
+ * PREREGISTER and on every ADDDOMAIN of an OV account, quotes included;
+ * resolveOvAnchor() looks it up server-side and explains why it's missing.
+ *
+ * The state helpers are pure and client-safe:
+ *   const anchor = findValidAnchor(client.organization_anchors)
+ *   const state = anchorState(anchor)   // 'valid' | 'expiring' | ...
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { OrganizationAnchor } from './types'
+
+export const ANCHOR_WARNING_DAYS = 30
+
+// Default validity of an organization validation when staff don't set one
+export const ANCHOR_VALIDITY_DAYS = 397
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export type AnchorStatus = OrganizationAnchor['status']
+
+export type AnchorState = 'pending' | 'valid' | 'expiring' | 'expired' | 'superseded' | 'rejected' | 'revoked'
+
+type AnchorFields = Pick<OrganizationAnchor, 'status' | 'is_active' | 'expires_at'>
+
+const STATUS_TRANSITIONS: Record<AnchorStatus, AnchorStatus[]> = {
+    pending: ['validated', 'rejected'],
+    validated: ['revoked'],
+    rejected: [],
+    revoked: []
+}
+
+export function anchorState(anchor: AnchorFields, now: Date = new Date()): AnchorState {
+    if (anchor.status !== 'validated') {
+        return anchor.status
+    }
+    if (!anchor.is_active) {
+        return 'superseded'
+    }
+
+    const days = daysUntilAnchorExpiry(anchor, now)
+    if (days === null) return 'valid'
+    if (days <= 0) return 'expired'
+    return days <= ANCHOR_WARNING_DAYS ? 'expiring' : 'valid'
+}
+
+/**
+ * The anchor OV subscriptions can be created with, if any
+ */
+export function findValidAnchor<T extends AnchorFields>(anchors: T[] | null | undefined, now: Date = new Date()): T | null {
+    return (anchors || []).find(anchor => {
+        const state = anchorState(anchor, now)
+        return state === 'valid' || state === 'expiring'
+    }) || null
+}
+
+/**
+ * Why a client has no valid anchor, for the error shown to the partner
+ */
+export function missingAnchorReason(anchors: AnchorFields[] | null | undefined, now: Date = new Date()): string {
+    const active = (anchors || []).find(anchor => anchor.is_active)
+    if (active && anchorState(active, now) === 'expired') {
+        return 'The organization\'s OV pre-validation has expired. Register and validate a new anchor to continue with OV.'
+    }
+    if ((anchors || []).some(anchor => anchor.status === 'pending')) {
+        return 'The organization\'s OV pre-validation is still waiting for KICA validation.'
+    }
+    return 'The organization has no validated OV pre-validation. Register its Sectigo order as an anchor first.'
+}
+
+export function daysUntilAnchorExpiry(anchor: Pick<OrganizationAnchor, 'expires_at'>, now: Date = new Date()): number | null {
+    if (!anchor.expires_at) return null
+    return Math.ceil((new Date(anchor.expires_at).getTime() - now.getTime()) / DAY_MS)
+}
+
+export function canChangeAnchorStatus(from: AnchorStatus, to: AnchorStatus): boolean {
+    return STATUS_TRANSITIONS[from].includes(to)
+}
+
+/**
+ * Record the validation result of an anchor (service-role client).
+ * A validated anchor becomes the client's active anchor, replacing the
+ * previous one atomically.
+ */
+export async function setAnchorStatus(
+    supabase: SupabaseClient,
+    { anchor, status, expiresAt, reason, actorId }: {
+        anchor: Pick<OrganizationAnchor, 'id' | 'client_id' | 'status' | 'ov_anchor_order_number'>
+        status: AnchorStatus
+        expiresAt?: string | null
+        reason?: string | null
+        actorId: string
+    }
+): Promise<{ ok: true; anchor: OrganizationAnchor } | { ok: false; error: string }> {
+    if (!canChangeAnchorStatus(anchor.status, status)) {
+        return { ok: false, error: `Anchor can't go from ${anchor.status} to ${status}` }
+    }
+
+    const now = new Date()
+    const validUntil = status === 'validated'
+        ? expiresAt || new Date(now.getTime() + ANCHOR_VALIDITY_DAYS * DAY_MS).toISOString()
+        : null
+
+    const { data, error } = validUntil
+        // Replaces the client's active anchor in the same transaction (migration 043)
+        ? await supabase
+            .rpc('validate_organization_anchor', {
+                p_anchor_id: anchor.id,
+                p_expected_status: anchor.status,
+                p_expires_at: validUntil,
+                p_reason: reason || null
+            })
+            .maybeSingle()
+        : await supabase
+            .from('organization_anchors')
+            .update({
+                status,
+                status_reason: reason || null,
+                is_active: false,
+                updated_at: now.toISOString()
+            })
+            .eq('id', anchor.id)
+            .eq('status', anchor.status)
+            .select()
+            .maybeSingle()
+
+    if (error) {
+        return { ok: false, error: error.message }
+    }
+    if (!data) {
+        return { ok: false, error: `Anchor is no longer ${anchor.status}` }
+    }
+
+    await supabase.from('audit_logs').insert({
+        actor_id: actorId,
+        action: `ov_anchor_${status}`,
+        target_type: 'organization_anchor',
+        target_id: anchor.id,
+        details: {
+            client_id: anchor.client_id,
+            ov_anchor_order_number: anchor.ov_anchor_order_number,
+            previous_status: anchor.status,
+            new_status: status,
+            ...(validUntil && { expires_at: validUntil }),
+            ...(reason && { reason })
+        }
+    })
+
+    return { ok: true, anchor: data as OrganizationAnchor }
+}
+
+/**
+ * The anchor to send as ovAnchorOrderNumber for an account of this
+ * certificate type: the client's valid anchor for OV, none for DV.
+ */
+export async function resolveOvAnchor(
+    supabase: SupabaseClient,
+    { clientId, certificateType }: { clientId: string; certificateType: string }
+): Promise<
+    | { ok: true; anchor: Pick<OrganizationAnchor, 'id' | 'ov_anchor_order_number'> | null }
+    | { ok: false; error: string }
+> {
+    if (certificateType !== 'OV') {
+        return { ok: true, anchor: null }
+    }
+
+    const { data, error } = await supabase
+        .from('organization_anchors')
+        .select('id, ov_anchor_order_number, status, is_active, expires_at')
+        .eq('client_id', clientId)
+
+    if (error) {
+        return { ok: false, error: `Failed to load the organization's OV anchor: ${error.message}` }
+    }
+
+    const anchors = (data || []) as Pick<OrganizationAnchor, 'id' | 'ov_anchor_order_number' | 'status' | 'is_active' | 'expires_at'>[]
+    const anchor = findValidAnchor(anchors)
+    if (!anchor) {
+        return { ok: false, error: missingAnchorReason(anchors) }
+    }
+
+    return { ok: true, anchor: { id: anchor.id, ov_anchor_order_number: anchor.ov_anchor_order_number } }
+}
@@ -0,0 +1,47 @@
+/**
+ * Partner Contacts
+ *
+ * partners has no email column: a partner is reached at
+ * billing_preferences.billing_email (migration 014), or at the address
+ * they sign in with (auth.users) when no billing contact is saved.
+ *
+ * Usage (service-role client):
+ *   const emails = await loadPartnerEmails(supabase, [partnerId])
+ *   const to = emails.get(partnerId)
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+/**
+ * Contact address per partner ID (null when the partner has none);
+ * throws when a lookup fails
+ */
+export async function loadPartnerEmails(supabase: SupabaseClient, partnerIds: string[]): Promise<Map<string, string | null>> {
+    const { data, error } = await supabase
+        .from('billing_preferences')
+        .select('partner_id, billing_email')
+        .in('partner_id', partnerIds)
+
+    if (error) {
+        throw new Error(`Failed to load billing contacts: ${error.message}`)
+    }
+
+    const billing = new Map((data || []).map(p => [p.partner_id as string, p.billing_email as string | null]))
+    const emails = new Map<string, string | null>()
+
+    for (const partnerId of partnerIds) {
+        let email = billing.get(partnerId) || null
+
+        if (!email) {
+            const { data: login, error: loginError } = await supabase.auth.admin.getUserById(partnerId)
+            if (loginError) {
+                throw new Error(`Failed to load partner login email: ${loginError.message}`)
+            }
+            email = login.user?.email || null
+        }
+
+        emails.set(partnerId, email)
+    }
+
+    return emails
+}
@@ -0,0 +1,424 @@
+/**
+ * Sectigo Transaction Reconciliation
+ *
+ * Matches Sectigo LISTTRANSACTIONS (what Sectigo charged us) against local
+ * `transactions` (what we billed partners) per ACME account, by
+ * sectigo_order_number, and stores the differences for finance review:
+ *
+ * - missing_local    Sectigo charged, no local transaction with that order
+ * - missing_upstream Local charge, Sectigo has no entry for it
+ * - amount_mismatch  Sectigo amount ≠ upstream_cost recorded locally
+ * - type_mismatch    Sectigo action doesn't match local transaction type
+ * - unsettled_extend Stuck renewal the zombie sweeper couldn't settle from
+ *                    the call journal; an admin commits or rolls it back
+ *
+ * Only Sectigo accounts are reconciled; other CA providers have no
+ * transaction listing.
+ *
+ * Discrepancies are keyed by a fingerprint, so re-running a range updates
+ * existing rows instead of duplicating them. Resolved rows stay resolved.
+ *
+ * Usage (service-role client):
+ *   const result = await runReconciliation(supabase, { fromDate: '2025-01-01', toDate: '2025-01-07' })
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { getSectigoClient } from './sectigo'
+import { isSectigoError, type SectigoTransaction } from './sectigo-types'
+
+// Default window for the scheduled run; overlaps previous runs to catch late entries
+export const RECONCILIATION_LOOKBACK_DAYS = 7
+
+// Amounts closer than this are treated as equal (rounding)
+const AMOUNT_TOLERANCE = 0.01
+
+// Local transaction types that Sectigo charges for
+const BILLABLE_LOCAL_TYPES = ['add_domain', 'extend']
+
+// Sectigo action → local transaction type
+const UPSTREAM_TYPE_MAP: Record<string, string> = {
+    ADDDOMAIN: 'add_domain',
+    EXTENDDOMAINS: 'extend',
+    REMOVEDOMAIN: 'remove_domain'
+}
+
+export type DiscrepancyKind = 'missing_local' | 'missing_upstream' | 'amount_mismatch' | 'type_mismatch' | 'unsettled_extend'
+
+export interface LocalTransaction {
+    id: string
+    partner_id: string
+    type: string
+    amount: number
+    upstream_cost: number | null
+    sectigo_order_number: string | null
+    created_at: string
+}
+
+export interface Discrepancy {
+    kind: DiscrepancyKind
+    transactionId: string | null
+    orderNumber: string | null
+    localType: string | null
+    localAmount: number | null
+    upstreamType: string | null
+    upstreamAmount: number | null
+    upstreamDate: string | null
+}
+
+export interface ReconciliationRunResult {
+    runId: string
+    fromDate: string
+    toDate: string
+    accountsChecked: number
+    upstreamCount: number
+    localCount: number
+    discrepancyCount: number
+    newDiscrepancies: number
+    errors: { acme_account_id: string; error: string }[]
+}
+
+interface ReconcileAccountRow {
+    id: string
+    acme_account_id: string
+    sectigo_client: string | null
+    clients: { partner_id: string }
+}
+
+/**
+ * Normalize a Sectigo transaction type ("ADDDOMAIN", "Add Domain", ...) to a local type
+ */
+export function mapUpstreamType(transactionType: string): string | null {
+    const key = transactionType.toUpperCase().replace(/[^A-Z]/g, '')
+    return UPSTREAM_TYPE_MAP[key] || null
+}
+
+/**
+ * Compare one account's upstream and local transactions (pure)
+ */
+export function compareTransactions(
+    upstream: SectigoTransaction[],
+    local: LocalTransaction[]
+): Discrepancy[] {
+    const discrepancies: Discrepancy[] = []
+
+    // Zero-amount upstream entries (e.g. REMOVEDOMAIN) carry no charge to reconcile
+    const charged = upstream.filter(u => Math.abs(Number(u.amount) || 0) >= AMOUNT_TOLERANCE)
+    const billable = local.filter(t => BILLABLE_LOCAL_TYPES.includes(t.type))
+
+    const localByOrder = new Map<string, LocalTransaction[]>()
+    for (const tx of billable) {
+        if (!tx.sectigo_order_number) continue
+        const list = localByOrder.get(tx.sectigo_order_number) || []
+        list.push(tx)
+        localByOrder.set(tx.sectigo_order_number, list)
+    }
+
+    const upstreamOrders = new Set<string>()
+
+    for (const entry of charged) {
+        const orderNumber = String(entry.orderNumber)
+        const upstreamAmount = Number(entry.amount)
+        const upstreamType = mapUpstreamType(entry.transactionType)
+        upstreamOrders.add(orderNumber)
+
+        const candidates = localByOrder.get(orderNumber) || []
+        const base = {
+            orderNumber,
+            upstreamType: entry.transactionType,
+            upstreamAmount,
+            upstreamDate: entry.transactionDate || null
+        }
+
+        if (candidates.length === 0) {
+            discrepancies.push({ ...base, kind: 'missing_local', transactionId: null, localType: null, localAmount: null })
+            continue
+        }
+
+        const match = candidates.find(t => t.type === upstreamType) || candidates[0]
+        const matchBase = {
+            ...base,
+            transactionId: match.id,
+            localType: match.type,
+            localAmount: Number(match.amount)
+        }
+
+        if (upstreamType && match.type !== upstreamType) {
+            discrepancies.push({ ...matchBase, kind: 'type_mismatch' })
+        }
+
+        if (match.upstream_cost !== null &&
+            Math.abs(Number(match.upstream_cost) - upstreamAmount) >= AMOUNT_TOLERANCE) {
+            discrepancies.push({ ...matchBase, kind: 'amount_mismatch' })
+        }
+    }
+
+    for (const tx of billable) {
+        if (tx.sectigo_order_number && upstreamOrders.has(tx.sectigo_order_number)) continue
+
+        discrepancies.push({
+            kind: 'missing_upstream',
+            transactionId: tx.id,
+            orderNumber: tx.sectigo_order_number,
+            localType: tx.type,
+            localAmount: Number(tx.amount),
+            upstreamType: null,
+            upstreamAmount: null,
+            upstreamDate: null
+        })
+    }
+
+    return discrepancies
+}
+
+/**
+ * Reconcile all registered ACME accounts for a date range (YYYY-MM-DD, inclusive)
+ */
+export async function runReconciliation(
+    supabase: SupabaseClient,
+    { fromDate, toDate, triggeredBy = null }: { fromDate: string; toDate: string; triggeredBy?: string | null }
+): Promise<ReconciliationRunResult> {
+    const { data: run, error: runError } = await supabase
+        .from('reconciliation_runs')
+        .insert({ from_date: fromDate, to_date: toDate, triggered_by: triggeredBy })
+        .select('id')
+        .single()
+
+    if (runError || !run) {
+        throw new Error(`Failed to start reconciliation run: ${runError?.message}`)
+    }
+
+    const result: ReconciliationRunResult = {
+        runId: run.id,
+        fromDate,
+        toDate,
+        accountsChecked: 0,
+        upstreamCount: 0,
+        localCount: 0,
+        discrepancyCount: 0,
+        newDiscrepancies: 0,
+        errors: []
+    }
+
+    try {
+        const { data: accountsData, error: accountsError } = await supabase
+            .from('acme_accounts')
+            .select('id, acme_account_id, sectigo_client, clients!inner(partner_id)')
+            .eq('ca_provider', 'sectigo')
+            .not('acme_account_id', 'is', null)
+            .neq('status', 'pending_start')
+
+        if (accountsError) {
+            throw new Error(`Failed to load accounts: ${accountsError.message}`)
+        }
+
+        const accounts = (accountsData || []) as unknown as ReconcileAccountRow[]
+
+        // Sequential on purpose: one LISTTRANSACTIONS at a time keeps us under Sectigo rate limits
+        for (const account of accounts) {
+            try {
+                const response = await getSectigoClient(account.sectigo_client).listTransactions({
+                    acmeAccountID: account.acme_account_id,
+                    fromDate,
+                    toDate
+                })
+
+                if (isSectigoError(response)) {
+                    throw new Error(response.errorMessage || 'LISTTRANSACTIONS failed')
+                }
+
+                const local = await loadLocalTransactions(supabase, account.id, fromDate, toDate)
+                const discrepancies = compareTransactions(response.transactions, local)
+
+                result.newDiscrepancies += await saveDiscrepancies(
+                    supabase,
+                    run.id,
+                    account,
+                    discrepancies
+                )
+
+                result.accountsChecked++
+                result.upstreamCount += response.transactions.length
+                result.localCount += local.length
+                result.discrepancyCount += discrepancies.length
+            } catch (error) {
+                const message = error instanceof Error ? error.message : 'Unknown error'
+                console.error(`[Reconciliation] Account ${account.acme_account_id} failed:`, message)
+                result.errors.push({ acme_account_id: account.acme_account_id, error: message })
+            }
+        }
+
+        await supabase
+            .from('reconciliation_runs')
+            .update({
+                status: 'completed',
+                accounts_checked: result.accountsChecked,
+                upstream_count: result.upstreamCount,
+                local_count: result.localCount,
+                discrepancy_count: result.discrepancyCount,
+                errors: result.errors,
+                completed_at: new Date().toISOString()
+            })
+            .eq('id', run.id)
+
+        return result
+    } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error'
+        await supabase
+            .from('reconciliation_runs')
+            .update({
+                status: 'failed',
+                errors: [...result.errors, { acme_account_id: '*', error: message }],
+                completed_at: new Date().toISOString()
+            })
+            .eq('id', run.id)
+        throw error
+    }
+}
+
+/**
+ * Hand a stuck renewal over to finance review. The transaction stays in
+ * flight (holding its credit) until an admin settles it; recording the
+ * same transaction again is a no-op.
+ */
+export async function escalateUnsettledExtend(
+    supabase: SupabaseClient,
+    tx: { id: string; partnerId: string; accountId: string; amount: number; reason: string }
+): Promise<void> {
+    const discrepancy: Discrepancy = {
+        kind: 'unsettled_extend',
+        transactionId: tx.id,
+        orderNumber: null,
+        localType: 'extend',
+        localAmount: tx.amount,
+        upstreamType: null,
+        upstreamAmount: null,
+        upstreamDate: null
+    }
+
+    const { error } = await supabase
+        .from('reconciliation_discrepancies')
+        .upsert({
+            fingerprint: fingerprint(tx.accountId, discrepancy),
+            kind: discrepancy.kind,
+            partner_id: tx.partnerId,
+            acme_account_id: tx.accountId,
+            transaction_id: tx.id,
+            local_type: discrepancy.localType,
+            local_amount: discrepancy.localAmount,
+            details: { reason: tx.reason }
+        }, { onConflict: 'fingerprint', ignoreDuplicates: true })
+
+    if (error) {
+        throw new Error(`Failed to escalate renewal: ${error.message}`)
+    }
+}
+
+/**
+ * Transactions already handed over with escalateUnsettledExtend and not yet settled
+ */
+export async function getEscalatedTransactionIds(supabase: SupabaseClient): Promise<string[]> {
+    const { data, error } = await supabase
+        .from('reconciliation_discrepancies')
+        .select('transaction_id')
+        .eq('kind', 'unsettled_extend')
+        .eq('status', 'open')
+
+    if (error) {
+        throw new Error(`Failed to load escalated renewals: ${error.message}`)
+    }
+
+    return (data || []).map(d => d.transaction_id).filter((id): id is string => !!id)
+}
+
+// ============================================
+// Data Helpers
+// ============================================
+
+async function loadLocalTransactions(
+    supabase: SupabaseClient,
+    accountId: string,
+    fromDate: string,
+    toDate: string
+): Promise<LocalTransaction[]> {
+    const end = new Date(`${toDate}T00:00:00Z`)
+    end.setUTCDate(end.getUTCDate() + 1)
+
+    // 'refunded' originals were still charged by Sectigo
+    const { data, error } = await supabase
+        .from('transactions')
+        .select('id, partner_id, type, amount, upstream_cost, sectigo_order_number, created_at')
+        .eq('acme_account_id', accountId)
+        .in('type', BILLABLE_LOCAL_TYPES)
+        .in('status', ['success', 'refunded'])
+        .gte('created_at', `${fromDate}T00:00:00Z`)
+        .lt('created_at', end.toISOString())
+
+    if (error) {
+        throw new Error(`Failed to load local transactions: ${error.message}`)
+    }
+
+    return (data || []) as LocalTransaction[]
+}
+
+function fingerprint(accountId: string, d: Discrepancy): string {
+    return [d.kind, accountId, d.orderNumber || '-', d.transactionId || '-'].join(':')
+}
+
+/**
+ * Insert new discrepancies, refresh open ones. Returns the number of new rows.
+ */
+async function saveDiscrepancies(
+    supabase: SupabaseClient,
+    runId: string,
+    account: ReconcileAccountRow,
+    discrepancies: Discrepancy[]
+): Promise<number> {
+    if (discrepancies.length === 0) return 0
+
+    const rows = discrepancies.map(d => ({
+        fingerprint: fingerprint(account.id, d),
+        run_id: runId,
+        kind: d.kind,
+        partner_id: account.clients.partner_id,
+        acme_account_id: account.id,
+        transaction_id: d.transactionId,
+        sectigo_order_number: d.orderNumber,
+        local_type: d.localType,
+        local_amount: d.localAmount,
+        upstream_type: d.upstreamType,
+        upstream_amount: d.upstreamAmount,
+        upstream_date: d.upstreamDate,
+        details: { sectigo_account_id: account.acme_account_id }
+    }))
+
+    const { data: existing } = await supabase
+        .from('reconciliation_discrepancies')
+        .select('fingerprint, status')
+        .in('fingerprint', rows.map(r => r.fingerprint))
+
+    const known = new Map((existing || []).map(e => [e.fingerprint as string, e.status as string]))
+    const now = new Date().toISOString()
+
+    const fresh = rows.filter(r => !known.has(r.fingerprint))
+    if (fresh.length > 0) {
+        const { error } = await supabase.from('reconciliation_discrepancies').insert(fresh)
+        if (error) {
+            throw new Error(`Failed to save discrepancies: ${error.message}`)
+        }
+    }
+
+    // Still-open rows get the latest figures; resolved rows are left alone
+    for (const row of rows.filter(r => known.get(r.fingerprint) === 'open')) {
+        await supabase
+            .from('reconciliation_discrepancies')
+            .update({
+                run_id: runId,
+                local_amount: row.local_amount,
+                upstream_amount: row.upstream_amount,
+                last_detected_at: now
+            })
+            .eq('fingerprint', row.fingerprint)
+    }
+
+    return fresh.length
+}
@@ -0,0 +1,112 @@
+/**
+ * Secret Box
+ *
+ * AES-256-GCM encryption for secrets stored in the database. The key
+ * comes from SECRET_BOX_KEY: 32 bytes, base64.
+ *
+ *   encryptSecret    secret encrypted with SECRET_BOX_KEY (Sectigo credentials)
+ *                    v1:<iv>:<auth tag>:<ciphertext> (all base64)
+ *   encryptEnvelope  secret encrypted with its own random data key, which is
+ *                    wrapped with SECRET_BOX_KEY (EAB HMAC keys)
+ *                    e1:<wrapped data key>:<iv>:<auth tag>:<ciphertext>
+ *                    (wrapped data key is a v1 payload, base64url)
+ *
+ * Generate a key with:
+ *   node -e "console.log(require('crypto').randomBytes(32).toString('base64'))"
+ */
+
+import { createCipheriv, createDecipheriv, randomBytes } from 'crypto'
+
+const VERSION = 'v1'
+const ENVELOPE_VERSION = 'e1'
+const IV_BYTES = 12
+
+export class SecretBoxError extends Error {
+    constructor(message: string) {
+        super(message)
+        this.name = 'SecretBoxError'
+    }
+}
+
+/**
+ * Whether SECRET_BOX_KEY is configured
+ */
+export function isSecretBoxConfigured(): boolean {
+    return !!process.env.SECRET_BOX_KEY
+}
+
+function getKey(): Buffer {
+    const encoded = process.env.SECRET_BOX_KEY
+    if (!encoded) {
+        throw new SecretBoxError('SECRET_BOX_KEY is not set')
+    }
+
+    const key = Buffer.from(encoded, 'base64')
+    if (key.length !== 32) {
+        throw new SecretBoxError('SECRET_BOX_KEY must be 32 bytes (base64 encoded)')
+    }
+    return key
+}
+
+export function encryptSecret(plaintext: string): string {
+    return [VERSION, ...seal(getKey(), Buffer.from(plaintext, 'utf8'))].join(':')
+}
+
+export function decryptSecret(payload: string): string {
+    const [version, iv, tag, ciphertext] = payload.split(':')
+    if (version !== VERSION || !iv || !tag || !ciphertext) {
+        throw new SecretBoxError('Unrecognized secret format')
+    }
+
+    return open(getKey(), iv, tag, ciphertext).toString('utf8')
+}
+
+export function encryptEnvelope(plaintext: string): string {
+    const dataKey = randomBytes(32)
+    const wrappedKey = encryptSecret(dataKey.toString('base64'))
+
+    return [
+        ENVELOPE_VERSION,
+        Buffer.from(wrappedKey, 'utf8').toString('base64url'),
+        ...seal(dataKey, Buffer.from(plaintext, 'utf8'))
+    ].join(':')
+}
+
+export function decryptEnvelope(payload: string): string {
+    const [version, wrappedKey, iv, tag, ciphertext] = payload.split(':')
+    if (version !== ENVELOPE_VERSION || !wrappedKey || !iv || !tag || !ciphertext) {
+        throw new SecretBoxError('Unrecognized envelope format')
+    }
+
+    const dataKey = Buffer.from(decryptSecret(Buffer.from(wrappedKey, 'base64url').toString('utf8')), 'base64')
+    return open(dataKey, iv, tag, ciphertext).toString('utf8')
+}
+
+// ============================================
+// AES-256-GCM
+// ============================================
+
+function seal(key: Buffer, plaintext: Buffer): [string, string, string] {
+    const iv = randomBytes(IV_BYTES)
+    const cipher = createCipheriv('aes-256-gcm', key, iv)
+    const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()])
+
+    return [
+        iv.toString('base64'),
+        cipher.getAuthTag().toString('base64'),
+        ciphertext.toString('base64')
+    ]
+}
+
+function open(key: Buffer, iv: string, tag: string, ciphertext: string): Buffer {
+    try {
+        const decipher = createDecipheriv('aes-256-gcm', key, Buffer.from(iv, 'base64'))
+        decipher.setAuthTag(Buffer.from(tag, 'base64'))
+        return Buffer.concat([
+            decipher.update(Buffer.from(ciphertext, 'base64')),
+            decipher.final()
+        ])
+    } catch {
+        throw new SecretBoxError('Secret could not be decrypted (wrong SECRET_BOX_KEY?)')
+    }
+}
@@ -0,0 +1,333 @@
+/**
+ * Sectigo Credential Providers
+ *
+ * Each registry client (see sectigo-registry.ts) resolves its login through
+ * a chain of providers, first match wins:
+ *
+ *   1. database - active row in `sectigo_credentials` for the client
+ *                 (password encrypted with SECRET_BOX_KEY, see secret-box.ts)
+ *   2. file     - JSON file at SECTIGO_CREDENTIALS_FILE:
+ *                 { "loginName": "...", "loginPassword": "..." }
+ *   3. env      - SECTIGO_LOGIN_NAME / SECTIGO_LOGIN_PASSWORD
+ *                 (password may be given as "base64:<encoded>")
+ *
+ * Named clients read SECTIGO_<NAME>_CREDENTIALS_FILE,
+ * SECTIGO_<NAME>_LOGIN_NAME and SECTIGO_<NAME>_LOGIN_PASSWORD instead.
+ *
+ * The resolved credential is cached for SECTIGO_CREDENTIALS_CACHE_MS
+ * (default 60000), so activating a new database row or replacing the file
+ * rotates credentials without a redeploy. invalidateSectigoCredentials()
+ * drops the cache immediately.
+ */
+
+import { readFile } from 'fs/promises'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { createAdminClient } from './supabase/admin'
+import { decryptSecret, encryptSecret, isSecretBoxConfigured } from './secret-box'
+import type { SectigoCredentials } from './sectigo-types'
+import { DEFAULT_SECTIGO_CLIENT, sectigoClientEnvKey } from './sectigo-registry'
+
+export type CredentialSource = 'database' | 'file' | 'env'
+
+export interface ResolvedCredentials {
+    credentials: SectigoCredentials
+    source: CredentialSource
+    label: string  // what was used, without secrets (row label, file path, env)
+}
+
+export interface CredentialProvider {
+    source: CredentialSource
+    load(clientName: string): Promise<ResolvedCredentials | null>
+}
+
+export interface StoredCredential {
+    id: string
+    client_name: string
+    label: string
+    login_name: string
+    is_active: boolean
+    activated_at: string | null
+    last_tested_at: string | null
+    last_test_ok: boolean | null
+    last_test_error: string | null
+    created_at: string
+}
+
+export class SectigoCredentialsError extends Error {
+    constructor(message: string) {
+        super(message)
+        this.name = 'SectigoCredentialsError'
+    }
+}
+
+const DEFAULT_CACHE_MS = 60000
+
+const STORED_CREDENTIAL_COLUMNS =
+    'id, client_name, label, login_name, is_active, activated_at, last_tested_at, last_test_ok, last_test_error, created_at'
+
+// ============================================
+// Providers
+// ============================================
+
+function decodePassword(password: string): string {
+    // Support base64-encoded password for special characters
+    return password.startsWith('base64:')
+        ? Buffer.from(password.substring(7), 'base64').toString('utf-8')
+        : password
+}
+
+export const databaseCredentialProvider: CredentialProvider = {
+    source: 'database',
+    async load(clientName) {
+        if (!isSecretBoxConfigured()) return null
+
+        const { data, error } = await createAdminClient()
+            .from('sectigo_credentials')
+            .select('id, label, login_name, password_ciphertext')
+            .eq('client_name', clientName)
+            .eq('is_active', true)
+            .maybeSingle()
+
+        if (error) {
+            console.error(`[SECTIGO CREDENTIALS] Failed to load active credential for "${clientName}":`, error.message)
+            return null
+        }
+        if (!data) return null
+
+        return {
+            credentials: {
+                loginName: data.login_name,
+                loginPassword: decryptSecret(data.password_ciphertext)
+            },
+            source: 'database',
+            label: data.label
+        }
+    }
+}
+
+export const fileCredentialProvider: CredentialProvider = {
+    source: 'file',
+    async load(clientName) {
+        const envKey = sectigoClientEnvKey(clientName, 'CREDENTIALS_FILE')
+        const path = process.env[envKey]
+        if (!path) return null
+
+        let parsed: Partial<SectigoCredentials>
+        try {
+            parsed = JSON.parse(await readFile(path, 'utf-8'))
+        } catch (error) {
+            throw new SectigoCredentialsError(
+                `${envKey} could not be read: ${error instanceof Error ? error.message : String(error)}`
+            )
+        }
+
+        if (typeof parsed.loginName !== 'string' || typeof parsed.loginPassword !== 'string' ||
+            !parsed.loginName || !parsed.loginPassword) {
+            throw new SectigoCredentialsError(`${envKey} must contain loginName and loginPassword`)
+        }
+
+        return {
+            credentials: {
+                loginName: parsed.loginName,
+                loginPassword: decodePassword(parsed.loginPassword)
+            },
+            source: 'file',
+            label: path
+        }
+    }
+}
+
+export const envCredentialProvider: CredentialProvider = {
+    source: 'env',
+    async load(clientName) {
+        const nameKey = sectigoClientEnvKey(clientName, 'LOGIN_NAME')
+        const loginName = process.env[nameKey]
+        const loginPassword = process.env[sectigoClientEnvKey(clientName, 'LOGIN_PASSWORD')]
+        if (!loginName || !loginPassword) return null
+
+        return {
+            credentials: { loginName, loginPassword: decodePassword(loginPassword) },
+            source: 'env',
+            label: nameKey
+        }
+    }
+}
+
+const providers: CredentialProvider[] = [
+    databaseCredentialProvider,
+    fileCredentialProvider,
+    envCredentialProvider
+]
+
+// ============================================
+// Resolution
+// ============================================
+
+const cache = new Map<string, { resolved: ResolvedCredentials; expiresAt: number }>()
+
+function getCacheMs(): number {
+    const configured = Number(process.env.SECTIGO_CREDENTIALS_CACHE_MS)
+    return Number.isFinite(configured) && configured >= 0 ? configured : DEFAULT_CACHE_MS
+}
+
+/**
+ * Resolve a client's credentials through the provider chain (cached)
+ */
+export async function resolveSectigoCredentials(
+    clientName: string = DEFAULT_SECTIGO_CLIENT
+): Promise<ResolvedCredentials> {
+    const cached = cache.get(clientName)
+    if (cached && cached.expiresAt > Date.now()) {
+        return cached.resolved
+    }
+
+    for (const provider of providers) {
+        const resolved = await provider.load(clientName)
+        if (resolved) {
+            if (cached?.resolved.source !== resolved.source || cached.resolved.label !== resolved.label) {
+                console.log(`[SECTIGO CREDENTIALS] Client "${clientName}" using ${resolved.source} credential "${resolved.label}"`)
+            }
+            cache.set(clientName, { resolved, expiresAt: Date.now() + getCacheMs() })
+            return resolved
+        }
+    }
+
+    throw new SectigoCredentialsError(
+        `No Sectigo credentials configured for client "${clientName}": activate one in ` +
+        `Admin → Sectigo Credentials, or set ${sectigoClientEnvKey(clientName, 'CREDENTIALS_FILE')} or ` +
+        `${sectigoClientEnvKey(clientName, 'LOGIN_NAME')} / ${sectigoClientEnvKey(clientName, 'LOGIN_PASSWORD')}`
+    )
+}
+
+/**
+ * Drop a client's cached credential (all clients when no name is given)
+ * so the next call resolves again
+ */
+export function invalidateSectigoCredentials(clientName?: string): void {
+    if (clientName) {
+        cache.delete(clientName)
+    } else {
+        cache.clear()
+    }
+}
+
+export type CredentialStatus =
+    | { clientName: string; source: CredentialSource; label: string; loginName: string }
+    | { clientName: string; source: null; error: string }
+
+/**
+ * Which credential a client is using, without secrets
+ */
+export async function getCredentialStatus(clientName: string = DEFAULT_SECTIGO_CLIENT): Promise<CredentialStatus> {
+    try {
+        const { source, label, credentials } = await resolveSectigoCredentials(clientName)
+        return { clientName, source, label, loginName: credentials.loginName }
+    } catch (error) {
+        return { clientName, source: null, error: error instanceof Error ? error.message : String(error) }
+    }
+}
+
+// ============================================
+// Stored Credentials (admin settings page)
+// All functions need the service-role client.
+// ============================================
+
+export async function listStoredCredentials(supabase: SupabaseClient): Promise<StoredCredential[]> {
+    const { data, error } = await supabase
+        .from('sectigo_credentials')
+        .select(STORED_CREDENTIAL_COLUMNS)
+        .order('created_at', { ascending: false })
+
+    if (error) throw new Error(`Failed to list credentials: ${error.message}`)
+    return (data || []) as StoredCredential[]
+}
+
+/**
+ * Store a new (inactive) credential; the password is encrypted first
+ */
+export async function createStoredCredential(
+    supabase: SupabaseClient,
+    {
+        clientName,
+        label,
+        loginName,
+        loginPassword,
+        createdBy
+    }: { clientName: string; label: string; loginName: string; loginPassword: string; createdBy: string }
+): Promise<StoredCredential> {
+    const { data, error } = await supabase
+        .from('sectigo_credentials')
+        .insert({
+            client_name: clientName,
+            label,
+            login_name: loginName,
+            password_ciphertext: encryptSecret(loginPassword),
+            created_by: createdBy
+        })
+        .select(STORED_CREDENTIAL_COLUMNS)
+        .single()
+
+    if (error) throw new Error(`Failed to store credential: ${error.message}`)
+    return data as StoredCredential
+}
+
+/**
+ * Decrypt a stored credential (for testing it before activation)
+ */
+export async function loadStoredCredential(
+    supabase: SupabaseClient,
+    credentialId: string
+): Promise<{ clientName: string; credentials: SectigoCredentials } | null> {
+    const { data, error } = await supabase
+        .from('sectigo_credentials')
+        .select('client_name, login_name, password_ciphertext')
+        .eq('id', credentialId)
+        .maybeSingle()
+
+    if (error) throw new Error(`Failed to load credential: ${error.message}`)
+    if (!data) return null
+
+    return {
+        clientName: data.client_name,
+        credentials: {
+            loginName: data.login_name,
+            loginPassword: decryptSecret(data.password_ciphertext)
+        }
+    }
+}
+
+export async function recordCredentialTest(
+    supabase: SupabaseClient,
+    credentialId: string,
+    result: { ok: boolean; error?: string | null }
+): Promise<void> {
+    const { error } = await supabase
+        .from('sectigo_credentials')
+        .update({
+            last_tested_at: new Date().toISOString(),
+            last_test_ok: result.ok,
+            last_test_error: result.ok ? null : result.error || 'Unknown error'
+        })
+        .eq('id', credentialId)
+
+    if (error) {
+        console.error('[SECTIGO CREDENTIALS] Failed to record test result:', error.message)
+    }
+}
+
+/**
+ * Make a tested credential the active one for its client and drop the cache
+ */
+export async function activateStoredCredential(
+    supabase: SupabaseClient,
+    { credentialId, clientName }: { credentialId: string; clientName: string },
+    actorId: string
+): Promise<void> {
+    const { error } = await supabase.rpc('activate_sectigo_credential', {
+        p_credential_id: credentialId,
+        p_actor_id: actorId
+    })
+
+    if (error) throw new Error(`Failed to activate credential: ${error.message}`)
+    invalidateSectigoCredentials(clientName)
+}
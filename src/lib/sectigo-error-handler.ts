@@ -36,6 +36,18 @@ export function isDomainAlreadyExistsError(errorMessage: string): boolean {
     return patterns.some(pattern => pattern.test(errorMessage))
 }
 
+/**
+ * Check if error is "domain not found" (REMOVEDOMAIN on a domain Sectigo no longer has)
+ */
+export function isDomainNotFoundError(errorMessage: string): boolean {
+    const patterns = [
+        /domain.*not.*found/i,
+        /domain.*does.*not.*exist/i,
+        /domain.*not.*subscribed/i
+    ]
+    return patterns.some(pattern => pattern.test(errorMessage))
+}
+
 /**
  * Check if error is subscription expired
  */
@@ -161,7 +173,7 @@ export async function handleSectigoAPIError(
         return {
             success: false,
             errorType: 'urn:ietf:params:acme:error:unauthorized',
-            errorMessage: 'Authentication failed. Please check SECTIGO_LOGIN_NAME and SECTIGO_LOGIN_PASSWORD.',
+            errorMessage: 'Authentication failed. Please check the active Sectigo credentials.',
             errorCode: status,
             details: errorMessage
         }
@@ -178,12 +190,20 @@ export async function handleSectigoAPIError(
 }
 
 /**
- * Log API request for debugging (production-safe, no credentials)
+ * Copy of request params without credentials (safe to log or store)
  */
-export function logAPIRequest(action: string, params: Record<string, string>) {
+export function redactParams(params: Record<string, string>): Record<string, string> {
     const safeParams = { ...params }
     delete safeParams.loginName
     delete safeParams.loginPassword
+    return safeParams
+}
+
+/**
+ * Log API request for debugging (production-safe, no credentials)
+ */
+export function logAPIRequest(action: string, params: Record<string, string>) {
+    const safeParams = redactParams(params)
 
     console.log(`[SECTIGO API] ${action}`, {
         timestamp: new Date().toISOString(),
@@ -0,0 +1,361 @@
+/**
+ * Sectigo Job Queue
+ *
+ * Every Sectigo side effect is recorded in `sectigo_jobs` before it runs:
+ * - ADDDOMAIN          payload { provisioningJobId } → runProvisioningJob
+ * - REMOVEDOMAIN       payload { domainId }          → removeDomain
+ * - SUSPENDACCOUNT /
+ *   UNSUSPENDACCOUNT /
+ *   DEACTIVATEACCOUNT  payload { accountId, acmeAccountId } → applyAccountAction
+ * - SYNC_CERT          payload { domainId }          → syncDomainCertificate
+ *
+ * Routes enqueue and immediately run their job (runSectigoJob). If the
+ * handler throws, the job goes back to 'pending' with run_after pushed out
+ * by calculateBackoffDelay scaled to minutes (1, 2, 4, 8 min), and the
+ * worker cron (runSectigoWorker) picks it up in a later run, so attempts
+ * are spread over an outage instead of used up within one run. After max_attempts, or on a PermanentJobError, the job is dead-lettered.
+ * While the Sectigo circuit breaker is open, jobs are deferred until it
+ * half-opens without counting the attempt.
+ *
+ * Handlers delegate to flows that are already resumable, so running a job
+ * twice (e.g. after a worker died mid-job) never double charges.
+ *
+ * All queue writes need the service-role client (createAdminClient).
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { calculateBackoffDelay } from './sectigo-error-handler'
+import { SectigoCircuitOpenError } from './sectigo-resilience'
+import { withSectigoCallContext } from './sectigo-journal'
+import { runProvisioningJob } from './domain-provisioning'
+import { removeDomain } from './domain-removal'
+import { applyAccountAction, type AccountAction } from './account-management'
+import { syncDomainCertificate } from './certificate-sync'
+import type { SectigoJob, SectigoJobType } from './types'
+
+export const DEFAULT_MAX_ATTEMPTS = 5
+
+// A job still 'running' after this long is assumed abandoned and reclaimed
+const STALE_LOCK_SECONDS = 300
+
+// calculateBackoffDelay (2s, 4s, ...) × 30 = 1, 2, 4, 8 min between job attempts.
+// The first retry is due after the worker's time budget, so a failed job is
+// never re-claimed in the same run.
+const JOB_BACKOFF_SCALE = 30
+
+/**
+ * Error that retrying can't fix (bad payload, access denied, ...).
+ * The job is dead-lettered immediately.
+ */
+export class PermanentJobError extends Error {
+    constructor(message: string) {
+        super(message)
+        this.name = 'PermanentJobError'
+    }
+}
+
+type JobHandler = (supabase: SupabaseClient, job: SectigoJob) => Promise<unknown>
+
+const ACCOUNT_ACTIONS: Partial<Record<SectigoJobType, AccountAction>> = {
+    SUSPENDACCOUNT: 'suspend',
+    UNSUSPENDACCOUNT: 'unsuspend',
+    DEACTIVATEACCOUNT: 'deactivate'
+}
+
+const accountActionHandler: JobHandler = async (supabase, job) => {
+    const { accountId, acmeAccountId } = job.payload as { accountId?: string; acmeAccountId?: string }
+    if (!accountId || !acmeAccountId) {
+        throw new PermanentJobError('Missing accountId or acmeAccountId')
+    }
+
+    return applyAccountAction(supabase, {
+        accountId,
+        acmeAccountId,
+        action: ACCOUNT_ACTIONS[job.job_type]!,
+        actorId: job.created_by
+    })
+}
+
+const JOB_HANDLERS: Record<SectigoJobType, JobHandler> = {
+    ADDDOMAIN: async (supabase, job) => {
+        const { provisioningJobId } = job.payload as { provisioningJobId?: string }
+        if (!provisioningJobId) {
+            throw new PermanentJobError('Missing provisioningJobId')
+        }
+
+        const result = await runProvisioningJob(supabase, provisioningJobId, { actorId: job.created_by })
+        if (!result) {
+            throw new PermanentJobError('Provisioning job not found')
+        }
+
+        // Items left mid-saga are resumed on the next attempt
+        if (result.status === 'running') {
+            const unfinished = result.results.filter(r => r.step !== 'committed' && r.step !== 'rolled_back')
+            throw new Error(`${unfinished.length} domain(s) not finished: ${unfinished.map(r => r.error || r.domain).join('; ')}`)
+        }
+
+        return result
+    },
+
+    REMOVEDOMAIN: async (supabase, job) => {
+        const { domainId, actorLabel } = job.payload as { domainId?: string; actorLabel?: string }
+        if (!domainId || !job.created_by) {
+            throw new PermanentJobError('Missing domainId or creator')
+        }
+
+        const result = await removeDomain(supabase, { domainId, actorId: job.created_by, actorLabel })
+        if (!result.success) {
+            if (result.status >= 500) {
+                throw new Error(result.error)
+            }
+            throw new PermanentJobError(result.error)
+        }
+
+        return result
+    },
+
+    SUSPENDACCOUNT: accountActionHandler,
+    UNSUSPENDACCOUNT: accountActionHandler,
+    DEACTIVATEACCOUNT: accountActionHandler,
+
+    SYNC_CERT: async (supabase, job) => {
+        const { domainId } = job.payload as { domainId?: string }
+        if (!domainId) {
+            throw new PermanentJobError('Missing domainId')
+        }
+
+        return syncDomainCertificate(supabase, domainId)
+    }
+}
+
+// ============================================
+// Enqueue
+// ============================================
+
+/**
+ * Record a Sectigo job. With a dedupeKey, an existing open job for the
+ * same key is returned instead of creating a second one.
+ */
+export async function enqueueSectigoJob(
+    supabase: SupabaseClient,
+    { type, partnerId, accountId = null, payload, dedupeKey = null, createdBy = null, maxAttempts = DEFAULT_MAX_ATTEMPTS }: {
+        type: SectigoJobType
+        partnerId: string
+        accountId?: string | null
+        payload: Record<string, unknown>
+        dedupeKey?: string | null
+        createdBy?: string | null
+        maxAttempts?: number
+    }
+): Promise<SectigoJob> {
+    const { data, error } = await supabase
+        .from('sectigo_jobs')
+        .insert({
+            job_type: type,
+            partner_id: partnerId,
+            acme_account_id: accountId,
+            payload,
+            dedupe_key: dedupeKey,
+            created_by: createdBy,
+            max_attempts: maxAttempts
+        })
+        .select()
+        .single()
+
+    if (!error && data) {
+        return data as SectigoJob
+    }
+
+    // Unique violation on the open-job dedupe index
+    if (error?.code === '23505' && dedupeKey) {
+        const { data: existing } = await supabase
+            .from('sectigo_jobs')
+            .select('*')
+            .eq('dedupe_key', dedupeKey)
+            .in('status', ['pending', 'running'])
+            .maybeSingle()
+
+        if (existing) {
+            return existing as SectigoJob
+        }
+    }
+
+    throw new Error(`Failed to enqueue ${type} job: ${error?.message || 'unknown error'}`)
+}
+
+// ============================================
+// Run
+// ============================================
+
+/**
+ * Claim and run one job now (e.g. right after enqueueing it in a route).
+ * Returns the job's latest state; it is still 'pending' if the attempt
+ * failed and a retry is scheduled, or if it isn't due yet.
+ */
+export async function runSectigoJob(supabase: SupabaseClient, jobId: string): Promise<SectigoJob | null> {
+    const claimed = await claimJobs(supabase, { limit: 1, jobIds: [jobId] })
+    if (claimed.length > 0) {
+        return executeJob(supabase, claimed[0])
+    }
+
+    const { data } = await supabase
+        .from('sectigo_jobs')
+        .select('*')
+        .eq('id', jobId)
+        .single()
+
+    return (data as SectigoJob | null) || null
+}
+
+/**
+ * Process due jobs until none are left or the time budget runs out
+ */
+export async function runSectigoWorker(
+    supabase: SupabaseClient,
+    { batchSize = 10, jobIds, timeBudgetMs = 50000 }: { batchSize?: number; jobIds?: string[]; timeBudgetMs?: number } = {}
+): Promise<{ processed: number; succeeded: number; retrying: number; dead: number }> {
+    const deadline = Date.now() + timeBudgetMs
+    const summary = { processed: 0, succeeded: 0, retrying: 0, dead: 0 }
+
+    while (Date.now() < deadline) {
+        const batch = await claimJobs(supabase, { limit: batchSize, jobIds })
+        if (batch.length === 0) break
+
+        for (const job of batch) {
+            const finished = await executeJob(supabase, job)
+            summary.processed++
+            if (finished.status === 'succeeded') summary.succeeded++
+            else if (finished.status === 'dead') summary.dead++
+            else summary.retrying++
+        }
+    }
+
+    return summary
+}
+
+/**
+ * Put a dead job back in the queue with a fresh set of attempts
+ */
+export async function requeueSectigoJob(supabase: SupabaseClient, jobId: string): Promise<SectigoJob | null> {
+    const { data } = await supabase
+        .from('sectigo_jobs')
+        .update({
+            status: 'pending',
+            attempts: 0,
+            run_after: new Date().toISOString(),
+            completed_at: null
+        })
+        .eq('id', jobId)
+        .eq('status', 'dead')
+        .select()
+        .maybeSingle()
+
+    return (data as SectigoJob | null) || null
+}
+
+// ============================================
+// Internals
+// ============================================
+
+async function claimJobs(
+    supabase: SupabaseClient,
+    { limit, jobIds }: { limit: number; jobIds?: string[] }
+): Promise<SectigoJob[]> {
+    const { data, error } = await supabase.rpc('claim_sectigo_jobs', {
+        p_worker_id: `worker-${crypto.randomUUID().slice(0, 8)}`,
+        p_limit: limit,
+        p_job_ids: jobIds && jobIds.length > 0 ? jobIds : null,
+        p_stale_seconds: STALE_LOCK_SECONDS
+    })
+
+    if (error) {
+        console.error('[Sectigo Jobs] Claim failed:', error)
+        return []
+    }
+
+    return (data || []) as SectigoJob[]
+}
+
+async function executeJob(supabase: SupabaseClient, job: SectigoJob): Promise<SectigoJob> {
+    // Reclaimed after a crash with no attempts left
+    if (job.attempts > job.max_attempts) {
+        return finishJob(supabase, job, { status: 'dead', last_error: job.last_error || 'Max attempts exceeded' })
+    }
+
+    try {
+        const result = await withSectigoCallContext({ jobId: job.id }, () =>
+            JOB_HANDLERS[job.job_type](supabase, job)
+        )
+        console.log(`[Sectigo Jobs] ${job.job_type} ${job.id} succeeded (attempt ${job.attempts})`)
+        return finishJob(supabase, job, { status: 'succeeded', result: result ?? null, last_error: null })
+    } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error'
+        const permanent = error instanceof PermanentJobError
+
+        // Sectigo was never contacted: wait for the breaker without using up an attempt
+        if (error instanceof SectigoCircuitOpenError) {
+            console.warn(`[Sectigo Jobs] ${job.job_type} ${job.id} deferred until ${error.retryAt.toISOString()}: circuit open`)
+            return rescheduleJob(supabase, job, {
+                runAfter: error.retryAt,
+                attempts: job.attempts - 1,
+                message
+            })
+        }
+
+        if (permanent || job.attempts >= job.max_attempts) {
+            console.error(`[Sectigo Jobs] ${job.job_type} ${job.id} dead-lettered: ${message}`)
+            return finishJob(supabase, job, { status: 'dead', last_error: message })
+        }
+
+        const delayMs = calculateBackoffDelay(job.attempts - 1) * JOB_BACKOFF_SCALE
+        console.warn(`[Sectigo Jobs] ${job.job_type} ${job.id} failed (attempt ${job.attempts}), retry in ${delayMs}ms: ${message}`)
+
+        return rescheduleJob(supabase, job, {
+            runAfter: new Date(Date.now() + delayMs),
+            attempts: job.attempts,
+            message
+        })
+    }
+}
+
+async function rescheduleJob(
+    supabase: SupabaseClient,
+    job: SectigoJob,
+    retry: { runAfter: Date; attempts: number; message: string }
+): Promise<SectigoJob> {
+    const { data } = await supabase
+        .from('sectigo_jobs')
+        .update({
+            status: 'pending',
+            run_after: retry.runAfter.toISOString(),
+            attempts: retry.attempts,
+            locked_at: null,
+            locked_by: null,
+            last_error: retry.message
+        })
+        .eq('id', job.id)
+        .select()
+        .single()
+
+    return (data as SectigoJob | null) || { ...job, status: 'pending', attempts: retry.attempts, last_error: retry.message }
+}
+
+async function finishJob(
+    supabase: SupabaseClient,
+    job: SectigoJob,
+    update: { status: 'succeeded' | 'dead'; result?: unknown; last_error: string | null }
+): Promise<SectigoJob> {
+    const { data } = await supabase
+        .from('sectigo_jobs')
+        .update({
+            ...update,
+            locked_at: null,
+            locked_by: null,
+            completed_at: new Date().toISOString()
+        })
+        .eq('id', job.id)
+        .select()
+        .single()
+
+    return (data as SectigoJob | null) || { ...job, status: update.status, last_error: update.last_error }
+}
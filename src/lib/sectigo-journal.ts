@@ -0,0 +1,105 @@
+/**
+ * Sectigo API Call Journal
+ *
+ * Persists every HTTP attempt made by SectigoClient to `sectigo_api_calls`
+ * so disputed charges can be traced back to what was sent and received.
+ *
+ * Calls are linked to what triggered them through an async context:
+ *
+ *   await withSectigoCallContext({ transactionId: tx.id }, () =>
+ *       client.extendDomains({ ... })
+ *   )
+ *
+ * Contexts nest (a transaction inside a job keeps both ids). Journal writes
+ * never fail the Sectigo call; errors are only logged.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks'
+import { createAdminClient } from './supabase/admin'
+import { redactParams } from './sectigo-error-handler'
+
+export interface SectigoCallContext {
+    transactionId?: string | null
+    jobId?: string | null
+}
+
+export interface SectigoCallRecord {
+    action: string
+    clientName: string
+    params: Record<string, string>
+    success: boolean
+    httpStatus: number | null
+    latencyMs: number
+    retryCount: number
+    errorCode?: string | null
+    errorMessage?: string | null
+    orderNumber?: string | null
+    mockMode: boolean
+}
+
+const callContext = new AsyncLocalStorage<SectigoCallContext>()
+
+/**
+ * Run fn with the given ids attached to every Sectigo call it makes
+ */
+export function withSectigoCallContext<T>(context: SectigoCallContext, fn: () => Promise<T>): Promise<T> {
+    const parent = callContext.getStore() || {}
+    return callContext.run({ ...parent, ...stripEmpty(context) }, fn)
+}
+
+export function getSectigoCallContext(): SectigoCallContext {
+    return callContext.getStore() || {}
+}
+
+function stripEmpty(context: SectigoCallContext): SectigoCallContext {
+    return Object.fromEntries(
+        Object.entries(context).filter(([, value]) => value)
+    )
+}
+
+/**
+ * Pull the Sectigo order number out of a response body, if it has one
+ */
+export function extractOrderNumber(data: unknown): string | null {
+    if (data && typeof data === 'object' && 'orderNumber' in data) {
+        const value = (data as { orderNumber: unknown }).orderNumber
+        if (typeof value === 'number' || typeof value === 'string') {
+            return value.toString()
+        }
+    }
+    return null
+}
+
+/**
+ * Write one call to the journal
+ */
+export async function recordSectigoCall(record: SectigoCallRecord): Promise<void> {
+    const context = getSectigoCallContext()
+    const params = redactParams(record.params)
+
+    try {
+        const { error } = await createAdminClient().from('sectigo_api_calls').insert({
+            action: record.action,
+            client_name: record.clientName,
+            params,
+            acme_account_id: params.acmeAccountID || null,
+            domain_name: params.domainName || null,
+            success: record.success,
+            http_status: record.httpStatus,
+            latency_ms: Math.round(record.latencyMs),
+            retry_count: record.retryCount,
+            error_code: record.errorCode || null,
+            error_message: record.errorMessage || null,
+            order_number: record.orderNumber || null,
+            transaction_id: context.transactionId || null,
+            job_id: context.jobId || null,
+            mock_mode: record.mockMode
+        })
+
+        if (error) {
+            console.error(`[SECTIGO JOURNAL] Failed to record ${record.action}:`, error.message)
+        }
+    } catch (error) {
+        console.error(`[SECTIGO JOURNAL] Failed to record ${record.action}:`, error)
+    }
+}
@@ -0,0 +1,85 @@
+/**
+ * Sectigo Client Registry
+ *
+ * KICA runs more than one Sectigo CaaS reseller account (a sandbox for test
+ * partners, regional production accounts). Each one is a named client;
+ * getSectigoClient(name) in sectigo.ts returns its SectigoClient.
+ *
+ * Which client a record uses:
+ *   - ACME account → acme_accounts.sectigo_client (stamped at creation)
+ *   - new account  → partners.sectigo_client
+ *   - NULL         → 'default'
+ *
+ * Configuration (env), where <NAME> is the upper-cased client name:
+ *   SECTIGO_CLIENTS                     extra client names, comma-separated
+ *   SECTIGO_<NAME>_CAAS_API_URL         endpoint (default SECTIGO_CAAS_API_URL)
+ *   SECTIGO_<NAME>_MOCK                 'true' serves the client from the simulator
+ *   SECTIGO_<NAME>_LOGIN_NAME / _LOGIN_PASSWORD / _CREDENTIALS_FILE
+ *                                       credentials (see sectigo-credentials.ts)
+ *
+ * The 'default' client uses the unprefixed variables (SECTIGO_CAAS_API_URL,
+ * SECTIGO_LOGIN_NAME, ...).
+ */
+
+export const DEFAULT_SECTIGO_CLIENT = 'default'
+
+const DEFAULT_API_URL = 'https://secure.trust-provider.com/products/!ACMEAdmin'
+
+export interface SectigoClientConfig {
+    name: string
+    apiUrl: string
+    mockMode: boolean
+}
+
+export class UnknownSectigoClientError extends Error {
+    constructor(name: string) {
+        super(`Unknown Sectigo client "${name}" (configured: ${listSectigoClientNames().join(', ')})`)
+        this.name = 'UnknownSectigoClientError'
+    }
+}
+
+/**
+ * Env variable for a client: SECTIGO_<suffix> for default,
+ * SECTIGO_<NAME>_<suffix> otherwise
+ */
+export function sectigoClientEnvKey(name: string, suffix: string): string {
+    return name === DEFAULT_SECTIGO_CLIENT
+        ? `SECTIGO_${suffix}`
+        : `SECTIGO_${name.toUpperCase().replace(/[^A-Z0-9]/g, '_')}_${suffix}`
+}
+
+/**
+ * All configured client names, 'default' first
+ */
+export function listSectigoClientNames(): string[] {
+    const extra = (process.env.SECTIGO_CLIENTS || '')
+        .split(',')
+        .map(name => name.trim().toLowerCase())
+        .filter(name => name && name !== DEFAULT_SECTIGO_CLIENT)
+
+    return [DEFAULT_SECTIGO_CLIENT, ...new Set(extra)]
+}
+
+export function isSectigoClientName(name: string): boolean {
+    return listSectigoClientNames().includes(name)
+}
+
+/**
+ * Endpoint and mode for a named client
+ */
+export function getSectigoClientConfig(name: string = DEFAULT_SECTIGO_CLIENT): SectigoClientConfig {
+    if (!isSectigoClientName(name)) {
+        throw new UnknownSectigoClientError(name)
+    }
+
+    const globalMock = process.env.NEXT_PUBLIC_ENABLE_SECTIGO_MOCK === 'true'
+
+    return {
+        name,
+        apiUrl: process.env[sectigoClientEnvKey(name, 'CAAS_API_URL')] ||
+            process.env.SECTIGO_CAAS_API_URL ||
+            DEFAULT_API_URL,
+        mockMode: globalMock || (name !== DEFAULT_SECTIGO_CLIENT &&
+            process.env[sectigoClientEnvKey(name, 'MOCK')] === 'true')
+    }
+}
@@ -0,0 +1,239 @@
+/**
+ * Sectigo Client Resilience
+ *
+ * Shared guards in front of every Sectigo CaaS request:
+ * - Token bucket rate limiter: requests wait for a token instead of
+ *   bursting into 429s during bulk work (syncs, reconciliation, workers)
+ * - Circuit breaker: after repeated upstream failures (5xx, 429, timeouts,
+ *   network errors) requests fail fast with SectigoCircuitOpenError until
+ *   the cooldown elapses; one probe request then decides whether to close
+ *
+ * State lives in module scope, one limiter and breaker per registry client
+ * (see sectigo-registry.ts), shared by every request in the same server
+ * instance (not across serverless instances). Reseller accounts have
+ * separate quotas, so one account's trouble doesn't block the others.
+ *
+ * Configuration (env):
+ *   SECTIGO_RATE_LIMIT_PER_SECOND       token refill rate, default 5
+ *   SECTIGO_RATE_LIMIT_BURST            bucket capacity, default 10
+ *   SECTIGO_BREAKER_FAILURE_THRESHOLD   consecutive failures to open, default 5
+ *   SECTIGO_BREAKER_COOLDOWN_MS         open → half-open delay, default 30000
+ */
+
+import { DEFAULT_SECTIGO_CLIENT, listSectigoClientNames } from './sectigo-registry'
+
+// ============================================
+// Configuration
+// ============================================
+
+export interface ResilienceConfig {
+    ratePerSecond: number
+    burst: number
+    failureThreshold: number
+    cooldownMs: number
+}
+
+const DEFAULT_CONFIG: ResilienceConfig = {
+    ratePerSecond: 5,
+    burst: 10,
+    failureThreshold: 5,
+    cooldownMs: 30000
+}
+
+function readPositive(name: string, fallback: number): number {
+    const configured = Number(process.env[name])
+    return Number.isFinite(configured) && configured > 0 ? configured : fallback
+}
+
+/**
+ * Resolve limiter and breaker thresholds from env, falling back to defaults
+ */
+export function getResilienceConfig(): ResilienceConfig {
+    return {
+        ratePerSecond: readPositive('SECTIGO_RATE_LIMIT_PER_SECOND', DEFAULT_CONFIG.ratePerSecond),
+        burst: Math.floor(readPositive('SECTIGO_RATE_LIMIT_BURST', DEFAULT_CONFIG.burst)),
+        failureThreshold: Math.floor(readPositive('SECTIGO_BREAKER_FAILURE_THRESHOLD', DEFAULT_CONFIG.failureThreshold)),
+        cooldownMs: readPositive('SECTIGO_BREAKER_COOLDOWN_MS', DEFAULT_CONFIG.cooldownMs)
+    }
+}
+
+// ============================================
+// Errors
+// ============================================
+
+/**
+ * Thrown without contacting Sectigo while the circuit is open
+ */
+export class SectigoCircuitOpenError extends Error {
+    readonly retryAt: Date
+
+    constructor(retryAt: Date) {
+        super(`Sectigo API temporarily unavailable (circuit open until ${retryAt.toISOString()})`)
+        this.name = 'SectigoCircuitOpenError'
+        this.retryAt = retryAt
+    }
+}
+
+// ============================================
+// Token Bucket
+// ============================================
+
+export class TokenBucket {
+    private tokens: number
+    private lastRefill: number
+
+    constructor(private ratePerSecond: number, private capacity: number) {
+        this.tokens = capacity
+        this.lastRefill = Date.now()
+    }
+
+    private refill() {
+        const now = Date.now()
+        const elapsed = (now - this.lastRefill) / 1000
+        this.tokens = Math.min(this.capacity, this.tokens + elapsed * this.ratePerSecond)
+        this.lastRefill = now
+    }
+
+    /**
+     * Take one token, waiting until it is available.
+     * Tokens are reserved up front (the balance may go negative), so
+     * concurrent callers are released in order at the configured rate.
+     */
+    async acquire(): Promise<void> {
+        this.refill()
+        this.tokens -= 1
+
+        if (this.tokens < 0) {
+            const waitMs = Math.ceil((-this.tokens / this.ratePerSecond) * 1000)
+            await new Promise(resolve => setTimeout(resolve, waitMs))
+        }
+    }
+
+    available(): number {
+        this.refill()
+        return this.tokens
+    }
+}
+
+// ============================================
+// Circuit Breaker
+// ============================================
+
+export type CircuitState = 'closed' | 'open' | 'half_open'
+
+export class CircuitBreaker {
+    private state: CircuitState = 'closed'
+    private consecutiveFailures = 0
+    private openedAt: number | null = null
+    private probeInFlight = false
+    private lastFailure: { at: string; message: string } | null = null
+
+    constructor(private failureThreshold: number, private cooldownMs: number) {}
+
+    /**
+     * Throws SectigoCircuitOpenError if the request must not be sent.
+     * Once the cooldown has elapsed a single probe request is let through.
+     */
+    beforeRequest(): void {
+        if (this.state === 'closed') return
+
+        if (this.state === 'open' && this.openedAt !== null && Date.now() - this.openedAt >= this.cooldownMs) {
+            this.state = 'half_open'
+        }
+
+        if (this.state === 'half_open' && !this.probeInFlight) {
+            this.probeInFlight = true
+            return
+        }
+
+        throw new SectigoCircuitOpenError(this.retryAt())
+    }
+
+    recordSuccess(): void {
+        if (this.state !== 'closed') {
+            console.log('[SECTIGO] Circuit breaker closed')
+        }
+        this.state = 'closed'
+        this.consecutiveFailures = 0
+        this.openedAt = null
+        this.probeInFlight = false
+    }
+
+    recordFailure(message: string): void {
+        this.consecutiveFailures += 1
+        this.lastFailure = { at: new Date().toISOString(), message }
+        this.probeInFlight = false
+
+        if (this.state === 'half_open' || this.consecutiveFailures >= this.failureThreshold) {
+            if (this.state !== 'open') {
+                console.error(`[SECTIGO] Circuit breaker opened after ${this.consecutiveFailures} failures: ${message}`)
+            }
+            this.state = 'open'
+            this.openedAt = Date.now()
+        }
+    }
+
+    private retryAt(): Date {
+        return new Date((this.openedAt ?? Date.now()) + this.cooldownMs)
+    }
+
+    snapshot() {
+        return {
+            state: this.state,
+            consecutiveFailures: this.consecutiveFailures,
+            openedAt: this.openedAt ? new Date(this.openedAt).toISOString() : null,
+            retryAt: this.state === 'closed' ? null : this.retryAt().toISOString(),
+            lastFailure: this.lastFailure
+        }
+    }
+}
+
+// ============================================
+// Shared Instances (one pair per registry client)
+// ============================================
+
+const rateLimiters = new Map<string, TokenBucket>()
+const circuitBreakers = new Map<string, CircuitBreaker>()
+
+export function getRateLimiter(clientName: string = DEFAULT_SECTIGO_CLIENT): TokenBucket {
+    let limiter = rateLimiters.get(clientName)
+    if (!limiter) {
+        const config = getResilienceConfig()
+        limiter = new TokenBucket(config.ratePerSecond, config.burst)
+        rateLimiters.set(clientName, limiter)
+    }
+    return limiter
+}
+
+export function getCircuitBreaker(clientName: string = DEFAULT_SECTIGO_CLIENT): CircuitBreaker {
+    let breaker = circuitBreakers.get(clientName)
+    if (!breaker) {
+        const config = getResilienceConfig()
+        breaker = new CircuitBreaker(config.failureThreshold, config.cooldownMs)
+        circuitBreakers.set(clientName, breaker)
+    }
+    return breaker
+}
+
+/**
+ * Current limiter and breaker state per client (for the status endpoint)
+ */
+export function getResilienceStatus(clientNames: string[] = listSectigoClientNames()) {
+    return {
+        config: getResilienceConfig(),
+        clients: Object.fromEntries(clientNames.map(name => [name, {
+            circuit: getCircuitBreaker(name).snapshot(),
+            rateLimiter: {
+                availableTokens: Math.max(0, Math.floor(getRateLimiter(name).available()))
+            }
+        }]))
+    }
+}
+
+/**
+ * Reset limiter and breaker state (useful for testing)
+ */
+export function resetResilience(): void {
+    rateLimiters.clear()
+    circuitBreakers.clear()
+}
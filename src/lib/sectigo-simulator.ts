@@ -0,0 +1,615 @@
+/**
+ * Sectigo CaaS Simulator
+ *
+ * Stateful in-memory stand-in for the Sectigo CaaS endpoint, used when
+ * NEXT_PUBLIC_ENABLE_SECTIGO_MOCK=true. It plugs into SectigoClient as a
+ * fetch-compatible transport, so mock mode exercises the same retry,
+ * timeout and error-handling paths as production.
+ *
+ * Tracks:
+ * - Accounts created by PREREGISTER (status, subscription expiry, EAB,
+ *   OV anchor order number - required on OV servers, as is the anchor
+ *   on every ADDDOMAIN of an OV account)
+ * - Domains added/removed per account
+ * - Orders and issued certificates (GETLASTORDER)
+ * - Suspensions / deactivations
+ * - Billable transactions (LISTTRANSACTIONS)
+ *
+ * Scripted failures:
+ *   injectFault({ action: 'ADDDOMAIN', type: 'rateLimit', times: 2 })
+ *   injectFault({ type: 'timeout' })
+ *   injectFault({ action: 'ADDDOMAIN', type: 'domainAlreadyPresent' })
+ */
+
+import type { SectigoTransaction, ServerInfo } from './sectigo-types'
+
+// ============================================
+// Types
+// ============================================
+
+export type SectigoTransport = (url: string, init: RequestInit) => Promise<Response>
+
+export type SimulatedFaultType =
+    | 'rateLimit'             // 429 Too Many Requests
+    | 'timeout'               // Request aborted (as if 30s elapsed)
+    | 'domainAlreadyPresent'  // 403 "Domain is already present"
+    | 'serverError'           // 500 Internal Server Error
+    | 'error'                 // Custom status/message
+
+export interface SimulatedFault {
+    type: SimulatedFaultType
+    action?: string   // Only match this action (default: any)
+    times?: number    // Number of calls to fail (default: 1)
+    status?: number   // For type 'error'
+    message?: string  // For type 'error'
+}
+
+interface SimulatedOrder {
+    orderNumber: number
+    certificateID: number
+    serialNumber: string
+    domainName: string
+    statusCode: number
+    statusDesc: string
+    validNotBefore: string
+    validNotAfter: string
+}
+
+interface SimulatedDomain {
+    domainName: string
+    orderNumber: number
+    type: 'paid' | 'free'
+    addedDate: string
+}
+
+interface SimulatedAccount {
+    acmeAccountID: string
+    serverUrl: string
+    status: 'pending' | 'active' | 'suspended' | 'deactivated'
+    eabMACKeyb64url: string
+    eabMACIDb64url: string
+    expiresAt: Date
+    ovAnchorOrderNumber: string | null
+    domains: Map<string, SimulatedDomain>
+    orders: SimulatedOrder[]
+    transactions: SectigoTransaction[]
+}
+
+interface SimulatorState {
+    accounts: Map<string, SimulatedAccount>
+    faults: SimulatedFault[]
+    nextOrderNumber: number
+    nextCertificateID: number
+    latencyMs: number
+    callLog: { action: string; params: Record<string, string>; status: number }[]
+}
+
+// ============================================
+// Configuration
+// ============================================
+
+const PRICE_SINGLE = 50
+const PRICE_WILDCARD = 150
+const CERT_VALIDITY_DAYS = 90
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const SERVERS: ServerInfo[] = [
+    {
+        serverUrl: 'https://acme.sectigo.com/v2/DV',
+        description: 'Domain Validation',
+        validationType: 'DV'
+    },
+    {
+        serverUrl: 'https://acme.sectigo.com/v2/OV',
+        description: 'Organization Validation',
+        validationType: 'OV'
+    }
+]
+
+// ============================================
+// State
+// ============================================
+
+// Kept on globalThis so every route module (and dev hot reloads) share one simulator
+const globalForSimulator = globalThis as unknown as { __sectigoSimulator?: SimulatorState }
+
+function createState(): SimulatorState {
+    return {
+        accounts: new Map(),
+        faults: [],
+        nextOrderNumber: 1000000,
+        nextCertificateID: 5000000,
+        latencyMs: 200,
+        callLog: []
+    }
+}
+
+function getState(): SimulatorState {
+    if (!globalForSimulator.__sectigoSimulator) {
+        globalForSimulator.__sectigoSimulator = createState()
+    }
+    return globalForSimulator.__sectigoSimulator
+}
+
+// ============================================
+// Test Controls
+// ============================================
+
+/**
+ * Queue a scripted failure. Faults are consumed in the order they were injected.
+ */
+export function injectFault(fault: SimulatedFault): void {
+    getState().faults.push({ times: 1, ...fault })
+}
+
+/**
+ * Drop all pending scripted failures
+ */
+export function clearFaults(): void {
+    getState().faults = []
+}
+
+/**
+ * Reset all simulator state (accounts, domains, orders, faults, call log)
+ */
+export function resetSimulator(): void {
+    globalForSimulator.__sectigoSimulator = createState()
+}
+
+/**
+ * Adjust simulated network latency (set 0 in tests)
+ */
+export function configureSimulator(options: { latencyMs?: number }): void {
+    if (options.latencyMs !== undefined) {
+        getState().latencyMs = options.latencyMs
+    }
+}
+
+/**
+ * Read-only snapshot of an account, for assertions and debugging
+ */
+export function getSimulatedAccount(acmeAccountID: string) {
+    const account = getState().accounts.get(acmeAccountID)
+    if (!account) return null
+
+    return {
+        acmeAccountID: account.acmeAccountID,
+        serverUrl: account.serverUrl,
+        status: account.status,
+        expiresAt: account.expiresAt.toISOString(),
+        domains: Array.from(account.domains.values()),
+        orders: [...account.orders],
+        transactions: [...account.transactions]
+    }
+}
+
+/**
+ * Actions received by the simulator, in order
+ */
+export function getSimulatorCallLog() {
+    return [...getState().callLog]
+}
+
+// ============================================
+// Transport
+// ============================================
+
+/**
+ * Fetch-compatible transport that serves requests from simulator state
+ */
+export const simulatorTransport: SectigoTransport = async (_url, init) => {
+    const state = getState()
+    const params = Object.fromEntries(new URLSearchParams(String(init.body ?? '')))
+    const action = params.action || ''
+
+    if (state.latencyMs > 0) {
+        await new Promise(resolve => setTimeout(resolve, state.latencyMs))
+    }
+
+    if (init.signal?.aborted) {
+        throw abortError()
+    }
+
+    const fault = takeFault(state, action)
+    const response = fault ? faultResponse(fault) : handleAction(state, action, params)
+
+    state.callLog.push({ action, params: redact(params), status: response.status })
+    console.log(`[SECTIGO SIMULATOR] ${action} → ${response.status}${fault ? ` (injected ${fault.type})` : ''}`)
+
+    return response
+}
+
+function takeFault(state: SimulatorState, action: string): SimulatedFault | null {
+    const index = state.faults.findIndex(f => !f.action || f.action === action)
+    if (index === -1) return null
+
+    const fault = state.faults[index]
+    fault.times = (fault.times ?? 1) - 1
+    if (fault.times <= 0) {
+        state.faults.splice(index, 1)
+    }
+    return fault
+}
+
+function faultResponse(fault: SimulatedFault): Response {
+    switch (fault.type) {
+        case 'rateLimit':
+            return errorResponse(429, 'Rate limit exceeded')
+        case 'timeout':
+            throw abortError()
+        case 'domainAlreadyPresent':
+            return errorResponse(403, 'Domain is already present in the ACME account')
+        case 'serverError':
+            return errorResponse(500, 'Internal server error')
+        case 'error':
+            return errorResponse(fault.status ?? 400, fault.message ?? 'Simulated error')
+    }
+}
+
+// ============================================
+// Action Handlers
+// ============================================
+
+function handleAction(state: SimulatorState, action: string, params: Record<string, string>): Response {
+    switch (action) {
+        case 'PREREGISTER':
+            return preregister(state, params)
+        case 'LISTSERVERS':
+            return jsonResponse({ success: true, servers: SERVERS })
+        case 'ADDDOMAIN':
+            return addDomain(state, params)
+        case 'REMOVEDOMAIN':
+            return removeDomain(state, params)
+        case 'LISTDOMAINS':
+            return listDomains(state, params)
+        case 'EXTENDDOMAINS':
+            return extendDomains(state, params)
+        case 'GETLASTORDER':
+            return getLastOrder(state, params)
+        case 'SUSPENDACCOUNT':
+        case 'UNSUSPENDACCOUNT':
+        case 'DEACTIVATEACCOUNT':
+            return manageAccount(state, action, params)
+        case 'LISTTRANSACTIONS':
+            return listTransactions(state, params)
+        default:
+            return errorResponse(400, `Unknown action: ${action}`)
+    }
+}
+
+function preregister(state: SimulatorState, params: Record<string, string>): Response {
+    if (!params.serverURL) {
+        return errorResponse(400, 'Missing parameter: serverURL')
+    }
+    if (!SERVERS.some(s => s.serverUrl === params.serverURL)) {
+        return errorResponse(400, `Unknown ACME server: ${params.serverURL}`)
+    }
+    if (isOvServer(params.serverURL) && !params.ovAnchorOrderNumber) {
+        return errorResponse(400, 'Missing parameter: ovAnchorOrderNumber (required for OV)')
+    }
+
+    const account = createAccount(state, `MOCK_${randomToken(12)}`, params.serverURL, subscriptionDays(params))
+    account.ovAnchorOrderNumber = params.ovAnchorOrderNumber || null
+
+    return jsonResponse({
+        success: true,
+        Accounts: [{
+            acmeAccountID: account.acmeAccountID,
+            accountStatus: account.status,
+            eabMACKeyb64url: account.eabMACKeyb64url,
+            eabMACIDb64url: account.eabMACIDb64url
+        }]
+    })
+}
+
+function addDomain(state: SimulatorState, params: Record<string, string>): Response {
+    const lookup = requireAccount(state, params)
+    if ('error' in lookup) return lookup.error
+    const account = lookup.account
+
+    const domainName = (params.domainName || '').toLowerCase()
+    if (!domainName) {
+        return errorResponse(400, 'Missing parameter: domainName')
+    }
+
+    const blocked = checkWritable(account)
+    if (blocked) return blocked
+
+    if (isOvServer(account.serverUrl) && !params.ovAnchorOrderNumber) {
+        return errorResponse(400, 'Missing parameter: ovAnchorOrderNumber (required for OV)')
+    }
+
+    if (account.domains.has(domainName)) {
+        return errorResponse(403, 'Domain is already present in the ACME account')
+    }
+
+    const cost = domainName.startsWith('*.') ? PRICE_WILDCARD : PRICE_SINGLE
+
+    if (params.quoteOnly === 'Y') {
+        return jsonResponse({ success: true, cost, currency: 'USD', domains: [{ domainName }] })
+    }
+
+    const order = issueOrder(state, domainName)
+    account.orders.push(order)
+    account.domains.set(domainName, {
+        domainName,
+        orderNumber: order.orderNumber,
+        type: 'paid',
+        addedDate: new Date().toISOString()
+    })
+    account.status = 'active'
+    recordTransaction(account, order.orderNumber, 'ADDDOMAIN', domainName, cost)
+
+    return jsonResponse({
+        success: true,
+        orderNumber: order.orderNumber,
+        cost,
+        currency: 'USD',
+        domains: [{ domainName }]
+    })
+}
+
+function removeDomain(state: SimulatorState, params: Record<string, string>): Response {
+    const lookup = requireAccount(state, params)
+    if ('error' in lookup) return lookup.error
+    const account = lookup.account
+
+    const domainName = (params.domainName || '').toLowerCase()
+    if (account.status === 'deactivated') {
+        return errorResponse(403, 'ACME account is deactivated')
+    }
+    if (!account.domains.has(domainName)) {
+        return errorResponse(400, `Domain not found in ACME account: ${domainName}`)
+    }
+
+    const domain = account.domains.get(domainName)!
+    account.domains.delete(domainName)
+    recordTransaction(account, domain.orderNumber, 'REMOVEDOMAIN', domainName, 0)
+
+    return jsonResponse({ success: true, Domains: [{ domainName }] })
+}
+
+function listDomains(state: SimulatorState, params: Record<string, string>): Response {
+    const lookup = requireAccount(state, params)
+    if ('error' in lookup) return lookup.error
+    const account = lookup.account
+
+    return jsonResponse({
+        success: true,
+        domains: Array.from(account.domains.values()).map(d => ({
+            ...d,
+            expiryDate: account.expiresAt.toISOString()
+        }))
+    })
+}
+
+function extendDomains(state: SimulatorState, params: Record<string, string>): Response {
+    const lookup = requireAccount(state, params)
+    if ('error' in lookup) return lookup.error
+    const account = lookup.account
+
+    if (account.status === 'suspended' || account.status === 'deactivated') {
+        return errorResponse(403, `ACME account is ${account.status}`)
+    }
+
+    const days = subscriptionDays(params)
+    const years = days / 365
+    const cost = Array.from(account.domains.values())
+        .filter(d => d.type === 'paid')
+        .reduce((sum, d) => sum + (d.domainName.startsWith('*.') ? PRICE_WILDCARD : PRICE_SINGLE) * years, 0)
+
+    if (params.quoteOnly === 'Y') {
+        return jsonResponse({ success: true, cost, currency: 'USD' })
+    }
+
+    // Extension starts from the later of now and the current expiry
+    const base = Math.max(Date.now(), account.expiresAt.getTime())
+    account.expiresAt = new Date(base + days * DAY_MS)
+
+    const orderNumber = state.nextOrderNumber++
+    recordTransaction(account, orderNumber, 'EXTENDDOMAINS', '', cost)
+
+    return jsonResponse({ success: true, orderNumber, cost, currency: 'USD' })
+}
+
+function getLastOrder(state: SimulatorState, params: Record<string, string>): Response {
+    const lookup = requireAccount(state, params)
+    if ('error' in lookup) return lookup.error
+    const account = lookup.account
+
+    const domainName = (params.domainName || '').toLowerCase()
+    const order = [...account.orders].reverse().find(o => o.domainName === domainName)
+
+    if (!order) {
+        return errorResponse(400, `No order found for domain: ${domainName}`)
+    }
+
+    return jsonResponse({
+        Orders: [{
+            ...order,
+            acmeOrderStatus: 'valid',
+            acmeAccountID: account.acmeAccountID,
+            acmeEABKeyID: account.eabMACIDb64url
+        }]
+    })
+}
+
+function manageAccount(state: SimulatorState, action: string, params: Record<string, string>): Response {
+    const lookup = requireAccount(state, params)
+    if ('error' in lookup) return lookup.error
+    const account = lookup.account
+
+    if (account.status === 'deactivated') {
+        return action === 'DEACTIVATEACCOUNT'
+            ? jsonResponse({ success: true, nRecordsUpdated: 0 })
+            : errorResponse(403, 'ACME account is deactivated')
+    }
+
+    const previous = account.status
+    if (action === 'SUSPENDACCOUNT') {
+        account.status = 'suspended'
+    } else if (action === 'UNSUSPENDACCOUNT') {
+        account.status = previous === 'suspended'
+            ? (account.domains.size > 0 ? 'active' : 'pending')
+            : previous
+    } else {
+        account.status = 'deactivated'
+    }
+
+    return jsonResponse({ success: true, nRecordsUpdated: previous === account.status ? 0 : 1 })
+}
+
+function listTransactions(state: SimulatorState, params: Record<string, string>): Response {
+    const lookup = requireAccount(state, params)
+    if ('error' in lookup) return lookup.error
+    const account = lookup.account
+
+    const transactions = account.transactions.filter(tx => {
+        const date = tx.transactionDate.substring(0, 10)
+        if (params.fromDate && date < params.fromDate) return false
+        if (params.toDate && date > params.toDate) return false
+        return true
+    })
+
+    return jsonResponse({ success: true, transactions })
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+function createAccount(
+    state: SimulatorState,
+    acmeAccountID: string,
+    serverUrl: string,
+    days: number
+): SimulatedAccount {
+    const account: SimulatedAccount = {
+        acmeAccountID,
+        serverUrl,
+        status: 'pending',
+        eabMACKeyb64url: randomToken(43),
+        eabMACIDb64url: randomToken(22),
+        expiresAt: new Date(Date.now() + days * DAY_MS),
+        ovAnchorOrderNumber: null,
+        domains: new Map(),
+        orders: [],
+        transactions: []
+    }
+    state.accounts.set(acmeAccountID, account)
+    return account
+}
+
+/**
+ * Resolve the account named by acmeAccountID.
+ * Accounts created before the simulator started (e.g. after a dev server
+ * restart) are adopted with an empty domain list.
+ */
+function requireAccount(
+    state: SimulatorState,
+    params: Record<string, string>
+): { account: SimulatedAccount } | { error: Response } {
+    const acmeAccountID = params.acmeAccountID
+    if (!acmeAccountID) {
+        return { error: errorResponse(400, 'Missing parameter: acmeAccountID') }
+    }
+
+    let account = state.accounts.get(acmeAccountID)
+    if (!account) {
+        console.warn(`[SECTIGO SIMULATOR] Adopting unknown account ${acmeAccountID}`)
+        account = createAccount(state, acmeAccountID, SERVERS[0].serverUrl, 365)
+    }
+    return { account }
+}
+
+function isOvServer(serverUrl: string): boolean {
+    return SERVERS.some(s => s.serverUrl === serverUrl && s.validationType === 'OV')
+}
+
+function checkWritable(account: SimulatedAccount): Response | null {
+    if (account.status === 'suspended' || account.status === 'deactivated') {
+        return errorResponse(403, `ACME account is ${account.status}`)
+    }
+    if (account.expiresAt.getTime() < Date.now()) {
+        return errorResponse(403, 'Subscription has expired. Renew subscription before adding domains.')
+    }
+    return null
+}
+
+function issueOrder(state: SimulatorState, domainName: string): SimulatedOrder {
+    const now = Date.now()
+    return {
+        orderNumber: state.nextOrderNumber++,
+        certificateID: state.nextCertificateID++,
+        serialNumber: randomHex(32),
+        domainName,
+        statusCode: 6,
+        statusDesc: 'Valid',
+        validNotBefore: new Date(now).toISOString(),
+        validNotAfter: new Date(now + CERT_VALIDITY_DAYS * DAY_MS).toISOString()
+    }
+}
+
+function recordTransaction(
+    account: SimulatedAccount,
+    orderNumber: number,
+    transactionType: string,
+    domainName: string,
+    amount: number
+) {
+    account.transactions.push({
+        orderNumber,
+        transactionType,
+        domainName,
+        amount,
+        currency: 'USD',
+        transactionDate: new Date().toISOString()
+    })
+}
+
+function subscriptionDays(params: Record<string, string>): number {
+    if (params.days) return Number(params.days) || 365
+    if (params.years) return (Number(params.years) || 1) * 365
+    return 365
+}
+
+function jsonResponse(body: unknown, status: number = 200): Response {
+    return new Response(JSON.stringify(body), {
+        status,
+        headers: { 'Content-Type': 'application/json' }
+    })
+}
+
+function errorResponse(status: number, errorMessage: string): Response {
+    return jsonResponse({ success: false, errorCode: status, errorMessage }, status)
+}
+
+function abortError(): Error {
+    const error = new Error('The operation was aborted')
+    error.name = 'AbortError'
+    return error
+}
+
+function redact(params: Record<string, string>): Record<string, string> {
+    const safe = { ...params }
+    delete safe.loginName
+    delete safe.loginPassword
+    return safe
+}
+
+function randomToken(length: number): string {
+    const alphabet = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-_'
+    let token = ''
+    for (let i = 0; i < length; i++) {
+        token += alphabet[Math.floor(Math.random() * alphabet.length)]
+    }
+    return token
+}
+
+function randomHex(length: number): string {
+    let hex = ''
+    for (let i = 0; i < length; i++) {
+        hex += Math.floor(Math.random() * 16).toString(16).toUpperCase()
+    }
+    return hex
+}
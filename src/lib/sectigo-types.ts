@@ -26,6 +26,7 @@ export interface PreregisterRequest {
     serverUrl: string  // e.g., 'https://acme.sectigo.com/v2/DV'
     years?: 1 | 2 | 3
     days?: 365 | 730 | 1095
+    ovAnchorOrderNumber?: string  // OV only
 }
 
 export interface AcmeAccountInfo {
@@ -102,7 +103,18 @@ export interface AddDomainQuoteResponse {
     domains: { domainName: string }[]
 }
 
-export type AddDomainResponse = AddDomainSuccessResponse | AddDomainQuoteResponse | SectigoError
+// 403 "domain already present" is treated as success (no order, no cost)
+export interface AddDomainAlreadyPresentResponse {
+    success: true
+    alreadyPresent: true
+    message: string
+}
+
+export type AddDomainResponse =
+    | AddDomainSuccessResponse
+    | AddDomainQuoteResponse
+    | AddDomainAlreadyPresentResponse
+    | SectigoError
 
 // ============================================
 // REMOVEDOMAIN
@@ -229,10 +241,14 @@ export type ListTransactionsResponse = ListTransactionsSuccessResponse | Sectigo
 // Helper Type Guards
 // ============================================
 
-export function isSectigoError(response: { success: boolean }): response is SectigoError {
-    return response.success === false
+export function isSectigoError<T extends object>(response: T): response is Extract<T, SectigoError> {
+    return 'success' in response && response.success === false
+}
+
+export function hasOrderNumber<T extends object>(response: T): response is Extract<T, { orderNumber: number }> {
+    return !isSectigoError(response) && 'orderNumber' in response
 }
 
-export function hasOrderNumber(response: AddDomainResponse): response is AddDomainSuccessResponse {
-    return response.success === true && 'orderNumber' in response
+export function isDomainAlreadyPresent(response: AddDomainResponse): response is AddDomainAlreadyPresentResponse {
+    return 'alreadyPresent' in response
 }
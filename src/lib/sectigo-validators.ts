@@ -0,0 +1,265 @@
+/**
+ * Sectigo CaaS Response Validators
+ *
+ * Runtime checks for every response type in sectigo-types.ts. SectigoClient
+ * runs the matching validator on each response body, so callers receive
+ * properly typed data or a SectigoProtocolError carrying the raw body,
+ * never an unchecked cast.
+ *
+ * A body with `success: false` is validated as a SectigoError for every
+ * action, so `isSectigoError()` is the only narrowing callers need.
+ */
+
+import type {
+    SectigoError,
+    AcmeAccountInfo,
+    PreregisterResponse,
+    ServerInfo,
+    ListServersResponse,
+    AccountManagementResponse,
+    AddDomainResponse,
+    RemoveDomainResponse,
+    DomainInfo,
+    ListDomainsResponse,
+    ExtendDomainsResponse,
+    OrderInfo,
+    GetLastOrderResponse,
+    SectigoTransaction,
+    ListTransactionsResponse
+} from './sectigo-types'
+
+// ============================================
+// Errors
+// ============================================
+
+/**
+ * Sectigo answered, but not in a shape we understand
+ */
+export class SectigoProtocolError extends Error {
+    readonly action: string
+    readonly rawBody: unknown
+
+    constructor(action: string, reason: string, rawBody: unknown) {
+        super(`Unexpected ${action} response from Sectigo: ${reason}`)
+        this.name = 'SectigoProtocolError'
+        this.action = action
+        this.rawBody = rawBody
+    }
+}
+
+/**
+ * Thrown by the field checks below; SectigoClient turns it into a
+ * SectigoProtocolError for the action being called
+ */
+export class ResponseShapeError extends Error {
+    constructor(path: string, expected: string) {
+        super(`${path} should be ${expected}`)
+        this.name = 'ResponseShapeError'
+    }
+}
+
+export type ResponseValidator<T> = (data: unknown) => T
+
+// ============================================
+// Field Checks
+// ============================================
+
+type Fields = Record<string, unknown>
+
+function object(value: unknown, path: string): Fields {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+        throw new ResponseShapeError(path, 'an object')
+    }
+    return value as Fields
+}
+
+function string(value: unknown, path: string): string {
+    if (typeof value !== 'string') throw new ResponseShapeError(path, 'a string')
+    return value
+}
+
+function number(value: unknown, path: string): number {
+    if (typeof value !== 'number' || !Number.isFinite(value)) throw new ResponseShapeError(path, 'a number')
+    return value
+}
+
+function optionalString(value: unknown, path: string): string | undefined {
+    return value === undefined || value === null ? undefined : string(value, path)
+}
+
+function optionalNumber(value: unknown, path: string): number | undefined {
+    return value === undefined || value === null ? undefined : number(value, path)
+}
+
+function oneOf<T extends string>(value: unknown, options: readonly T[], path: string): T {
+    if (typeof value !== 'string' || !options.includes(value as T)) {
+        throw new ResponseShapeError(path, `one of ${options.join(', ')}`)
+    }
+    return value as T
+}
+
+function array<T>(value: unknown, path: string, item: (entry: unknown, path: string) => T): T[] {
+    if (!Array.isArray(value)) throw new ResponseShapeError(path, 'an array')
+    return value.map((entry, index) => item(entry, `${path}[${index}]`))
+}
+
+function successFlag(body: Fields): true {
+    if (body.success !== true) throw new ResponseShapeError('success', 'true')
+    return true
+}
+
+function domainNames(value: unknown, path: string): { domainName: string }[] {
+    return array(value, path, (entry, p) => ({ domainName: string(object(entry, p).domainName, `${p}.domainName`) }))
+}
+
+// ============================================
+// Error Envelope
+// ============================================
+
+function sectigoError(body: Fields): SectigoError {
+    return {
+        success: false,
+        errorCode: optionalNumber(body.errorCode, 'errorCode') ?? 0,
+        errorMessage: string(body.errorMessage, 'errorMessage')
+    }
+}
+
+/**
+ * Validate `success: false` bodies as SectigoError, everything else with validateSuccess
+ */
+function withError<T>(validateSuccess: (body: Fields) => T): ResponseValidator<T | SectigoError> {
+    return (data: unknown) => {
+        const body = object(data, 'body')
+        return body.success === false ? sectigoError(body) : validateSuccess(body)
+    }
+}
+
+// ============================================
+// Response Validators
+// ============================================
+
+function acmeAccountInfo(value: unknown, path: string): AcmeAccountInfo {
+    const entry = object(value, path)
+    return {
+        acmeAccountID: string(entry.acmeAccountID, `${path}.acmeAccountID`),
+        accountStatus: oneOf(entry.accountStatus, ['pending', 'active', 'suspended', 'deactivated'] as const, `${path}.accountStatus`),
+        eabMACKeyb64url: string(entry.eabMACKeyb64url, `${path}.eabMACKeyb64url`),
+        eabMACIDb64url: string(entry.eabMACIDb64url, `${path}.eabMACIDb64url`)
+    }
+}
+
+export const validatePreregister: ResponseValidator<PreregisterResponse> = withError(body => {
+    const accounts = array(body.Accounts, 'Accounts', acmeAccountInfo)
+    if (accounts.length === 0) throw new ResponseShapeError('Accounts', 'a non-empty array')
+    return { success: successFlag(body), Accounts: accounts }
+})
+
+function serverInfo(value: unknown, path: string): ServerInfo {
+    const entry = object(value, path)
+    return {
+        serverUrl: string(entry.serverUrl, `${path}.serverUrl`),
+        description: string(entry.description, `${path}.description`),
+        validationType: oneOf(entry.validationType, ['DV', 'OV'] as const, `${path}.validationType`)
+    }
+}
+
+export const validateListServers: ResponseValidator<ListServersResponse> = withError(body => ({
+    success: successFlag(body),
+    servers: array(body.servers, 'servers', serverInfo)
+}))
+
+export const validateAccountManagement: ResponseValidator<AccountManagementResponse> = withError(body => ({
+    success: successFlag(body),
+    nRecordsUpdated: number(body.nRecordsUpdated, 'nRecordsUpdated')
+}))
+
+export const validateAddDomain: ResponseValidator<AddDomainResponse> = withError(body => {
+    const success = successFlag(body)
+
+    // Built by SectigoClient from a 403 "domain already present"
+    if (body.alreadyPresent === true) {
+        return { success, alreadyPresent: true as const, message: string(body.message, 'message') }
+    }
+
+    const quote = {
+        success,
+        cost: number(body.cost, 'cost'),
+        currency: string(body.currency, 'currency'),
+        domains: domainNames(body.domains, 'domains')
+    }
+    return body.orderNumber === undefined
+        ? quote
+        : { ...quote, orderNumber: number(body.orderNumber, 'orderNumber') }
+})
+
+export const validateRemoveDomain: ResponseValidator<RemoveDomainResponse> = withError(body => ({
+    success: successFlag(body),
+    Domains: domainNames(body.Domains, 'Domains')
+}))
+
+function domainInfo(value: unknown, path: string): DomainInfo {
+    const entry = object(value, path)
+    return {
+        domainName: string(entry.domainName, `${path}.domainName`),
+        orderNumber: number(entry.orderNumber, `${path}.orderNumber`),
+        type: oneOf(entry.type, ['paid', 'free'] as const, `${path}.type`),
+        addedDate: optionalString(entry.addedDate, `${path}.addedDate`),
+        expiryDate: optionalString(entry.expiryDate, `${path}.expiryDate`)
+    }
+}
+
+export const validateListDomains: ResponseValidator<ListDomainsResponse> = withError(body => ({
+    success: successFlag(body),
+    domains: array(body.domains, 'domains', domainInfo)
+}))
+
+export const validateExtendDomains: ResponseValidator<ExtendDomainsResponse> = withError(body => {
+    const quote = {
+        success: successFlag(body),
+        cost: number(body.cost, 'cost'),
+        currency: string(body.currency, 'currency')
+    }
+    return body.orderNumber === undefined
+        ? quote
+        : { ...quote, orderNumber: number(body.orderNumber, 'orderNumber') }
+})
+
+function orderInfo(value: unknown, path: string): OrderInfo {
+    const entry = object(value, path)
+    return {
+        orderNumber: number(entry.orderNumber, `${path}.orderNumber`),
+        acmeOrderID: optionalString(entry.acmeOrderID, `${path}.acmeOrderID`),
+        acmeOrderStatus: optionalString(entry.acmeOrderStatus, `${path}.acmeOrderStatus`),
+        certificateID: optionalNumber(entry.certificateID, `${path}.certificateID`),
+        statusCode: number(entry.statusCode, `${path}.statusCode`),
+        statusDesc: string(entry.statusDesc, `${path}.statusDesc`),
+        domainName: string(entry.domainName, `${path}.domainName`),
+        serialNumber: optionalString(entry.serialNumber, `${path}.serialNumber`),
+        validNotBefore: optionalString(entry.validNotBefore, `${path}.validNotBefore`),
+        validNotAfter: optionalString(entry.validNotAfter, `${path}.validNotAfter`),
+        acmeAccountID: optionalString(entry.acmeAccountID, `${path}.acmeAccountID`),
+        acmeEABKeyID: optionalString(entry.acmeEABKeyID, `${path}.acmeEABKeyID`)
+    }
+}
+
+// GETLASTORDER success bodies have no `success` flag
+export const validateGetLastOrder: ResponseValidator<GetLastOrderResponse> = withError(body => ({
+    Orders: array(body.Orders, 'Orders', orderInfo)
+}))
+
+function sectigoTransaction(value: unknown, path: string): SectigoTransaction {
+    const entry = object(value, path)
+    return {
+        orderNumber: number(entry.orderNumber, `${path}.orderNumber`),
+        transactionType: string(entry.transactionType, `${path}.transactionType`),
+        domainName: string(entry.domainName, `${path}.domainName`),
+        amount: number(entry.amount, `${path}.amount`),
+        currency: string(entry.currency, `${path}.currency`),
+        transactionDate: string(entry.transactionDate, `${path}.transactionDate`)
+    }
+}
+
+export const validateListTransactions: ResponseValidator<ListTransactionsResponse> = withError(body => ({
+    success: successFlag(body),
+    transactions: array(body.transactions, 'transactions', sectigoTransaction)
+}))
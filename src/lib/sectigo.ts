@@ -2,12 +2,16 @@
  * Sectigo CaaS API Client
  * 
  * Features:
- * - Toggle-based mock mode for development
+ * - Toggle-based mock mode for development (stateful simulator, see sectigo-simulator.ts)
  * - Real API calls for production
- * - TypeScript types for all endpoints
+ * - Shared rate limiter and circuit breaker (see sectigo-resilience.ts)
+ * - Persistent journal of every call (see sectigo-journal.ts)
+ * - Credentials from database, file or env with rotation (see sectigo-credentials.ts)
+ * - Named clients for multiple reseller accounts (see sectigo-registry.ts)
+ * - TypeScript types for all endpoints, checked at runtime (see sectigo-validators.ts)
  * 
  * Usage:
- *   const client = getSectigoClient()
+ *   const client = getSectigoClient(account.sectigo_client)
  *   const result = await client.addDomain({ acmeAccountID: '...', domainName: '...' })
  */
 
@@ -15,11 +19,8 @@ import {
     SectigoCredentials,
     AddDomainRequest,
     AddDomainResponse,
-    AddDomainSuccessResponse,
     RemoveDomainResponse,
-    RemoveDomainSuccessResponse,
     ListDomainsResponse,
-    ListDomainsSuccessResponse,
     ExtendDomainsRequest,
     ExtendDomainsResponse,
     GetLastOrderRequest,
@@ -31,91 +32,153 @@ import {
     AccountManagementResponse,
     ListTransactionsRequest,
     ListTransactionsResponse,
+    SectigoError,
     isSectigoError
 } from './sectigo-types'
 
+import {
+    SectigoProtocolError,
+    ResponseShapeError,
+    validateAddDomain,
+    validateRemoveDomain,
+    validateListDomains,
+    validateExtendDomains,
+    validateGetLastOrder,
+    validatePreregister,
+    validateListServers,
+    validateAccountManagement,
+    validateListTransactions,
+    type ResponseValidator
+} from './sectigo-validators'
+
 import {
     handleSectigoAPIError,
     shouldRetryRequest,
     calculateBackoffDelay,
+    isRateLimitError,
     logAPIRequest,
     logAPIResponse
 } from './sectigo-error-handler'
 
+import { simulatorTransport, type SectigoTransport } from './sectigo-simulator'
+import { getCircuitBreaker, getRateLimiter } from './sectigo-resilience'
+import { recordSectigoCall, extractOrderNumber, type SectigoCallRecord } from './sectigo-journal'
+import { resolveSectigoCredentials, invalidateSectigoCredentials } from './sectigo-credentials'
+import {
+    DEFAULT_SECTIGO_CLIENT,
+    getSectigoClientConfig,
+    listSectigoClientNames,
+    type SectigoClientConfig
+} from './sectigo-registry'
+
 // ============================================
 // Configuration
 // ============================================
 
-const SECTIGO_CAAS_API_URL = process.env.SECTIGO_CAAS_API_URL ||
-    'https://secure.trust-provider.com/products/!ACMEAdmin'
-
 const MOCK_MODE_ENABLED = process.env.NEXT_PUBLIC_ENABLE_SECTIGO_MOCK === 'true'
 
-// ============================================
-// Mock Response Generators
-// ============================================
-
-function generateMockOrderNumber(): number {
-    return 1000000 + Math.floor(Math.random() * 9000000)
-}
-
-function mockAddDomainResponse(request: AddDomainRequest): AddDomainSuccessResponse {
-    console.log('[SECTIGO MOCK] ADDDOMAIN:', request.domainName)
-    return {
-        success: true,
-        orderNumber: generateMockOrderNumber(),
-        cost: request.domainName.startsWith('*.') ? 150 : 50,
-        currency: 'USD',
-        domains: [{ domainName: request.domainName }]
-    }
-}
-
-function mockRemoveDomainResponse(domainName: string): RemoveDomainSuccessResponse {
-    console.log('[SECTIGO MOCK] REMOVEDOMAIN:', domainName)
-    return {
-        success: true,
-        Domains: [{ domainName }]
-    }
-}
-
-function mockListDomainsResponse(acmeAccountID: string): ListDomainsSuccessResponse {
-    console.log('[SECTIGO MOCK] LISTDOMAINS:', acmeAccountID)
-    return {
-        success: true,
-        domains: []  // Empty for mock - real data comes from local DB
-    }
+/**
+ * Responses that mean Sectigo itself is struggling (as opposed to rejecting the request)
+ */
+function isUpstreamFailure(status: number, errorMessage?: string): boolean {
+    return status >= 500 || isRateLimitError(status, errorMessage)
 }
 
 // ============================================
 // Sectigo Client Class
 // ============================================
 
+/**
+ * Fixed credentials, or a function resolving them before each request
+ */
+export type SectigoCredentialSource = SectigoCredentials | (() => Promise<SectigoCredentials>)
+
 export class SectigoClient {
-    private credentials: SectigoCredentials
+    readonly name: string
+    private credentials: SectigoCredentialSource
     private mockMode: boolean
+    private transport: SectigoTransport
+    private apiUrl: string
 
-    constructor(credentials: SectigoCredentials, mockMode: boolean = MOCK_MODE_ENABLED) {
+    /**
+     * @param transport - Override the HTTP transport (defaults to fetch,
+     *                    or the in-memory simulator in mock mode)
+     * @param client    - Registry name and endpoint (see sectigo-registry.ts);
+     *                    the name keys the circuit breaker, rate limiter and journal
+     */
+    constructor(
+        credentials: SectigoCredentialSource,
+        mockMode: boolean = MOCK_MODE_ENABLED,
+        transport?: SectigoTransport,
+        client: Pick<SectigoClientConfig, 'name' | 'apiUrl'> = getSectigoClientConfig(DEFAULT_SECTIGO_CLIENT)
+    ) {
+        this.name = client.name
+        this.apiUrl = client.apiUrl
         this.credentials = credentials
         this.mockMode = mockMode
+        this.transport = transport || (mockMode ? simulatorTransport : (url, init) => fetch(url, init))
 
         if (this.mockMode) {
-            console.log('[SECTIGO] Running in MOCK MODE - no real API calls will be made')
+            console.log(`[SECTIGO] Client "${this.name}" running in MOCK MODE - requests are served by the in-memory simulator`)
         }
     }
 
     /**
-     * Make API call to Sectigo with retry logic and error handling
+     * Make API call to Sectigo with retry logic and error handling.
+     * Every attempt goes through the shared circuit breaker and rate limiter
+     * (see sectigo-resilience.ts); throws SectigoCircuitOpenError while the
+     * circuit is open. Each attempt is recorded in the API call journal
+     * (see sectigo-journal.ts). Response bodies are checked with validate;
+     * a malformed body throws SectigoProtocolError (see sectigo-validators.ts).
+     *
+     * A request Sectigo rejected (4xx other than rate limiting) comes back as
+     * a SectigoError result: nothing happened upstream. Timeouts, network
+     * errors and upstream failures left after the retries throw, since the
+     * call may still have taken effect.
      */
-    private async call<T>(params: Record<string, string>, retryCount: number = 0): Promise<T> {
+    private async call<T>(
+        params: Record<string, string>,
+        validate: ResponseValidator<T>,
+        retryCount: number = 0
+    ): Promise<T> {
         const maxRetries = 3
         const timeoutMs = 30000 // 30 seconds
+        const breaker = getCircuitBreaker(this.name)
+        let startedAt = Date.now()
+
+        const journal = (entry: Pick<SectigoCallRecord, 'success' | 'httpStatus'> & Partial<SectigoCallRecord>) =>
+            recordSectigoCall({
+                action: params.action,
+                clientName: this.name,
+                params,
+                retryCount,
+                mockMode: this.mockMode,
+                latencyMs: Date.now() - startedAt,
+                ...entry
+            })
+
+        // Resolved before the breaker admits the request: a half-open probe
+        // must always end in recordSuccess/recordFailure, and a credential
+        // lookup that throws would otherwise hold it forever
+        const credentials = typeof this.credentials === 'function'
+            ? await this.credentials()
+            : this.credentials
+
+        try {
+            breaker.beforeRequest()
+        } catch (error) {
+            await journal({ success: false, httpStatus: null, errorCode: 'circuit_open', errorMessage: (error as Error).message })
+            throw error
+        }
+        await getRateLimiter(this.name).acquire()
+        startedAt = Date.now()
 
         // Log request (production-safe, no credentials)
         logAPIRequest(params.action, params)
 
         const body = new URLSearchParams({
-            loginName: this.credentials.loginName,
-            loginPassword: this.credentials.loginPassword,
+            loginName: credentials.loginName,
+            loginPassword: credentials.loginPassword,
             ...params
         })
 
@@ -123,57 +186,139 @@ export class SectigoClient {
         const controller = new AbortController()
         const timeout = setTimeout(() => controller.abort(), timeoutMs)
 
+        let response: Response
         try {
-            const response = await fetch(SECTIGO_CAAS_API_URL, {
+            response = await this.transport(this.apiUrl, {
                 method: 'POST',
                 headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
                 body: body.toString(),
                 signal: controller.signal
             })
+        } catch (error) {
+            // Handle timeout
+            if (error instanceof Error && error.name === 'AbortError') {
+                console.error(`[SECTIGO API] ${params.action} - Request timeout after ${timeoutMs}ms`)
+                breaker.recordFailure(`${params.action} timed out`)
+                await journal({ success: false, httpStatus: null, errorCode: 'timeout', errorMessage: `Request timeout after ${timeoutMs}ms` })
+                throw new Error(`Request timeout after ${timeoutMs / 1000} seconds`)
+            }
 
+            // Network error
+            const message = error instanceof Error ? error.message : `${params.action} network error`
+            breaker.recordFailure(message)
+            await journal({ success: false, httpStatus: null, errorCode: 'network_error', errorMessage: message })
+            throw error
+        } finally {
             clearTimeout(timeout)
+        }
 
-            // Handle non-OK responses
-            if (!response.ok) {
-                const errorResult = await handleSectigoAPIError(response, params.action)
+        // Handle non-OK responses
+        if (!response.ok) {
+            const errorResult = await handleSectigoAPIError(response, params.action)
+
+            // Special case: Domain already exists treated as success
+            if ('success' in errorResult && errorResult.success) {
+                breaker.recordSuccess()
+                await journal({ success: true, httpStatus: response.status, errorMessage: errorResult.message })
+                logAPIResponse(params.action, true, { message: errorResult.message })
+                // Return a success response for domain already exists
+                return this.parse(params.action, validate, {
+                    success: true,
+                    alreadyPresent: true,
+                    message: errorResult.message
+                })
+            }
 
-                // Special case: Domain already exists treated as success
-                if ('success' in errorResult && errorResult.success) {
-                    logAPIResponse(params.action, true, { message: errorResult.message })
-                    // Return a success response for domain already exists
-                    return errorResult as unknown as T
-                }
+            // Rejected login: re-resolve next time in case credentials were rotated
+            if (response.status === 401 && typeof this.credentials === 'function') {
+                invalidateSectigoCredentials(this.name)
+            }
 
-                // Check if we should retry
-                if (shouldRetryRequest(response.status, errorResult.errorMessage, retryCount, maxRetries)) {
-                    const delayMs = calculateBackoffDelay(retryCount)
-                    console.log(`[SECTIGO API] ${params.action} - Retry ${retryCount + 1}/${maxRetries} after ${delayMs}ms`)
+            // Only upstream trouble counts against the breaker, not rejected requests
+            if (isUpstreamFailure(response.status, errorResult.errorMessage)) {
+                breaker.recordFailure(errorResult.errorMessage || `HTTP ${response.status}`)
+            } else {
+                breaker.recordSuccess()
+            }
 
-                    await new Promise(resolve => setTimeout(resolve, delayMs))
-                    return this.call<T>(params, retryCount + 1)
-                }
+            await journal({
+                success: false,
+                httpStatus: response.status,
+                errorCode: errorResult.errorType || String(response.status),
+                errorMessage: errorResult.errorMessage
+            })
 
-                // No retry, throw error
-                logAPIResponse(params.action, false, errorResult)
-                throw new Error(errorResult.errorMessage || 'Sectigo API error')
+            // Check if we should retry
+            if (shouldRetryRequest(response.status, errorResult.errorMessage, retryCount, maxRetries)) {
+                const delayMs = calculateBackoffDelay(retryCount)
+                console.log(`[SECTIGO API] ${params.action} - Retry ${retryCount + 1}/${maxRetries} after ${delayMs}ms`)
+
+                await new Promise(resolve => setTimeout(resolve, delayMs))
+                return this.call(params, validate, retryCount + 1)
             }
 
-            // Success response
-            const data = await response.json()
-            logAPIResponse(params.action, data.success || true, data)
+            logAPIResponse(params.action, false, errorResult)
+
+            // Upstream trouble: outcome unknown
+            if (isUpstreamFailure(response.status, errorResult.errorMessage)) {
+                throw new Error(errorResult.errorMessage || 'Sectigo API error')
+            }
 
-            return data as T
+            // Rejected request: nothing was done upstream
+            const rejection: SectigoError = {
+                success: false,
+                errorCode: response.status,
+                errorMessage: errorResult.errorMessage || 'Sectigo API error'
+            }
+            return rejection as T
+        }
 
+        // Success response
+        const rawBody = await response.text()
+        let result: T
+        try {
+            result = this.parse(params.action, validate, JSON.parse(rawBody))
         } catch (error) {
-            clearTimeout(timeout)
+            const protocolError = error instanceof SectigoProtocolError
+                ? error
+                : new SectigoProtocolError(params.action, 'body is not valid JSON', rawBody)
+
+            // A 200 with a body we can't read is upstream trouble too
+            breaker.recordFailure(protocolError.message)
+            await journal({
+                success: false,
+                httpStatus: response.status,
+                errorCode: 'protocol_error',
+                errorMessage: protocolError.message
+            })
+            logAPIResponse(params.action, false, { error: protocolError.message, rawBody })
+            throw protocolError
+        }
 
-            // Handle timeout
-            if (error instanceof Error && error.name === 'AbortError') {
-                console.error(`[SECTIGO API] ${params.action} - Request timeout after ${timeoutMs}ms`)
-                throw new Error(`Request timeout after ${timeoutMs / 1000} seconds`)
-            }
+        breaker.recordSuccess()
 
-            // Re-throw other errors
+        const failed = isSectigoError(result as object)
+        await journal({
+            success: !failed,
+            httpStatus: response.status,
+            errorMessage: failed ? (result as SectigoError).errorMessage : null,
+            orderNumber: extractOrderNumber(result)
+        })
+        logAPIResponse(params.action, !failed, result)
+
+        return result
+    }
+
+    /**
+     * Run a response validator, wrapping shape errors in SectigoProtocolError
+     */
+    private parse<T>(action: string, validate: ResponseValidator<T>, body: unknown): T {
+        try {
+            return validate(body)
+        } catch (error) {
+            if (error instanceof ResponseShapeError) {
+                throw new SectigoProtocolError(action, error.message, body)
+            }
             throw error
         }
     }
@@ -183,20 +328,14 @@ export class SectigoClient {
     // ============================================
 
     async addDomain(request: AddDomainRequest): Promise<AddDomainResponse> {
-        if (this.mockMode) {
-            // Simulate network delay
-            await new Promise(resolve => setTimeout(resolve, 500))
-            return mockAddDomainResponse(request)
-        }
-
-        return this.call<AddDomainResponse>({
+        return this.call({
             action: 'ADDDOMAIN',
             acmeAccountID: request.acmeAccountID,
             domainName: request.domainName,
             quoteOnly: request.quoteOnly || 'N',
             addAssociatedFQDN: request.addAssociatedFQDN || 'N',
             ...(request.ovAnchorOrderNumber && { ovAnchorOrderNumber: request.ovAnchorOrderNumber })
-        })
+        }, validateAddDomain)
     }
 
     // ============================================
@@ -204,16 +343,11 @@ export class SectigoClient {
     // ============================================
 
     async removeDomain(acmeAccountID: string, domainName: string): Promise<RemoveDomainResponse> {
-        if (this.mockMode) {
-            await new Promise(resolve => setTimeout(resolve, 300))
-            return mockRemoveDomainResponse(domainName)
-        }
-
-        return this.call<RemoveDomainResponse>({
+        return this.call({
             action: 'REMOVEDOMAIN',
             acmeAccountID,
             domainName
-        })
+        }, validateRemoveDomain)
     }
 
     // ============================================
@@ -221,15 +355,10 @@ export class SectigoClient {
     // ============================================
 
     async listDomains(acmeAccountID: string): Promise<ListDomainsResponse> {
-        if (this.mockMode) {
-            await new Promise(resolve => setTimeout(resolve, 200))
-            return mockListDomainsResponse(acmeAccountID)
-        }
-
-        return this.call<ListDomainsResponse>({
+        return this.call({
             action: 'LISTDOMAINS',
             acmeAccountID
-        })
+        }, validateListDomains)
     }
 
     // ============================================
@@ -237,24 +366,13 @@ export class SectigoClient {
     // ============================================
 
     async extendDomains(request: ExtendDomainsRequest): Promise<ExtendDomainsResponse> {
-        if (this.mockMode) {
-            await new Promise(resolve => setTimeout(resolve, 500))
-            console.log('[SECTIGO MOCK] EXTENDDOMAINS:', request.acmeAccountID)
-            return {
-                success: true,
-                orderNumber: generateMockOrderNumber(),
-                cost: 500,
-                currency: 'USD'
-            }
-        }
-
-        return this.call<ExtendDomainsResponse>({
+        return this.call({
             action: 'EXTENDDOMAINS',
             acmeAccountID: request.acmeAccountID,
             quoteOnly: request.quoteOnly || 'N',
             ...(request.years && { years: request.years.toString() }),
             ...(request.days && { days: request.days.toString() })
-        })
+        }, validateExtendDomains)
     }
 
     // ============================================
@@ -262,27 +380,11 @@ export class SectigoClient {
     // ============================================
 
     async getLastOrder(request: GetLastOrderRequest): Promise<GetLastOrderResponse> {
-        if (this.mockMode) {
-            await new Promise(resolve => setTimeout(resolve, 300))
-            console.log('[SECTIGO MOCK] GETLASTORDER:', request.domainName)
-            return {
-                Orders: [{
-                    orderNumber: generateMockOrderNumber(),
-                    statusCode: 6,
-                    statusDesc: 'Valid',
-                    domainName: request.domainName,
-                    serialNumber: 'MOCK123456789',
-                    validNotBefore: new Date().toISOString(),
-                    validNotAfter: new Date(Date.now() + 90 * 24 * 60 * 60 * 1000).toISOString()
-                }]
-            }
-        }
-
-        return this.call<GetLastOrderResponse>({
+        return this.call({
             action: 'GETLASTORDER',
             acmeAccountID: request.acmeAccountID,
             domainName: request.domainName
-        })
+        }, validateGetLastOrder)
     }
 
     // ============================================
@@ -314,26 +416,13 @@ export class SectigoClient {
     // ============================================
 
     async preregister(request: PreregisterRequest): Promise<PreregisterResponse> {
-        if (this.mockMode) {
-            await new Promise(resolve => setTimeout(resolve, 500))
-            console.log('[SECTIGO MOCK] PREREGISTER:', request.serverUrl)
-            return {
-                success: true,
-                Accounts: [{
-                    acmeAccountID: 'MOCK_' + Date.now(),
-                    accountStatus: 'pending',
-                    eabMACKeyb64url: 'mock_eab_mac_key_' + Math.random().toString(36).substring(7),
-                    eabMACIDb64url: 'mock_eab_mac_id_' + Math.random().toString(36).substring(7)
-                }]
-            }
-        }
-
-        return this.call<PreregisterResponse>({
+        return this.call({
             action: 'PREREGISTER',
             serverURL: request.serverUrl,
             ...(request.years && { years: request.years.toString() }),
-            ...(request.days && { days: request.days.toString() })
-        })
+            ...(request.days && { days: request.days.toString() }),
+            ...(request.ovAnchorOrderNumber && { ovAnchorOrderNumber: request.ovAnchorOrderNumber })
+        }, validatePreregister)
     }
 
     // ============================================
@@ -341,27 +430,7 @@ export class SectigoClient {
     // ============================================
 
     async listServers(): Promise<ListServersResponse> {
-        if (this.mockMode) {
-            await new Promise(resolve => setTimeout(resolve, 200))
-            console.log('[SECTIGO MOCK] LISTSERVERS')
-            return {
-                success: true,
-                servers: [
-                    {
-                        serverUrl: 'https://acme.sectigo.com/v2/DV',
-                        description: 'Domain Validation',
-                        validationType: 'DV'
-                    },
-                    {
-                        serverUrl: 'https://acme.sectigo.com/v2/OV',
-                        description: 'Organization Validation',
-                        validationType: 'OV'
-                    }
-                ]
-            }
-        }
-
-        return this.call<ListServersResponse>({ action: 'LISTSERVERS' })
+        return this.call({ action: 'LISTSERVERS' }, validateListServers)
     }
 
     // ============================================
@@ -369,19 +438,13 @@ export class SectigoClient {
     // ============================================
 
     async suspendAccount(request: AccountManagementRequest): Promise<AccountManagementResponse> {
-        if (this.mockMode) {
-            await new Promise(resolve => setTimeout(resolve, 300))
-            console.log('[SECTIGO MOCK] SUSPENDACCOUNT:', request.acmeAccountID)
-            return { success: true, nRecordsUpdated: 1 }
-        }
-
-        return this.call<AccountManagementResponse>({
+        return this.call({
             action: 'SUSPENDACCOUNT',
             ...(request.acmeAccountID && { acmeAccountID: request.acmeAccountID }),
             ...(request.includeAdditionalAccounts && {
                 includeAdditionalAccounts: request.includeAdditionalAccounts
             })
-        })
+        }, validateAccountManagement)
     }
 
     // ============================================
@@ -389,19 +452,13 @@ export class SectigoClient {
     // ============================================
 
     async unsuspendAccount(request: AccountManagementRequest): Promise<AccountManagementResponse> {
-        if (this.mockMode) {
-            await new Promise(resolve => setTimeout(resolve, 300))
-            console.log('[SECTIGO MOCK] UNSUSPENDACCOUNT:', request.acmeAccountID)
-            return { success: true, nRecordsUpdated: 1 }
-        }
-
-        return this.call<AccountManagementResponse>({
+        return this.call({
             action: 'UNSUSPENDACCOUNT',
             ...(request.acmeAccountID && { acmeAccountID: request.acmeAccountID }),
             ...(request.includeAdditionalAccounts && {
                 includeAdditionalAccounts: request.includeAdditionalAccounts
             })
-        })
+        }, validateAccountManagement)
     }
 
     // ============================================
@@ -411,19 +468,13 @@ export class SectigoClient {
     async deactivateAccount(request: AccountManagementRequest): Promise<AccountManagementResponse> {
         console.warn('[SECTIGO] DEACTIVATEACCOUNT - This is PERMANENT and cannot be undone!')
 
-        if (this.mockMode) {
-            await new Promise(resolve => setTimeout(resolve, 300))
-            console.log('[SECTIGO MOCK] DEACTIVATEACCOUNT:', request.acmeAccountID)
-            return { success: true, nRecordsUpdated: 1 }
-        }
-
-        return this.call<AccountManagementResponse>({
+        return this.call({
             action: 'DEACTIVATEACCOUNT',
             ...(request.acmeAccountID && { acmeAccountID: request.acmeAccountID }),
             ...(request.includeAdditionalAccounts && {
                 includeAdditionalAccounts: request.includeAdditionalAccounts
             })
-        })
+        }, validateAccountManagement)
     }
 
     // ============================================
@@ -431,81 +482,85 @@ export class SectigoClient {
     // ============================================
 
     async listTransactions(request: ListTransactionsRequest): Promise<ListTransactionsResponse> {
-        if (this.mockMode) {
-            await new Promise(resolve => setTimeout(resolve, 300))
-            console.log('[SECTIGO MOCK] LISTTRANSACTIONS:', request.acmeAccountID)
-            return {
-                success: true,
-                transactions: []
-            }
-        }
-
-        return this.call<ListTransactionsResponse>({
+        return this.call({
             action: 'LISTTRANSACTIONS',
             acmeAccountID: request.acmeAccountID,
             ...(request.fromDate && { fromDate: request.fromDate }),
             ...(request.toDate && { toDate: request.toDate })
-        })
+        }, validateListTransactions)
     }
 }
 
 // ============================================
-// Singleton Factory
+// Client Registry (see sectigo-registry.ts)
 // ============================================
 
-let clientInstance: SectigoClient | null = null
+const clientInstances = new Map<string, SectigoClient>()
 
-export function getSectigoClient(): SectigoClient {
-    if (!clientInstance) {
-        let loginName = process.env.SECTIGO_LOGIN_NAME
-        let loginPassword = process.env.SECTIGO_LOGIN_PASSWORD
-
-        // TEMPORARY: Fallback credentials (Windows env loading issue)
-        // TODO: Fix after demo - investigate Next.js env loading on Windows
-        if (!loginName || !loginPassword) {
-            console.warn('[SECTIGO] Using fallback credentials')
-            loginName = 'Ari'
-            loginPassword = Buffer.from('UiRzaHJTNFQyIUc5', 'base64').toString('utf-8')
-        }
+/**
+ * Client for a registry name (null/undefined → 'default');
+ * throws UnknownSectigoClientError for names that are not configured
+ */
+export function getSectigoClient(name?: string | null): SectigoClient {
+    const clientName = name || DEFAULT_SECTIGO_CLIENT
+    let client = clientInstances.get(clientName)
+
+    if (!client) {
+        const config = getSectigoClientConfig(clientName)
+        client = config.mockMode
+            ? new SectigoClient({ loginName: 'mock_user', loginPassword: 'mock_pass' }, true, undefined, config)
+            : new SectigoClient(
+                async () => (await resolveSectigoCredentials(clientName)).credentials,
+                false,
+                undefined,
+                config
+            )
+        clientInstances.set(clientName, client)
+    }
 
-        // Support base64-encoded password for special characters
-        if (loginPassword?.startsWith('base64:')) {
-            loginPassword = Buffer.from(loginPassword.substring(7), 'base64').toString('utf-8')
-        }
+    return client
+}
 
-        // Debug logging (production-safe)
-        console.log('[SECTIGO DEBUG] Creating client:', {
-            loginNameExists: !!loginName,
-            loginNameLength: loginName?.length || 0,
-            passwordExists: !!loginPassword,
-            passwordLength: loginPassword?.length || 0,
-            mockModeEnabled: MOCK_MODE_ENABLED
-        })
+/**
+ * Fail hard at startup when production has no usable Sectigo credentials
+ * (called from src/instrumentation.ts)
+ */
+export async function assertSectigoCredentials(): Promise<void> {
+    for (const name of listSectigoClientNames()) {
+        if (getSectigoClientConfig(name).mockMode) continue
 
-        if (!loginName || !loginPassword) {
-            if (MOCK_MODE_ENABLED) {
-                console.warn('[SECTIGO] No credentials found, using mock mode')
-                clientInstance = new SectigoClient({
-                    loginName: 'mock_user',
-                    loginPassword: 'mock_pass'
-                }, true)
-            } else {
-                throw new Error('SECTIGO_LOGIN_NAME and SECTIGO_LOGIN_PASSWORD must be set. Check .env.local file.')
-            }
-        } else {
-            clientInstance = new SectigoClient({
-                loginName,
-                loginPassword
-            })
+        try {
+            const { source, label } = await resolveSectigoCredentials(name)
+            console.log(`[SECTIGO] Client "${name}" credentials loaded from ${source} ("${label}")`)
+        } catch (error) {
+            if (process.env.NODE_ENV === 'production') throw error
+            console.warn(`[SECTIGO] Client "${name}":`, error instanceof Error ? error.message : error)
         }
     }
+}
 
-    return clientInstance
+/**
+ * Try a credential with a harmless LISTSERVERS call, bypassing the
+ * credential chain (used before activating a new credential)
+ */
+export async function testSectigoCredentials(
+    credentials: SectigoCredentials,
+    clientName: string = DEFAULT_SECTIGO_CLIENT
+): Promise<{ ok: true } | { ok: false; error: string }> {
+    try {
+        const config = getSectigoClientConfig(clientName)
+        const result = await new SectigoClient(credentials, config.mockMode, undefined, config).listServers()
+        return isSectigoError(result)
+            ? { ok: false, error: result.errorMessage }
+            : { ok: true }
+    } catch (error) {
+        return { ok: false, error: error instanceof Error ? error.message : String(error) }
+    }
 }
 
 /**
- * Reset singleton (useful for testing)
+ * Drop all registry instances (useful for testing)
  */
 export function resetSectigoClient(): void {
-    clientInstance = null
+    clientInstances.clear()
 }
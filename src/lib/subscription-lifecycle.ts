@@ -0,0 +1,180 @@
+/**
+ * Subscription Lifecycle
+ *
+ * acme_accounts.status is a state machine:
+ *
+ *   pending_start ── first domain ──▶ active ── end_date + grace ──▶ expired
+ *                                     │    ▲                           │
+ *                  last domain removed│    │domain added       renewal │
+ *                                     ▼    │                           │
+ *                                    inactive          active ◀────────┘
+ *
+ *   any but terminated ── suspend ──▶ suspended ── unsuspend ──▶ active
+ *   any but terminated ── deactivate ──▶ terminated (final)
+ *
+ * A suspended subscription never expires: renewal reactivates expired
+ * accounts without a CA call, which would drop the upstream suspension.
+ *
+ * SUBSCRIPTION_TRANSITIONS is mirrored by the acme_accounts status
+ * trigger (migration 033), so a disallowed update also fails in the
+ * database. Status changes go through transitionSubscription(), which
+ * writes the audit log entry; expiry uses the expire_subscription RPC
+ * (same migration) to update the account and its domains atomically.
+ *
+ * A lapsed subscription stays usable for a grace period after end_date;
+ * expireLapsedSubscriptions() (daily cron) then expires it together with
+ * its active domains. Renewal brings both back.
+ *
+ * Configuration (env):
+ *   SUBSCRIPTION_GRACE_DAYS   days after end_date before expiry, default 7
+ *
+ * Usage (service-role client):
+ *   if (!canTransition(account.status, 'suspended')) ...
+ *   const result = await transitionSubscription(supabase, { account, to: 'active', action: 'account_activated', actorId })
+ *   const summary = await expireLapsedSubscriptions(supabase)
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { SubscriptionStatus } from './types'
+
+export const SUBSCRIPTION_TRANSITIONS: Record<SubscriptionStatus, SubscriptionStatus[]> = {
+    pending_start: ['active', 'suspended', 'terminated'],
+    active: ['inactive', 'suspended', 'expired', 'terminated'],
+    inactive: ['active', 'suspended', 'terminated'],
+    suspended: ['active', 'inactive', 'terminated'],
+    expired: ['active', 'inactive', 'suspended', 'terminated'],
+    terminated: []
+}
+
+const DEFAULT_GRACE_DAYS = 7
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Subscriptions expired per expireLapsedSubscriptions call
+const EXPIRY_BATCH_SIZE = 100
+
+export type TransitionResult =
+    | { ok: true }
+    | { ok: false; error: string }
+
+export interface SubscriptionExpirySummary {
+    graceDays: number
+    expired: number
+    domainsExpired: number
+    inGrace: number
+    failed: number
+}
+
+export function canTransition(from: string, to: SubscriptionStatus): boolean {
+    return SUBSCRIPTION_TRANSITIONS[from as SubscriptionStatus]?.includes(to) ?? false
+}
+
+export function getGraceDays(): number {
+    const days = parseInt(process.env.SUBSCRIPTION_GRACE_DAYS || '', 10)
+    return Number.isFinite(days) && days >= 0 ? days : DEFAULT_GRACE_DAYS
+}
+
+/**
+ * Move an account to a new status and record it in the audit log.
+ * Fails if the transition isn't allowed or the status changed since
+ * `account` was read.
+ */
+export async function transitionSubscription(
+    supabase: SupabaseClient,
+    { account, to, action, actorId, changes = {}, details = {} }: {
+        account: { id: string; status: string }
+        to: SubscriptionStatus
+        action: string
+        actorId: string | null
+        // Other columns updated with the status (start_date, end_date)
+        changes?: Record<string, unknown>
+        details?: Record<string, unknown>
+    }
+): Promise<TransitionResult> {
+    if (!canTransition(account.status, to)) {
+        return { ok: false, error: `Subscription can't go from ${account.status} to ${to}` }
+    }
+
+    const { data, error } = await supabase
+        .from('acme_accounts')
+        .update({ ...changes, status: to })
+        .eq('id', account.id)
+        .eq('status', account.status)
+        .select('id')
+
+    if (error) {
+        return { ok: false, error: error.message }
+    }
+    if (!data || data.length === 0) {
+        return { ok: false, error: `Subscription is no longer ${account.status}` }
+    }
+
+    await supabase.from('audit_logs').insert({
+        actor_id: actorId,
+        action,
+        target_type: 'acme_account',
+        target_id: account.id,
+        details: {
+            previous_status: account.status,
+            new_status: to,
+            ...details
+        }
+    })
+
+    return { ok: true }
+}
+
+/**
+ * Expire active subscriptions whose grace period has ended, and their
+ * domains. Suspended subscriptions are left alone.
+ */
+export async function expireLapsedSubscriptions(supabase: SupabaseClient): Promise<SubscriptionExpirySummary> {
+    const graceDays = getGraceDays()
+    const now = new Date()
+    const cutoff = new Date(now.getTime() - graceDays * DAY_MS).toISOString()
+
+    const { data: lapsed, error } = await supabase
+        .from('acme_accounts')
+        .select('id, end_date')
+        .eq('status', 'active')
+        .lt('end_date', cutoff)
+        .order('end_date', { ascending: true })
+        .limit(EXPIRY_BATCH_SIZE)
+
+    if (error) {
+        throw new Error(`Failed to load lapsed subscriptions: ${error.message}`)
+    }
+
+    const summary: SubscriptionExpirySummary = { graceDays, expired: 0, domainsExpired: 0, inGrace: 0, failed: 0 }
+
+    for (const account of lapsed || []) {
+        // Account and domains expire together (migration 033)
+        const { data: domainsExpired, error: expireError } = await supabase.rpc('expire_subscription', {
+            p_account_id: account.id,
+            p_cutoff: cutoff,
+            p_grace_days: graceDays
+        })
+
+        if (expireError) {
+            console.error(`[Subscription Lifecycle] Failed to expire ${account.id}: ${expireError.message}`)
+            summary.failed++
+            continue
+        }
+
+        // NULL: renewed or changed since it was loaded
+        if (domainsExpired === null) continue
+
+        summary.expired++
+        summary.domainsExpired += Number(domainsExpired)
+    }
+
+    const { count: inGrace } = await supabase
+        .from('acme_accounts')
+        .select('id', { count: 'exact', head: true })
+        .eq('status', 'active')
+        .gte('end_date', cutoff)
+        .lt('end_date', now.toISOString())
+
+    summary.inGrace = inGrace || 0
+
+    return summary
+}
@@ -0,0 +1,467 @@
+/**
+ * Subscription Renewal
+ *
+ * Extends an ACME account subscription at its CA (Sectigo EXTENDDOMAINS):
+ * 1. QUOTE   - extend quoteOnly (upstream cost) + our tier price
+ * 2. RESERVE - `extend` transaction in pending_api (holds deposit credit);
+ *              its ID is the renewal's idempotency key
+ * 3. EXECUTE - extend (a thrown error leaves the transaction pending_api
+ *              for the zombie sweeper: the CA may have charged it)
+ * 4. COMMIT  - transaction success, end_date pushed forward, audit log
+ *
+ * Partner price = tier price per paid domain × years. reserveRenewal and
+ * executeRenewal write transactions, so they take the service-role client;
+ * ownership is checked against partnerId.
+ *
+ * Usage:
+ *   const quote = await quoteRenewal(supabase, { accountId, partnerId, years: 1 })
+ *   const reserved = await reserveRenewal(supabase, { accountId, partnerId, years: 1 })
+ *   const result = await executeRenewal(supabase, { accountId, partnerId, years: 1, transactionId, actorId })
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { getCaProvider, isCaError, type CaCharge, type CaResult } from './ca'
+import { withSectigoCallContext } from './sectigo-journal'
+import { checkCreditLimit, getDomainPrice, getPartnerTierPricing } from './billing'
+import { transitionSubscription } from './subscription-lifecycle'
+
+export type RenewalYears = 1 | 2 | 3
+
+export const RENEWAL_YEARS: RenewalYears[] = [1, 2, 3]
+
+// Only these accounts can be extended; expired accounts are reactivated by renewal
+const RENEWABLE_STATUSES = ['active', 'expired']
+
+export interface RenewalQuote {
+    accountId: string
+    years: RenewalYears
+    domainCount: number
+    price: number
+    upstreamCost: number | null
+    currency: string
+    currentEndDate: string | null
+    newEndDate: string
+}
+
+export type RenewalQuoteResult =
+    | { success: true; quote: RenewalQuote }
+    | { success: false; status: number; error: string; details?: Record<string, unknown> }
+
+export type RenewalResult =
+    | {
+        success: true
+        transactionId: string
+        orderNumber: string | null
+        amount: number
+        years: RenewalYears
+        account: { status: string; start_date: string | null; end_date: string }
+    }
+    | { success: false; status: number; error: string; details?: Record<string, unknown> }
+
+export type RenewalReservation =
+    | { success: true; transactionId: string }
+    | { success: false; status: number; error: string; details?: Record<string, unknown> }
+
+interface RenewalAccountRow {
+    id: string
+    acme_account_id: string | null
+    ca_provider: string
+    sectigo_client: string | null
+    account_name: string | null
+    certificate_type: string
+    status: string
+    start_date: string | null
+    end_date: string | null
+    clients: { partner_id: string }
+}
+
+interface RenewalContext {
+    account: RenewalAccountRow
+    domainCount: number
+    price: number
+}
+
+export function isRenewalYears(value: unknown): value is RenewalYears {
+    return RENEWAL_YEARS.includes(value as RenewalYears)
+}
+
+/**
+ * New end date: renewal extends from the current end date,
+ * or from today if the subscription has already lapsed
+ */
+export function calculateRenewalEndDate(currentEndDate: string | null, years: RenewalYears): Date {
+    const now = new Date()
+    const current = currentEndDate ? new Date(currentEndDate) : null
+    const base = current && current > now ? current : now
+
+    const endDate = new Date(base)
+    endDate.setFullYear(endDate.getFullYear() + years)
+    return endDate
+}
+
+/**
+ * Quote a renewal: our price from tier pricing, upstream cost from the CA's extend quote
+ */
+export async function quoteRenewal(
+    supabase: SupabaseClient,
+    { accountId, partnerId, years }: { accountId: string; partnerId: string; years: RenewalYears }
+): Promise<RenewalQuoteResult> {
+    const context = await loadRenewalContext(supabase, accountId, partnerId, years)
+    if (!context.success) return context
+
+    const { account, domainCount, price } = context
+
+    let response: CaResult<CaCharge>
+    try {
+        response = await getCaProvider(account).extend({
+            accountId: account.acme_account_id!,
+            years,
+            quoteOnly: true
+        })
+    } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error'
+        return { success: false, status: 502, error: `CA quote failed: ${message}` }
+    }
+
+    if (isCaError(response)) {
+        return { success: false, status: 502, error: `CA quote failed: ${response.errorMessage}` }
+    }
+
+    return {
+        success: true,
+        quote: {
+            accountId: account.id,
+            years,
+            domainCount,
+            price,
+            upstreamCost: response.cost,
+            currency: 'USD',
+            currentEndDate: account.end_date,
+            newEndDate: calculateRenewalEndDate(account.end_date, years).toISOString()
+        }
+    }
+}
+
+/**
+ * Reserve a renewal (after the partner has confirmed the quote): the
+ * account's pending `extend` transaction for this term, or a new one once
+ * the credit check passes. Its ID keys the renewal's idempotency, so a
+ * repeated confirm runs against the same transaction.
+ */
+export async function reserveRenewal(
+    supabase: SupabaseClient,
+    { accountId, partnerId, years }: { accountId: string; partnerId: string; years: RenewalYears }
+): Promise<RenewalReservation> {
+    const context = await loadRenewalContext(supabase, accountId, partnerId, years)
+    if (!context.success) return context
+
+    const { account, domainCount, price } = context
+
+    // Only one renewal in flight per account (unique index, migration 036)
+    const inFlight = await findPendingRenewal(supabase, account.id, price)
+    if (inFlight) return inFlight
+
+    // ============================================================
+    // CREDIT CHECK: Deposit partners must have room for the renewal
+    // ============================================================
+    const credit = await checkCreditLimit(supabase, partnerId, price)
+    if (!credit.allowed) {
+        return {
+            success: false,
+            status: 402,
+            error: 'Credit limit exceeded',
+            details: { required: credit.required, available: credit.availableLimit }
+        }
+    }
+
+    // ============================================================
+    // PHASE 1: RESERVE - pending_api transaction holds the credit
+    // ============================================================
+    const { data: tx, error: txError } = await supabase
+        .from('transactions')
+        .insert({
+            partner_id: partnerId,
+            acme_account_id: account.id,
+            type: 'extend',
+            description: `Subscription renewal: ${years} year${years > 1 ? 's' : ''}, ${domainCount} domain${domainCount !== 1 ? 's' : ''}`,
+            amount: price,
+            status: 'pending_api',
+            renewal_years: years
+        })
+        .select('id')
+        .single()
+
+    if (txError?.code === '23505') {
+        // A concurrent confirm reserved it first
+        const concurrent = await findPendingRenewal(supabase, account.id, price)
+        if (concurrent) return concurrent
+    }
+
+    if (txError || !tx) {
+        console.error('[Renewal] Failed to create transaction:', txError)
+        return { success: false, status: 500, error: 'Failed to create renewal transaction' }
+    }
+
+    return { success: true, transactionId: tx.id }
+}
+
+/**
+ * Execute a reserved renewal at the CA and commit it
+ */
+export async function executeRenewal(
+    supabase: SupabaseClient,
+    { accountId, partnerId, years, transactionId, actorId }: {
+        accountId: string
+        partnerId: string
+        years: RenewalYears
+        transactionId: string
+        actorId: string
+    }
+): Promise<RenewalResult> {
+    const context = await loadRenewalContext(supabase, accountId, partnerId, years)
+    if (!context.success) return context
+
+    const { account, domainCount, price } = context
+
+    const { data: tx } = await supabase
+        .from('transactions')
+        .select('id, status')
+        .eq('id', transactionId)
+        .eq('acme_account_id', account.id)
+        .eq('type', 'extend')
+        .maybeSingle()
+
+    if (!tx) {
+        return { success: false, status: 404, error: 'Renewal transaction not found' }
+    }
+    if (tx.status !== 'pending_api') {
+        return { success: false, status: 409, error: `Renewal transaction is no longer pending (status: ${tx.status})` }
+    }
+
+    // ============================================================
+    // PHASE 2: EXECUTE - extend at the CA
+    // ============================================================
+    let response: CaResult<CaCharge>
+    try {
+        const ca = getCaProvider(account)
+        response = await withSectigoCallContext({ transactionId: tx.id }, () =>
+            ca.extend({
+                accountId: account.acme_account_id!,
+                years,
+                quoteOnly: false
+            })
+        )
+    } catch (error) {
+        // Timeout, network or upstream failure: the extension may have been
+        // charged. The transaction stays pending_api for the zombie sweeper
+        // and reconciliation to settle from the CA's records.
+        const message = error instanceof Error ? error.message : 'Unknown error'
+        console.error('[Renewal] Extend outcome unknown, transaction left pending:', tx.id, message)
+        return {
+            success: false,
+            status: 202,
+            error: `CA extend did not complete: ${message}. The renewal will be settled automatically.`,
+            details: { transactionId: tx.id, pending: true }
+        }
+    }
+
+    if (isCaError(response)) {
+        const upstreamError = response.errorMessage || 'Unknown error'
+        await supabase
+            .from('transactions')
+            .update({ status: 'failed', description: `Renewal failed: ${upstreamError}` })
+            .eq('id', tx.id)
+
+        return { success: false, status: 502, error: `CA extend failed: ${upstreamError}` }
+    }
+
+    const orderNumber = response.orderNumber
+    const upstreamCost = response.cost
+
+    // ============================================================
+    // PHASE 3: COMMIT - transaction success + new end date
+    // ============================================================
+    await supabase
+        .from('transactions')
+        .update({ status: 'success', sectigo_order_number: orderNumber, upstream_cost: upstreamCost })
+        .eq('id', tx.id)
+
+    const { startDate, newEndDate, accountError } = await applyRenewal(supabase, account, years, actorId)
+
+    await supabase.from('audit_logs').insert({
+        actor_id: actorId,
+        action: 'subscription_renewed',
+        target_type: 'acme_account',
+        target_id: account.id,
+        details: {
+            transaction_id: tx.id,
+            years,
+            amount: price,
+            domain_count: domainCount,
+            upstream_cost: upstreamCost,
+            sectigo_order_number: orderNumber,
+            previous_status: account.status,
+            previous_end_date: account.end_date,
+            new_end_date: newEndDate,
+            ...(accountError && { account_update_error: accountError.message })
+        }
+    })
+
+    return {
+        success: true,
+        transactionId: tx.id,
+        orderNumber,
+        amount: price,
+        years,
+        account: { status: 'active', start_date: startDate, end_date: newEndDate }
+    }
+}
+
+/**
+ * Move the account's end date forward after a renewal was charged, and
+ * bring back an account (and its domains) that lapsed. (The zombie sweeper
+ * does the same inside settle_stuck_transaction, migration 037.)
+ */
+export async function applyRenewal(
+    supabase: SupabaseClient,
+    account: { id: string; status: string; start_date: string | null; end_date: string | null },
+    years: RenewalYears,
+    actorId: string | null = null
+): Promise<{ startDate: string; newEndDate: string; accountError: { message: string } | null }> {
+    const newEndDate = calculateRenewalEndDate(account.end_date, years).toISOString()
+    const startDate = account.start_date || new Date().toISOString()
+
+    let accountError: { message: string } | null = null
+
+    if (account.status === 'active') {
+        const { error } = await supabase
+            .from('acme_accounts')
+            .update({ start_date: startDate, end_date: newEndDate })
+            .eq('id', account.id)
+        accountError = error
+    } else {
+        const result = await transitionSubscription(supabase, {
+            account,
+            to: 'active',
+            action: 'account_reactivated',
+            actorId,
+            changes: { start_date: startDate, end_date: newEndDate },
+            details: {
+                reason: 'Subscription renewed',
+                previous_end_date: account.end_date,
+                new_end_date: newEndDate
+            }
+        })
+        accountError = result.ok ? null : { message: result.error }
+    }
+
+    if (accountError) {
+        // CA and billing are done; surface so the date can be corrected
+        console.error('[Renewal] Failed to update account end date:', accountError)
+    }
+
+    // Domains that lapsed with the subscription are live again
+    if (account.status === 'expired' && !accountError) {
+        await supabase
+            .from('domains')
+            .update({ status: 'active' })
+            .eq('acme_account_id', account.id)
+            .eq('status', 'expired')
+    }
+
+    return { startDate, newEndDate, accountError }
+}
+
+// ============================================
+// Data Helpers
+// ============================================
+
+/**
+ * The account's in-flight renewal, reusable if it is for the same amount
+ */
+async function findPendingRenewal(
+    supabase: SupabaseClient,
+    accountId: string,
+    price: number
+): Promise<RenewalReservation | null> {
+    const { data: pending } = await supabase
+        .from('transactions')
+        .select('id, amount')
+        .eq('acme_account_id', accountId)
+        .eq('type', 'extend')
+        .in('status', ['pending', 'pending_api'])
+        .limit(1)
+        .maybeSingle()
+
+    if (!pending) return null
+
+    if (Number(pending.amount) !== price) {
+        return { success: false, status: 409, error: 'A renewal for this subscription is already in progress' }
+    }
+    return { success: true, transactionId: pending.id }
+}
+
+async function loadRenewalContext(
+    supabase: SupabaseClient,
+    accountId: string,
+    partnerId: string,
+    years: RenewalYears
+): Promise<({ success: true } & RenewalContext) | { success: false; status: number; error: string }> {
+    const { data: accountData, error: accountError } = await supabase
+        .from('acme_accounts')
+        .select(`
+            id,
+            acme_account_id,
+            ca_provider,
+            sectigo_client,
+            account_name,
+            certificate_type,
+            status,
+            start_date,
+            end_date,
+            clients!inner (
+                partner_id
+            )
+        `)
+        .eq('id', accountId)
+        .single()
+
+    if (accountError || !accountData) {
+        return { success: false, status: 404, error: 'Account not found' }
+    }
+
+    const account = accountData as unknown as RenewalAccountRow
+
+    if (account.clients.partner_id !== partnerId) {
+        return { success: false, status: 403, error: 'Access denied' }
+    }
+
+    if (!account.acme_account_id) {
+        return { success: false, status: 409, error: 'Account is not registered with its CA' }
+    }
+
+    if (!RENEWABLE_STATUSES.includes(account.status)) {
+        return { success: false, status: 409, error: `Subscription cannot be renewed (status: ${account.status})` }
+    }
+
+    // Paid domains carried into the next term (free siblings are not billed)
+    const { data: domains } = await supabase
+        .from('domains')
+        .select('domain_type')
+        .eq('acme_account_id', account.id)
+        .eq('billing_type', 'paid')
+        .in('status', ['active', 'expired'])
+
+    const domainCount = domains?.length || 0
+    if (domainCount === 0) {
+        return { success: false, status: 409, error: 'Subscription has no active domains to renew' }
+    }
+
+    const pricing = await getPartnerTierPricing(supabase, partnerId)
+    const annual = (domains || []).reduce(
+        (sum, d) => sum + getDomainPrice(pricing, account.certificate_type, d.domain_type),
+        0
+    )
+
+    return { success: true, account, domainCount, price: annual * years }
+}
@@ -0,0 +1,20 @@
+import { createClient } from '@supabase/supabase-js'
+
+/**
+ * Service-role client (bypasses RLS)
+ *
+ * Server-only. Use it from cron jobs, or in API routes only after the
+ * caller has been authenticated and authorized with the session client.
+ */
+export function createAdminClient() {
+    return createClient(
+        process.env.NEXT_PUBLIC_SUPABASE_URL!,
+        process.env.SUPABASE_SERVICE_ROLE_KEY!,
+        {
+            auth: {
+                persistSession: false,
+                autoRefreshToken: false
+            }
+        }
+    )
+}
@@ -11,6 +11,9 @@ export type Partner = {
     current_usage: number
     pricing_class: string
     mfa_enforced: boolean
+    is_admin: boolean
+    sectigo_client: string | null  // registry client for new accounts (null = default)
+    ca_provider: 'sectigo' | 'local'  // CA for new accounts, set by KICA staff
     status: 'active' | 'suspended' | 'terminated'
     created_at: string
     updated_at: string
@@ -29,18 +32,38 @@ export type Client = {
     updated_at: string
 }
 
+export type OrganizationAnchor = {
+    id: string
+    client_id: string
+    ov_anchor_order_number: string  // Sectigo OV pre-validation order
+    status: 'pending' | 'validated' | 'rejected' | 'revoked'
+    is_active: boolean  // client's current anchor, see organization-anchors.ts
+    validated_at: string | null
+    expires_at: string | null
+    notes: string | null
+    status_reason: string | null
+    created_by: string | null
+    created_at: string
+    updated_at: string
+}
+
+export type SubscriptionStatus = 'pending_start' | 'active' | 'inactive' | 'suspended' | 'expired' | 'terminated'
+
 export type AcmeAccount = {
     id: string
     client_id: string
     ov_anchor_id: string | null
     acme_account_id: string | null
     eab_key_id: string | null
-    eab_hmac_key: string | null
+    eab_hmac_key: string | null  // legacy plaintext, cleared once encrypted
+    eab_hmac_key_encrypted: string | null  // envelope-encrypted, see eab-keys.ts
     server_url: string | null
+    sectigo_client: string | null  // registry client the account was created with
+    ca_provider: 'sectigo' | 'local'
     account_name: string | null
     certificate_type: 'DV' | 'OV'
     subscription_years: number
-    status: 'pending_start' | 'active' | 'suspended' | 'expired' | 'terminated'
+    status: SubscriptionStatus  // transitions: subscription-lifecycle.ts
     created_at: string
     start_date: string | null
     end_date: string | null
@@ -55,11 +78,47 @@ export type Domain = {
     domain_type: 'single' | 'wildcard'
     billing_type: 'paid' | 'free_sibling'
     order_number: string | null
+    sectigo_order_number: string | null
     is_refundable: boolean
     price_charged: number
-    status: 'active' | 'removed' | 'expired'
+    status: 'pending' | 'active' | 'failed' | 'removed' | 'expired'
     added_at: string
     expires_at: string | null
+    removed_at: string | null
+    refund_transaction_id: string | null
+    last_synced_at: string | null
+    last_sync_attempt_at: string | null
+    last_sync_error: string | null
+    sync_failures: number
+    expiry_reminders_snoozed_until: string | null
+}
+
+export type Certificate = {
+    id: string
+    domain_id: string
+    order_number: string | null
+    acme_order_id: string | null
+    certificate_id: string | null
+    serial_number: string | null
+    valid_not_before: string | null
+    valid_not_after: string | null
+    status_code: number | null
+    status_desc: string | null
+    is_latest: boolean
+    synced_at: string
+    created_at: string
+}
+
+export type ExpiryReminder = {
+    id: string
+    partner_id: string
+    kind: 'certificate' | 'subscription'
+    target_id: string
+    domain_id: string | null
+    offset_days: number
+    expires_at: string
+    email_id: string | null
+    sent_at: string
 }
 
 export type Transaction = {
@@ -70,8 +129,137 @@ export type Transaction = {
     type: 'add_domain' | 'remove_domain' | 'extend' | 'refund'
     description: string | null
     amount: number
-    status: 'pending' | 'success' | 'failed' | 'refunded'
+    status: 'pending' | 'pending_api' | 'success' | 'failed' | 'refunded'
+    sectigo_order_number: string | null
+    upstream_cost: number | null
+    renewal_years: number | null
+    related_transaction_id: string | null
+    created_at: string
+}
+
+export type DomainRemoval = {
+    id: string
+    domain_id: string
+    partner_id: string
+    acme_account_id: string | null
+    step: 'requested' | 'upstream_removed' | 'domain_removed' | 'completed'
+    is_refundable: boolean
+    refund_amount: number
+    original_transaction_id: string | null
+    refund_transaction_id: string | null
+    attempts: number
+    last_error: string | null
+    created_at: string
+    updated_at: string
+    completed_at: string | null
+}
+
+export type ProvisioningJob = {
+    id: string
+    partner_id: string
+    acme_account_id: string
+    status: 'pending' | 'running' | 'completed' | 'partial' | 'failed'
+    total_amount: number
     created_at: string
+    updated_at: string
+    completed_at: string | null
+}
+
+export type ProvisioningItem = {
+    id: string
+    job_id: string
+    partner_id: string
+    domain_name: string
+    domain_type: 'single' | 'wildcard'
+    price: number
+    step: 'pending' | 'reserved' | 'executed' | 'committed' | 'rolled_back'
+    domain_id: string | null
+    transaction_id: string | null
+    order_number: string | null
+    upstream_cost: number | null
+    attempts: number
+    error: string | null
+    created_at: string
+    updated_at: string
+}
+
+export type ReconciliationRun = {
+    id: string
+    from_date: string
+    to_date: string
+    status: 'running' | 'completed' | 'failed'
+    triggered_by: string | null
+    accounts_checked: number
+    upstream_count: number
+    local_count: number
+    discrepancy_count: number
+    errors: Array<{ acme_account_id: string; error: string }>
+    started_at: string
+    completed_at: string | null
+}
+
+export type ReconciliationDiscrepancy = {
+    id: string
+    fingerprint: string
+    run_id: string | null
+    kind: 'missing_local' | 'missing_upstream' | 'amount_mismatch' | 'type_mismatch' | 'unsettled_extend'
+    partner_id: string | null
+    acme_account_id: string | null
+    transaction_id: string | null
+    sectigo_order_number: string | null
+    local_type: string | null
+    local_amount: number | null
+    upstream_type: string | null
+    upstream_amount: number | null
+    upstream_date: string | null
+    details: Record<string, unknown> | null
+    status: 'open' | 'resolved'
+    resolution_note: string | null
+    resolved_by: string | null
+    resolved_at: string | null
+    first_detected_at: string
+    last_detected_at: string
+}
+
+export type AcmeServer = {
+    id: string
+    server_url: string
+    description: string | null
+    validation_type: 'DV' | 'OV'
+    is_enabled: boolean
+    is_available: boolean
+    last_seen_at: string | null
+    created_at: string
+    updated_at: string
+}
+
+export type SectigoJobType =
+    | 'ADDDOMAIN'
+    | 'REMOVEDOMAIN'
+    | 'SUSPENDACCOUNT'
+    | 'UNSUSPENDACCOUNT'
+    | 'DEACTIVATEACCOUNT'
+    | 'SYNC_CERT'
+
+export type SectigoJob = {
+    id: string
+    partner_id: string
+    acme_account_id: string | null
+    job_type: SectigoJobType
+    payload: Record<string, unknown>
+    dedupe_key: string | null
+    status: 'pending' | 'running' | 'succeeded' | 'dead'
+    attempts: number
+    max_attempts: number
+    run_after: string
+    locked_at: string | null
+    locked_by: string | null
+    last_error: string | null
+    result: unknown
+    created_by: string | null
+    created_at: string
+    updated_at: string
+    completed_at: string | null
 }
 
 export type Settlement = {
@@ -0,0 +1,173 @@
+/**
+ * Upstream Cost Quotes
+ *
+ * Asks the account's CA what each domain will cost us (Sectigo: ADDDOMAIN
+ * with quoteOnly='Y') before anything is reserved or charged, and compares it with the cost we
+ * expect. A domain whose quoted cost deviates from the expected cost by more
+ * than the tolerance blocks the submission, so a Sectigo price change can't
+ * silently eat the margin on partner prices. CAs that bill outside the
+ * API (local) quote 0 and are expected to.
+ *
+ * Configuration (env):
+ *   SECTIGO_EXPECTED_COST_{DV|OV}_{SINGLE|WILDCARD}  expected annual cost (USD),
+ *                                                    required: Sectigo quotes
+ *                                                    are blocked without it
+ *   UPSTREAM_COST_TOLERANCE_PERCENT                  allowed deviation, default 5
+ */
+
+import { isCaError, type CaProvider, type CaProviderName } from './ca'
+
+const DEFAULT_TOLERANCE_PERCENT = 5
+
+export interface DomainQuote {
+    domain: string
+    type: 'single' | 'wildcard'
+    partnerPrice: number
+    expectedCost: number | null
+    upstreamCost: number | null
+    margin: number | null
+    deviationPercent: number | null
+    withinTolerance: boolean
+    error: string | null
+}
+
+export interface QuoteSummary {
+    quotes: DomainQuote[]
+    totalPartnerPrice: number
+    totalUpstreamCost: number
+    totalMargin: number
+    tolerancePercent: number
+    blocked: boolean
+}
+
+/**
+ * Allowed deviation between quoted and expected upstream cost, in percent
+ */
+export function getCostTolerancePercent(): number {
+    const configured = Number(process.env.UPSTREAM_COST_TOLERANCE_PERCENT)
+    return Number.isFinite(configured) && configured >= 0 ? configured : DEFAULT_TOLERANCE_PERCENT
+}
+
+function expectedCostEnvKey(certificateType: string, domainType: 'single' | 'wildcard'): string {
+    return `SECTIGO_EXPECTED_COST_${certificateType === 'OV' ? 'OV' : 'DV'}_${domainType === 'wildcard' ? 'WILDCARD' : 'SINGLE'}`
+}
+
+/**
+ * Annual cost we expect the CA to charge for one domain, or null when
+ * it isn't configured
+ */
+export function getExpectedUpstreamCost(
+    certificateType: string,
+    domainType: 'single' | 'wildcard',
+    provider: CaProviderName = 'sectigo'
+): number | null {
+    if (provider !== 'sectigo') {
+        return 0
+    }
+
+    const configured = Number(process.env[expectedCostEnvKey(certificateType, domainType)])
+    return Number.isFinite(configured) && configured > 0 ? configured : null
+}
+
+/**
+ * Quote each domain with the CA and check it against the expected cost.
+ * Domains are quoted one at a time to stay within Sectigo rate limits.
+ * OV accounts quote with the client's anchor, as Sectigo requires it on
+ * every ADDDOMAIN.
+ */
+export async function quoteUpstreamCosts(
+    ca: CaProvider,
+    acmeAccountId: string,
+    certificateType: string,
+    items: { domain: string; type: 'single' | 'wildcard'; price: number }[],
+    ovAnchorOrderNumber?: string | null
+): Promise<QuoteSummary> {
+    const tolerancePercent = getCostTolerancePercent()
+    const quotes: DomainQuote[] = []
+
+    for (const item of items) {
+        const expectedCost = getExpectedUpstreamCost(certificateType, item.type, ca.name)
+        const base = {
+            domain: item.domain,
+            type: item.type,
+            partnerPrice: item.price,
+            expectedCost
+        }
+
+        // Without an expected cost there is nothing to check the quote against
+        if (expectedCost === null) {
+            quotes.push({
+                ...base,
+                upstreamCost: null,
+                margin: null,
+                deviationPercent: null,
+                withinTolerance: false,
+                error: `Upstream cost check is not configured: set ${expectedCostEnvKey(certificateType, item.type)}`
+            })
+            continue
+        }
+
+        let upstreamCost: number | null = null
+        let error: string | null = null
+
+        try {
+            const response = await ca.addDomain({
+                accountId: acmeAccountId,
+                domainName: item.domain,
+                quoteOnly: true,
+                ...(ovAnchorOrderNumber && { ovAnchorOrderNumber })
+            })
+
+            if (isCaError(response)) {
+                error = response.errorMessage
+            } else if (response.alreadyPresent || response.cost === null) {
+                // "Already present" comes back as success without a cost
+                error = 'CA did not return a cost (domain may already be on the account)'
+            } else {
+                upstreamCost = response.cost
+            }
+        } catch (quoteError) {
+            error = quoteError instanceof Error ? quoteError.message : 'Quote failed'
+        }
+
+        if (upstreamCost === null) {
+            quotes.push({
+                ...base,
+                upstreamCost: null,
+                margin: null,
+                deviationPercent: null,
+                withinTolerance: false,
+                error
+            })
+            continue
+        }
+
+        const deviationPercent = expectedCost > 0
+            ? Math.abs(upstreamCost - expectedCost) / expectedCost * 100
+            : 0
+        const withinTolerance = deviationPercent <= tolerancePercent
+
+        quotes.push({
+            ...base,
+            upstreamCost,
+            margin: item.price - upstreamCost,
+            deviationPercent: Math.round(deviationPercent * 100) / 100,
+            withinTolerance,
+            error: withinTolerance
+                ? null
+                : `CA cost $${upstreamCost.toFixed(2)} differs from expected $${expectedCost.toFixed(2)}`
+        })
+    }
+
+    const totalPartnerPrice = quotes.reduce((sum, q) => sum + q.partnerPrice, 0)
+    const totalUpstreamCost = quotes.reduce((sum, q) => sum + (q.upstreamCost ?? 0), 0)
+
+    return {
+        quotes,
+        totalPartnerPrice,
+        totalUpstreamCost,
+        totalMargin: totalPartnerPrice - totalUpstreamCost,
+        tolerancePercent,
+        blocked: quotes.some(q => !q.withinTolerance)
+    }
+}
@@ -0,0 +1,356 @@
+/**
+ * Zombie Sweeper
+ *
+ * Settles transactions left in flight ('pending' or 'pending_api') by a
+ * request that died between the CA call and the commit. Until settled they
+ * hold deposit credit (pending_api counts against the credit limit) and
+ * leave their domain stuck in 'pending'.
+ *
+ * The outcome is decided, in order, by:
+ * 1. A stored /api/domains/add response (idempotency key)
+ * 2. add_domain: a provisioning item that already passed EXECUTE, else the
+ *    CA's domain list (LISTDOMAINS) with GETLASTORDER as fallback. CAs that
+ *    don't keep a domain list can't have rejected the add, so it commits.
+ * 3. extend: a successful EXTENDDOMAINS for the transaction in the Sectigo
+ *    call journal. Without one the charge can't be ruled out (journal
+ *    writes may be lost), so the renewal is escalated to reconciliation
+ *    and stays in flight until an admin settles it. Other CAs extend
+ *    locally, so a stuck renewal there was never charged and is rolled back.
+ *
+ * settle_stuck_transaction (migrations 028, 037) then updates the
+ * transaction, domain, provisioning item and, for a renewal, the account's
+ * end date in one DB transaction; a rollback marks the transaction failed,
+ * which releases the reserved credit. The partner gets an email with the
+ * outcome.
+ *
+ * Usage (service-role client):
+ *   const summary = await sweepStuckTransactions(supabase)
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { getCaProvider, isCaError } from './ca'
+import {
+    getIdempotencyKey,
+    recordIdempotentReplay,
+    transactionIdempotencyKey
+} from './idempotency'
+import { escalateUnsettledExtend, getEscalatedTransactionIds } from './reconciliation'
+import { sendStuckTransactionNotification } from './email'
+import { loadPartnerEmails } from './partner-contacts'
+
+// Statuses of a transaction whose CA call may still be outstanding
+export const IN_FLIGHT_TX_STATUSES = ['pending', 'pending_api']
+
+// A transaction this old is no longer being worked on by its request
+export const ZOMBIE_AGE_MINUTES = 10
+
+// Transactions settled per run
+const BATCH_SIZE = 50
+
+export interface SweepSummary {
+    swept: number
+    committed: number
+    rolledBack: number
+    skipped: number
+    escalated: number
+    errors: number
+}
+
+interface StuckTransactionRow {
+    id: string
+    type: 'add_domain' | 'extend'
+    status: string
+    partner_id: string
+    amount: number
+    description: string | null
+    domains: { domain_name: string } | null
+    acme_accounts: {
+        id: string
+        acme_account_id: string | null
+        account_name: string | null
+        ca_provider: string
+        sectigo_client: string | null
+    } | null
+    partners: {
+        company_name: string | null
+        payment_type: string | null
+    } | null
+}
+
+interface Verdict {
+    success: boolean
+    reason: string
+    orderNumber: string | null
+    // Left in flight for reconciliation instead of being settled
+    escalate?: boolean
+}
+
+/**
+ * Settle every stuck transaction older than ZOMBIE_AGE_MINUTES (one batch)
+ */
+export async function sweepStuckTransactions(supabase: SupabaseClient): Promise<SweepSummary> {
+    const cutoff = new Date(Date.now() - ZOMBIE_AGE_MINUTES * 60 * 1000).toISOString()
+    const escalated = await getEscalatedTransactionIds(supabase)
+
+    let query = supabase
+        .from('transactions')
+        .select(`
+            id,
+            type,
+            status,
+            partner_id,
+            amount,
+            description,
+            domains!transactions_domain_id_fkey (
+                domain_name
+            ),
+            acme_accounts (
+                id,
+                acme_account_id,
+                account_name,
+                ca_provider,
+                sectigo_client
+            ),
+            partners (
+                company_name,
+                payment_type
+            )
+        `)
+        .in('status', IN_FLIGHT_TX_STATUSES)
+        .in('type', ['add_domain', 'extend'])
+        .lt('created_at', cutoff)
+        .order('created_at', { ascending: true })
+        .limit(BATCH_SIZE)
+
+    // Escalated renewals wait for an admin; keep them out of the batch
+    if (escalated.length > 0) {
+        query = query.not('id', 'in', `(${escalated.join(',')})`)
+    }
+
+    const { data, error } = await query
+
+    if (error) {
+        throw new Error(`Failed to load stuck transactions: ${error.message}`)
+    }
+
+    const zombies = (data || []) as unknown as StuckTransactionRow[]
+    const summary: SweepSummary = { swept: zombies.length, committed: 0, rolledBack: 0, skipped: 0, escalated: 0, errors: 0 }
+
+    for (const tx of zombies) {
+        try {
+            const verdict = tx.type === 'extend'
+                ? await decideExtend(supabase, tx)
+                : await decideAddDomain(supabase, tx)
+
+            if (verdict.escalate) {
+                await escalateUnsettledExtend(supabase, {
+                    id: tx.id,
+                    partnerId: tx.partner_id,
+                    accountId: tx.acme_accounts!.id,
+                    amount: Number(tx.amount),
+                    reason: verdict.reason
+                })
+                console.log(`[Zombie Sweeper] ESCALATED: ${tx.type} ${tx.id} (${verdict.reason})`)
+                summary.escalated++
+                continue
+            }
+
+            const settled = await settle(supabase, tx, verdict)
+            if (!settled) {
+                // The original request finished in the meantime
+                summary.skipped++
+                continue
+            }
+
+            if (verdict.success) {
+                summary.committed++
+            } else {
+                summary.rolledBack++
+            }
+        } catch (txError) {
+            console.error(`[Zombie Sweeper] Error processing tx ${tx.id}:`, txError)
+            summary.errors++
+        }
+    }
+
+    return summary
+}
+
+// ============================================
+// Verdicts
+// ============================================
+
+async function decideAddDomain(supabase: SupabaseClient, tx: StuckTransactionRow): Promise<Verdict> {
+    const domainName = tx.domains?.domain_name
+    const account = tx.acme_accounts
+
+    if (!domainName || !account) {
+        throw new Error('Missing domain/account data')
+    }
+
+    // A stored /api/domains/add response settles the transaction
+    // without asking the CA again
+    const stored = await getIdempotencyKey(supabase, transactionIdempotencyKey('add_domain', tx.id))
+    if (stored?.status === 'completed' && (stored.response_status === 200 || stored.response_status === 400)) {
+        await recordIdempotentReplay(supabase, stored, null)
+        return {
+            success: stored.response_status === 200,
+            reason: 'Stored add-domain response',
+            orderNumber: null
+        }
+    }
+
+    // The provisioning saga recorded a successful ADDDOMAIN but never committed
+    const { data: item } = await supabase
+        .from('provisioning_items')
+        .select('step, order_number')
+        .eq('transaction_id', tx.id)
+        .maybeSingle()
+
+    if (item?.step === 'executed') {
+        return { success: true, reason: 'Provisioning item already executed', orderNumber: item.order_number }
+    }
+
+    if (!account.acme_account_id) {
+        return { success: false, reason: 'Subscription has no CA account ID', orderNumber: null }
+    }
+
+    const ca = getCaProvider(account)
+
+    if (!ca.tracksDomains) {
+        return { success: true, reason: `CA does not track domains (${ca.name})`, orderNumber: null }
+    }
+
+    // Primary verification: LISTDOMAINS
+    const listResponse = await ca.listDomains({ accountId: account.acme_account_id })
+    if (isCaError(listResponse)) {
+        throw new Error(`Failed to verify domain: ${listResponse.errorMessage}`)
+    }
+
+    const listed = listResponse.domains.find(d => d.domainName === domainName)
+    if (listed) {
+        return { success: true, reason: `Found at CA (${ca.name})`, orderNumber: listed.orderNumber }
+    }
+
+    // Fallback verification: GETLASTORDER (if LISTDOMAINS cache is stale)
+    const orderResponse = await ca.getLastOrder({ accountId: account.acme_account_id, domainName })
+    if (!isCaError(orderResponse) && orderResponse.order?.issued) {
+        return { success: true, reason: `Found via GETLASTORDER (${ca.name})`, orderNumber: orderResponse.order.orderNumber }
+    }
+
+    return { success: false, reason: `Not found at CA (${ca.name})`, orderNumber: null }
+}
+
+async function decideExtend(supabase: SupabaseClient, tx: StuckTransactionRow): Promise<Verdict> {
+    const account = tx.acme_accounts
+    if (!account) {
+        throw new Error('Missing account data')
+    }
+
+    // Other CAs extend locally: nothing was charged upstream
+    if (account.ca_provider !== 'sectigo') {
+        return { success: false, reason: `CA does not charge renewals (${account.ca_provider})`, orderNumber: null }
+    }
+
+    const { data: calls, error } = await supabase
+        .from('sectigo_api_calls')
+        .select('params, order_number')
+        .eq('transaction_id', tx.id)
+        .eq('action', 'EXTENDDOMAINS')
+        .eq('success', true)
+        .order('created_at', { ascending: false })
+
+    if (error) {
+        throw new Error(`Failed to load call journal: ${error.message}`)
+    }
+
+    const charged = (calls || []).find(call => (call.params as Record<string, string>)?.quoteOnly !== 'Y')
+    if (!charged) {
+        // Journal writes can be lost, so no row doesn't mean no charge
+        return { success: false, reason: 'No successful EXTENDDOMAINS recorded', orderNumber: null, escalate: true }
+    }
+
+    return { success: true, reason: 'EXTENDDOMAINS succeeded', orderNumber: charged.order_number }
+}
+
+// ============================================
+// Settlement
+// ============================================
+
+async function settle(supabase: SupabaseClient, tx: StuckTransactionRow, verdict: Verdict): Promise<boolean> {
+    const domainName = tx.domains?.domain_name || null
+
+    const { data: settled, error } = await supabase.rpc('settle_stuck_transaction', {
+        p_transaction_id: tx.id,
+        p_success: verdict.success,
+        p_order_number: verdict.orderNumber,
+        p_reason: verdict.reason
+    })
+
+    if (error) {
+        throw new Error(`Settlement failed: ${error.message}`)
+    }
+    if (!settled) {
+        return false
+    }
+
+    // settle_stuck_transaction moved the end date of a committed renewal
+    const account = tx.acme_accounts
+    let newEndDate: string | null = null
+    if (verdict.success && tx.type === 'extend' && account) {
+        const { data: renewed } = await supabase
+            .from('acme_accounts')
+            .select('end_date')
+            .eq('id', account.id)
+            .single()
+        newEndDate = renewed?.end_date || null
+    }
+
+    // Only pending_api transactions count against the deposit credit limit
+    const creditReleased = !verdict.success &&
+        tx.status === 'pending_api' &&
+        tx.partners?.payment_type === 'deposit'
+
+    console.log(`[Zombie Sweeper] ${verdict.success ? 'COMMITTED' : 'ROLLED BACK'}: ${tx.type} ${domainName || tx.id}`)
+
+    await supabase.from('audit_logs').insert({
+        actor_id: null, // System action
+        action: verdict.success ? 'zombie_commit' : 'zombie_rollback',
+        target_type: 'transaction',
+        target_id: tx.id,
+        details: {
+            transaction_type: tx.type,
+            previous_status: tx.status,
+            domain_name: domainName,
+            reason: verdict.reason,
+            sectigo_order_number: verdict.orderNumber,
+            amount: Number(tx.amount),
+            credit_released: creditReleased,
+            ...(newEndDate && { new_end_date: newEndDate })
+        }
+    })
+
+    // Notify the partner; the transaction is already settled, so a failure is only logged.
+    // Awaited: a serverless function may be frozen once the sweep returns.
+    try {
+        const to = (await loadPartnerEmails(supabase, [tx.partner_id])).get(tx.partner_id)
+        if (to) {
+            await sendStuckTransactionNotification({
+                to,
+                partnerName: tx.partners?.company_name || 'Partner',
+                subscriptionName: account?.account_name || 'Subscription',
+                description: tx.type === 'extend'
+                    ? (tx.description || 'Subscription renewal')
+                    : `Adding domain: ${domainName}`,
+                completed: verdict.success,
+                amount: `$${Number(tx.amount).toFixed(2)}`,
+                creditReleased,
+                portalUrl: process.env.NEXT_PUBLIC_APP_URL || ''
+            })
+        }
+    } catch (err) {
+        console.error('[Email Error] Failed to send stuck transaction notification:', err)
+    }
+
+    return true
+}
@@ -68,15 +68,6 @@ CREATE POLICY "Partners can view own domains" ON domains
     )
   );
 
-CREATE POLICY "Partners can insert own domains" ON domains
-  FOR INSERT WITH CHECK (
-    acme_account_id IN (
-      SELECT id FROM acme_accounts WHERE client_id IN (
-        SELECT id FROM clients WHERE partner_id = auth.uid()
-      )
-    )
-  );
-
 -- RLS Policies for certificates
 ALTER TABLE certificates ENABLE ROW LEVEL SECURITY;
 
@@ -0,0 +1,74 @@
+-- ============================================
+-- KICA CaaS Portal - Server-side Domain Removal
+-- ============================================
+-- Tracks each domain removal as a resumable, step-by-step operation:
+--   requested → upstream_removed → domain_removed → completed
+-- One row per domain makes /api/domains/remove idempotent: a retry
+-- picks up from the last completed step instead of starting over.
+-- ============================================
+
+-- Columns the account page already relies on (safe to re-run)
+ALTER TABLE domains
+ADD COLUMN IF NOT EXISTS removed_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS refund_transaction_id UUID REFERENCES transactions(id);
+
+-- Removal progress (one row per domain)
+CREATE TABLE IF NOT EXISTS domain_removals (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  domain_id UUID REFERENCES domains(id) ON DELETE CASCADE UNIQUE NOT NULL,
+  partner_id UUID REFERENCES partners(id) NOT NULL,
+  acme_account_id UUID REFERENCES acme_accounts(id) ON DELETE CASCADE,
+
+  step TEXT NOT NULL DEFAULT 'requested'
+    CHECK (step IN ('requested', 'upstream_removed', 'domain_removed', 'completed')),
+
+  -- Refund eligibility is decided once, when the removal is requested,
+  -- so a retry after the 30-day window cannot change the outcome
+  is_refundable BOOLEAN NOT NULL DEFAULT FALSE,
+  refund_amount DECIMAL(15,2) DEFAULT 0,
+  original_transaction_id UUID REFERENCES transactions(id),
+  refund_transaction_id UUID REFERENCES transactions(id),
+
+  attempts INTEGER DEFAULT 0,
+  last_error TEXT,
+
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  completed_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_domain_removals_partner ON domain_removals(partner_id);
+CREATE INDEX IF NOT EXISTS idx_domain_removals_step ON domain_removals(step) WHERE step <> 'completed';
+
+-- Enable RLS
+ALTER TABLE domain_removals ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Partners can view own domain removals" ON domain_removals;
+CREATE POLICY "Partners can view own domain removals" ON domain_removals
+  FOR SELECT USING (partner_id = auth.uid());
+
+DROP POLICY IF EXISTS "Partners can insert own domain removals" ON domain_removals;
+CREATE POLICY "Partners can insert own domain removals" ON domain_removals
+  FOR INSERT WITH CHECK (partner_id = auth.uid());
+
+DROP POLICY IF EXISTS "Partners can update own domain removals" ON domain_removals;
+CREATE POLICY "Partners can update own domain removals" ON domain_removals
+  FOR UPDATE USING (partner_id = auth.uid());
+
+-- Trigger for updated_at
+CREATE OR REPLACE FUNCTION update_domain_removals_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.updated_at = NOW();
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_update_domain_removals_updated_at ON domain_removals;
+CREATE TRIGGER trigger_update_domain_removals_updated_at
+    BEFORE UPDATE ON domain_removals
+    FOR EACH ROW
+    EXECUTE FUNCTION update_domain_removals_updated_at();
+
+-- Verify
+SELECT step, COUNT(*) FROM domain_removals GROUP BY step;
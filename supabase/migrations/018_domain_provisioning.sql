@@ -0,0 +1,217 @@
+-- ============================================
+-- KICA CaaS Portal - Server-side Domain Provisioning
+-- ============================================
+-- Moves the add-domain saga (reserve → execute → commit/rollback)
+-- off the browser. Every domain in a request becomes a
+-- provisioning item whose step is stored durably, so an
+-- interrupted job can be resumed without double charging.
+--
+-- Item steps:
+--   pending     → nothing written yet
+--   reserved    → domain (pending) + transaction (pending_api) created
+--   executed    → Sectigo ADDDOMAIN succeeded, order number stored
+--   committed   → domain active, transaction success
+--   rolled_back → domain failed, transaction failed
+--
+-- Jobs, items and the saga steps are written by the service role only
+-- (src/lib/domain-provisioning.ts); partners can read their own rows,
+-- so they can't rewrite a price or step, or commit an item without the
+-- Sectigo call.
+-- ============================================
+
+-- Align status constraints with the values the portal writes
+ALTER TABLE domains ADD COLUMN IF NOT EXISTS sectigo_order_number TEXT;
+
+ALTER TABLE domains DROP CONSTRAINT IF EXISTS domains_status_check;
+ALTER TABLE domains ADD CONSTRAINT domains_status_check
+CHECK (status IN ('pending', 'active', 'failed', 'removed', 'expired'));
+
+ALTER TABLE transactions DROP CONSTRAINT IF EXISTS transactions_status_check;
+ALTER TABLE transactions ADD CONSTRAINT transactions_status_check
+CHECK (status IN ('pending', 'pending_api', 'success', 'failed', 'refunded'));
+
+ALTER TABLE acme_accounts DROP CONSTRAINT IF EXISTS acme_accounts_status_check;
+ALTER TABLE acme_accounts ADD CONSTRAINT acme_accounts_status_check
+CHECK (status IN ('pending_start', 'active', 'inactive', 'suspended', 'expired', 'terminated'));
+
+-- Provisioning jobs (one per "Add Domains" submission)
+CREATE TABLE IF NOT EXISTS provisioning_jobs (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  partner_id UUID REFERENCES partners(id) NOT NULL,
+  acme_account_id UUID REFERENCES acme_accounts(id) ON DELETE CASCADE NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'running', 'completed', 'partial', 'failed')),
+  total_amount DECIMAL(15,2) DEFAULT 0,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  completed_at TIMESTAMPTZ
+);
+
+-- Provisioning items (one per domain)
+CREATE TABLE IF NOT EXISTS provisioning_items (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  job_id UUID REFERENCES provisioning_jobs(id) ON DELETE CASCADE NOT NULL,
+  partner_id UUID REFERENCES partners(id) NOT NULL,
+  domain_name TEXT NOT NULL,
+  domain_type TEXT NOT NULL CHECK (domain_type IN ('single', 'wildcard')),
+  price DECIMAL(15,2) NOT NULL,
+  step TEXT NOT NULL DEFAULT 'pending'
+    CHECK (step IN ('pending', 'reserved', 'executed', 'committed', 'rolled_back')),
+  domain_id UUID REFERENCES domains(id) ON DELETE SET NULL,
+  transaction_id UUID REFERENCES transactions(id) ON DELETE SET NULL,
+  order_number TEXT,
+  attempts INTEGER DEFAULT 0,
+  error TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (job_id, domain_name)
+);
+
+CREATE INDEX IF NOT EXISTS idx_provisioning_jobs_partner ON provisioning_jobs(partner_id);
+CREATE INDEX IF NOT EXISTS idx_provisioning_jobs_account ON provisioning_jobs(acme_account_id);
+CREATE INDEX IF NOT EXISTS idx_provisioning_items_job ON provisioning_items(job_id);
+CREATE INDEX IF NOT EXISTS idx_provisioning_items_transaction ON provisioning_items(transaction_id);
+
+-- Enable RLS
+ALTER TABLE provisioning_jobs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE provisioning_items ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Partners can view own provisioning jobs" ON provisioning_jobs;
+CREATE POLICY "Partners can view own provisioning jobs" ON provisioning_jobs
+  FOR SELECT USING (partner_id = auth.uid());
+
+DROP POLICY IF EXISTS "Partners can view own provisioning items" ON provisioning_items;
+CREATE POLICY "Partners can view own provisioning items" ON provisioning_items
+  FOR SELECT USING (partner_id = auth.uid());
+
+-- Triggers for updated_at
+CREATE OR REPLACE FUNCTION update_provisioning_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.updated_at = NOW();
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_update_provisioning_jobs_updated_at ON provisioning_jobs;
+CREATE TRIGGER trigger_update_provisioning_jobs_updated_at
+    BEFORE UPDATE ON provisioning_jobs
+    FOR EACH ROW
+    EXECUTE FUNCTION update_provisioning_updated_at();
+
+DROP TRIGGER IF EXISTS trigger_update_provisioning_items_updated_at ON provisioning_items;
+CREATE TRIGGER trigger_update_provisioning_items_updated_at
+    BEFORE UPDATE ON provisioning_items
+    FOR EACH ROW
+    EXECUTE FUNCTION update_provisioning_updated_at();
+
+-- ============================================
+-- SAGA STEPS (each runs in a single DB transaction)
+-- ============================================
+
+-- PHASE 1: RESERVE - create pending domain + pending_api transaction together
+CREATE OR REPLACE FUNCTION reserve_provisioning_item(p_item_id UUID)
+RETURNS TABLE(domain_id UUID, transaction_id UUID) AS $$
+DECLARE
+    v_item provisioning_items%ROWTYPE;
+    v_account_id UUID;
+    v_domain_id UUID;
+    v_transaction_id UUID;
+BEGIN
+    SELECT * INTO v_item FROM provisioning_items WHERE id = p_item_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Provisioning item % not found', p_item_id;
+    END IF;
+
+    -- Already reserved (or further along): return existing records
+    IF v_item.step <> 'pending' THEN
+        RETURN QUERY SELECT v_item.domain_id, v_item.transaction_id;
+        RETURN;
+    END IF;
+
+    SELECT acme_account_id INTO v_account_id FROM provisioning_jobs WHERE id = v_item.job_id;
+
+    INSERT INTO domains (acme_account_id, domain_name, domain_type, billing_type, status, price_charged)
+    VALUES (v_account_id, v_item.domain_name, v_item.domain_type, 'paid', 'pending', v_item.price)
+    RETURNING id INTO v_domain_id;
+
+    INSERT INTO transactions (partner_id, acme_account_id, domain_id, type, description, amount, status)
+    VALUES (v_item.partner_id, v_account_id, v_domain_id, 'add_domain',
+            'Adding domain: ' || v_item.domain_name, v_item.price, 'pending_api')
+    RETURNING id INTO v_transaction_id;
+
+    UPDATE provisioning_items
+    SET step = 'reserved', domain_id = v_domain_id, transaction_id = v_transaction_id
+    WHERE id = p_item_id;
+
+    RETURN QUERY SELECT v_domain_id, v_transaction_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- PHASE 3a: COMMIT - domain active, transaction success
+CREATE OR REPLACE FUNCTION commit_provisioning_item(p_item_id UUID)
+RETURNS VOID AS $$
+DECLARE
+    v_item provisioning_items%ROWTYPE;
+BEGIN
+    SELECT * INTO v_item FROM provisioning_items WHERE id = p_item_id FOR UPDATE;
+
+    IF NOT FOUND OR v_item.step = 'committed' THEN
+        RETURN;
+    END IF;
+
+    IF v_item.step <> 'executed' THEN
+        RAISE EXCEPTION 'Cannot commit provisioning item % in step %', p_item_id, v_item.step;
+    END IF;
+
+    UPDATE domains
+    SET status = 'active', sectigo_order_number = v_item.order_number, order_number = v_item.order_number
+    WHERE id = v_item.domain_id;
+
+    UPDATE transactions
+    SET status = 'success', sectigo_order_number = v_item.order_number,
+        description = 'Added domain: ' || v_item.domain_name
+    WHERE id = v_item.transaction_id;
+
+    UPDATE provisioning_items SET step = 'committed', error = NULL WHERE id = p_item_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- PHASE 3b: ROLLBACK - domain failed, transaction failed (releases reserved credit)
+CREATE OR REPLACE FUNCTION rollback_provisioning_item(p_item_id UUID, p_error TEXT)
+RETURNS VOID AS $$
+DECLARE
+    v_item provisioning_items%ROWTYPE;
+BEGIN
+    SELECT * INTO v_item FROM provisioning_items WHERE id = p_item_id FOR UPDATE;
+
+    IF NOT FOUND OR v_item.step IN ('committed', 'rolled_back') THEN
+        RETURN;
+    END IF;
+
+    IF v_item.domain_id IS NOT NULL THEN
+        UPDATE domains SET status = 'failed' WHERE id = v_item.domain_id;
+    END IF;
+
+    IF v_item.transaction_id IS NOT NULL THEN
+        UPDATE transactions
+        SET status = 'failed', description = 'Failed: ' || COALESCE(p_error, 'Unknown error')
+        WHERE id = v_item.transaction_id;
+    END IF;
+
+    UPDATE provisioning_items SET step = 'rolled_back', error = p_error WHERE id = p_item_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Saga steps are service-role only
+REVOKE EXECUTE ON FUNCTION reserve_provisioning_item(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION commit_provisioning_item(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION rollback_provisioning_item(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+
+GRANT EXECUTE ON FUNCTION reserve_provisioning_item(UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION commit_provisioning_item(UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION rollback_provisioning_item(UUID, TEXT) TO service_role;
+
+-- Verify
+SELECT status, COUNT(*) FROM provisioning_jobs GROUP BY status;
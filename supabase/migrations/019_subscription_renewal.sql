@@ -0,0 +1,88 @@
+-- ============================================
+-- KICA CaaS Portal - Subscription Renewal Billing
+-- ============================================
+-- Renewals (Sectigo EXTENDDOMAINS) are recorded as `extend`
+-- transactions. Count them in monthly settlements:
+--   total = (add_domain + extend) - refund
+-- ============================================
+
+CREATE OR REPLACE FUNCTION generate_monthly_settlements()
+RETURNS TABLE(partner_count INT, settlement_count INT, skipped_zero INT) AS $$
+DECLARE
+    v_partner_count INT := 0;
+    v_settlement_count INT := 0;
+    v_skipped_zero INT := 0;
+    v_partner RECORD;
+    v_period_start TIMESTAMPTZ;
+    v_period_end TIMESTAMPTZ;
+    v_total_amount DECIMAL(15,2);
+BEGIN
+    -- Previous month period in WIB (Asia/Jakarta timezone)
+    v_period_start := DATE_TRUNC('month', (NOW() AT TIME ZONE 'Asia/Jakarta' - INTERVAL '1 month')) AT TIME ZONE 'Asia/Jakarta';
+    v_period_end := (DATE_TRUNC('month', (NOW() AT TIME ZONE 'Asia/Jakarta')) - INTERVAL '1 second') AT TIME ZONE 'Asia/Jakarta';
+
+    RAISE NOTICE 'Generating settlements for period: % to %', v_period_start, v_period_end;
+
+    FOR v_partner IN (
+        SELECT id, company_name FROM partners WHERE status = 'active'
+    )
+    LOOP
+        v_partner_count := v_partner_count + 1;
+
+        -- Formula: (add_domain + extend - refund) for successful transactions only
+        SELECT COALESCE(
+            SUM(CASE WHEN type IN ('add_domain', 'extend') THEN amount ELSE 0 END) -
+            SUM(CASE WHEN type = 'refund' THEN amount ELSE 0 END),
+            0
+        ) INTO v_total_amount
+        FROM transactions
+        WHERE partner_id = v_partner.id
+        AND status = 'success'
+        AND created_at >= v_period_start
+        AND created_at <= v_period_end;
+
+        IF v_total_amount = 0 THEN
+            v_skipped_zero := v_skipped_zero + 1;
+            RAISE NOTICE 'Skipped partner % (zero amount)', v_partner.company_name;
+            CONTINUE;
+        END IF;
+
+        INSERT INTO settlements (
+            partner_id,
+            period_start,
+            period_end,
+            total_amount,
+            status,
+            auto_approved,
+            created_at
+        ) VALUES (
+            v_partner.id,
+            v_period_start::DATE,
+            v_period_end::DATE,
+            v_total_amount,
+            'draft',
+            FALSE,
+            NOW()
+        )
+        ON CONFLICT (partner_id, period_start) DO NOTHING;
+
+        IF FOUND THEN
+            v_settlement_count := v_settlement_count + 1;
+            RAISE NOTICE 'Created settlement for partner % ($%)', v_partner.company_name, v_total_amount;
+        ELSE
+            RAISE NOTICE 'Settlement already exists for partner %', v_partner.company_name;
+        END IF;
+    END LOOP;
+
+    RAISE NOTICE 'Summary: % partners processed, % settlements created, % skipped (zero amount)',
+        v_partner_count, v_settlement_count, v_skipped_zero;
+
+    RETURN QUERY SELECT v_partner_count, v_settlement_count, v_skipped_zero;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Verify
+SELECT type, status, COUNT(*), SUM(amount)
+FROM transactions
+WHERE type = 'extend'
+GROUP BY type, status;
@@ -0,0 +1,162 @@
+-- ============================================
+-- KICA CaaS Portal - Sectigo Transaction Reconciliation
+-- ============================================
+-- Compares Sectigo LISTTRANSACTIONS (what Sectigo charged KICA)
+-- with local `transactions` (what KICA billed partners), matched
+-- by sectigo_order_number. Differences are stored for finance:
+--
+--   missing_local    → Sectigo charged, no local transaction
+--   missing_upstream → Local charge, Sectigo has no record
+--   amount_mismatch  → Sectigo amount ≠ upstream_cost we recorded
+--   type_mismatch    → e.g. Sectigo EXTENDDOMAINS vs local add_domain
+-- ============================================
+
+-- KICA staff flag (finance/admin pages)
+ALTER TABLE partners ADD COLUMN IF NOT EXISTS is_admin BOOLEAN DEFAULT FALSE;
+
+-- What Sectigo charged us for this transaction (partner amount is `amount`)
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS upstream_cost DECIMAL(15,2);
+ALTER TABLE provisioning_items ADD COLUMN IF NOT EXISTS upstream_cost DECIMAL(15,2);
+
+-- Admin check usable from RLS policies
+CREATE OR REPLACE FUNCTION is_admin()
+RETURNS BOOLEAN AS $$
+    SELECT COALESCE((SELECT is_admin FROM partners WHERE id = auth.uid()), FALSE);
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- "Partners can update own data" covers the whole partners row: only the
+-- service role (or a direct database session) may grant or revoke admin
+REVOKE UPDATE (is_admin) ON partners FROM anon, authenticated;
+
+CREATE OR REPLACE FUNCTION guard_partner_admin_flag()
+RETURNS TRIGGER AS $$
+BEGIN
+    -- API sessions run as anon/authenticated; service role and SQL sessions don't
+    IF current_user IN ('anon', 'authenticated') AND (
+        (TG_OP = 'INSERT' AND COALESCE(NEW.is_admin, FALSE))
+        OR (TG_OP = 'UPDATE' AND NEW.is_admin IS DISTINCT FROM OLD.is_admin)
+    ) THEN
+        RAISE EXCEPTION 'partners.is_admin can only be changed by the service role'
+            USING ERRCODE = 'insufficient_privilege';
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS partners_admin_flag_guard ON partners;
+CREATE TRIGGER partners_admin_flag_guard
+    BEFORE INSERT OR UPDATE ON partners
+    FOR EACH ROW
+    EXECUTE FUNCTION guard_partner_admin_flag();
+
+-- ============================================
+-- Reconciliation runs
+-- ============================================
+CREATE TABLE IF NOT EXISTS reconciliation_runs (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    from_date DATE NOT NULL,
+    to_date DATE NOT NULL,
+    status TEXT NOT NULL DEFAULT 'running'
+        CHECK (status IN ('running', 'completed', 'failed')),
+    triggered_by UUID REFERENCES partners(id),  -- NULL = cron
+    accounts_checked INTEGER NOT NULL DEFAULT 0,
+    upstream_count INTEGER NOT NULL DEFAULT 0,
+    local_count INTEGER NOT NULL DEFAULT 0,
+    discrepancy_count INTEGER NOT NULL DEFAULT 0,
+    errors JSONB NOT NULL DEFAULT '[]'::jsonb,
+    started_at TIMESTAMPTZ DEFAULT NOW(),
+    completed_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_reconciliation_runs_started ON reconciliation_runs(started_at DESC);
+
+-- ============================================
+-- Reconciliation discrepancies
+-- ============================================
+CREATE TABLE IF NOT EXISTS reconciliation_discrepancies (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    -- Stable identity across runs: kind + account + order + transaction
+    fingerprint TEXT NOT NULL UNIQUE,
+    run_id UUID REFERENCES reconciliation_runs(id) ON DELETE SET NULL,
+
+    kind TEXT NOT NULL
+        CHECK (kind IN ('missing_local', 'missing_upstream', 'amount_mismatch', 'type_mismatch')),
+    partner_id UUID REFERENCES partners(id),
+    acme_account_id UUID REFERENCES acme_accounts(id) ON DELETE CASCADE,
+    transaction_id UUID REFERENCES transactions(id) ON DELETE SET NULL,
+    sectigo_order_number TEXT,
+
+    local_type TEXT,
+    local_amount DECIMAL(15,2),
+    upstream_type TEXT,
+    upstream_amount DECIMAL(15,2),
+    upstream_date TIMESTAMPTZ,
+    details JSONB,
+
+    status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'resolved')),
+    resolution_note TEXT,
+    resolved_by UUID REFERENCES partners(id),
+    resolved_at TIMESTAMPTZ,
+
+    first_detected_at TIMESTAMPTZ DEFAULT NOW(),
+    last_detected_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_reconciliation_discrepancies_status ON reconciliation_discrepancies(status, kind);
+CREATE INDEX IF NOT EXISTS idx_reconciliation_discrepancies_account ON reconciliation_discrepancies(acme_account_id);
+
+-- ============================================
+-- RLS: finance data is admin-only (cron uses service role)
+-- ============================================
+ALTER TABLE reconciliation_runs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE reconciliation_discrepancies ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can view reconciliation runs" ON reconciliation_runs;
+CREATE POLICY "Admins can view reconciliation runs"
+ON reconciliation_runs FOR SELECT
+USING (is_admin());
+
+DROP POLICY IF EXISTS "Admins can view reconciliation discrepancies" ON reconciliation_discrepancies;
+CREATE POLICY "Admins can view reconciliation discrepancies"
+ON reconciliation_discrepancies FOR SELECT
+USING (is_admin());
+
+DROP POLICY IF EXISTS "Admins can resolve reconciliation discrepancies" ON reconciliation_discrepancies;
+CREATE POLICY "Admins can resolve reconciliation discrepancies"
+ON reconciliation_discrepancies FOR UPDATE
+USING (is_admin());
+
+-- ============================================
+-- Provisioning commit also carries the upstream cost
+-- ============================================
+CREATE OR REPLACE FUNCTION commit_provisioning_item(p_item_id UUID)
+RETURNS VOID AS $$
+DECLARE
+    v_item provisioning_items%ROWTYPE;
+BEGIN
+    SELECT * INTO v_item FROM provisioning_items WHERE id = p_item_id FOR UPDATE;
+
+    IF NOT FOUND OR v_item.step = 'committed' THEN
+        RETURN;
+    END IF;
+
+    IF v_item.step <> 'executed' THEN
+        RAISE EXCEPTION 'Cannot commit provisioning item % in step %', p_item_id, v_item.step;
+    END IF;
+
+    UPDATE domains
+    SET status = 'active', sectigo_order_number = v_item.order_number, order_number = v_item.order_number
+    WHERE id = v_item.domain_id;
+
+    UPDATE transactions
+    SET status = 'success', sectigo_order_number = v_item.order_number,
+        upstream_cost = v_item.upstream_cost,
+        description = 'Added domain: ' || v_item.domain_name
+    WHERE id = v_item.transaction_id;
+
+    UPDATE provisioning_items SET step = 'committed', error = NULL WHERE id = p_item_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Verify
+SELECT kind, status, COUNT(*) FROM reconciliation_discrepancies GROUP BY kind, status;
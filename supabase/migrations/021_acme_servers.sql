@@ -0,0 +1,46 @@
+-- ============================================
+-- KICA CaaS Portal - ACME Server Catalog
+-- ============================================
+-- Cached copy of Sectigo LISTSERVERS. Subscription creation only
+-- accepts a serverUrl that is in this catalog, enabled, and matches
+-- the subscription's certificate type. Admins toggle is_enabled;
+-- catalog refreshes never overwrite that flag.
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS acme_servers (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    server_url TEXT NOT NULL UNIQUE,
+    description TEXT,
+    validation_type TEXT NOT NULL CHECK (validation_type IN ('DV', 'OV')),
+    is_enabled BOOLEAN NOT NULL DEFAULT TRUE,
+    -- FALSE when the latest LISTSERVERS no longer returns this server
+    is_available BOOLEAN NOT NULL DEFAULT TRUE,
+    last_seen_at TIMESTAMPTZ DEFAULT NOW(),
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Seed with the URLs the portal used before the catalog existed
+INSERT INTO acme_servers (server_url, description, validation_type)
+VALUES
+    ('https://acme.sectigo.com/v2/DV', 'Domain Validation', 'DV'),
+    ('https://acme.sectigo.com/v2/OV', 'Organization Validation', 'OV')
+ON CONFLICT (server_url) DO NOTHING;
+
+-- ============================================
+-- RLS
+-- ============================================
+ALTER TABLE acme_servers ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated users can view ACME servers" ON acme_servers;
+CREATE POLICY "Authenticated users can view ACME servers"
+ON acme_servers FOR SELECT
+USING (auth.role() = 'authenticated');
+
+DROP POLICY IF EXISTS "Admins can update ACME servers" ON acme_servers;
+CREATE POLICY "Admins can update ACME servers"
+ON acme_servers FOR UPDATE
+USING (is_admin());
+
+-- Verify
+SELECT server_url, validation_type, is_enabled, is_available, last_seen_at FROM acme_servers ORDER BY validation_type;
@@ -0,0 +1,104 @@
+-- ============================================
+-- KICA CaaS Portal - Durable Sectigo Job Queue
+-- ============================================
+-- Every Sectigo side effect (add/remove domain, suspend/unsuspend/
+-- deactivate account, certificate sync) is recorded as a job before
+-- it runs. Routes run their job right away; anything that fails or
+-- is cut short is retried by the worker cron with backoff, and moves
+-- to 'dead' after max_attempts for manual follow-up.
+--
+-- Job status:
+--   pending   → waiting to run (run_after = earliest next attempt)
+--   running   → claimed by a worker (locked_at / locked_by)
+--   succeeded → done, handler output in `result`
+--   dead      → gave up (attempts exhausted or permanent error)
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS sectigo_jobs (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  partner_id UUID REFERENCES partners(id) NOT NULL,
+  acme_account_id UUID REFERENCES acme_accounts(id) ON DELETE CASCADE,
+  job_type TEXT NOT NULL
+    CHECK (job_type IN ('ADDDOMAIN', 'REMOVEDOMAIN', 'SUSPENDACCOUNT', 'UNSUSPENDACCOUNT', 'DEACTIVATEACCOUNT', 'SYNC_CERT')),
+  payload JSONB NOT NULL DEFAULT '{}'::jsonb,
+  -- At most one open (pending/running) job per key, e.g. 'SYNC_CERT:<domain id>'
+  dedupe_key TEXT,
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'running', 'succeeded', 'dead')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 5,
+  run_after TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  locked_at TIMESTAMPTZ,
+  locked_by TEXT,
+  last_error TEXT,
+  result JSONB,
+  created_by UUID REFERENCES partners(id),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  completed_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_sectigo_jobs_runnable ON sectigo_jobs(status, run_after);
+CREATE INDEX IF NOT EXISTS idx_sectigo_jobs_partner ON sectigo_jobs(partner_id, created_at DESC);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_sectigo_jobs_open_dedupe
+  ON sectigo_jobs(dedupe_key)
+  WHERE dedupe_key IS NOT NULL AND status IN ('pending', 'running');
+
+-- Enable RLS (writes go through the service role)
+ALTER TABLE sectigo_jobs ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Partners can view own sectigo jobs" ON sectigo_jobs;
+CREATE POLICY "Partners can view own sectigo jobs" ON sectigo_jobs
+  FOR SELECT USING (partner_id = auth.uid() OR is_admin());
+
+-- Trigger for updated_at
+CREATE OR REPLACE FUNCTION update_sectigo_jobs_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_sectigo_jobs_updated_at ON sectigo_jobs;
+CREATE TRIGGER trigger_sectigo_jobs_updated_at
+  BEFORE UPDATE ON sectigo_jobs
+  FOR EACH ROW EXECUTE FUNCTION update_sectigo_jobs_updated_at();
+
+-- ============================================
+-- Claim runnable jobs
+-- ============================================
+-- Marks up to p_limit jobs as running and returns them. Also reclaims
+-- jobs stuck in 'running' (worker died) after p_stale_seconds.
+-- SKIP LOCKED lets several workers claim concurrently without overlap.
+CREATE OR REPLACE FUNCTION claim_sectigo_jobs(
+  p_worker_id TEXT,
+  p_limit INTEGER DEFAULT 10,
+  p_job_ids UUID[] DEFAULT NULL,
+  p_stale_seconds INTEGER DEFAULT 300
+)
+RETURNS SETOF sectigo_jobs AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE sectigo_jobs j
+  SET status = 'running',
+      locked_at = NOW(),
+      locked_by = p_worker_id,
+      attempts = j.attempts + 1
+  WHERE j.id IN (
+    SELECT c.id FROM sectigo_jobs c
+    WHERE (p_job_ids IS NULL OR c.id = ANY(p_job_ids))
+      AND (
+        (c.status = 'pending' AND c.run_after <= NOW())
+        OR (c.status = 'running' AND c.locked_at < NOW() - make_interval(secs => p_stale_seconds))
+      )
+    ORDER BY c.run_after
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING j.*;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Verify
+SELECT job_type, status, COUNT(*) FROM sectigo_jobs GROUP BY job_type, status;
@@ -0,0 +1,54 @@
+-- ============================================
+-- KICA CaaS Portal - Sectigo API Call Journal
+-- ============================================
+-- One row per HTTP attempt made by SectigoClient (retries are separate
+-- rows with retry_count > 0). Used to answer partner charge disputes:
+-- what was sent to Sectigo, what came back, and what triggered it.
+--
+-- Params are stored redacted (no credentials, no EAB secrets).
+-- transaction_id / job_id link the call to the local transaction or
+-- sectigo_jobs row that was being processed when it was made.
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS sectigo_api_calls (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    action TEXT NOT NULL,
+    params JSONB NOT NULL DEFAULT '{}'::jsonb,
+    acme_account_id TEXT,                 -- Sectigo acmeAccountID (from params)
+    domain_name TEXT,                     -- from params, when present
+
+    success BOOLEAN NOT NULL,
+    http_status INTEGER,                  -- NULL = timeout / network error / circuit open
+    latency_ms INTEGER NOT NULL DEFAULT 0,
+    retry_count INTEGER NOT NULL DEFAULT 0,
+    error_code TEXT,
+    error_message TEXT,
+    order_number TEXT,
+
+    transaction_id UUID REFERENCES transactions(id) ON DELETE SET NULL,
+    job_id UUID REFERENCES sectigo_jobs(id) ON DELETE SET NULL,
+
+    mock_mode BOOLEAN NOT NULL DEFAULT FALSE,
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_sectigo_api_calls_created ON sectigo_api_calls(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_sectigo_api_calls_action ON sectigo_api_calls(action, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_sectigo_api_calls_account ON sectigo_api_calls(acme_account_id);
+CREATE INDEX IF NOT EXISTS idx_sectigo_api_calls_domain ON sectigo_api_calls(domain_name);
+CREATE INDEX IF NOT EXISTS idx_sectigo_api_calls_order ON sectigo_api_calls(order_number);
+CREATE INDEX IF NOT EXISTS idx_sectigo_api_calls_transaction ON sectigo_api_calls(transaction_id);
+CREATE INDEX IF NOT EXISTS idx_sectigo_api_calls_job ON sectigo_api_calls(job_id);
+
+-- ============================================
+-- RLS: admin-only (writes use the service role)
+-- ============================================
+ALTER TABLE sectigo_api_calls ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can view Sectigo API calls" ON sectigo_api_calls;
+CREATE POLICY "Admins can view Sectigo API calls"
+ON sectigo_api_calls FOR SELECT
+USING (is_admin());
+
+-- Verify
+SELECT action, success, COUNT(*) FROM sectigo_api_calls GROUP BY action, success;
@@ -0,0 +1,51 @@
+-- ============================================
+-- KICA CaaS Portal - Idempotency Keys for Billable Operations
+-- ============================================
+-- Billable routes (add domain, renewal) run under a key derived from
+-- the transaction they bill:
+--
+--   add_domain:<transaction_id>   /api/domains/add and each provisioning item
+--   extend:<transaction_id>       renewal, keyed on its reserved transaction (036)
+--
+-- The first request stores its response; a replay (browser retry,
+-- double submit, zombie sweeper) gets the stored response back without
+-- Sectigo being called again. Keys expire after IDEMPOTENCY_KEY_TTL_HOURS
+-- and are purged by the zombie sweeper.
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS idempotency_keys (
+    key TEXT PRIMARY KEY,
+    operation TEXT NOT NULL,               -- add_domain, extend
+    partner_id UUID REFERENCES partners(id) ON DELETE CASCADE,
+    transaction_id UUID REFERENCES transactions(id) ON DELETE SET NULL,
+    request_hash TEXT NOT NULL,            -- SHA-256 of the request body
+
+    status TEXT NOT NULL DEFAULT 'in_progress'
+        CHECK (status IN ('in_progress', 'completed')),
+    response_status INTEGER,
+    response_body JSONB,
+
+    -- Use tracking
+    replay_count INTEGER NOT NULL DEFAULT 0,
+    last_replayed_at TIMESTAMPTZ,
+
+    expires_at TIMESTAMPTZ NOT NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    completed_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_idempotency_keys_expires ON idempotency_keys(expires_at);
+CREATE INDEX IF NOT EXISTS idx_idempotency_keys_transaction ON idempotency_keys(transaction_id);
+
+-- ============================================
+-- RLS: partners can see their own keys (writes use the service role)
+-- ============================================
+ALTER TABLE idempotency_keys ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Partners can view own idempotency keys" ON idempotency_keys;
+CREATE POLICY "Partners can view own idempotency keys"
+ON idempotency_keys FOR SELECT
+USING (partner_id = auth.uid() OR is_admin());
+
+-- Verify
+SELECT operation, status, COUNT(*) FROM idempotency_keys GROUP BY operation, status;
@@ -0,0 +1,63 @@
+-- ============================================
+-- KICA CaaS Portal - Sectigo Credential Rotation
+-- ============================================
+-- Sectigo login credentials managed from the admin settings page.
+-- Passwords are encrypted by the app (AES-256-GCM, SECRET_BOX_KEY);
+-- the database only ever sees ciphertext.
+--
+-- Credential resolution order: active row here → SECTIGO_CREDENTIALS_FILE
+-- → SECTIGO_LOGIN_NAME / SECTIGO_LOGIN_PASSWORD env. Activating a row
+-- rotates credentials without a redeploy.
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS sectigo_credentials (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    label TEXT NOT NULL,
+    login_name TEXT NOT NULL,
+    password_ciphertext TEXT NOT NULL,
+
+    is_active BOOLEAN NOT NULL DEFAULT FALSE,
+    activated_at TIMESTAMPTZ,
+    activated_by UUID REFERENCES partners(id),
+
+    -- Last "Test" from the settings page (must pass before activation)
+    last_tested_at TIMESTAMPTZ,
+    last_test_ok BOOLEAN,
+    last_test_error TEXT,
+
+    created_by UUID REFERENCES partners(id),
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- At most one active credential
+CREATE UNIQUE INDEX IF NOT EXISTS idx_sectigo_credentials_active
+    ON sectigo_credentials(is_active) WHERE is_active;
+
+-- ============================================
+-- RLS: no policies - service role only (admin API routes)
+-- ============================================
+ALTER TABLE sectigo_credentials ENABLE ROW LEVEL SECURITY;
+
+-- ============================================
+-- Switch the active credential atomically
+-- ============================================
+CREATE OR REPLACE FUNCTION activate_sectigo_credential(p_credential_id UUID, p_actor_id UUID)
+RETURNS VOID AS $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM sectigo_credentials
+        WHERE id = p_credential_id AND last_test_ok IS TRUE
+    ) THEN
+        RAISE EXCEPTION 'Credential % has not passed a test', p_credential_id;
+    END IF;
+
+    UPDATE sectigo_credentials SET is_active = FALSE WHERE is_active AND id <> p_credential_id;
+
+    UPDATE sectigo_credentials
+    SET is_active = TRUE, activated_at = NOW(), activated_by = p_actor_id
+    WHERE id = p_credential_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Verify
+SELECT id, label, login_name, is_active, last_test_ok FROM sectigo_credentials;
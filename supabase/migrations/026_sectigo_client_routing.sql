@@ -0,0 +1,68 @@
+-- ============================================
+-- KICA CaaS Portal - Multiple Sectigo Reseller Accounts
+-- ============================================
+-- Sectigo calls are routed to a named client from the registry in
+-- src/lib/sectigo-registry.ts ('default', plus names in SECTIGO_CLIENTS,
+-- e.g. 'sandbox', 'eu').
+--
+-- - partners.sectigo_client     client for the partner's NEW accounts
+-- - acme_accounts.sectigo_client client the account was registered with;
+--   stamped at creation and never changed, since an ACME account only
+--   exists in the reseller account that created it
+--
+-- NULL means 'default'.
+-- ============================================
+
+ALTER TABLE partners ADD COLUMN IF NOT EXISTS sectigo_client TEXT;
+ALTER TABLE acme_accounts ADD COLUMN IF NOT EXISTS sectigo_client TEXT;
+
+-- Existing accounts follow their partner's mapping
+UPDATE acme_accounts a
+SET sectigo_client = p.sectigo_client
+FROM clients c
+JOIN partners p ON p.id = c.partner_id
+WHERE a.client_id = c.id
+  AND a.sectigo_client IS NULL
+  AND p.sectigo_client IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_acme_accounts_sectigo_client ON acme_accounts(sectigo_client);
+
+-- ============================================
+-- Journal: which client made the call
+-- ============================================
+ALTER TABLE sectigo_api_calls ADD COLUMN IF NOT EXISTS client_name TEXT NOT NULL DEFAULT 'default';
+CREATE INDEX IF NOT EXISTS idx_sectigo_api_calls_client ON sectigo_api_calls(client_name);
+
+-- ============================================
+-- Stored credentials: one active credential per client
+-- ============================================
+ALTER TABLE sectigo_credentials ADD COLUMN IF NOT EXISTS client_name TEXT NOT NULL DEFAULT 'default';
+
+DROP INDEX IF EXISTS idx_sectigo_credentials_active;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_sectigo_credentials_active
+    ON sectigo_credentials(client_name) WHERE is_active;
+
+CREATE OR REPLACE FUNCTION activate_sectigo_credential(p_credential_id UUID, p_actor_id UUID)
+RETURNS VOID AS $$
+DECLARE
+    v_client_name TEXT;
+BEGIN
+    SELECT client_name INTO v_client_name
+    FROM sectigo_credentials
+    WHERE id = p_credential_id AND last_test_ok IS TRUE;
+
+    IF v_client_name IS NULL THEN
+        RAISE EXCEPTION 'Credential % has not passed a test', p_credential_id;
+    END IF;
+
+    UPDATE sectigo_credentials SET is_active = FALSE
+    WHERE is_active AND client_name = v_client_name AND id <> p_credential_id;
+
+    UPDATE sectigo_credentials
+    SET is_active = TRUE, activated_at = NOW(), activated_by = p_actor_id
+    WHERE id = p_credential_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Verify
+SELECT id, company_name, sectigo_client FROM partners WHERE sectigo_client IS NOT NULL;
@@ -0,0 +1,21 @@
+-- ============================================
+-- KICA CaaS Portal - Certificate Authority per ACME Account
+-- ============================================
+-- Which CA adapter (src/lib/ca/) serves an ACME account:
+--   sectigo - Sectigo CaaS (all existing accounts)
+--   acme    - generic ACME CA with External Account Binding
+--   local   - in-memory stand-in for development and tests
+--
+-- Set when the account is created and never changed.
+-- ============================================
+
+ALTER TABLE acme_accounts ADD COLUMN IF NOT EXISTS ca_provider TEXT NOT NULL DEFAULT 'sectigo';
+
+ALTER TABLE acme_accounts DROP CONSTRAINT IF EXISTS acme_accounts_ca_provider_check;
+ALTER TABLE acme_accounts ADD CONSTRAINT acme_accounts_ca_provider_check
+    CHECK (ca_provider IN ('sectigo', 'acme', 'local'));
+
+CREATE INDEX IF NOT EXISTS idx_acme_accounts_ca_provider ON acme_accounts(ca_provider);
+
+-- Verify
+SELECT ca_provider, COUNT(*) FROM acme_accounts GROUP BY ca_provider;
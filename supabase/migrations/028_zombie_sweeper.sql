@@ -0,0 +1,113 @@
+-- ============================================
+-- KICA CaaS Portal - Zombie Sweeper Settlement
+-- ============================================
+-- Settles a transaction left in flight ('pending' or 'pending_api')
+-- by a crashed request, together with everything it reserved:
+--
+--   success  → transaction success, domain active
+--   failure  → transaction failed (releases reserved deposit
+--              credit), domain failed
+--
+-- Transactions that belong to a provisioning item go through the
+-- item's own commit/rollback, and the job is closed once all of
+-- its items are settled.
+--
+-- Returns FALSE when the transaction was settled in the meantime
+-- (e.g. the original request finished late), so the sweeper never
+-- overwrites a real outcome.
+-- ============================================
+
+CREATE INDEX IF NOT EXISTS idx_transactions_in_flight
+    ON transactions(created_at) WHERE status IN ('pending', 'pending_api');
+
+CREATE OR REPLACE FUNCTION settle_stuck_transaction(
+    p_transaction_id UUID,
+    p_success BOOLEAN,
+    p_order_number TEXT,
+    p_reason TEXT
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+    v_tx transactions%ROWTYPE;
+    v_item provisioning_items%ROWTYPE;
+    v_total INTEGER;
+    v_committed INTEGER;
+    v_settled INTEGER;
+BEGIN
+    SELECT * INTO v_tx FROM transactions WHERE id = p_transaction_id FOR UPDATE;
+
+    IF NOT FOUND OR v_tx.status NOT IN ('pending', 'pending_api') THEN
+        RETURN FALSE;
+    END IF;
+
+    SELECT * INTO v_item FROM provisioning_items
+    WHERE transaction_id = p_transaction_id
+      AND step NOT IN ('committed', 'rolled_back')
+    FOR UPDATE;
+
+    IF FOUND THEN
+        IF p_success THEN
+            UPDATE provisioning_items
+            SET step = 'executed', order_number = COALESCE(p_order_number, order_number)
+            WHERE id = v_item.id;
+
+            PERFORM commit_provisioning_item(v_item.id);
+        ELSE
+            PERFORM rollback_provisioning_item(v_item.id, p_reason);
+        END IF;
+
+        -- Close the job once every item is settled
+        SELECT COUNT(*),
+               COUNT(*) FILTER (WHERE step = 'committed'),
+               COUNT(*) FILTER (WHERE step IN ('committed', 'rolled_back'))
+        INTO v_total, v_committed, v_settled
+        FROM provisioning_items WHERE job_id = v_item.job_id;
+
+        IF v_settled = v_total THEN
+            UPDATE provisioning_jobs
+            SET status = CASE
+                    WHEN v_committed = v_total THEN 'completed'
+                    WHEN v_committed > 0 THEN 'partial'
+                    ELSE 'failed'
+                END,
+                completed_at = NOW()
+            WHERE id = v_item.job_id;
+        END IF;
+
+        RETURN TRUE;
+    END IF;
+
+    IF p_success THEN
+        UPDATE transactions
+        SET status = 'success', sectigo_order_number = COALESCE(p_order_number, sectigo_order_number)
+        WHERE id = p_transaction_id;
+
+        IF v_tx.domain_id IS NOT NULL THEN
+            UPDATE domains
+            SET status = 'active',
+                sectigo_order_number = COALESCE(p_order_number, sectigo_order_number),
+                order_number = COALESCE(p_order_number, order_number)
+            WHERE id = v_tx.domain_id AND status = 'pending';
+        END IF;
+    ELSE
+        UPDATE transactions
+        SET status = 'failed', description = 'Failed: ' || COALESCE(p_reason, 'Unknown error')
+        WHERE id = p_transaction_id;
+
+        IF v_tx.domain_id IS NOT NULL THEN
+            UPDATE domains SET status = 'failed' WHERE id = v_tx.domain_id AND status = 'pending';
+        END IF;
+    END IF;
+
+    RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Settlement is service-role only, like the saga steps it calls (018)
+REVOKE EXECUTE ON FUNCTION settle_stuck_transaction(UUID, BOOLEAN, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION settle_stuck_transaction(UUID, BOOLEAN, TEXT, TEXT) TO service_role;
+
+-- Verify
+SELECT status, type, COUNT(*) FROM transactions
+WHERE status IN ('pending', 'pending_api')
+GROUP BY status, type;
@@ -0,0 +1,108 @@
+-- ============================================
+-- KICA CaaS Portal - Scheduled Certificate Sync
+-- ============================================
+-- The certificate sync cron works through active domains in
+-- batches instead of everything at once. Per domain it tracks:
+--
+--   last_synced_at        last successful GETLASTORDER sync
+--   last_sync_attempt_at  last time a run picked the domain up
+--   last_sync_error       error of the last failed attempt
+--   sync_failures         consecutive failed attempts
+--
+-- claim_certificate_sync_batch hands out the most urgent domains
+-- first: no certificate yet, then certificates that are not valid
+-- or expire within the urgent window, then everything else by
+-- oldest sync. Urgent domains are re-synced more often.
+-- ============================================
+
+ALTER TABLE domains ADD COLUMN IF NOT EXISTS last_synced_at TIMESTAMPTZ;
+ALTER TABLE domains ADD COLUMN IF NOT EXISTS last_sync_attempt_at TIMESTAMPTZ;
+ALTER TABLE domains ADD COLUMN IF NOT EXISTS last_sync_error TEXT;
+ALTER TABLE domains ADD COLUMN IF NOT EXISTS sync_failures INTEGER NOT NULL DEFAULT 0;
+
+CREATE INDEX IF NOT EXISTS idx_domains_sync_attempt
+    ON domains(last_sync_attempt_at NULLS FIRST) WHERE status = 'active';
+
+-- Backfill from certificates already synced
+UPDATE domains d
+SET last_synced_at = c.synced_at
+FROM certificates c
+WHERE c.domain_id = d.id
+  AND d.last_synced_at IS NULL;
+
+-- ============================================
+-- Claim the next batch (marks the attempt so overlapping runs skip it)
+-- ============================================
+CREATE OR REPLACE FUNCTION claim_certificate_sync_batch(
+    p_limit INTEGER DEFAULT 100,
+    p_urgent_days INTEGER DEFAULT 30,
+    p_urgent_interval_seconds INTEGER DEFAULT 3600,
+    p_routine_interval_seconds INTEGER DEFAULT 86400
+)
+RETURNS TABLE(domain_id UUID, domain_name TEXT, partner_id UUID, priority INTEGER) AS $$
+BEGIN
+    RETURN QUERY
+    WITH due AS (
+        SELECT d.id, d.domain_name, cl.partner_id, p.priority
+        FROM domains d
+        JOIN acme_accounts a ON a.id = d.acme_account_id
+        JOIN clients cl ON cl.id = a.client_id
+        LEFT JOIN certificates c ON c.domain_id = d.id
+        CROSS JOIN LATERAL (
+            SELECT CASE
+                WHEN c.id IS NULL THEN 0
+                WHEN c.status_code IS DISTINCT FROM 6
+                  OR c.valid_not_after < NOW() + make_interval(days => p_urgent_days) THEN 1
+                ELSE 2
+            END AS priority
+        ) p
+        WHERE d.status = 'active'
+          AND a.acme_account_id IS NOT NULL
+          AND (
+            d.last_sync_attempt_at IS NULL
+            OR d.last_sync_attempt_at < NOW() - make_interval(secs =>
+                CASE WHEN p.priority < 2 THEN p_urgent_interval_seconds ELSE p_routine_interval_seconds END)
+          )
+        ORDER BY p.priority, d.last_sync_attempt_at NULLS FIRST
+        LIMIT p_limit
+        FOR UPDATE OF d SKIP LOCKED
+    ),
+    claimed AS (
+        UPDATE domains d
+        SET last_sync_attempt_at = NOW()
+        FROM due
+        WHERE d.id = due.id
+        RETURNING d.id
+    )
+    SELECT due.id, due.domain_name, due.partner_id, due.priority
+    FROM due
+    JOIN claimed ON claimed.id = due.id
+    ORDER BY due.priority;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================
+-- Record the outcome of one domain sync
+-- ============================================
+CREATE OR REPLACE FUNCTION record_certificate_sync(p_domain_id UUID, p_error TEXT)
+RETURNS VOID AS $$
+BEGIN
+    IF p_error IS NULL THEN
+        UPDATE domains
+        SET last_synced_at = NOW(), last_sync_attempt_at = NOW(),
+            last_sync_error = NULL, sync_failures = 0
+        WHERE id = p_domain_id;
+    ELSE
+        UPDATE domains
+        SET last_sync_attempt_at = NOW(), last_sync_error = p_error,
+            sync_failures = sync_failures + 1
+        WHERE id = p_domain_id;
+    END IF;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Verify
+SELECT COUNT(*) AS active_domains,
+       COUNT(last_synced_at) AS synced,
+       COUNT(*) FILTER (WHERE sync_failures > 0) AS failing
+FROM domains WHERE status = 'active';
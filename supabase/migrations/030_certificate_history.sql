@@ -0,0 +1,164 @@
+-- ============================================
+-- KICA CaaS Portal - Certificate Issuance History
+-- ============================================
+-- The certificate sync used to upsert on domain_id, overwriting the
+-- previous certificate on every renewal. Every distinct certificate
+-- (certificate_id / serial_number) is now its own row:
+--
+--   is_latest   the certificate GETLASTORDER last reported for
+--               the domain (at most one per domain)
+--
+-- record_certificate stores a sync result: it updates the row for
+-- the same certificate (or the same order still waiting for its
+-- certificate) or inserts a new one, and moves is_latest to it.
+-- ============================================
+
+ALTER TABLE certificates ADD COLUMN IF NOT EXISTS is_latest BOOLEAN NOT NULL DEFAULT FALSE;
+
+-- One row per domain is no longer enforced
+ALTER TABLE certificates DROP CONSTRAINT IF EXISTS certificates_domain_id_key;
+DROP INDEX IF EXISTS certificates_domain_id_key;
+
+-- Backfill: the newest certificate of each domain is the latest
+UPDATE certificates c
+SET is_latest = TRUE
+FROM (
+    SELECT DISTINCT ON (domain_id) id
+    FROM certificates
+    WHERE domain_id IS NOT NULL
+    ORDER BY domain_id, valid_not_before DESC NULLS LAST, synced_at DESC NULLS LAST
+) latest
+WHERE c.id = latest.id;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_certificates_latest
+    ON certificates(domain_id) WHERE is_latest;
+
+CREATE INDEX IF NOT EXISTS idx_certificates_domain_history
+    ON certificates(domain_id, valid_not_before);
+
+-- ============================================
+-- Store one GETLASTORDER result for a domain
+-- ============================================
+CREATE OR REPLACE FUNCTION record_certificate(
+    p_domain_id UUID,
+    p_order_number TEXT,
+    p_certificate_id TEXT,
+    p_serial_number TEXT,
+    p_valid_not_before TIMESTAMPTZ,
+    p_valid_not_after TIMESTAMPTZ,
+    p_status_code INTEGER,
+    p_status_desc TEXT
+)
+RETURNS UUID AS $$
+DECLARE
+    v_id UUID;
+BEGIN
+    -- Serialize syncs of the same domain
+    PERFORM 1 FROM domains WHERE id = p_domain_id FOR UPDATE;
+
+    IF p_certificate_id IS NOT NULL THEN
+        SELECT id INTO v_id FROM certificates WHERE certificate_id = p_certificate_id;
+    END IF;
+
+    IF v_id IS NULL AND p_serial_number IS NOT NULL THEN
+        SELECT id INTO v_id FROM certificates WHERE serial_number = p_serial_number;
+    END IF;
+
+    -- Same order seen before its certificate was issued
+    IF v_id IS NULL AND p_order_number IS NOT NULL THEN
+        SELECT id INTO v_id FROM certificates
+        WHERE domain_id = p_domain_id
+          AND order_number = p_order_number
+          AND certificate_id IS NULL
+          AND serial_number IS NULL
+        LIMIT 1;
+    END IF;
+
+    UPDATE certificates SET is_latest = FALSE
+    WHERE domain_id = p_domain_id AND is_latest AND id IS DISTINCT FROM v_id;
+
+    IF v_id IS NULL THEN
+        INSERT INTO certificates (
+            domain_id, order_number, certificate_id, serial_number,
+            valid_not_before, valid_not_after, status_code, status_desc,
+            is_latest, synced_at
+        ) VALUES (
+            p_domain_id, p_order_number, p_certificate_id, p_serial_number,
+            p_valid_not_before, p_valid_not_after, p_status_code, p_status_desc,
+            TRUE, NOW()
+        )
+        RETURNING id INTO v_id;
+    ELSE
+        UPDATE certificates
+        SET order_number = COALESCE(p_order_number, order_number),
+            certificate_id = COALESCE(p_certificate_id, certificate_id),
+            serial_number = COALESCE(p_serial_number, serial_number),
+            valid_not_before = p_valid_not_before,
+            valid_not_after = p_valid_not_after,
+            status_code = p_status_code,
+            status_desc = p_status_desc,
+            is_latest = TRUE,
+            synced_at = NOW()
+        WHERE id = v_id;
+    END IF;
+
+    RETURN v_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================
+-- Sync claims look at the latest certificate only
+-- ============================================
+CREATE OR REPLACE FUNCTION claim_certificate_sync_batch(
+    p_limit INTEGER DEFAULT 100,
+    p_urgent_days INTEGER DEFAULT 30,
+    p_urgent_interval_seconds INTEGER DEFAULT 3600,
+    p_routine_interval_seconds INTEGER DEFAULT 86400
+)
+RETURNS TABLE(domain_id UUID, domain_name TEXT, partner_id UUID, priority INTEGER) AS $$
+BEGIN
+    RETURN QUERY
+    WITH due AS (
+        SELECT d.id, d.domain_name, cl.partner_id, p.priority
+        FROM domains d
+        JOIN acme_accounts a ON a.id = d.acme_account_id
+        JOIN clients cl ON cl.id = a.client_id
+        LEFT JOIN certificates c ON c.domain_id = d.id AND c.is_latest
+        CROSS JOIN LATERAL (
+            SELECT CASE
+                WHEN c.id IS NULL THEN 0
+                WHEN c.status_code IS DISTINCT FROM 6
+                  OR c.valid_not_after < NOW() + make_interval(days => p_urgent_days) THEN 1
+                ELSE 2
+            END AS priority
+        ) p
+        WHERE d.status = 'active'
+          AND a.acme_account_id IS NOT NULL
+          AND (
+            d.last_sync_attempt_at IS NULL
+            OR d.last_sync_attempt_at < NOW() - make_interval(secs =>
+                CASE WHEN p.priority < 2 THEN p_urgent_interval_seconds ELSE p_routine_interval_seconds END)
+          )
+        ORDER BY p.priority, d.last_sync_attempt_at NULLS FIRST
+        LIMIT p_limit
+        FOR UPDATE OF d SKIP LOCKED
+    ),
+    claimed AS (
+        UPDATE domains d
+        SET last_sync_attempt_at = NOW()
+        FROM due
+        WHERE d.id = due.id
+        RETURNING d.id
+    )
+    SELECT due.id, due.domain_name, due.partner_id, due.priority
+    FROM due
+    JOIN claimed ON claimed.id = due.id
+    ORDER BY due.priority;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Verify
+SELECT COUNT(*) AS certificates,
+       COUNT(*) FILTER (WHERE is_latest) AS latest,
+       COUNT(DISTINCT domain_id) AS domains
+FROM certificates;
@@ -0,0 +1,42 @@
+-- ============================================
+-- KICA CaaS Portal - Expiry Reminders
+-- ============================================
+-- The expiry reminder cron emails partners (notify_on_expiry) when a
+-- certificate or a subscription gets close to its expiry date, once
+-- per reminder offset (EXPIRY_REMINDER_DAYS, default 30 and 7 days).
+--
+--   expiry_reminders   one row per reminder sent; the unique key
+--                      stops the same reminder from going out twice.
+--                      expires_at is part of the key, so a renewed
+--                      subscription starts its reminders over.
+--
+-- Partners can snooze certificate reminders for a domain:
+--   domains.expiry_reminders_snoozed_until
+-- ============================================
+
+ALTER TABLE domains ADD COLUMN IF NOT EXISTS expiry_reminders_snoozed_until TIMESTAMPTZ;
+
+CREATE TABLE IF NOT EXISTS expiry_reminders (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    partner_id UUID REFERENCES partners(id) ON DELETE CASCADE NOT NULL,
+    kind TEXT NOT NULL CHECK (kind IN ('certificate', 'subscription')),
+    -- certificates.id or acme_accounts.id
+    target_id UUID NOT NULL,
+    domain_id UUID REFERENCES domains(id) ON DELETE CASCADE,
+    offset_days INTEGER NOT NULL,
+    expires_at TIMESTAMPTZ NOT NULL,
+    email_id TEXT,
+    sent_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE (kind, target_id, offset_days, expires_at)
+);
+
+CREATE INDEX IF NOT EXISTS idx_expiry_reminders_partner ON expiry_reminders(partner_id, sent_at DESC);
+
+ALTER TABLE expiry_reminders ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Partners can view own expiry reminders" ON expiry_reminders;
+CREATE POLICY "Partners can view own expiry reminders" ON expiry_reminders
+    FOR SELECT USING (partner_id = auth.uid());
+
+-- Verify
+SELECT COUNT(*) AS reminders_sent FROM expiry_reminders;
@@ -0,0 +1,39 @@
+-- ============================================
+-- KICA CaaS Portal - EAB HMAC Key Encryption
+-- ============================================
+-- EAB HMAC keys are stored envelope-encrypted (see secret-box.ts):
+--
+--   eab_hmac_key_encrypted   e1:<wrapped data key>:<iv>:<tag>:<ciphertext>
+--   eab_hmac_key             legacy plaintext, cleared once encrypted
+--
+-- Existing plaintext keys are encrypted by the application
+-- (POST /api/admin/eab-keys, needs SECRET_BOX_KEY), which SQL
+-- can't do. Until then the plaintext is still served on reveal.
+--
+-- eab_reveal_tokens are one-time links sent by email instead of
+-- the key itself. Only the SHA-256 of the token is stored.
+-- ============================================
+
+ALTER TABLE acme_accounts ADD COLUMN IF NOT EXISTS eab_hmac_key_encrypted TEXT;
+
+COMMENT ON COLUMN acme_accounts.eab_hmac_key IS 'Legacy plaintext EAB HMAC key; replaced by eab_hmac_key_encrypted';
+
+CREATE TABLE IF NOT EXISTS eab_reveal_tokens (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    acme_account_id UUID REFERENCES acme_accounts(id) ON DELETE CASCADE NOT NULL,
+    partner_id UUID REFERENCES partners(id) ON DELETE CASCADE NOT NULL,
+    token_hash TEXT UNIQUE NOT NULL,
+    expires_at TIMESTAMPTZ NOT NULL,
+    used_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_eab_reveal_tokens_account ON eab_reveal_tokens(acme_account_id);
+
+-- Service role only
+ALTER TABLE eab_reveal_tokens ENABLE ROW LEVEL SECURITY;
+
+-- Verify
+SELECT COUNT(*) FILTER (WHERE eab_hmac_key IS NOT NULL) AS plaintext_keys,
+       COUNT(*) FILTER (WHERE eab_hmac_key_encrypted IS NOT NULL) AS encrypted_keys
+FROM acme_accounts;
@@ -0,0 +1,123 @@
+-- ============================================
+-- KICA CaaS Portal - Subscription Lifecycle
+-- ============================================
+-- acme_accounts.status only moves along the transitions defined in
+-- src/lib/subscription-lifecycle.ts (keep both in sync):
+--
+--   pending_start  → active, suspended, terminated
+--   active         → inactive, suspended, expired, terminated
+--   inactive       → active, suspended, terminated
+--   suspended      → active, inactive, terminated
+--   expired        → active, inactive, suspended, terminated
+--   terminated     → (final)
+--
+-- Any other status change is rejected by a trigger.
+-- Lapsed active subscriptions are expired by /api/cron/expire-subscriptions
+-- once SUBSCRIPTION_GRACE_DAYS have passed since end_date. A suspended
+-- account never expires: renewal would bring it back to active while the
+-- CA still has it suspended, so unsuspending is the only way back.
+--
+-- expire_subscription() expires an account together with its active
+-- domains in one transaction, with the audit log entries, so an account
+-- can't end up expired with active domains that no later run picks up.
+-- ============================================
+
+CREATE OR REPLACE FUNCTION subscription_transition_allowed(p_from TEXT, p_to TEXT)
+RETURNS BOOLEAN AS $$
+    SELECT CASE p_from
+        WHEN 'pending_start' THEN p_to IN ('active', 'suspended', 'terminated')
+        WHEN 'active' THEN p_to IN ('inactive', 'suspended', 'expired', 'terminated')
+        WHEN 'inactive' THEN p_to IN ('active', 'suspended', 'terminated')
+        WHEN 'suspended' THEN p_to IN ('active', 'inactive', 'terminated')
+        WHEN 'expired' THEN p_to IN ('active', 'inactive', 'suspended', 'terminated')
+        ELSE FALSE
+    END;
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION enforce_subscription_transition()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NOT subscription_transition_allowed(OLD.status, NEW.status) THEN
+        RAISE EXCEPTION 'Subscription % cannot go from % to %', OLD.id, OLD.status, NEW.status
+            USING ERRCODE = 'check_violation';
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS acme_accounts_status_transition ON acme_accounts;
+CREATE TRIGGER acme_accounts_status_transition
+    BEFORE UPDATE OF status ON acme_accounts
+    FOR EACH ROW
+    WHEN (OLD.status IS DISTINCT FROM NEW.status)
+    EXECUTE FUNCTION enforce_subscription_transition();
+
+-- Lapsed subscription lookup for the expiry job
+CREATE INDEX IF NOT EXISTS idx_acme_accounts_lapsing
+ON acme_accounts(end_date)
+WHERE status = 'active';
+
+-- Expire a lapsed subscription and its domains. Returns the number of
+-- domains expired, or NULL when the account was no longer active or no
+-- longer past the cutoff (nothing changed).
+CREATE OR REPLACE FUNCTION expire_subscription(
+    p_account_id UUID,
+    p_cutoff TIMESTAMPTZ,
+    p_grace_days INTEGER
+)
+RETURNS INTEGER AS $$
+DECLARE
+    v_end_date TIMESTAMPTZ;
+    v_domains INTEGER;
+BEGIN
+    UPDATE acme_accounts
+    SET status = 'expired'
+    WHERE id = p_account_id
+      AND status = 'active'
+      AND end_date < p_cutoff
+    RETURNING end_date INTO v_end_date;
+
+    IF NOT FOUND THEN
+        RETURN NULL;
+    END IF;
+
+    INSERT INTO audit_logs (actor_id, action, target_type, target_id, details)
+    VALUES (NULL, 'subscription_expired', 'acme_account', p_account_id, jsonb_build_object(
+        'previous_status', 'active',
+        'new_status', 'expired',
+        'end_date', v_end_date,
+        'grace_days', p_grace_days
+    ));
+
+    WITH expired AS (
+        UPDATE domains
+        SET status = 'expired'
+        WHERE acme_account_id = p_account_id
+          AND status = 'active'
+        RETURNING id, domain_name
+    ),
+    logged AS (
+        INSERT INTO audit_logs (actor_id, action, target_type, target_id, details)
+        SELECT NULL, 'domain_expired', 'domain', e.id, jsonb_build_object(
+            'domain_name', e.domain_name,
+            'acme_account_id', p_account_id,
+            'previous_status', 'active',
+            'new_status', 'expired'
+        )
+        FROM expired e
+        RETURNING 1
+    )
+    SELECT COUNT(*) INTO v_domains FROM logged;
+
+    RETURN v_domains;
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE EXECUTE ON FUNCTION expire_subscription(UUID, TIMESTAMPTZ, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION expire_subscription(UUID, TIMESTAMPTZ, INTEGER) TO service_role;
+
+-- Verify
+SELECT status, COUNT(*) AS accounts,
+       COUNT(*) FILTER (WHERE end_date < NOW()) AS past_end_date
+FROM acme_accounts
+GROUP BY status;
@@ -0,0 +1,67 @@
+-- ============================================
+-- KICA CaaS Portal - Organization Anchors (OV Pre-Validation)
+-- ============================================
+-- An organization anchor is the Sectigo order that pre-validated a
+-- client's organization. OV subscriptions are registered against it
+-- (ovAnchorOrderNumber) and can only be created while the client has
+-- a valid anchor:
+--
+--   status       pending → validated | rejected, validated → revoked
+--                (partners register, KICA staff confirm the result)
+--   is_active    the client's current anchor; set when an anchor is
+--                validated, at most one per client
+--   expires_at   end of the organization validation; OV subscriptions
+--                are blocked once it has passed
+--
+-- acme_accounts.ov_anchor_id records the anchor an OV subscription was
+-- created with.
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS organization_anchors (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    client_id UUID REFERENCES clients(id) ON DELETE CASCADE NOT NULL,
+    ov_anchor_order_number TEXT NOT NULL,
+    is_active BOOLEAN DEFAULT FALSE,
+    expires_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE organization_anchors ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'validated', 'rejected', 'revoked'));
+ALTER TABLE organization_anchors ADD COLUMN IF NOT EXISTS validated_at TIMESTAMPTZ;
+ALTER TABLE organization_anchors ADD COLUMN IF NOT EXISTS notes TEXT;
+ALTER TABLE organization_anchors ADD COLUMN IF NOT EXISTS status_reason TEXT;
+ALTER TABLE organization_anchors ADD COLUMN IF NOT EXISTS created_by UUID REFERENCES partners(id) ON DELETE SET NULL;
+ALTER TABLE organization_anchors ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ DEFAULT NOW();
+
+-- Anchors that were active before statuses existed were already in use
+UPDATE organization_anchors
+SET status = 'validated', validated_at = COALESCE(validated_at, created_at)
+WHERE is_active AND status = 'pending';
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_organization_anchors_order
+ON organization_anchors(client_id, ov_anchor_order_number);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_organization_anchors_active
+ON organization_anchors(client_id)
+WHERE is_active;
+
+CREATE INDEX IF NOT EXISTS idx_organization_anchors_status
+ON organization_anchors(status, created_at);
+
+ALTER TABLE acme_accounts DROP CONSTRAINT IF EXISTS acme_accounts_ov_anchor_id_fkey;
+ALTER TABLE acme_accounts ADD CONSTRAINT acme_accounts_ov_anchor_id_fkey
+FOREIGN KEY (ov_anchor_id) REFERENCES organization_anchors(id) ON DELETE SET NULL;
+
+-- Writes go through the API (service role)
+ALTER TABLE organization_anchors ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Partners can view own organization anchors" ON organization_anchors;
+CREATE POLICY "Partners can view own organization anchors" ON organization_anchors
+    FOR SELECT USING (client_id IN (SELECT id FROM clients WHERE partner_id = auth.uid()));
+
+-- Verify
+SELECT status, is_active, COUNT(*) AS anchors,
+       COUNT(*) FILTER (WHERE expires_at < NOW()) AS past_expiry
+FROM organization_anchors
+GROUP BY status, is_active;
@@ -0,0 +1,47 @@
+-- ============================================
+-- KICA CaaS Portal - CA Provider per Partner
+-- ============================================
+-- The CA a partner's NEW accounts are created with is a partner setting
+-- managed by KICA staff, not something the partner picks per request:
+--
+-- - partners.ca_provider  copied to acme_accounts.ca_provider (027)
+--
+-- Like is_admin (020), ca_provider and sectigo_client (026) decide what
+-- a partner is billed and bound to, so only the service role (or a
+-- direct database session) may change them.
+-- ============================================
+
+ALTER TABLE partners ADD COLUMN IF NOT EXISTS ca_provider TEXT NOT NULL DEFAULT 'sectigo';
+
+ALTER TABLE partners DROP CONSTRAINT IF EXISTS partners_ca_provider_check;
+ALTER TABLE partners ADD CONSTRAINT partners_ca_provider_check
+    CHECK (ca_provider IN ('sectigo', 'acme', 'local'));
+
+REVOKE UPDATE (ca_provider, sectigo_client) ON partners FROM anon, authenticated;
+
+-- Replaces the is_admin-only guard from migration 020
+CREATE OR REPLACE FUNCTION guard_partner_admin_flag()
+RETURNS TRIGGER AS $$
+BEGIN
+    -- API sessions run as anon/authenticated; service role and SQL sessions don't
+    IF current_user IN ('anon', 'authenticated') AND (
+        (TG_OP = 'INSERT' AND (
+            COALESCE(NEW.is_admin, FALSE)
+            OR NEW.ca_provider IS DISTINCT FROM 'sectigo'
+            OR NEW.sectigo_client IS NOT NULL
+        ))
+        OR (TG_OP = 'UPDATE' AND (
+            NEW.is_admin IS DISTINCT FROM OLD.is_admin
+            OR NEW.ca_provider IS DISTINCT FROM OLD.ca_provider
+            OR NEW.sectigo_client IS DISTINCT FROM OLD.sectigo_client
+        ))
+    ) THEN
+        RAISE EXCEPTION 'partners.is_admin, ca_provider and sectigo_client can only be changed by the service role'
+            USING ERRCODE = 'insufficient_privilege';
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Verify
+SELECT ca_provider, COUNT(*) FROM partners GROUP BY ca_provider;
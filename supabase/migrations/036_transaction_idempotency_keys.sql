@@ -0,0 +1,23 @@
+-- ============================================
+-- KICA CaaS Portal - Idempotency Keys per Transaction
+-- ============================================
+-- Every billable call now runs under the transaction it bills
+-- (src/lib/idempotency.ts):
+--
+--   add_domain:<transaction_id>  /api/domains/add and each provisioning item
+--   extend:<transaction_id>      renewal, keyed on its reserved transaction
+--
+-- A repeated renewal confirm reuses the account's pending `extend`
+-- transaction; at most one can be in flight per account, so concurrent
+-- confirms can't reserve two.
+-- ============================================
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_transactions_one_pending_extend
+ON transactions(acme_account_id)
+WHERE type = 'extend' AND status IN ('pending', 'pending_api');
+
+-- Verify
+SELECT acme_account_id, COUNT(*) AS pending_extends
+FROM transactions
+WHERE type = 'extend' AND status IN ('pending', 'pending_api')
+GROUP BY acme_account_id;
@@ -0,0 +1,153 @@
+-- ============================================
+-- KICA CaaS Portal - Atomic Stuck Renewal Settlement
+-- ============================================
+-- settle_stuck_transaction (migration 028) now also moves the account's
+-- end date when it commits an `extend`, in the same DB transaction, so
+-- a renewal can't end up settled as success without its new term:
+--
+--   new end date = GREATEST(end_date, NOW()) + renewal_years
+--   expired account → active again, with its expired domains
+--
+-- The term is kept on the transaction (transactions.renewal_years) when
+-- the renewal is reserved, so settling doesn't depend on the Sectigo
+-- call journal.
+--
+-- A Sectigo renewal with no journal evidence either way is escalated to
+-- reconciliation (kind 'unsettled_extend') instead of being rolled back;
+-- an admin settles it from the reconciliation page.
+-- ============================================
+
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS renewal_years SMALLINT;
+
+-- Renewals reserved before this migration carry the term in their description
+UPDATE transactions
+SET renewal_years = substring(description FROM 'Subscription renewal: (\d+) year')::SMALLINT
+WHERE type = 'extend'
+  AND renewal_years IS NULL
+  AND description ~ 'Subscription renewal: \d+ year';
+
+ALTER TABLE reconciliation_discrepancies DROP CONSTRAINT IF EXISTS reconciliation_discrepancies_kind_check;
+ALTER TABLE reconciliation_discrepancies ADD CONSTRAINT reconciliation_discrepancies_kind_check
+    CHECK (kind IN ('missing_local', 'missing_upstream', 'amount_mismatch', 'type_mismatch', 'unsettled_extend'));
+
+CREATE OR REPLACE FUNCTION settle_stuck_transaction(
+    p_transaction_id UUID,
+    p_success BOOLEAN,
+    p_order_number TEXT,
+    p_reason TEXT
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+    v_tx transactions%ROWTYPE;
+    v_item provisioning_items%ROWTYPE;
+    v_account acme_accounts%ROWTYPE;
+    v_new_end_date TIMESTAMPTZ;
+    v_total INTEGER;
+    v_committed INTEGER;
+    v_settled INTEGER;
+BEGIN
+    SELECT * INTO v_tx FROM transactions WHERE id = p_transaction_id FOR UPDATE;
+
+    IF NOT FOUND OR v_tx.status NOT IN ('pending', 'pending_api') THEN
+        RETURN FALSE;
+    END IF;
+
+    SELECT * INTO v_item FROM provisioning_items
+    WHERE transaction_id = p_transaction_id
+      AND step NOT IN ('committed', 'rolled_back')
+    FOR UPDATE;
+
+    IF FOUND THEN
+        IF p_success THEN
+            UPDATE provisioning_items
+            SET step = 'executed', order_number = COALESCE(p_order_number, order_number)
+            WHERE id = v_item.id;
+
+            PERFORM commit_provisioning_item(v_item.id);
+        ELSE
+            PERFORM rollback_provisioning_item(v_item.id, p_reason);
+        END IF;
+
+        -- Close the job once every item is settled
+        SELECT COUNT(*),
+               COUNT(*) FILTER (WHERE step = 'committed'),
+               COUNT(*) FILTER (WHERE step IN ('committed', 'rolled_back'))
+        INTO v_total, v_committed, v_settled
+        FROM provisioning_items WHERE job_id = v_item.job_id;
+
+        IF v_settled = v_total THEN
+            UPDATE provisioning_jobs
+            SET status = CASE
+                    WHEN v_committed = v_total THEN 'completed'
+                    WHEN v_committed > 0 THEN 'partial'
+                    ELSE 'failed'
+                END,
+                completed_at = NOW()
+            WHERE id = v_item.job_id;
+        END IF;
+
+        RETURN TRUE;
+    END IF;
+
+    IF p_success THEN
+        IF v_tx.type = 'extend' THEN
+            IF v_tx.renewal_years IS NULL THEN
+                RAISE EXCEPTION 'Renewal % has no term to apply', p_transaction_id;
+            END IF;
+
+            SELECT * INTO v_account FROM acme_accounts WHERE id = v_tx.acme_account_id FOR UPDATE;
+            v_new_end_date := GREATEST(COALESCE(v_account.end_date, NOW()), NOW())
+                + make_interval(years => v_tx.renewal_years);
+
+            UPDATE acme_accounts
+            SET start_date = COALESCE(start_date, NOW()),
+                end_date = v_new_end_date,
+                status = CASE WHEN status = 'expired' THEN 'active' ELSE status END
+            WHERE id = v_account.id;
+
+            -- Domains that lapsed with the subscription are live again
+            IF v_account.status = 'expired' THEN
+                UPDATE domains SET status = 'active'
+                WHERE acme_account_id = v_account.id AND status = 'expired';
+
+                INSERT INTO audit_logs (actor_id, action, target_type, target_id, details)
+                VALUES (NULL, 'account_reactivated', 'acme_account', v_account.id, jsonb_build_object(
+                    'previous_status', 'expired',
+                    'new_status', 'active',
+                    'reason', 'Subscription renewed',
+                    'previous_end_date', v_account.end_date,
+                    'new_end_date', v_new_end_date
+                ));
+            END IF;
+        END IF;
+
+        UPDATE transactions
+        SET status = 'success', sectigo_order_number = COALESCE(p_order_number, sectigo_order_number)
+        WHERE id = p_transaction_id;
+
+        IF v_tx.domain_id IS NOT NULL THEN
+            UPDATE domains
+            SET status = 'active',
+                sectigo_order_number = COALESCE(p_order_number, sectigo_order_number),
+                order_number = COALESCE(p_order_number, order_number)
+            WHERE id = v_tx.domain_id AND status = 'pending';
+        END IF;
+    ELSE
+        UPDATE transactions
+        SET status = 'failed', description = 'Failed: ' || COALESCE(p_reason, 'Unknown error')
+        WHERE id = p_transaction_id;
+
+        IF v_tx.domain_id IS NOT NULL THEN
+            UPDATE domains SET status = 'failed' WHERE id = v_tx.domain_id AND status = 'pending';
+        END IF;
+    END IF;
+
+    RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Verify
+SELECT type, status, COUNT(*) FILTER (WHERE renewal_years IS NULL) AS without_term, COUNT(*)
+FROM transactions
+WHERE type = 'extend' AND status IN ('pending', 'pending_api')
+GROUP BY type, status;
@@ -0,0 +1,26 @@
+-- ============================================
+-- KICA CaaS Portal - Drop the Generic ACME CA Provider
+-- ============================================
+-- The generic 'acme' adapter (027) never spoke ACME: it could not register
+-- accounts and reported add/remove/extend as done without contacting a
+-- CA. It is removed until a real RFC 8555 client with EAB exists, so the
+-- only CA providers are:
+--
+--   sectigo - Sectigo CaaS
+--   local   - in-memory stand-in for development and tests
+--
+-- Fails if an account or partner still uses 'acme'; move those first.
+-- ============================================
+
+ALTER TABLE acme_accounts DROP CONSTRAINT IF EXISTS acme_accounts_ca_provider_check;
+ALTER TABLE acme_accounts ADD CONSTRAINT acme_accounts_ca_provider_check
+    CHECK (ca_provider IN ('sectigo', 'local'));
+
+ALTER TABLE partners DROP CONSTRAINT IF EXISTS partners_ca_provider_check;
+ALTER TABLE partners ADD CONSTRAINT partners_ca_provider_check
+    CHECK (ca_provider IN ('sectigo', 'local'));
+
+-- Verify
+SELECT 'acme_accounts' AS source, ca_provider, COUNT(*) FROM acme_accounts GROUP BY ca_provider
+UNION ALL
+SELECT 'partners', ca_provider, COUNT(*) FROM partners GROUP BY ca_provider;
@@ -0,0 +1,43 @@
+-- ============================================
+-- KICA CaaS Portal - Guard acme_accounts.ca_provider
+-- ============================================
+-- acme_accounts.ca_provider (027) picks the CA every later call for the
+-- account goes to. It is copied from the partner's ca_provider (035) when
+-- the account is created and must not change afterwards, but "Partners can
+-- update own acme_accounts" covers the whole row.
+--
+-- API sessions (anon/authenticated) may only insert an account with their
+-- partner's ca_provider and may never change it; the service role and
+-- direct database sessions are not restricted.
+-- ============================================
+
+REVOKE UPDATE (ca_provider) ON acme_accounts FROM anon, authenticated;
+
+CREATE OR REPLACE FUNCTION guard_account_ca_binding()
+RETURNS TRIGGER AS $$
+BEGIN
+    -- API sessions run as anon/authenticated; service role and SQL sessions don't
+    IF current_user IN ('anon', 'authenticated') AND (
+        (TG_OP = 'INSERT' AND NEW.ca_provider IS DISTINCT FROM (
+            SELECT p.ca_provider
+            FROM clients c
+            JOIN partners p ON p.id = c.partner_id
+            WHERE c.id = NEW.client_id
+        ))
+        OR (TG_OP = 'UPDATE' AND NEW.ca_provider IS DISTINCT FROM OLD.ca_provider)
+    ) THEN
+        RAISE EXCEPTION 'acme_accounts.ca_provider can only be set by the service role'
+            USING ERRCODE = 'insufficient_privilege';
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS acme_accounts_ca_binding_guard ON acme_accounts;
+CREATE TRIGGER acme_accounts_ca_binding_guard
+    BEFORE INSERT OR UPDATE ON acme_accounts
+    FOR EACH ROW
+    EXECUTE FUNCTION guard_account_ca_binding();
+
+-- Verify
+SELECT tgname FROM pg_trigger WHERE tgname = 'acme_accounts_ca_binding_guard';
@@ -0,0 +1,47 @@
+-- ============================================
+-- KICA CaaS Portal - Guard acme_accounts.sectigo_client
+-- ============================================
+-- acme_accounts.sectigo_client (026) names the reseller account an ACME
+-- account was registered with; it only exists there, so the binding is
+-- as fixed as ca_provider. Replaces the ca_provider-only guard from
+-- migration 039.
+--
+-- API sessions may only insert an account bound to their partner's
+-- Sectigo client (NULL and 'default' are the same client; non-Sectigo
+-- accounts have none) and may never change it.
+-- ============================================
+
+REVOKE UPDATE (sectigo_client) ON acme_accounts FROM anon, authenticated;
+
+CREATE OR REPLACE FUNCTION guard_account_ca_binding()
+RETURNS TRIGGER AS $$
+BEGIN
+    -- API sessions run as anon/authenticated; service role and SQL sessions don't
+    IF current_user IN ('anon', 'authenticated') AND (
+        (TG_OP = 'INSERT' AND NOT EXISTS (
+            SELECT 1
+            FROM clients c
+            JOIN partners p ON p.id = c.partner_id
+            WHERE c.id = NEW.client_id
+              AND p.ca_provider = NEW.ca_provider
+              AND CASE WHEN NEW.ca_provider = 'sectigo'
+                    THEN COALESCE(NEW.sectigo_client, 'default') = COALESCE(p.sectigo_client, 'default')
+                    ELSE NEW.sectigo_client IS NULL
+                  END
+        ))
+        OR (TG_OP = 'UPDATE' AND (
+            NEW.ca_provider IS DISTINCT FROM OLD.ca_provider
+            OR NEW.sectigo_client IS DISTINCT FROM OLD.sectigo_client
+        ))
+    ) THEN
+        RAISE EXCEPTION 'acme_accounts.ca_provider and sectigo_client can only be set by the service role'
+            USING ERRCODE = 'insufficient_privilege';
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Verify
+SELECT COALESCE(sectigo_client, 'default') AS sectigo_client, COUNT(*)
+FROM acme_accounts
+GROUP BY 1;
@@ -0,0 +1,19 @@
+-- ============================================
+-- KICA CaaS Portal - No Partner Inserts into domains/transactions
+-- ============================================
+-- schema.sql let API sessions insert their own domains and transactions
+-- directly, so a partner could create 'success' transactions or active
+-- domains without going through provisioning, renewal or the CA. Both
+-- are now written by API routes with the service-role client only
+-- (provisioning, migration 018; renewal and removal); partners keep
+-- read access.
+-- ============================================
+
+DROP POLICY IF EXISTS "Partners can insert own domains" ON domains;
+DROP POLICY IF EXISTS "Partners can insert own transactions" ON transactions;
+
+-- Verify
+SELECT tablename, policyname, cmd
+FROM pg_policies
+WHERE tablename IN ('domains', 'transactions')
+ORDER BY tablename, policyname;
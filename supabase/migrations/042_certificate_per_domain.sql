@@ -0,0 +1,97 @@
+-- ============================================
+-- KICA CaaS Portal - Certificate Rows per Domain
+-- ============================================
+-- A SAN certificate covers several domains, and GETLASTORDER reports the
+-- same certificate_id / serial_number for each of them. record_certificate
+-- (030) looked those up across all domains, so syncing the second domain
+-- moved the first domain's row over to it.
+--
+-- Each domain now keeps its own row for a shared certificate:
+-- certificate_id and serial_number are unique per domain, and
+-- record_certificate only matches rows of p_domain_id.
+-- ============================================
+
+ALTER TABLE certificates DROP CONSTRAINT IF EXISTS certificates_certificate_id_key;
+ALTER TABLE certificates DROP CONSTRAINT IF EXISTS certificates_serial_number_key;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_certificates_domain_certificate_id
+    ON certificates(domain_id, certificate_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_certificates_domain_serial_number
+    ON certificates(domain_id, serial_number);
+
+CREATE OR REPLACE FUNCTION record_certificate(
+    p_domain_id UUID,
+    p_order_number TEXT,
+    p_certificate_id TEXT,
+    p_serial_number TEXT,
+    p_valid_not_before TIMESTAMPTZ,
+    p_valid_not_after TIMESTAMPTZ,
+    p_status_code INTEGER,
+    p_status_desc TEXT
+)
+RETURNS UUID AS $$
+DECLARE
+    v_id UUID;
+BEGIN
+    -- Serialize syncs of the same domain
+    PERFORM 1 FROM domains WHERE id = p_domain_id FOR UPDATE;
+
+    IF p_certificate_id IS NOT NULL THEN
+        SELECT id INTO v_id FROM certificates
+        WHERE domain_id = p_domain_id AND certificate_id = p_certificate_id;
+    END IF;
+
+    IF v_id IS NULL AND p_serial_number IS NOT NULL THEN
+        SELECT id INTO v_id FROM certificates
+        WHERE domain_id = p_domain_id AND serial_number = p_serial_number;
+    END IF;
+
+    -- Same order seen before its certificate was issued
+    IF v_id IS NULL AND p_order_number IS NOT NULL THEN
+        SELECT id INTO v_id FROM certificates
+        WHERE domain_id = p_domain_id
+          AND order_number = p_order_number
+          AND certificate_id IS NULL
+          AND serial_number IS NULL
+        LIMIT 1;
+    END IF;
+
+    UPDATE certificates SET is_latest = FALSE
+    WHERE domain_id = p_domain_id AND is_latest AND id IS DISTINCT FROM v_id;
+
+    IF v_id IS NULL THEN
+        INSERT INTO certificates (
+            domain_id, order_number, certificate_id, serial_number,
+            valid_not_before, valid_not_after, status_code, status_desc,
+            is_latest, synced_at
+        ) VALUES (
+            p_domain_id, p_order_number, p_certificate_id, p_serial_number,
+            p_valid_not_before, p_valid_not_after, p_status_code, p_status_desc,
+            TRUE, NOW()
+        )
+        RETURNING id INTO v_id;
+    ELSE
+        UPDATE certificates
+        SET order_number = COALESCE(p_order_number, order_number),
+            certificate_id = COALESCE(p_certificate_id, certificate_id),
+            serial_number = COALESCE(p_serial_number, serial_number),
+            valid_not_before = p_valid_not_before,
+            valid_not_after = p_valid_not_after,
+            status_code = p_status_code,
+            status_desc = p_status_desc,
+            is_latest = TRUE,
+            synced_at = NOW()
+        WHERE id = v_id;
+    END IF;
+
+    RETURN v_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Verify
+SELECT certificate_id, COUNT(*) AS domains
+FROM certificates
+WHERE certificate_id IS NOT NULL
+GROUP BY certificate_id
+ORDER BY domains DESC
+LIMIT 10;
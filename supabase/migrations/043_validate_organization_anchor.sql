@@ -0,0 +1,63 @@
+-- ============================================
+-- KICA CaaS Portal - Validate an Organization Anchor Atomically
+-- ============================================
+-- Validating an anchor makes it the client's active anchor (034). The
+-- API used to clear the client's active anchor and then update the new
+-- one in a second request, so a failed or lost update left the client
+-- with no active anchor and OV subscriptions blocked.
+--
+-- validate_organization_anchor does both in one transaction, and only
+-- once the anchor is confirmed to still be in the expected status.
+-- ============================================
+
+-- Returns the validated anchor, or no row when it was no longer in
+-- p_expected_status (nothing changed).
+CREATE OR REPLACE FUNCTION validate_organization_anchor(
+    p_anchor_id UUID,
+    p_expected_status TEXT,
+    p_expires_at TIMESTAMPTZ,
+    p_reason TEXT
+)
+RETURNS SETOF organization_anchors AS $$
+DECLARE
+    v_client_id UUID;
+BEGIN
+    SELECT client_id INTO v_client_id
+    FROM organization_anchors
+    WHERE id = p_anchor_id
+      AND status = p_expected_status
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RETURN;
+    END IF;
+
+    -- At most one active anchor per client (idx_organization_anchors_active)
+    UPDATE organization_anchors
+    SET is_active = FALSE, updated_at = NOW()
+    WHERE client_id = v_client_id
+      AND is_active
+      AND id <> p_anchor_id;
+
+    RETURN QUERY
+    UPDATE organization_anchors
+    SET status = 'validated',
+        status_reason = p_reason,
+        is_active = TRUE,
+        validated_at = NOW(),
+        expires_at = p_expires_at,
+        updated_at = NOW()
+    WHERE id = p_anchor_id
+    RETURNING *;
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE EXECUTE ON FUNCTION validate_organization_anchor(UUID, TEXT, TIMESTAMPTZ, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION validate_organization_anchor(UUID, TEXT, TIMESTAMPTZ, TEXT) TO service_role;
+
+-- Verify
+SELECT client_id, COUNT(*) AS active_anchors
+FROM organization_anchors
+WHERE is_active
+GROUP BY client_id
+HAVING COUNT(*) > 1;
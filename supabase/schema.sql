@@ -48,12 +48,12 @@ CREATE TABLE clients (
 CREATE TABLE acme_accounts (
   id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
   client_id UUID REFERENCES clients(id) ON DELETE CASCADE,
-  ov_anchor_id UUID, -- nullable for DV accounts
+  ov_anchor_id UUID, -- nullable for DV accounts; references organization_anchors (migration 034)
   
   -- Sectigo data
   acme_account_id TEXT,
   eab_key_id TEXT,
-  eab_hmac_key TEXT, -- Should be encrypted in production
+  eab_hmac_key TEXT, -- Legacy plaintext; encrypted into eab_hmac_key_encrypted (migration 032)
   server_url TEXT,
   
   -- Account info
@@ -224,22 +224,10 @@ CREATE POLICY "Partners can view own domains" ON domains
     )
   );
 
-CREATE POLICY "Partners can insert own domains" ON domains
-  FOR INSERT WITH CHECK (
-    acme_account_id IN (
-      SELECT id FROM acme_accounts WHERE client_id IN (
-        SELECT id FROM clients WHERE partner_id = auth.uid()
-      )
-    )
-  );
-
 -- RLS Policies for transactions
 CREATE POLICY "Partners can view own transactions" ON transactions
   FOR SELECT USING (partner_id = auth.uid());
 
-CREATE POLICY "Partners can insert own transactions" ON transactions
-  FOR INSERT WITH CHECK (partner_id = auth.uid());
-
 -- RLS Policies for settlements
 CREATE POLICY "Partners can view own settlements" ON settlements
   FOR SELECT USING (partner_id = auth.uid());